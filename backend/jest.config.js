@@ -18,6 +18,7 @@ module.exports = {
     '!src/index.ts',
     '!src/migrations/**',
     '!src/seeds/**',
+    '!src/evaluation/**',
     '!src/types/**',
     '!src/config/swagger.ts',
   ],
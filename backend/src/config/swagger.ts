@@ -73,6 +73,7 @@ Access tokens expire after 15 minutes. Use the refresh token endpoint to obtain
             limit: { type: 'integer', example: 20 },
             total: { type: 'integer', example: 150 },
             totalPages: { type: 'integer', example: 8 },
+            nextCursor: { type: 'string', nullable: true, description: 'Pass as `cursor` to fetch the next page; null on the last page. Cursor pages omit page, total and totalPages.' },
           },
         },
         ErrorResponse: {
@@ -189,17 +190,30 @@ Access tokens expire after 15 minutes. Use the refresh token endpoint to obtain
             location_area: { type: 'string', example: 'Nyabugogo' },
             location_hint: { type: 'string', example: 'Near the main bus station' },
             lost_date: { type: 'string', format: 'date-time', example: '2026-02-10T14:00:00Z' },
+            lost_window_start: { type: 'string', format: 'date-time', example: '2026-02-10T08:00:00+02:00', description: 'Optional time window; both ends or neither, at most 24h' },
+            lost_window_end: { type: 'string', format: 'date-time', example: '2026-02-10T08:30:00+02:00' },
+            transport_cooperative_id: { type: 'integer', description: 'Cooperative running the vehicle' },
+            route_id: { type: 'integer', description: 'Registered route; fills route_name and cooperative' },
+            route_name: { type: 'string', example: 'Nyabugogo–Kimironko', description: 'Free-text route when not registered' },
+            vehicle_plate: { type: 'string', example: 'RAD 123 A' },
+            stop_sequence: { type: 'array', items: { type: 'string' }, example: ['Nyabugogo', 'Kacyiru'], description: 'Stops travelled; must be on the route when route_id is given' },
             photo_url: { type: 'string', format: 'uri', nullable: true },
             verification_questions: {
               type: 'array',
-              minItems: 3,
-              maxItems: 3,
+              minItems: 2,
+              maxItems: 7,
+              description: 'Each is weighted by question strength (0.5-1.5) when saved',
               items: {
                 type: 'object',
                 required: ['question', 'answer'],
                 properties: {
                   question: { type: 'string', example: 'What is your phone wallpaper?' },
                   answer: { type: 'string', example: 'my dog' },
+                  answer_type: {
+                    type: 'string',
+                    enum: ['TEXT', 'NUMBER', 'DATE', 'COLOUR', 'TOKENS'],
+                    description: 'How claimant answers are compared; defaults to the template type, else TEXT',
+                  },
                 },
               },
             },
@@ -216,14 +230,77 @@ Access tokens expire after 15 minutes. Use the refresh token endpoint to obtain
             location_area: { type: 'string' },
             location_hint: { type: 'string', nullable: true },
             lost_date: { type: 'string', format: 'date-time' },
+            lost_window_start: { type: 'string', format: 'date-time', nullable: true },
+            lost_window_end: { type: 'string', format: 'date-time', nullable: true },
+            route_name: { type: 'string', nullable: true },
+            vehicle_plate: { type: 'string', nullable: true },
+            stop_sequence: { type: 'array', items: { type: 'string' }, nullable: true },
             status: { type: 'string', enum: ['ACTIVE', 'CLAIMED', 'RETURNED', 'EXPIRED'] },
             keywords: { type: 'array', items: { type: 'string' } },
             photo_url: { type: 'string', nullable: true },
+            image_urls: { type: 'array', items: { type: 'string' }, description: 'Uploaded photos; owner only' },
             created_at: { type: 'string', format: 'date-time' },
             updated_at: { type: 'string', format: 'date-time' },
           },
         },
 
+        // ====== Loss Incidents ======
+        CreateLossIncidentRequest: {
+          type: 'object',
+          required: ['title', 'location_area', 'lost_date', 'items'],
+          description: 'One loss with several items. Where and when (and the transport fields of CreateLostItemRequest) are shared by every item.',
+          properties: {
+            title: { type: 'string', example: 'Backpack left on the bus' },
+            description: { type: 'string' },
+            location_area: { type: 'string', example: 'Nyabugogo' },
+            location_hint: { type: 'string' },
+            lost_date: { type: 'string', format: 'date-time', example: '2026-02-10T14:00:00Z' },
+            lost_window_start: { type: 'string', format: 'date-time' },
+            lost_window_end: { type: 'string', format: 'date-time' },
+            vehicle_plate: { type: 'string', example: 'RAD 123 A' },
+            items: {
+              type: 'array',
+              minItems: 2,
+              maxItems: 8,
+              items: {
+                type: 'object',
+                required: ['category', 'title', 'description', 'verification_questions'],
+                properties: {
+                  category: { type: 'string', enum: ['PHONE', 'ID', 'WALLET', 'BAG', 'KEYS', 'OTHER'], example: 'BAG' },
+                  title: { type: 'string', example: 'Grey Nike backpack' },
+                  description: { type: 'string' },
+                  photo_url: { type: 'string', format: 'uri' },
+                  verification_questions: { $ref: '#/components/schemas/CreateLostItemRequest/properties/verification_questions' },
+                },
+              },
+            },
+          },
+        },
+        LossIncident: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer' },
+            title: { type: 'string' },
+            description: { type: 'string', nullable: true },
+            location_area: { type: 'string' },
+            lost_date: { type: 'string', format: 'date-time' },
+            items: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'integer' },
+                  category: { type: 'string' },
+                  title: { type: 'string' },
+                  status: { type: 'string', enum: ['ACTIVE', 'CLAIMED', 'RETURNED', 'EXPIRED'] },
+                  best_match_score: { type: 'number', nullable: true },
+                },
+              },
+            },
+            created_at: { type: 'string', format: 'date-time' },
+          },
+        },
+
         // ====== Found Items ======
         CreateFoundItemRequest: {
           type: 'object',
@@ -235,7 +312,20 @@ Access tokens expire after 15 minutes. Use the refresh token endpoint to obtain
             location_area: { type: 'string', example: 'Nyabugogo' },
             location_hint: { type: 'string', example: 'KBS Bus #205, route Nyabugogo-Kimironko' },
             found_date: { type: 'string', format: 'date-time', example: '2026-02-10T16:30:00Z' },
+            found_window_start: { type: 'string', format: 'date-time', example: '2026-02-10T09:15:00+02:00', description: 'Optional time window; both ends or neither, at most 24h' },
+            found_window_end: { type: 'string', format: 'date-time', example: '2026-02-10T09:45:00+02:00' },
             cooperative_id: { type: 'integer', nullable: true, description: 'For cooperative staff only' },
+            transport_cooperative_id: { type: 'integer', description: 'Defaults to the staff member\'s cooperative' },
+            route_id: { type: 'integer', description: 'Coop staff pick from their cooperative\'s registered routes' },
+            route_name: { type: 'string', example: 'Nyabugogo–Kimironko' },
+            vehicle_plate: { type: 'string', example: 'RAD 123 A', description: 'Coop staff pick from their registered vehicles' },
+            stop_sequence: { type: 'array', items: { type: 'string' } },
+            hidden_attributes: {
+              type: 'object',
+              additionalProperties: { type: 'string', maxLength: 100 },
+              example: { lockscreen: 'family photo at the beach', case_colour: 'red', imei_last4: '4821' },
+              description: 'Facts about the object claimants must state; keys depend on the category. Stored hashed, never returned.',
+            },
           },
         },
         FoundItem: {
@@ -249,6 +339,11 @@ Access tokens expire after 15 minutes. Use the refresh token endpoint to obtain
             description: { type: 'string' },
             location_area: { type: 'string' },
             found_date: { type: 'string', format: 'date-time' },
+            found_window_start: { type: 'string', format: 'date-time', nullable: true },
+            found_window_end: { type: 'string', format: 'date-time', nullable: true },
+            route_name: { type: 'string', nullable: true },
+            vehicle_plate: { type: 'string', nullable: true },
+            stop_sequence: { type: 'array', items: { type: 'string' }, nullable: true },
             status: { type: 'string', enum: ['UNCLAIMED', 'MATCHED', 'RETURNED', 'EXPIRED'] },
             source: { type: 'string', enum: ['CITIZEN', 'COOPERATIVE'] },
             image_urls: { type: 'array', items: { type: 'string' } },
@@ -257,6 +352,22 @@ Access tokens expire after 15 minutes. Use the refresh token endpoint to obtain
           },
         },
 
+        // ====== Saved Searches ======
+        SavedSearchRequest: {
+          type: 'object',
+          required: ['name'],
+          description: 'At least one of category, location_area or keyword is required',
+          properties: {
+            name: { type: 'string', example: 'My brown wallet' },
+            category: { type: 'string', enum: ['PHONE', 'ID', 'WALLET', 'BAG', 'KEYS', 'OTHER'], nullable: true },
+            location_area: { type: 'string', example: 'Remera', nullable: true },
+            keyword: { type: 'string', example: 'brown leather', nullable: true },
+            date_from: { type: 'string', format: 'date', nullable: true },
+            date_to: { type: 'string', format: 'date', nullable: true },
+            channel: { type: 'string', enum: ['EMAIL', 'IN_APP'], default: 'EMAIL' },
+          },
+        },
+
         // ====== Claims ======
         CreateClaimRequest: {
           type: 'object',
@@ -272,11 +383,18 @@ Access tokens expire after 15 minutes. Use the refresh token endpoint to obtain
           properties: {
             answers: {
               type: 'array',
-              minItems: 3,
-              maxItems: 3,
+              minItems: 2,
+              maxItems: 7,
+              description: 'One answer per question, in order',
               items: { type: 'string' },
               example: ['my dog', 'gasabo', '1990'],
             },
+            item_answers: {
+              type: 'object',
+              additionalProperties: { type: 'string' },
+              example: { lockscreen: 'beach photo', case_colour: 'red' },
+              description: 'Answers to item_questions, by key',
+            },
           },
         },
         Claim: {
@@ -301,6 +419,24 @@ Access tokens expire after 15 minutes. Use the refresh token endpoint to obtain
               properties: {
                 claim_id: { type: 'integer' },
                 questions: { type: 'array', items: { type: 'string' }, example: ['What is your wallpaper?', 'What color is the case?', 'What is the lock screen?'] },
+                answer_types: {
+                  type: 'array',
+                  items: { type: 'string', enum: ['TEXT', 'NUMBER', 'DATE', 'COLOUR', 'TOKENS'] },
+                  description: 'Expected kind of answer, one per question',
+                  example: ['TOKENS', 'COLOUR', 'TOKENS'],
+                },
+                item_questions: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      key: { type: 'string' },
+                      question: { type: 'string' },
+                      answer_type: { type: 'string', enum: ['TEXT', 'NUMBER', 'DATE', 'COLOUR', 'TOKENS'] },
+                    },
+                  },
+                  example: [{ key: 'case_colour', question: 'What colour is the phone case?', answer_type: 'COLOUR' }],
+                },
                 attempts_remaining: { type: 'integer', example: 3 },
               },
             },
@@ -314,8 +450,77 @@ Access tokens expire after 15 minutes. Use the refresh token endpoint to obtain
               type: 'object',
               properties: {
                 passed: { type: 'boolean' },
-                score: { type: 'integer', example: 2 },
+                score: { type: 'integer', example: 2, description: 'Correct owner answers' },
+                questions_asked: { type: 'integer', example: 3 },
+                weighted_score: { type: 'number', example: 0.72, description: 'Share of question weight answered correctly' },
+                item_check_passed: { type: 'boolean', description: 'Whether the finder\'s hidden details matched (true when none were recorded); how many is never returned' },
                 attempts_remaining: { type: 'integer' },
+                cooldown_until: { type: 'string', format: 'date-time', nullable: true, description: 'Set after a failure: no new attempt before then' },
+                status: { type: 'string', enum: ['PENDING', 'VERIFIED', 'DISPUTED'], description: 'DISPUTED when another claim on the item was verified first' },
+                dispute_id: { type: 'integer', description: 'Set when the claim was escalated to a dispute' },
+                message: { type: 'string' },
+              },
+            },
+          },
+        },
+        ClaimQueueResponse: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean', example: true },
+            data: {
+              type: 'object',
+              properties: {
+                found_item_id: { type: 'integer' },
+                contested: { type: 'boolean', description: 'More than one claim holds the item' },
+                claims: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      rank: { type: 'integer' },
+                      claim_id: { type: 'integer' },
+                      claimant_id: { type: 'integer' },
+                      claimant_name: { type: 'string' },
+                      lost_item_id: { type: 'integer' },
+                      lost_item_title: { type: 'string' },
+                      status: { type: 'string', enum: ['PENDING', 'VERIFIED', 'REJECTED', 'RETURNED', 'DISPUTED', 'CANCELLED', 'EXPIRED'] },
+                      verification_score: { type: 'number', nullable: true },
+                      attempts_made: { type: 'integer' },
+                      superseded_by: { type: 'integer', nullable: true, description: 'The claim verified ahead of this one' },
+                      trust_score: { type: 'integer' },
+                      trust_level: { type: 'string', enum: ['SUSPENDED', 'RESTRICTED', 'NEW', 'ESTABLISHED', 'TRUSTED'] },
+                      fraud_risk: {
+                        type: 'object',
+                        properties: {
+                          score: { type: 'integer' },
+                          level: { type: 'string', enum: ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'] },
+                          factors: { type: 'array', items: { type: 'string' } },
+                        },
+                      },
+                      created_at: { type: 'string', format: 'date-time' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        VerificationStatusResponse: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean', example: true },
+            data: {
+              type: 'object',
+              properties: {
+                canAttempt: { type: 'boolean' },
+                cooldownUntil: { type: 'string', format: 'date-time', nullable: true },
+                remainingSeconds: { type: 'integer' },
+                attemptsToday: { type: 'integer' },
+                failuresToday: { type: 'integer' },
+                attemptLimit: { type: 'integer', description: 'Attempts per 24 hours at the claimant\'s trust level' },
+                attemptsRemaining: { type: 'integer' },
+                consecutiveFailures: { type: 'integer' },
+                trustLevel: { type: 'string', enum: ['SUSPENDED', 'RESTRICTED', 'NEW', 'ESTABLISHED', 'TRUSTED'] },
                 message: { type: 'string' },
               },
             },
@@ -480,6 +685,12 @@ Access tokens expire after 15 minutes. Use the refresh token endpoint to obtain
           in: 'query',
           schema: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
         },
+        CursorParam: {
+          name: 'cursor',
+          in: 'query',
+          description: 'Opaque keyset cursor from pagination.nextCursor. Takes precedence over page.',
+          schema: { type: 'string' },
+        },
         CategoryFilter: {
           name: 'category',
           in: 'query',
@@ -497,6 +708,30 @@ Access tokens expire after 15 minutes. Use the refresh token endpoint to obtain
           schema: { type: 'string' },
           description: 'Search in title and description',
         },
+        SearchQueryParams: {
+          name: 'q',
+          in: 'query',
+          required: true,
+          schema: { type: 'string', minLength: 2, maxLength: 100 },
+          description: 'Free-text query; every word must match (as a prefix, in English, Kinyarwanda or French). Misspellings are caught by trigram similarity.',
+        },
+        SearchSortParam: {
+          name: 'sort',
+          in: 'query',
+          schema: { type: 'string', enum: ['relevance', 'newest', 'closest'], default: 'relevance' },
+        },
+        SearchNearParam: {
+          name: 'near',
+          in: 'query',
+          schema: { type: 'string' },
+          description: 'Area to measure distance from (required for sort=closest). Each result gets distance 0 (same area) to 3 (elsewhere).',
+        },
+        FacetsParam: {
+          name: 'facets',
+          in: 'query',
+          schema: { type: 'string', enum: ['true', 'false'] },
+          description: 'Also return `facets`: counts per category, location_area, status and week (last 12 weeks). Each facet ignores its own filter.',
+        },
       },
       responses: {
         Unauthorized: {
@@ -568,8 +803,11 @@ Access tokens expire after 15 minutes. Use the refresh token endpoint to obtain
     tags: [
       { name: 'Authentication', description: 'User registration, login, token management, password reset' },
       { name: 'Lost Items', description: 'Report, search, and manage lost item reports' },
+      { name: 'Loss Incidents', description: 'Several lost items reported as one loss' },
       { name: 'Found Items', description: 'Report, search, and manage found item reports' },
+      { name: 'Search', description: 'Search lost and found items together' },
       { name: 'Matching', description: 'Intelligent matching between lost and found items' },
+      { name: 'Saved Searches', description: 'Saved search criteria that watch for new found items' },
       { name: 'Claims & Verification', description: 'Claim ownership and verify via secret questions' },
       { name: 'Handover', description: 'OTP-based secure item return protocol' },
       { name: 'Disputes', description: 'Dispute resolution for edge cases' },
@@ -682,6 +920,34 @@ Access tokens expire after 15 minutes. Use the refresh token endpoint to obtain
         },
       },
 
+      // ============================
+      // SEARCH
+      // ============================
+      '/search': {
+        get: {
+          tags: ['Search'],
+          summary: 'Search lost and found items together',
+          description: 'Public. Runs the same filters over both tables and merges the results into one ranking; each result has item_type "lost" or "found", item_date and posted_by. q is optional: without it results are listed closest first (with near) or newest first, e.g. near=Remera&max_distance=1&date_from=<7 days ago> for everything near Remera this week. Sensitive numbers are redacted for everyone but the poster.',
+          parameters: [
+            { name: 'q', in: 'query', schema: { type: 'string', minLength: 2, maxLength: 100 } },
+            { name: 'type', in: 'query', schema: { type: 'string', enum: ['lost', 'found'] }, description: 'Only one kind of item (both when omitted)' },
+            { $ref: '#/components/parameters/SearchSortParam' },
+            { $ref: '#/components/parameters/SearchNearParam' },
+            { name: 'max_distance', in: 'query', schema: { type: 'integer', enum: [0, 1, 2] }, description: 'Only items within this distance of near: 0 same area, 1 adjacent, 2 same district' },
+            { $ref: '#/components/parameters/PageParam' },
+            { $ref: '#/components/parameters/LimitParam' },
+            { $ref: '#/components/parameters/CategoryFilter' },
+            { $ref: '#/components/parameters/LocationFilter' },
+            { name: 'date_from', in: 'query', schema: { type: 'string', format: 'date' } },
+            { name: 'date_to', in: 'query', schema: { type: 'string', format: 'date' } },
+          ],
+          responses: {
+            200: { description: 'Lost and found items in one ranking, with pagination' },
+            400: { $ref: '#/components/responses/ValidationError' },
+          },
+        },
+      },
+
       // ============================
       // LOST ITEMS
       // ============================
@@ -689,7 +955,7 @@ Access tokens expire after 15 minutes. Use the refresh token endpoint to obtain
         post: {
           tags: ['Lost Items'],
           summary: 'Report a lost item',
-          description: 'Creates a lost item report with 3 private verification questions. Questions are used later to verify ownership claims.',
+          description: 'Creates a lost item report with 2 to 7 private verification questions. Questions are used later to verify ownership claims.',
           security: [{ bearerAuth: [] }],
           requestBody: { required: true, content: { 'application/json': { schema: { $ref: '#/components/schemas/CreateLostItemRequest' } } } },
           responses: {
@@ -705,6 +971,8 @@ Access tokens expire after 15 minutes. Use the refresh token endpoint to obtain
           parameters: [
             { $ref: '#/components/parameters/PageParam' },
             { $ref: '#/components/parameters/LimitParam' },
+            { $ref: '#/components/parameters/CursorParam' },
+            { $ref: '#/components/parameters/FacetsParam' },
             { $ref: '#/components/parameters/CategoryFilter' },
             { $ref: '#/components/parameters/LocationFilter' },
             { $ref: '#/components/parameters/KeywordFilter' },
@@ -714,6 +982,29 @@ Access tokens expire after 15 minutes. Use the refresh token endpoint to obtain
           responses: { 200: { description: 'List of lost items with pagination' } },
         },
       },
+      '/lost-items/search': {
+        get: {
+          tags: ['Lost Items'],
+          summary: 'Ranked full-text search over lost items',
+          description: 'Public. Matches title (highest weight), keywords and description. Each result has a relevance score and highlights.title / highlights.description with matches wrapped in <mark></mark>; highlights are built after sensitive numbers are redacted.',
+          parameters: [
+            { $ref: '#/components/parameters/SearchQueryParams' },
+            { $ref: '#/components/parameters/SearchSortParam' },
+            { $ref: '#/components/parameters/SearchNearParam' },
+            { $ref: '#/components/parameters/FacetsParam' },
+            { $ref: '#/components/parameters/PageParam' },
+            { $ref: '#/components/parameters/LimitParam' },
+            { $ref: '#/components/parameters/CategoryFilter' },
+            { $ref: '#/components/parameters/LocationFilter' },
+            { name: 'date_from', in: 'query', schema: { type: 'string', format: 'date' } },
+            { name: 'date_to', in: 'query', schema: { type: 'string', format: 'date' } },
+          ],
+          responses: {
+            200: { description: 'Ranked lost items with pagination' },
+            400: { $ref: '#/components/responses/ValidationError' },
+          },
+        },
+      },
       '/lost-items/{id}': {
         get: {
           tags: ['Lost Items'],
@@ -740,6 +1031,17 @@ Access tokens expire after 15 minutes. Use the refresh token endpoint to obtain
           responses: { 200: { description: 'Deleted' }, 400: { description: 'Cannot delete with active claim' } },
         },
       },
+      '/lost-items/{id}/images': {
+        post: {
+          tags: ['Lost Items'],
+          summary: 'Upload photos of a lost item',
+          description: 'Owner only. Up to 5 images in total (JPEG, PNG, WebP), max 5MB each. Photos are private: returned as signed, expiring URLs on the owner\'s view of the item only; finders of suggested matches just see has_photos.',
+          security: [{ bearerAuth: [] }],
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+          requestBody: { content: { 'multipart/form-data': { schema: { type: 'object', properties: { images: { type: 'array', items: { type: 'string', format: 'binary' } } } } } } },
+          responses: { 200: { description: 'Images uploaded; returns id and image_urls' }, 400: { description: 'No images, or more than the 5 in total' }, 404: { description: 'Not found or not the owner' } },
+        },
+      },
       '/lost-items/{id}/matches': {
         get: {
           tags: ['Matching'],
@@ -752,16 +1054,82 @@ Access tokens expire after 15 minutes. Use the refresh token endpoint to obtain
           },
         },
       },
+      '/lost-items/{id}/matches/{foundItemId}/feedback': {
+        post: {
+          tags: ['Matching'],
+          summary: 'Owner feedback on a match',
+          description: 'NOT_MINE dismisses the pair from the caller\'s own matches (owner: lost item, finder: found item); LOOKS_RIGHT is recorded as labelled data.',
+          security: [{ bearerAuth: [] }],
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }, { name: 'foundItemId', in: 'path', required: true, schema: { type: 'integer' } }],
+          requestBody: { required: true, content: { 'application/json': { schema: { type: 'object', required: ['verdict'], properties: { verdict: { type: 'string', enum: ['NOT_MINE', 'LOOKS_RIGHT'] }, reason: { type: 'string', maxLength: 500 } } } } } },
+          responses: { 200: { description: 'Feedback saved' }, 403: { description: 'Not the owner' }, 404: { description: 'Item not found' } },
+        },
+        delete: {
+          tags: ['Matching'],
+          summary: 'Withdraw owner feedback on a match',
+          security: [{ bearerAuth: [] }],
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }, { name: 'foundItemId', in: 'path', required: true, schema: { type: 'integer' } }],
+          responses: { 200: { description: 'Feedback removed' }, 404: { description: 'No feedback to remove' } },
+        },
+      },
       '/users/me/lost-items': {
         get: {
           tags: ['Lost Items'],
           summary: "List user's own lost items",
           security: [{ bearerAuth: [] }],
-          parameters: [{ $ref: '#/components/parameters/PageParam' }, { $ref: '#/components/parameters/LimitParam' }],
+          parameters: [{ $ref: '#/components/parameters/PageParam' }, { $ref: '#/components/parameters/LimitParam' }, { $ref: '#/components/parameters/CursorParam' }],
           responses: { 200: { description: "User's lost items" } },
         },
       },
 
+      // ============================
+      // LOSS INCIDENTS
+      // ============================
+      '/loss-incidents': {
+        post: {
+          tags: ['Loss Incidents'],
+          summary: 'Report several items lost together',
+          description: 'Creates the incident and one lost item report per item, each with its own category and 3 verification questions. Matching treats the items as related: a found bag that mentions the phone, or a phone turned in with the matching bag, scores higher.',
+          security: [{ bearerAuth: [] }],
+          requestBody: { required: true, content: { 'application/json': { schema: { $ref: '#/components/schemas/CreateLossIncidentRequest' } } } },
+          responses: {
+            201: { description: 'Incident and items created', content: { 'application/json': { schema: { type: 'object', properties: { success: { type: 'boolean' }, data: { $ref: '#/components/schemas/LossIncident' } } } } } },
+            400: { $ref: '#/components/responses/ValidationError' },
+            401: { $ref: '#/components/responses/Unauthorized' },
+          },
+        },
+      },
+      '/loss-incidents/{id}': {
+        get: {
+          tags: ['Loss Incidents'],
+          summary: 'Get an incident with its items',
+          description: 'Owner only. Each item carries its best current match score.',
+          security: [{ bearerAuth: [] }],
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+          responses: { 200: { description: 'Incident', content: { 'application/json': { schema: { type: 'object', properties: { success: { type: 'boolean' }, data: { $ref: '#/components/schemas/LossIncident' } } } } } }, 404: { description: 'Not found' } },
+        },
+      },
+      '/loss-incidents/{id}/recovered': {
+        post: {
+          tags: ['Loss Incidents'],
+          summary: 'Mark items of an incident as returned',
+          description: 'For items that came back together. Still-active items become RETURNED and their match suggestions are removed.',
+          security: [{ bearerAuth: [] }],
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+          requestBody: { required: true, content: { 'application/json': { schema: { type: 'object', required: ['item_ids'], properties: { item_ids: { type: 'array', items: { type: 'integer' }, minItems: 1 } } } } } },
+          responses: { 200: { description: 'Items closed; returns recovered ids and open_items left' }, 400: { description: 'No open items in the selection' }, 404: { description: 'Not found' } },
+        },
+      },
+      '/users/me/loss-incidents': {
+        get: {
+          tags: ['Loss Incidents'],
+          summary: "List user's loss incidents",
+          description: 'Newest first, with item_count, open_items and categories.',
+          security: [{ bearerAuth: [] }],
+          responses: { 200: { description: "User's loss incidents" } },
+        },
+      },
+
       // ============================
       // FOUND ITEMS
       // ============================
@@ -781,6 +1149,8 @@ Access tokens expire after 15 minutes. Use the refresh token endpoint to obtain
           parameters: [
             { $ref: '#/components/parameters/PageParam' },
             { $ref: '#/components/parameters/LimitParam' },
+            { $ref: '#/components/parameters/CursorParam' },
+            { $ref: '#/components/parameters/FacetsParam' },
             { $ref: '#/components/parameters/CategoryFilter' },
             { $ref: '#/components/parameters/LocationFilter' },
             { $ref: '#/components/parameters/KeywordFilter' },
@@ -788,11 +1158,34 @@ Access tokens expire after 15 minutes. Use the refresh token endpoint to obtain
           responses: { 200: { description: 'List of found items' } },
         },
       },
+      '/found-items/search': {
+        get: {
+          tags: ['Found Items'],
+          summary: 'Ranked full-text search over found items',
+          description: 'Public. Matches title (highest weight), keywords and description. Each result has a relevance score and highlights.title / highlights.description with matches wrapped in <mark></mark>; highlights are built after sensitive numbers are redacted.',
+          parameters: [
+            { $ref: '#/components/parameters/SearchQueryParams' },
+            { $ref: '#/components/parameters/SearchSortParam' },
+            { $ref: '#/components/parameters/SearchNearParam' },
+            { $ref: '#/components/parameters/FacetsParam' },
+            { $ref: '#/components/parameters/PageParam' },
+            { $ref: '#/components/parameters/LimitParam' },
+            { $ref: '#/components/parameters/CategoryFilter' },
+            { $ref: '#/components/parameters/LocationFilter' },
+            { name: 'date_from', in: 'query', schema: { type: 'string', format: 'date' } },
+            { name: 'date_to', in: 'query', schema: { type: 'string', format: 'date' } },
+          ],
+          responses: {
+            200: { description: 'Ranked found items with pagination' },
+            400: { $ref: '#/components/responses/ValidationError' },
+          },
+        },
+      },
       '/found-items/{id}': {
         get: {
           tags: ['Found Items'],
           summary: 'Get found item details',
-          description: 'Sensitive items show limited info unless you are the finder or admin.',
+          description: 'Sensitive items (ID/WALLET) show limited info unless you are the finder, an admin or a verified claimant: a shortened description, and image_urls holding previews with the text pixelated (images_redacted: true).',
           parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
           responses: { 200: { description: 'Found item details' } },
         },
@@ -811,15 +1204,29 @@ Access tokens expire after 15 minutes. Use the refresh token endpoint to obtain
           responses: { 200: { description: 'Deleted' } },
         },
       },
+      '/found-items/{id}/hidden-attributes': {
+        put: {
+          tags: ['Found Items'],
+          summary: 'Add or replace hidden attributes (finder)',
+          description: 'Not allowed once the item has an open or verified claim. Returns the recorded keys, never the values.',
+          security: [{ bearerAuth: [] }],
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: { type: 'object', properties: { hidden_attributes: { type: 'object', additionalProperties: { type: 'string' } } } } } },
+          },
+          responses: { 200: { description: 'Saved' }, 400: { $ref: '#/components/responses/ValidationError' } },
+        },
+      },
       '/found-items/{id}/images': {
         post: {
           tags: ['Found Items'],
           summary: 'Upload images for found item',
-          description: 'Upload up to 5 images (JPEG, PNG, WebP). Max 5MB each.',
+          description: 'Upload up to 5 images (JPEG, PNG, WebP). Max 5MB each. Images are stripped of EXIF/GPS metadata, auto-rotated and stored with thumb and medium copies. Images of ID and WALLET items are stored privately and returned as signed, expiring URLs; a public preview with the text pixelated is stored alongside each. possible_duplicates lists the uploader\'s other reports that already carry one of the photos (matched by perceptual hash).',
           security: [{ bearerAuth: [] }],
           parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
           requestBody: { content: { 'multipart/form-data': { schema: { type: 'object', properties: { images: { type: 'array', items: { type: 'string', format: 'binary' } } } } } } },
-          responses: { 200: { description: 'Images uploaded' } },
+          responses: { 200: { description: 'Images uploaded' }, 400: { description: 'No images, or a file that is not a readable image' } },
         },
       },
       '/found-items/{id}/matches': {
@@ -831,15 +1238,95 @@ Access tokens expire after 15 minutes. Use the refresh token endpoint to obtain
           responses: { 200: { description: 'Match results' } },
         },
       },
+      '/found-items/{id}/claims': {
+        get: {
+          tags: ['Claims & Verification'],
+          summary: 'Ranked claim queue of a found item',
+          description: 'Claims holding the item first, then pending claims by verification score, fraud risk, trust and age. For the finder, staff of the holding cooperative and admins.',
+          security: [{ bearerAuth: [] }],
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+          responses: {
+            200: { description: 'Claim queue', content: { 'application/json': { schema: { $ref: '#/components/schemas/ClaimQueueResponse' } } } },
+            403: { description: 'Not the finder, the cooperative\'s staff or an admin' },
+            404: { description: 'Item not found' },
+          },
+        },
+      },
+      '/found-items/{id}/matches/{lostItemId}/feedback': {
+        post: {
+          tags: ['Matching'],
+          summary: 'Finder feedback on a match',
+          security: [{ bearerAuth: [] }],
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }, { name: 'lostItemId', in: 'path', required: true, schema: { type: 'integer' } }],
+          requestBody: { required: true, content: { 'application/json': { schema: { type: 'object', required: ['verdict'], properties: { verdict: { type: 'string', enum: ['NOT_MINE', 'LOOKS_RIGHT'] }, reason: { type: 'string', maxLength: 500 } } } } } },
+          responses: { 200: { description: 'Feedback saved' }, 403: { description: 'Not the finder' }, 404: { description: 'Item not found' } },
+        },
+        delete: {
+          tags: ['Matching'],
+          summary: 'Withdraw finder feedback on a match',
+          security: [{ bearerAuth: [] }],
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }, { name: 'lostItemId', in: 'path', required: true, schema: { type: 'integer' } }],
+          responses: { 200: { description: 'Feedback removed' }, 404: { description: 'No feedback to remove' } },
+        },
+      },
       '/users/me/found-items': {
         get: {
           tags: ['Found Items'],
           summary: "List user's own found items",
           security: [{ bearerAuth: [] }],
+          parameters: [{ $ref: '#/components/parameters/PageParam' }, { $ref: '#/components/parameters/LimitParam' }, { $ref: '#/components/parameters/CursorParam' }],
           responses: { 200: { description: "User's found items" } },
         },
       },
 
+      // ============================
+      // SAVED SEARCHES
+      // ============================
+      '/users/me/saved-searches': {
+        get: {
+          tags: ['Saved Searches'],
+          summary: "List user's saved searches",
+          description: 'Each entry includes unseen_hits, the number of new found items it fired on that have not been viewed.',
+          security: [{ bearerAuth: [] }],
+          responses: { 200: { description: 'Saved searches' } },
+        },
+        post: {
+          tags: ['Saved Searches'],
+          summary: 'Save a search as a standing watch',
+          description: 'Every new found item that matches the criteria is recorded as a hit; EMAIL watches also send an email. At most 10 per user.',
+          security: [{ bearerAuth: [] }],
+          requestBody: { required: true, content: { 'application/json': { schema: { $ref: '#/components/schemas/SavedSearchRequest' } } } },
+          responses: { 201: { description: 'Search saved' }, 400: { description: 'No criteria, reversed dates, or limit reached' } },
+        },
+      },
+      '/users/me/saved-searches/{id}': {
+        patch: {
+          tags: ['Saved Searches'],
+          summary: 'Edit, pause or resume a saved search',
+          security: [{ bearerAuth: [] }],
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+          requestBody: { required: true, content: { 'application/json': { schema: { allOf: [{ $ref: '#/components/schemas/SavedSearchRequest' }, { type: 'object', properties: { is_active: { type: 'boolean' } } }] } } } },
+          responses: { 200: { description: 'Saved search updated' }, 404: { description: 'Not found' } },
+        },
+        delete: {
+          tags: ['Saved Searches'],
+          summary: 'Delete a saved search',
+          security: [{ bearerAuth: [] }],
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+          responses: { 200: { description: 'Saved search deleted' }, 404: { description: 'Not found' } },
+        },
+      },
+      '/users/me/saved-searches/{id}/hits': {
+        get: {
+          tags: ['Saved Searches'],
+          summary: 'Found items a saved search fired on',
+          description: 'Newest first, up to 20. Viewing marks them seen.',
+          security: [{ bearerAuth: [] }],
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+          responses: { 200: { description: 'Hits with found item summaries' }, 404: { description: 'Not found' } },
+        },
+      },
+
       // ============================
       // CLAIMS & VERIFICATION
       // ============================
@@ -860,6 +1347,7 @@ Access tokens expire after 15 minutes. Use the refresh token endpoint to obtain
         get: {
           tags: ['Claims & Verification'],
           summary: 'Get claim details',
+          description: 'found_item_image_urls holds the found item\'s photos; for ID/WALLET items the claimant gets the redacted previews (found_item_images_redacted: true) until the claim is verified.',
           security: [{ bearerAuth: [] }],
           parameters: [{ name: 'claimId', in: 'path', required: true, schema: { type: 'integer' } }],
           responses: { 200: { description: 'Claim details' } },
@@ -869,7 +1357,7 @@ Access tokens expire after 15 minutes. Use the refresh token endpoint to obtain
         get: {
           tags: ['Claims & Verification'],
           summary: 'Get verification questions',
-          description: 'Returns the 3 secret questions set by the item owner. Rate limited: max 3 attempts per day.',
+          description: 'Returns the secret questions set by the item owner (2 to 7). Refused with 429 while the claimant is out of attempts or waiting after a failure.',
           security: [{ bearerAuth: [] }],
           parameters: [{ name: 'claimId', in: 'path', required: true, schema: { type: 'integer' } }],
           responses: {
@@ -882,7 +1370,7 @@ Access tokens expire after 15 minutes. Use the refresh token endpoint to obtain
         post: {
           tags: ['Claims & Verification'],
           summary: 'Submit verification answers',
-          description: 'Requires 2 of 3 correct answers to verify. Progressive cooldown on failures: 1hr → 4hr → 24hr. Max 3 attempts/day.',
+          description: 'Requires a weighted score of at least 0.6 on the owner\'s questions (2 of 3 with equal weights) and, when the finder recorded hidden attributes, a majority of item_answers. Attempts per 24 hours follow the claimant\'s trust level (1 to 7); consecutive failures back off 1hr → 4hr → 24hr. The attempt is taken before the answers are checked, so a second submission sent at the same time gets 429. On success, found_item_image_urls carries the found item\'s full, unredacted photos.',
           security: [{ bearerAuth: [] }],
           parameters: [{ name: 'claimId', in: 'path', required: true, schema: { type: 'integer' } }],
           requestBody: { required: true, content: { 'application/json': { schema: { $ref: '#/components/schemas/VerifyClaimRequest' } } } },
@@ -892,6 +1380,18 @@ Access tokens expire after 15 minutes. Use the refresh token endpoint to obtain
           },
         },
       },
+      '/claims/{claimId}/verification/status': {
+        get: {
+          tags: ['Claims & Verification'],
+          summary: 'Verification limits and cooldown for a claim',
+          security: [{ bearerAuth: [] }],
+          parameters: [{ name: 'claimId', in: 'path', required: true, schema: { type: 'integer' } }],
+          responses: {
+            200: { description: 'Status', content: { 'application/json': { schema: { $ref: '#/components/schemas/VerificationStatusResponse' } } } },
+            404: { description: 'Claim not found or not the caller\'s' },
+          },
+        },
+      },
       '/claims/{claimId}/cancel': {
         post: {
           tags: ['Claims & Verification'],
@@ -906,6 +1406,7 @@ Access tokens expire after 15 minutes. Use the refresh token endpoint to obtain
           tags: ['Claims & Verification'],
           summary: "List user's claims",
           security: [{ bearerAuth: [] }],
+          parameters: [{ $ref: '#/components/parameters/PageParam' }, { $ref: '#/components/parameters/LimitParam' }, { $ref: '#/components/parameters/CursorParam' }],
           responses: { 200: { description: "User's claims" } },
         },
       },
@@ -964,11 +1465,20 @@ Access tokens expire after 15 minutes. Use the refresh token endpoint to obtain
           requestBody: { required: true, content: { 'application/json': { schema: { $ref: '#/components/schemas/CreateDisputeRequest' } } } },
           responses: { 201: { description: 'Dispute filed' } },
         },
+        get: {
+          tags: ['Disputes'],
+          summary: 'Get the dispute on a claim',
+          description: 'For the claim\'s participants, admins and the holding cooperative\'s staff. Only admins and that staff get the item\'s custody_chain.',
+          security: [{ bearerAuth: [] }],
+          parameters: [{ name: 'claimId', in: 'path', required: true, schema: { type: 'integer' } }],
+          responses: { 200: { description: 'Dispute' }, 404: { description: 'No dispute, or not one the caller may see' } },
+        },
       },
       '/admin/disputes': {
         get: {
           tags: ['Disputes'],
           summary: 'List all disputes (admin)',
+          description: 'Disputes over cooperative-held items include the item\'s custody_chain as evidence.',
           security: [{ bearerAuth: [] }],
           parameters: [
             { name: 'status', in: 'query', schema: { type: 'string', enum: ['OPEN', 'UNDER_REVIEW', 'RESOLVED_OWNER', 'RESOLVED_FINDER', 'DISMISSED'] } },
@@ -996,6 +1506,7 @@ Access tokens expire after 15 minutes. Use the refresh token endpoint to obtain
           tags: ['Messages'],
           summary: 'List message threads',
           security: [{ bearerAuth: [] }],
+          parameters: [{ $ref: '#/components/parameters/PageParam' }, { $ref: '#/components/parameters/LimitParam' }, { $ref: '#/components/parameters/CursorParam' }],
           responses: { 200: { description: 'Message threads grouped by claim' } },
         },
       },
@@ -1102,6 +1613,97 @@ Access tokens expire after 15 minutes. Use the refresh token endpoint to obtain
           responses: { 200: { description: 'Cooperative items' } },
         },
       },
+      '/cooperatives/{id}/items/{itemId}/custody': {
+        get: {
+          tags: ['Cooperatives'],
+          summary: 'Get the custody chain of a cooperative-held item (cooperative staff)',
+          description: 'Every hand-over of the physical item, oldest first, each signed by the staff member who recorded it. intact is false when a transfer was changed after signing.',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'integer' } },
+            { name: 'itemId', in: 'path', required: true, schema: { type: 'integer' } },
+          ],
+          responses: { 200: { description: 'Custody chain' }, 404: { description: 'Item not held by this cooperative' } },
+        },
+        post: {
+          tags: ['Cooperatives'],
+          summary: 'Record a custody transfer (cooperative staff)',
+          description: 'from_holder is the previous receiver. Updates the item\'s current_holder and current_location and writes a CUSTODY_TRANSFERRED audit entry.',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'integer' } },
+            { name: 'itemId', in: 'path', required: true, schema: { type: 'integer' } },
+          ],
+          requestBody: { required: true, content: { 'application/json': { schema: { type: 'object', required: ['to_holder', 'location'], properties: { to_holder: { type: 'string', example: 'Depot office' }, location: { type: 'string', example: 'Nyabugogo depot' }, notes: { type: 'string' }, transferred_at: { type: 'string', format: 'date-time' } } } } } },
+          responses: { 201: { description: 'Transfer recorded' }, 400: { description: 'Dated in the future or before the previous transfer' }, 404: { description: 'Item not held by this cooperative' } },
+        },
+      },
+      '/cooperatives/{id}/routes': {
+        get: {
+          tags: ['Cooperatives'],
+          summary: 'List registered routes',
+          description: 'Public. Cooperative staff and admins may pass include_inactive=true.',
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'integer' } },
+            { name: 'include_inactive', in: 'query', schema: { type: 'boolean' } },
+          ],
+          responses: { 200: { description: 'Routes with stops in travel order' } },
+        },
+        post: {
+          tags: ['Cooperatives'],
+          summary: 'Register a route (cooperative staff)',
+          security: [{ bearerAuth: [] }],
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+          requestBody: { required: true, content: { 'application/json': { schema: { type: 'object', required: ['name', 'stops'], properties: { name: { type: 'string', example: 'Nyabugogo–Kimironko' }, stops: { type: 'array', minItems: 2, items: { type: 'string' }, example: ['Nyabugogo', 'Kacyiru', 'Kimironko'] } } } } } },
+          responses: { 201: { description: 'Route registered' }, 409: { description: 'Route name already used by this cooperative' } },
+        },
+      },
+      '/cooperatives/{id}/routes/{routeId}': {
+        patch: {
+          tags: ['Cooperatives'],
+          summary: 'Activate or retire a route (cooperative staff)',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'integer' } },
+            { name: 'routeId', in: 'path', required: true, schema: { type: 'integer' } },
+          ],
+          requestBody: { required: true, content: { 'application/json': { schema: { type: 'object', required: ['is_active'], properties: { is_active: { type: 'boolean' } } } } } },
+          responses: { 200: { description: 'Route updated' }, 404: { description: 'Route not found' } },
+        },
+      },
+      '/cooperatives/{id}/vehicles': {
+        get: {
+          tags: ['Cooperatives'],
+          summary: 'List registered vehicles (cooperative staff)',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'integer' } },
+            { name: 'include_inactive', in: 'query', schema: { type: 'boolean' } },
+          ],
+          responses: { 200: { description: 'Vehicles with their route' } },
+        },
+        post: {
+          tags: ['Cooperatives'],
+          summary: 'Register a vehicle (cooperative staff)',
+          security: [{ bearerAuth: [] }],
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+          requestBody: { required: true, content: { 'application/json': { schema: { type: 'object', required: ['plate_number'], properties: { plate_number: { type: 'string', example: 'RAD 123 A' }, route_id: { type: 'integer' }, description: { type: 'string', example: 'White Coaster' } } } } } },
+          responses: { 201: { description: 'Vehicle registered' }, 409: { description: 'Plate already registered' } },
+        },
+      },
+      '/cooperatives/{id}/vehicles/{vehicleId}': {
+        patch: {
+          tags: ['Cooperatives'],
+          summary: 'Activate or retire a vehicle (cooperative staff)',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'id', in: 'path', required: true, schema: { type: 'integer' } },
+            { name: 'vehicleId', in: 'path', required: true, schema: { type: 'integer' } },
+          ],
+          requestBody: { required: true, content: { 'application/json': { schema: { type: 'object', required: ['is_active'], properties: { is_active: { type: 'boolean' } } } } } },
+          responses: { 200: { description: 'Vehicle updated' }, 404: { description: 'Vehicle not found' } },
+        },
+      },
       '/cooperative/dashboard': {
         get: {
           tags: ['Cooperatives'],
@@ -1186,6 +1788,9 @@ Access tokens expire after 15 minutes. Use the refresh token endpoint to obtain
             { name: 'resourceType', in: 'query', schema: { type: 'string' } },
             { name: 'fromDate', in: 'query', schema: { type: 'string', format: 'date' } },
             { name: 'toDate', in: 'query', schema: { type: 'string', format: 'date' } },
+            { $ref: '#/components/parameters/PageParam' },
+            { $ref: '#/components/parameters/LimitParam' },
+            { $ref: '#/components/parameters/CursorParam' },
           ],
           responses: { 200: { description: 'Audit logs' } },
         },
@@ -1208,10 +1813,88 @@ Access tokens expire after 15 minutes. Use the refresh token endpoint to obtain
           responses: { 200: { description: 'Cleanup completed' } },
         },
       },
+      '/admin/matching/profiles': {
+        get: {
+          tags: ['Admin'],
+          summary: 'List active matching weight profiles',
+          security: [{ bearerAuth: [] }],
+          responses: { 200: { description: 'One active profile per category' } },
+        },
+      },
+      '/admin/matching/profiles/{category}': {
+        get: {
+          tags: ['Admin'],
+          summary: 'Weight profile version history for a category',
+          security: [{ bearerAuth: [] }],
+          parameters: [{ name: 'category', in: 'path', required: true, schema: { type: 'string', enum: ['PHONE', 'ID', 'WALLET', 'BAG', 'KEYS', 'OTHER'] } }],
+          responses: { 200: { description: 'Profile versions, newest first' } },
+        },
+        put: {
+          tags: ['Admin'],
+          summary: 'Publish a new weight profile version',
+          description: 'Creates a new active version; omitted fields are carried over from the current version.',
+          security: [{ bearerAuth: [] }],
+          parameters: [{ name: 'category', in: 'path', required: true, schema: { type: 'string', enum: ['PHONE', 'ID', 'WALLET', 'BAG', 'KEYS', 'OTHER'] } }],
+          requestBody: { content: { 'application/json': { schema: { type: 'object', properties: { weights: { type: 'object', additionalProperties: { type: 'integer' } }, minimum_score: { type: 'integer' }, max_matches: { type: 'integer' }, max_keyword_bonuses: { type: 'integer' }, notes: { type: 'string' } } } } } },
+          responses: { 200: { description: 'New profile version' }, 400: { description: 'Invalid category or weights' } },
+        },
+      },
+      '/admin/matching/feedback': {
+        get: {
+          tags: ['Admin'],
+          summary: 'Match precision from user feedback',
+          description: 'Precision = LOOKS_RIGHT / (LOOKS_RIGHT + NOT_MINE), overall and by category, profile version, score band and role.',
+          security: [{ bearerAuth: [] }],
+          parameters: [{ name: 'days', in: 'query', schema: { type: 'integer', default: 90, minimum: 1, maximum: 365 } }],
+          responses: { 200: { description: 'Precision statistics' } },
+        },
+      },
+      '/admin/matching/jobs': {
+        get: {
+          tags: ['Admin'],
+          summary: 'Match job queue status',
+          description: 'Queue depth by status, run durations and row counts over the last 24 hours, and recent failures.',
+          security: [{ bearerAuth: [] }],
+          responses: { 200: { description: 'Match job statistics' } },
+        },
+      },
+      '/admin/analytics/search': {
+        get: {
+          tags: ['Admin'],
+          summary: 'Search analytics',
+          description: 'Top queries, zero-result queries, and hot spots by area and category (with lost/found reports filed there) plus a weekly timeline of the top spots. Built from listing and ranked searches that had criteria.',
+          security: [{ bearerAuth: [] }],
+          parameters: [
+            { name: 'days', in: 'query', schema: { type: 'integer', default: 30, minimum: 1, maximum: 365 } },
+            { name: 'type', in: 'query', schema: { type: 'string', enum: ['lost', 'found'] } },
+          ],
+          responses: { 200: { description: 'Search analytics' } },
+        },
+      },
 
       // ============================
       // SYSTEM
       // ============================
+      '/uploads/{key}': {
+        servers: [{ url: '/', description: 'Served outside /api/v1' }],
+        get: {
+          tags: ['System'],
+          summary: 'Uploaded photo',
+          description: 'Serves an uploaded photo from the configured storage driver (local disk, S3-compatible bucket or database). Keys under private/ need the expires and signature parameters from the signed URL the API returned; S3 storage answers with a redirect to a presigned URL.',
+          parameters: [
+            { name: 'key', in: 'path', required: true, schema: { type: 'string' }, example: 'private/3f2b9c1e-8a4d-4c7e-9f61-2d5b8e0a7c13.jpg' },
+            { name: 'expires', in: 'query', schema: { type: 'integer' }, description: 'Unix time the signed URL expires (private keys)' },
+            { name: 'signature', in: 'query', schema: { type: 'string' }, description: 'HMAC of key and expiry (private keys)' },
+            { name: 'size', in: 'query', schema: { type: 'string', enum: ['thumb', 'medium'] }, description: 'WebP copy: thumb is 320px, medium 1024px. The original when omitted or for photos without copies.' },
+          ],
+          responses: {
+            200: { description: 'The image', content: { 'image/*': { schema: { type: 'string', format: 'binary' } } } },
+            302: { description: 'Redirect to a presigned URL of the S3-compatible store' },
+            403: { description: 'Private photo without a valid, unexpired signature' },
+            404: { description: 'No such file' },
+          },
+        },
+      },
       '/health': {
         get: {
           tags: ['System'],
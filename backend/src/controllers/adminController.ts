@@ -1,9 +1,14 @@
 import { Request, Response } from 'express';
 import { query, transaction } from '../config/database';
-import { parsePaginationParams } from '../utils';
+import { parsePaginationParams, decodeCursor } from '../utils';
 import { logModeration, getAuditLogs } from '../services/auditService';
 import { onScamConfirmed, onFalseScamReport, recalculateTrustScore } from '../services/trustService';
 import { runDailyCleanup } from '../services/expiryService';
+import { listActiveProfiles, getProfileHistory, updateProfile } from '../services/matchWeightProfileService';
+import { getMatchJobStats } from '../services/matchJobService';
+import { getMatchPrecisionStats } from '../services/matchFeedbackService';
+import { getSearchAnalytics } from '../services/searchAnalyticsService';
+import { ItemCategory } from '../types';
 
 // ============================================
 // ADMIN CONTROLLER
@@ -253,6 +258,11 @@ export async function resolveScamReport(req: Request, res: Response): Promise<vo
 export async function getAuditLogsHandler(req: Request, res: Response): Promise<void> {
   try {
     const { actorId, action, resourceType, resourceId, fromDate, toDate, page, limit } = req.query;
+    const cursor = decodeCursor(req.query.cursor);
+    if (cursor === null) {
+      res.status(400).json({ success: false, message: 'Invalid cursor' });
+      return;
+    }
 
     const logs = await getAuditLogs({
       actorId: actorId ? parseInt(actorId as string) : undefined,
@@ -263,6 +273,7 @@ export async function getAuditLogsHandler(req: Request, res: Response): Promise<
       toDate: toDate ? new Date(toDate as string) : undefined,
       page: page ? parseInt(page as string) : 1,
       limit: limit ? parseInt(limit as string) : 50,
+      cursor,
     });
 
     res.json({ success: true, ...logs });
@@ -305,4 +316,103 @@ export async function triggerCleanup(req: Request, res: Response): Promise<void>
     console.error('Cleanup trigger error:', error);
     res.status(500).json({ success: false, message: 'Failed to run cleanup' });
   }
-}
\ No newline at end of file
+}
+
+// ============================================
+// MATCH WEIGHT PROFILES
+// ============================================
+
+function parseCategoryParam(value: string): ItemCategory | null {
+  const category = value.toUpperCase() as ItemCategory;
+  return Object.values(ItemCategory).includes(category) ? category : null;
+}
+
+// List active weight profile for every category
+export async function getMatchProfiles(req: Request, res: Response): Promise<void> {
+  try {
+    const profiles = await listActiveProfiles();
+    res.json({ success: true, data: profiles });
+  } catch (error) {
+    console.error('Get match profiles error:', error);
+    res.status(500).json({ success: false, message: 'Failed to get match profiles' });
+  }
+}
+
+// Version history for one category
+export async function getMatchProfileHistory(req: Request, res: Response): Promise<void> {
+  try {
+    const category = parseCategoryParam(req.params.category);
+    if (!category) {
+      res.status(400).json({ success: false, message: 'Invalid category' });
+      return;
+    }
+
+    const history = await getProfileHistory(category);
+    res.json({ success: true, data: history });
+  } catch (error) {
+    console.error('Get match profile history error:', error);
+    res.status(500).json({ success: false, message: 'Failed to get match profile history' });
+  }
+}
+
+// Publish a new profile version for a category
+export async function updateMatchProfile(req: Request, res: Response): Promise<void> {
+  try {
+    const category = parseCategoryParam(req.params.category);
+    if (!category) {
+      res.status(400).json({ success: false, message: 'Invalid category' });
+      return;
+    }
+
+    const profile = await updateProfile(category, req.body, req.user!.userId);
+
+    await logModeration(req, 'MATCH_PROFILE_UPDATED', 'match_weight_profile', profile.id!, {
+      category, version: profile.version, changes: req.body
+    });
+
+    res.json({
+      success: true,
+      data: profile,
+      message: `Match profile for ${category} updated to version ${profile.version}`
+    });
+  } catch (error) {
+    console.error('Update match profile error:', error);
+    res.status(500).json({ success: false, message: 'Failed to update match profile' });
+  }
+}
+
+// Match queue depth and recent run durations
+export async function getMatchJobs(req: Request, res: Response): Promise<void> {
+  try {
+    const stats = await getMatchJobStats();
+    res.json({ success: true, data: stats });
+  } catch (error) {
+    console.error('Get match jobs error:', error);
+    res.status(500).json({ success: false, message: 'Failed to get match job stats' });
+  }
+}
+
+// Match precision from owner/finder feedback
+export async function getMatchFeedbackStats(req: Request, res: Response): Promise<void> {
+  try {
+    const days = Math.min(Math.max(parseInt(req.query.days as string) || 90, 1), 365);
+    const stats = await getMatchPrecisionStats(days);
+    res.json({ success: true, data: stats });
+  } catch (error) {
+    console.error('Get match feedback stats error:', error);
+    res.status(500).json({ success: false, message: 'Failed to get match feedback stats' });
+  }
+}
+
+// Top queries, zero-result queries and search hot spots by area/category
+export async function getSearchStats(req: Request, res: Response): Promise<void> {
+  try {
+    const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 365);
+    const type = req.query.type === 'lost' || req.query.type === 'found' ? req.query.type : undefined;
+    const stats = await getSearchAnalytics(days, type);
+    res.json({ success: true, data: stats });
+  } catch (error) {
+    console.error('Get search analytics error:', error);
+    res.status(500).json({ success: false, message: 'Failed to get search analytics' });
+  }
+}
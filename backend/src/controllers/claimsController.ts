@@ -1,10 +1,23 @@
 import { Request, Response } from 'express';
 import { query, transaction } from '../config/database';
-import { verifySecretAnswer, parsePaginationParams, generateOTP, hashOTP, verifyOTP } from '../utils';
+import {
+  parsePaginationParams, generateOTP, hashOTP, verifyOTP,
+  decodeCursor, keysetCondition, cursorKeyColumn, takeCursorPage, buildPagination
+} from '../utils';
 import { logClaimAttempt, logOtpAction, logAudit, extractRequestMeta } from '../services/auditService';
 import { onFailedVerification, onSuccessfulReturn, onMultipleFailedClaims } from '../services/trustService';
 import { ClaimStatus, UserRole } from '../types';
 import { sendClaimNotificationEmail, sendClaimResultEmail } from '../services/emailService';
+import { signFileUrls } from '../services/storageService';
+import { checkHiddenAttributes, getHiddenAttributeQuestions } from '../services/hiddenAttributeService';
+import { getQuestionPrompts, scoreVerificationAnswers } from '../services/verificationQuestionService';
+import {
+  checkCooldownStatus, reserveVerificationAttempt, releaseVerificationAttempt,
+  recordVerificationAttempt, formatCooldownMessage, AttemptReservation
+} from '../services/verificationCooldownService';
+import {
+  settleVerifiedClaim, notifySupersededClaims, notifyEscalatedClaim, VerifiedClaimSettlement
+} from '../services/claimQueueService';
 
 // ============================================
 // CLAIMS CONTROLLER
@@ -118,9 +131,10 @@ export async function getVerificationQuestions(req: Request, res: Response): Pro
 
     // Get claim and verify ownership
     const claim = await query(
-      `SELECT c.*, li.user_id as lost_item_owner
+      `SELECT c.*, li.user_id as lost_item_owner, fi.category as found_item_category
        FROM claims c
        JOIN lost_items li ON c.lost_item_id = li.id
+       JOIN found_items fi ON c.found_item_id = fi.id
        WHERE c.id = $1`,
       [claimId]
     );
@@ -140,44 +154,40 @@ export async function getVerificationQuestions(req: Request, res: Response): Pro
       return;
     }
 
-    // Check rate limits
-    const attemptsToday = await query(
-      `SELECT COUNT(*) FROM verification_attempts
-       WHERE claim_id = $1 AND attempt_at > NOW() - INTERVAL '24 hours'`,
-      [claimId]
-    );
-
-    if (parseInt(attemptsToday.rows[0].count) >= 3) {
+    // Trust-based daily limit and backoff after failures
+    const cooldown = await checkCooldownStatus(parseInt(claimId), userId);
+    if (!cooldown.canAttempt) {
       res.status(429).json({
         success: false,
-        message: 'Too many verification attempts. Please try again in 24 hours.'
+        message: cooldown.message,
+        cooldown_until: cooldown.cooldownUntil
       });
       return;
     }
 
     // Get questions (not answers)
-    const secrets = await query(
-      `SELECT question_1_text, question_2_text, question_3_text
-       FROM verification_secrets
-       WHERE lost_item_id = $1`,
-      [claim.rows[0].lost_item_id]
-    );
+    const prompts = await getQuestionPrompts(claim.rows[0].lost_item_id);
 
-    if (secrets.rows.length === 0) {
+    if (prompts.length === 0) {
       res.status(500).json({ success: false, message: 'Verification questions not found' });
       return;
     }
 
+    // About the found object itself, from the finder's notes
+    const itemQuestions = await getHiddenAttributeQuestions(
+      claim.rows[0].found_item_id,
+      claim.rows[0].found_item_category
+    );
+
     res.json({
       success: true,
       data: {
         claim_id: parseInt(claimId),
-        questions: [
-          secrets.rows[0].question_1_text,
-          secrets.rows[0].question_2_text,
-          secrets.rows[0].question_3_text
-        ],
-        attempts_remaining: 3 - parseInt(attemptsToday.rows[0].count)
+        questions: prompts.map(prompt => prompt.question),
+        // In step with questions: what kind of answer each one expects
+        answer_types: prompts.map(prompt => prompt.answer_type),
+        item_questions: itemQuestions,
+        attempts_remaining: cooldown.attemptsRemaining
       }
     });
   } catch (error) {
@@ -188,10 +198,13 @@ export async function getVerificationQuestions(req: Request, res: Response): Pro
 
 // Verify claim with answers
 export async function verifyClaim(req: Request, res: Response): Promise<void> {
+  // Held from reservation until the attempt is recorded
+  let reservation: AttemptReservation | undefined;
+  let recorded = false;
   try {
     const { claimId } = req.params;
     const userId = req.user!.userId;
-    const { answers } = req.body;
+    const { answers, item_answers } = req.body;
 
     // Get claim
     const claimResult = await query(
@@ -219,89 +232,60 @@ export async function verifyClaim(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    // Check rate limits
-    const attemptsToday = await query(
-      `SELECT COUNT(*) FROM verification_attempts
-       WHERE claim_id = $1 AND attempt_at > NOW() - INTERVAL '24 hours'`,
-      [claimId]
-    );
-
-    if (parseInt(attemptsToday.rows[0].count) >= 3) {
+    // Take the attempt before scoring, so answers sent at once can't
+    // both get in under the limit or the backoff
+    const cooldown = await reserveVerificationAttempt(parseInt(claimId), userId);
+    reservation = cooldown;
+    if (!cooldown.canAttempt) {
       res.status(429).json({
         success: false,
-        message: 'Daily verification limit reached. Try again tomorrow.'
+        message: cooldown.message,
+        cooldown_until: cooldown.cooldownUntil
       });
       return;
     }
 
-    // Get secrets
-    const secrets = await query(
-      `SELECT * FROM verification_secrets WHERE lost_item_id = $1`,
-      [claim.lost_item_id]
-    );
+    // Owner-set questions, weighted by strength
+    const ownerCheck = await scoreVerificationAnswers(claim.lost_item_id, answers);
 
-    if (secrets.rows.length === 0) {
+    if (ownerCheck.asked === 0) {
       res.status(500).json({ success: false, message: 'Verification data not found' });
       return;
     }
 
-    const secret = secrets.rows[0];
-
-    // Verify each answer
-    let correctCount = 0;
-    const results: boolean[] = [];
-
-    const answer1Correct = await verifySecretAnswer(
-      answers[0],
-      secret.answer_1_hash,
-      secret.answer_1_salt
-    );
-    results.push(answer1Correct);
-    if (answer1Correct) correctCount++;
-
-    const answer2Correct = await verifySecretAnswer(
-      answers[1],
-      secret.answer_2_hash,
-      secret.answer_2_salt
-    );
-    results.push(answer2Correct);
-    if (answer2Correct) correctCount++;
-
-    const answer3Correct = await verifySecretAnswer(
-      answers[2],
-      secret.answer_3_hash,
-      secret.answer_3_salt
-    );
-    results.push(answer3Correct);
-    if (answer3Correct) correctCount++;
+    if (answers.length !== ownerCheck.asked) {
+      res.status(400).json({ success: false, message: `Answer all ${ownerCheck.asked} questions` });
+      return;
+    }
 
-    const passed = correctCount >= 2;
-    const verificationScore = correctCount / 3;
+    // The finder's notes on the object are the real check; the owner's
+    // own questions stay as a second factor. Items logged without any
+    // notes fall back to the owner's questions alone.
+    const itemCheck = await checkHiddenAttributes(claim.found_item_id, item_answers || {});
+    const itemPassed = itemCheck.asked === 0 || itemCheck.passed;
+    const passed = ownerCheck.passed && itemPassed;
+    const totalCorrect = ownerCheck.correct + itemCheck.correct;
+    // Each finder-noted attribute counts with weight 1
+    const verificationScore = (ownerCheck.weight_correct + itemCheck.correct) / (ownerCheck.weight_total + itemCheck.asked);
 
-    // Record attempt
+    // Record attempt; a failure starts or extends the backoff
     const { ipAddress } = extractRequestMeta(req);
-    await query(
-      `INSERT INTO verification_attempts (claim_id, correct_answers, attempt_status, ip_address)
-       VALUES ($1, $2, $3, $4)`,
-      [claimId, correctCount, passed ? 'PASSED' : 'FAILED', ipAddress]
-    );
+    const attempt = await recordVerificationAttempt(parseInt(claimId), userId, passed, totalCorrect, ipAddress);
+    recorded = true;
 
-    // Update claim
-    const newStatus = passed ? ClaimStatus.VERIFIED : ClaimStatus.PENDING;
+    // Update claim; its status is settled below, against competing claims
     const newAttempts = claim.attempts_made + 1;
 
     await query(
       `UPDATE claims SET 
-        status = $1, 
-        verification_score = $2, 
-        attempts_made = $3,
-        last_attempt_at = NOW()
-       WHERE id = $4`,
-      [newStatus, verificationScore, newAttempts, claimId]
+        verification_score = $1, 
+        attempts_made = $2
+       WHERE id = $3`,
+      [verificationScore, newAttempts, claimId]
     );
 
     // Log the attempt
-    await logClaimAttempt(req, parseInt(claimId), passed, correctCount);
+    await logClaimAttempt(req, parseInt(claimId), passed, totalCorrect);
 
     // Update trust score
     if (!passed) {
@@ -318,52 +302,79 @@ export async function verifyClaim(req: Request, res: Response): Promise<void> {
       await onMultipleFailedClaims(req, userId, parseInt(totalFailed.rows[0].count));
     }
 
-    // If verified, update found item status
+    // If verified, the claim wins the item: competing claims are closed and
+    // the unredacted photos released. If another claim won first, the case
+    // is contested and goes to a dispute instead.
+    let foundItemImages: string[] | undefined;
+    let settlement: VerifiedClaimSettlement | undefined;
     if (passed) {
-      await query(
-        `UPDATE found_items SET status = 'MATCHED' WHERE id = $1`,
-        [claim.found_item_id]
-      );
-      await query(
-        `UPDATE lost_items SET status = 'CLAIMED' WHERE id = $1`,
-        [claim.lost_item_id]
-      );
+      settlement = await settleVerifiedClaim(parseInt(claimId));
+      if (settlement.status === ClaimStatus.VERIFIED) {
+        foundItemImages = signFileUrls(settlement.found_item_image_urls || []);
+        await notifySupersededClaims(settlement.superseded, parseInt(claimId), userId);
+      } else {
+        await notifyEscalatedClaim(parseInt(claimId), settlement);
+      }
     }
-
-    // Send verification result email to claimant
-    try {
-      const claimantInfo = await query('SELECT email, name FROM users WHERE id = $1', [userId]);
-      const itemInfo = await query('SELECT title FROM lost_items WHERE id = $1', [claim.lost_item_id]);
-      if (claimantInfo.rows[0] && itemInfo.rows[0]) {
-        sendClaimResultEmail(
-          claimantInfo.rows[0].email,
-          claimantInfo.rows[0].name,
-          itemInfo.rows[0].title,
-          parseInt(claimId),
-          passed,
-          verificationScore
-        ).catch(err => console.error('Claim result email failed:', err.message));
+    const escalated = settlement?.status === ClaimStatus.DISPUTED;
+
+    // Send verification result email to claimant; an escalated claimant
+    // gets the dispute email instead
+    if (!escalated) {
+      try {
+        const claimantInfo = await query('SELECT email, name FROM users WHERE id = $1', [userId]);
+        const itemInfo = await query('SELECT title FROM lost_items WHERE id = $1', [claim.lost_item_id]);
+        if (claimantInfo.rows[0] && itemInfo.rows[0]) {
+          sendClaimResultEmail(
+            claimantInfo.rows[0].email,
+            claimantInfo.rows[0].name,
+            itemInfo.rows[0].title,
+            parseInt(claimId),
+            passed,
+            verificationScore
+          ).catch(err => console.error('Claim result email failed:', err.message));
+        }
+      } catch (emailErr) {
+        console.error('Failed to send claim result email:', emailErr);
       }
-    } catch (emailErr) {
-      console.error('Failed to send claim result email:', emailErr);
     }
 
-    const attemptsRemaining = 3 - parseInt(attemptsToday.rows[0].count) - 1;
+    const attemptsRemaining = cooldown.attemptsRemaining - 1;
+    // Only whether the finder's details matched: a count would let a
+    // claimant confirm one guessed detail at a time
+    const itemSummary = itemPassed ? '' : ' The details about the item did not match.';
+    const wait = attempt.newCooldown ? ` ${formatCooldownMessage(attempt.newCooldown.getTime() - Date.now())}` : '';
 
     res.json({
       success: true,
       data: {
         passed,
-        score: correctCount,
+        score: ownerCheck.correct,
+        questions_asked: ownerCheck.asked,
+        weighted_score: Math.round(ownerCheck.score * 100) / 100,
+        item_check_passed: itemPassed,
         attempts_remaining: attemptsRemaining,
-        message: passed 
+        cooldown_until: attempt.newCooldown,
+        status: settlement?.status ?? ClaimStatus.PENDING,
+        ...(foundItemImages && { found_item_image_urls: foundItemImages }),
+        ...(escalated && { dispute_id: settlement!.dispute_id }),
+        message: escalated
+          ? 'Verification passed, but another claim for this item was verified first. Your claim has been sent to an administrator as a dispute.'
+          : passed 
           ? 'Verification successful! You can now coordinate the handover.'
-          : `Verification failed. ${correctCount}/3 correct. ${attemptsRemaining} attempts remaining.`
+          : `Verification failed. ${ownerCheck.correct}/${ownerCheck.asked} correct.${itemSummary} ${attemptsRemaining} attempts remaining today.${wait}`
       }
     });
   } catch (error) {
     console.error('Verify claim error:', error);
     res.status(500).json({ success: false, message: 'Verification failed' });
+  } finally {
+    // Answers turned away or a failure before recording: nothing was
+    // checked, so the claimant is not kept waiting for it
+    if (reservation && !recorded) {
+      await releaseVerificationAttempt(parseInt(req.params.claimId), reservation)
+        .catch(err => console.error('Failed to release verification attempt:', err));
+    }
   }
 }
 
@@ -567,7 +578,8 @@ export async function getClaim(req: Request, res: Response): Promise<void> {
     const result = await query(
       `SELECT c.*, 
               li.title as lost_item_title, li.category,
-              fi.title as found_item_title, fi.finder_id,
+              fi.title as found_item_title, fi.finder_id, fi.category as found_item_category,
+              fi.image_urls as found_item_images, fi.redacted_image_urls as found_item_redacted_images,
               h.otp_expires_at, h.otp_verified,
               u.name as claimant_name
        FROM claims c
@@ -584,7 +596,7 @@ export async function getClaim(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    const claim = result.rows[0];
+    const { found_item_images, found_item_redacted_images, ...claim } = result.rows[0];
 
     // Only allow access to claim participants or admin
     const isParticipant = claim.claimant_id === userId || claim.finder_id === userId;
@@ -593,7 +605,19 @@ export async function getClaim(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    res.json({ success: true, data: claim });
+    // ID/wallet photos stay redacted for the claimant until they pass verification
+    const isDocument = ['ID', 'WALLET'].includes(claim.found_item_category);
+    const fullImages = !isDocument || claim.finder_id === userId || req.user!.role === UserRole.ADMIN ||
+      [ClaimStatus.VERIFIED, ClaimStatus.RETURNED].includes(claim.status);
+
+    res.json({
+      success: true,
+      data: {
+        ...claim,
+        found_item_image_urls: fullImages ? signFileUrls(found_item_images || []) : found_item_redacted_images || [],
+        found_item_images_redacted: !fullImages
+      }
+    });
   } catch (error) {
     console.error('Get claim error:', error);
     res.status(500).json({ success: false, message: 'Failed to get claim' });
@@ -609,31 +633,44 @@ export async function getMyClaims(req: Request, res: Response): Promise<void> {
       req.query.limit as string
     );
 
-    const countResult = await query(
-      'SELECT COUNT(*) FROM claims WHERE claimant_id = $1',
-      [userId]
-    );
-    const total = parseInt(countResult.rows[0].count);
+    const cursor = decodeCursor(req.query.cursor);
+    if (cursor === null) {
+      res.status(400).json({ success: false, message: 'Invalid cursor' });
+      return;
+    }
 
+    let total: number | null = null;
+    if (!cursor) {
+      const countResult = await query(
+        'SELECT COUNT(*) FROM claims WHERE claimant_id = $1',
+        [userId]
+      );
+      total = parseInt(countResult.rows[0].count);
+    }
+
+    const params: any[] = [userId];
+    const keyset = cursor ? `AND ${keysetCondition('c.created_at', 'c.id', cursor, params)}` : '';
     const result = await query(
       `SELECT c.*, 
               li.title as lost_item_title, li.category,
               fi.title as found_item_title,
-              h.otp_expires_at, h.otp_verified
+              h.otp_expires_at, h.otp_verified,
+              ${cursorKeyColumn('c.created_at')}
        FROM claims c
        JOIN lost_items li ON c.lost_item_id = li.id
        JOIN found_items fi ON c.found_item_id = fi.id
        LEFT JOIN handover_confirmations h ON h.claim_id = c.id
-       WHERE c.claimant_id = $1
-       ORDER BY c.created_at DESC
-       LIMIT $2 OFFSET $3`,
-      [userId, limit, offset]
+       WHERE c.claimant_id = $1 ${keyset}
+       ORDER BY c.created_at DESC, c.id DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit + 1, cursor ? 0 : offset]
     );
+    const { rows, nextCursor } = takeCursorPage(result.rows, limit);
 
     res.json({
       success: true,
-      data: result.rows,
-      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) }
+      data: rows,
+      pagination: buildPagination(page, limit, total, nextCursor)
     });
   } catch (error) {
     console.error('Get my claims error:', error);
@@ -1,7 +1,11 @@
 import { Request, Response } from 'express';
 import { query } from '../config/database';
 import { parsePaginationParams, hashPassword } from '../utils';
-import { logCreate, logUpdate, logModeration } from '../services/auditService';
+import { logCreate, logUpdate, logModeration, logCustodyTransfer } from '../services/auditService';
+import {
+  listRoutes, listVehicles, createRoute, createVehicle, setRegistryEntryActive
+} from '../services/transportService';
+import * as custodyService from '../services/custodyService';
 import { UserRole, CooperativeStatus } from '../types';
 
 // ============================================
@@ -332,4 +336,195 @@ export async function getCooperativeDashboard(req: Request, res: Response): Prom
     console.error('Get cooperative dashboard error:', error);
     res.status(500).json({ success: false, message: 'Failed to get dashboard' });
   }
-}
\ No newline at end of file
+}
+
+// ============================================
+// ROUTES & VEHICLES
+// ============================================
+
+// Admins manage any cooperative; staff only their own
+async function canManageCooperative(req: Request, cooperativeId: number): Promise<boolean> {
+  if (req.user!.role === UserRole.ADMIN) return true;
+  const userResult = await query('SELECT cooperative_id FROM users WHERE id = $1', [req.user!.userId]);
+  return userResult.rows[0]?.cooperative_id === cooperativeId;
+}
+
+// Get a cooperative's routes (public, so owners can name the route they took)
+export async function getCooperativeRoutes(req: Request, res: Response): Promise<void> {
+  try {
+    const cooperativeId = parseInt(req.params.id);
+    const includeInactive = req.query.include_inactive === 'true'
+      && !!req.user && await canManageCooperative(req, cooperativeId);
+
+    const routes = await listRoutes(cooperativeId, includeInactive);
+    res.json({ success: true, data: routes });
+  } catch (error) {
+    console.error('Get cooperative routes error:', error);
+    res.status(500).json({ success: false, message: 'Failed to get routes' });
+  }
+}
+
+// Register a route (admin or the cooperative's staff)
+export async function createCooperativeRoute(req: Request, res: Response): Promise<void> {
+  try {
+    const cooperativeId = parseInt(req.params.id);
+    if (!await canManageCooperative(req, cooperativeId)) {
+      res.status(403).json({ success: false, message: 'You can only manage your own cooperative' });
+      return;
+    }
+
+    const result = await createRoute(cooperativeId, req.body, req.user!.userId);
+    if (!result.success) {
+      res.status(409).json({ success: false, message: result.message });
+      return;
+    }
+
+    await logCreate(req, 'cooperative_route', result.route!.id, {
+      cooperative_id: cooperativeId,
+      name: result.route!.name,
+      stops: result.route!.stops
+    });
+
+    res.status(201).json({ success: true, data: result.route, message: result.message });
+  } catch (error) {
+    console.error('Create cooperative route error:', error);
+    res.status(500).json({ success: false, message: 'Failed to register route' });
+  }
+}
+
+// Get a cooperative's vehicles (admin or the cooperative's staff)
+export async function getCooperativeVehicles(req: Request, res: Response): Promise<void> {
+  try {
+    const cooperativeId = parseInt(req.params.id);
+    if (!await canManageCooperative(req, cooperativeId)) {
+      res.status(403).json({ success: false, message: 'You can only view your own cooperative' });
+      return;
+    }
+
+    const vehicles = await listVehicles(cooperativeId, req.query.include_inactive === 'true');
+    res.json({ success: true, data: vehicles });
+  } catch (error) {
+    console.error('Get cooperative vehicles error:', error);
+    res.status(500).json({ success: false, message: 'Failed to get vehicles' });
+  }
+}
+
+// Register a vehicle (admin or the cooperative's staff)
+export async function createCooperativeVehicle(req: Request, res: Response): Promise<void> {
+  try {
+    const cooperativeId = parseInt(req.params.id);
+    if (!await canManageCooperative(req, cooperativeId)) {
+      res.status(403).json({ success: false, message: 'You can only manage your own cooperative' });
+      return;
+    }
+
+    const result = await createVehicle(cooperativeId, req.body, req.user!.userId);
+    if (!result.success) {
+      res.status(result.message.includes('already registered') ? 409 : 400).json({ success: false, message: result.message });
+      return;
+    }
+
+    await logCreate(req, 'cooperative_vehicle', result.vehicle!.id, {
+      cooperative_id: cooperativeId,
+      plate_number: result.vehicle!.plate_number,
+      route_id: result.vehicle!.route_id
+    });
+
+    res.status(201).json({ success: true, data: result.vehicle, message: result.message });
+  } catch (error) {
+    console.error('Create cooperative vehicle error:', error);
+    res.status(500).json({ success: false, message: 'Failed to register vehicle' });
+  }
+}
+
+// Retire or restore a route / vehicle
+function registryStatusHandler(kind: 'route' | 'vehicle', idParam: string) {
+  return async (req: Request, res: Response): Promise<void> => {
+    try {
+      const cooperativeId = parseInt(req.params.id);
+      const entryId = parseInt(req.params[idParam]);
+      if (!await canManageCooperative(req, cooperativeId)) {
+        res.status(403).json({ success: false, message: 'You can only manage your own cooperative' });
+        return;
+      }
+
+      const { is_active } = req.body;
+      const updated = await setRegistryEntryActive(kind, cooperativeId, entryId, is_active);
+      if (!updated) {
+        res.status(404).json({ success: false, message: `${kind === 'route' ? 'Route' : 'Vehicle'} not found` });
+        return;
+      }
+
+      await logUpdate(req, `cooperative_${kind}`, entryId, { is_active: !is_active }, { is_active });
+      res.json({ success: true, message: `${kind === 'route' ? 'Route' : 'Vehicle'} ${is_active ? 'restored' : 'retired'}` });
+    } catch (error) {
+      console.error(`Update cooperative ${kind} error:`, error);
+      res.status(500).json({ success: false, message: `Failed to update ${kind}` });
+    }
+  };
+}
+
+export const updateCooperativeRouteStatus = registryStatusHandler('route', 'routeId');
+export const updateCooperativeVehicleStatus = registryStatusHandler('vehicle', 'vehicleId');
+
+// ============================================
+// CUSTODY CHAIN
+// ============================================
+
+async function findCooperativeItem(cooperativeId: number, itemId: number): Promise<boolean> {
+  const result = await query(
+    'SELECT 1 FROM found_items WHERE id = $1 AND cooperative_id = $2',
+    [itemId, cooperativeId]
+  );
+  return result.rows.length > 0;
+}
+
+// Get the custody chain of a cooperative-held item (admin or the cooperative's staff)
+export async function getCustodyChain(req: Request, res: Response): Promise<void> {
+  try {
+    const cooperativeId = parseInt(req.params.id);
+    const itemId = parseInt(req.params.itemId);
+    if (!await canManageCooperative(req, cooperativeId)) {
+      res.status(403).json({ success: false, message: 'You can only view your own cooperative' });
+      return;
+    }
+    if (!await findCooperativeItem(cooperativeId, itemId)) {
+      res.status(404).json({ success: false, message: 'Found item not found in this cooperative' });
+      return;
+    }
+
+    const chain = await custodyService.getCustodyChain(itemId);
+    res.json({ success: true, data: chain });
+  } catch (error) {
+    console.error('Get custody chain error:', error);
+    res.status(500).json({ success: false, message: 'Failed to get custody chain' });
+  }
+}
+
+// Record a hand-over of a cooperative-held item; the recording staff member signs it
+export async function recordCustodyTransfer(req: Request, res: Response): Promise<void> {
+  try {
+    const cooperativeId = parseInt(req.params.id);
+    const itemId = parseInt(req.params.itemId);
+    if (!await canManageCooperative(req, cooperativeId)) {
+      res.status(403).json({ success: false, message: 'You can only manage your own cooperative' });
+      return;
+    }
+    if (!await findCooperativeItem(cooperativeId, itemId)) {
+      res.status(404).json({ success: false, message: 'Found item not found in this cooperative' });
+      return;
+    }
+
+    const result = await custodyService.recordCustodyTransfer(itemId, req.user!.userId, req.body);
+    if (!result.success) {
+      res.status(400).json({ success: false, message: result.message });
+      return;
+    }
+
+    await logCustodyTransfer(req, result.transfer!);
+    res.status(201).json({ success: true, data: result.transfer, message: result.message });
+  } catch (error) {
+    console.error('Record custody transfer error:', error);
+    res.status(500).json({ success: false, message: 'Failed to record custody transfer' });
+  }
+}
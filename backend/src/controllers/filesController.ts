@@ -0,0 +1,67 @@
+import { Request, Response } from 'express';
+import { query } from '../config/database';
+import {
+  getStorage,
+  isPrivateKey,
+  isValidKey,
+  signedUrlTtl,
+  variantKey,
+  verifyFileSignature,
+  UPLOAD_URL_PREFIX
+} from '../services/storageService';
+import { IMAGE_SIZES, ImageSize } from '../services/imageProcessingService';
+
+// ============================================
+// FILES CONTROLLER
+// Serves /uploads/<key> from whichever storage driver is configured
+// ============================================
+
+// Private keys need the signature handed out with the item; drivers with
+// their own URLs (S3) get a redirect, the others are streamed through.
+// ?size=thumb|medium picks a smaller copy; photos uploaded before the image
+// pipeline have none and are served as they are.
+export async function serveUpload(req: Request, res: Response): Promise<void> {
+  try {
+    const originalKey = req.params[0];
+    if (!originalKey || !isValidKey(originalKey)) {
+      res.status(404).json({ success: false, message: 'File not found' });
+      return;
+    }
+
+    const isPrivate = isPrivateKey(originalKey);
+    if (isPrivate && !verifyFileSignature(originalKey, req.query.expires, req.query.signature)) {
+      res.status(403).json({ success: false, message: 'This link has expired or is invalid' });
+      return;
+    }
+
+    let key = originalKey;
+    const size = req.query.size as string | undefined;
+    if (size && Object.keys(IMAGE_SIZES).includes(size)) {
+      const processed = await query('SELECT 1 FROM item_images WHERE url = $1', [`${UPLOAD_URL_PREFIX}${originalKey}`]);
+      if (processed.rows.length > 0) key = variantKey(originalKey, size as ImageSize);
+    }
+
+    const storage = getStorage();
+    if (storage.directUrl) {
+      res.redirect(302, storage.directUrl(key, signedUrlTtl()));
+      return;
+    }
+
+    const file = await storage.get(key);
+    if (!file) {
+      res.status(404).json({ success: false, message: 'File not found' });
+      return;
+    }
+
+    res.set({
+      'Content-Type': file.contentType,
+      'Content-Length': String(file.body.length),
+      'Cache-Control': isPrivate ? 'private, no-store' : 'public, max-age=86400',
+      'X-Content-Type-Options': 'nosniff'
+    });
+    res.send(file.body);
+  } catch (error) {
+    console.error('Serve upload error:', error);
+    res.status(500).json({ success: false, message: 'Failed to load file' });
+  }
+}
@@ -1,9 +1,24 @@
 import { Request, Response } from 'express';
-import { query } from '../config/database';
-import { extractKeywords, parsePaginationParams } from '../utils';
+import { query, transaction } from '../config/database';
+import {
+  extractKeywords, parsePaginationParams, decodeCursor, keysetCondition, cursorKeyColumn,
+  takeCursorPage, buildPagination
+} from '../utils';
 import { logCreate, logUpdate, logDelete } from '../services/auditService';
-import { onItemCreated, findMatchesForFoundItem } from '../services/matchingService';
-import { ItemCategory, FoundItemStatus, ItemSource, UserRole } from '../types';
+import { findMatchesForFoundItem } from '../services/matchingService';
+import { onItemCreated, onItemUpdated } from '../services/matchJobService';
+import { runSavedSearchesForFoundItem } from '../services/savedSearchService';
+import { recordMatchFeedback, removeMatchFeedback, getFeedbackVerdicts } from '../services/matchFeedbackService';
+import { resolveTransportContext } from '../services/transportService';
+import { buildItemFilters, searchItems, getItemFacets, ItemFilters, SearchParams } from '../services/searchService';
+import { logSearch } from '../services/searchAnalyticsService';
+import { storeUploads, signFileUrls } from '../services/storageService';
+import { processUploads } from '../services/imageProcessingService';
+import { recordItemImages } from '../services/duplicateDetectionService';
+import { storeRedactedPreviews } from '../services/imageRedactionService';
+import { validateHiddenAttributes, saveHiddenAttributes, getRecordedAttributeKeys } from '../services/hiddenAttributeService';
+import { canViewClaimQueue, getClaimQueue } from '../services/claimQueueService';
+import { ItemCategory, FoundItemStatus, ItemSource, UserRole, MatchFeedbackVerdict } from '../types';
 
 // ============================================
 // FOUND ITEMS CONTROLLER
@@ -20,9 +35,18 @@ export async function createFoundItem(req: Request, res: Response): Promise<void
       location_area,
       location_hint,
       found_date,
-      cooperative_id
+      found_window_start,
+      found_window_end,
+      cooperative_id,
+      hidden_attributes
     } = req.body;
 
+    const hidden = validateHiddenAttributes(category, hidden_attributes || {});
+    if (!hidden.success) {
+      res.status(400).json({ success: false, message: hidden.message });
+      return;
+    }
+
     // Determine source
     let source = ItemSource.CITIZEN;
     let coopId = null;
@@ -39,24 +63,41 @@ export async function createFoundItem(req: Request, res: Response): Promise<void
       }
     }
 
+    // Staff logging for their cooperative pick from its registered routes and vehicles
+    const transport = await resolveTransportContext(req.body, coopId);
+    if (!transport.success) {
+      res.status(400).json({ success: false, message: transport.message });
+      return;
+    }
+    const t = transport.context!;
+
     const keywords = extractKeywords(`${title} ${description}`);
 
-    const result = await query(
-      `INSERT INTO found_items (finder_id, cooperative_id, category, title, description, 
-        location_area, location_hint, found_date, source, keywords, image_urls)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
-       RETURNING *`,
-      [userId, coopId, category, title, description, location_area, 
-       location_hint || null, found_date, source, keywords, []]
-    );
+    // The item and the finder's hidden attributes are saved together
+    const foundItem = await transaction(async (client) => {
+      const result = await client.query(
+        `INSERT INTO found_items (finder_id, cooperative_id, category, title, description,
+          location_area, location_hint, found_date, found_window_start, found_window_end, source, keywords, image_urls,
+          transport_cooperative_id, route_id, route_name, vehicle_plate, stop_sequence)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
+         RETURNING *`,
+        [userId, coopId, category, title, description, location_area,
+         location_hint || null, found_date, found_window_start || null, found_window_end || null, source, keywords, [],
+         t.transport_cooperative_id, t.route_id, t.route_name, t.vehicle_plate, t.stop_sequence]
+      );
+      await saveHiddenAttributes(client, result.rows[0].id, category, hidden.values!, userId);
+      return result.rows[0];
+    });
 
-    const foundItem = result.rows[0];
-    await logCreate(req, 'found_item', foundItem.id, { title, category, source });
+    await logCreate(req, 'found_item', foundItem.id, {
+      title, category, source, hidden_attributes: Object.keys(hidden.values!)
+    });
     setImmediate(() => onItemCreated('found', foundItem.id));
+    setImmediate(() => runSavedSearchesForFoundItem(foundItem.id));
 
     res.status(201).json({
       success: true,
-      data: foundItem,
+      data: { ...foundItem, hidden_attributes: Object.keys(hidden.values!) },
       message: 'Found item report created successfully'
     });
   } catch (error) {
@@ -73,69 +114,52 @@ export async function getFoundItems(req: Request, res: Response): Promise<void>
       req.query.limit as string
     );
 
-    const { category, location_area, date_from, date_to, keyword, status } = req.query;
-
-    const conditions: string[] = [];
-    const params: any[] = [];
-    let paramIndex = 1;
-
-    if (status) {
-      conditions.push(`f.status = $${paramIndex++}`);
-      params.push(status);
-    } else {
-      conditions.push(`f.status = 'UNCLAIMED'`);
-    }
-
-    if (category) {
-      conditions.push(`f.category = $${paramIndex++}`);
-      params.push(category);
-    }
-
-    if (location_area) {
-      conditions.push(`LOWER(f.location_area) LIKE LOWER($${paramIndex++})`);
-      params.push(`%${location_area}%`);
-    }
-
-    if (date_from) {
-      conditions.push(`f.found_date >= $${paramIndex++}`);
-      params.push(date_from);
-    }
-
-    if (date_to) {
-      conditions.push(`f.found_date <= $${paramIndex++}`);
-      params.push(date_to);
+    const cursor = decodeCursor(req.query.cursor);
+    if (cursor === null) {
+      res.status(400).json({ success: false, message: 'Invalid cursor' });
+      return;
     }
 
-    if (keyword) {
-      conditions.push(`(LOWER(f.title) LIKE LOWER($${paramIndex}) OR LOWER(f.description) LIKE LOWER($${paramIndex}))`);
-      params.push(`%${keyword}%`);
-      paramIndex++;
+    const filters = req.query as ItemFilters;
+    const params: any[] = [];
+    const conditions = buildItemFilters('found', filters, params);
+    if (cursor) conditions.push(keysetCondition('f.created_at', 'f.id', cursor, params));
+    const whereClause = `WHERE ${conditions.join(' AND ')}`;
+
+    // Following a cursor continues an earlier search: no recount, no new log entry
+    let total: number | null = null;
+    if (!cursor) {
+      const countResult = await query(`SELECT COUNT(*) FROM found_items f ${whereClause}`, params);
+      total = parseInt(countResult.rows[0].count);
+      const resultsCount = total;
+      setImmediate(() => logSearch(req, {
+        ...filters, query: filters.keyword, itemType: 'found', mode: 'LIST', page, resultsCount
+      }));
     }
 
-    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
-
-    const countResult = await query(`SELECT COUNT(*) FROM found_items f ${whereClause}`, params);
-    const total = parseInt(countResult.rows[0].count);
-
     const result = await query(
       `SELECT f.id, f.category, f.title, 
               CASE WHEN f.category IN ('ID', 'WALLET') THEN LEFT(f.description, 100) || '...' ELSE f.description END as description,
               f.location_area, f.found_date, f.status, f.source,
-              CASE WHEN f.category IN ('ID', 'WALLET') THEN ARRAY[]::text[] ELSE f.image_urls END as image_urls,
-              f.created_at, u.name as finder_name, c.name as cooperative_name
+              CASE WHEN f.category IN ('ID', 'WALLET') THEN f.redacted_image_urls ELSE f.image_urls END as image_urls,
+              f.created_at, u.name as finder_name, c.name as cooperative_name,
+              ${cursorKeyColumn('f.created_at')}
        FROM found_items f
        JOIN users u ON f.finder_id = u.id
        LEFT JOIN cooperatives c ON f.cooperative_id = c.id
        ${whereClause}
-       ORDER BY f.created_at DESC
-       LIMIT $${paramIndex++} OFFSET $${paramIndex++}`,
-      [...params, limit, offset]
+       ORDER BY f.created_at DESC, f.id DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit + 1, cursor ? 0 : offset]
     );
+    const { rows, nextCursor } = takeCursorPage(result.rows, limit);
+    const facets = req.query.facets === 'true' ? await getItemFacets('found', filters) : undefined;
 
     res.json({
       success: true,
-      data: result.rows,
-      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) }
+      data: rows,
+      pagination: buildPagination(page, limit, total, nextCursor),
+      ...(facets && { facets })
     });
   } catch (error) {
     console.error('Get found items error:', error);
@@ -143,6 +167,35 @@ export async function getFoundItems(req: Request, res: Response): Promise<void>
   }
 }
 
+// Ranked full-text search over found items
+export async function searchFoundItems(req: Request, res: Response): Promise<void> {
+  try {
+    const { page, limit, offset } = parsePaginationParams(
+      req.query.page as string,
+      req.query.limit as string
+    );
+
+    const search: SearchParams = { ...(req.query as unknown as SearchParams), limit, offset };
+    const [{ items, total }, facets] = await Promise.all([
+      searchItems('found', search, req.user?.userId),
+      req.query.facets === 'true' ? getItemFacets('found', search) : undefined
+    ]);
+    setImmediate(() => logSearch(req, {
+      ...search, query: search.q, itemType: 'found', mode: 'RANKED', page, resultsCount: total
+    }));
+
+    res.json({
+      success: true,
+      data: items,
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+      ...(facets && { facets })
+    });
+  } catch (error) {
+    console.error('Search found items error:', error);
+    res.status(500).json({ success: false, message: 'Failed to search found items' });
+  }
+}
+
 // Get single found item
 export async function getFoundItem(req: Request, res: Response): Promise<void> {
   try {
@@ -162,19 +215,40 @@ export async function getFoundItem(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    let item = result.rows[0];
+    const { redacted_image_urls, ...row } = result.rows[0];
+    let item = row;
     const isFinder = req.user?.userId === item.finder_id;
     const isAdmin = req.user?.role === UserRole.ADMIN;
 
     if (!isFinder && !isAdmin && (item.category === 'ID' || item.category === 'WALLET')) {
+      // A claimant who passed verification gets the full photos back
+      const verified = req.user ? await query(
+        `SELECT 1 FROM claims WHERE found_item_id = $1 AND claimant_id = $2 AND status IN ('VERIFIED', 'RETURNED')`,
+        [id, req.user.userId]
+      ) : null;
+
       item = {
         ...item,
         description: item.description.substring(0, 100) + '...',
-        image_urls: []
+        ...(!verified?.rows.length && { image_urls: redacted_image_urls, images_redacted: true })
       };
     }
 
-    res.json({ success: true, data: item });
+    // Which facts were noted, never their values
+    if (isFinder || isAdmin) {
+      item = { ...item, hidden_attributes: await getRecordedAttributeKeys(item.id, item.category) };
+    }
+
+    // The holder's name is for the cooperative's staff; the location stays so
+    // the owner knows where to collect the item
+    if (item.current_holder && !isFinder && !isAdmin) {
+      const staff = req.user?.role === UserRole.COOP_STAFF
+        ? await query('SELECT 1 FROM users WHERE id = $1 AND cooperative_id = $2', [req.user.userId, item.cooperative_id])
+        : null;
+      if (!staff?.rows.length) item = { ...item, current_holder: null };
+    }
+
+    res.json({ success: true, data: { ...item, image_urls: signFileUrls(item.image_urls) } });
   } catch (error) {
     console.error('Get found item error:', error);
     res.status(500).json({ success: false, message: 'Failed to get found item' });
@@ -210,6 +284,7 @@ export async function updateFoundItem(req: Request, res: Response): Promise<void
     );
 
     await logUpdate(req, 'found_item', parseInt(id), existing.rows[0], result.rows[0]);
+    setImmediate(() => onItemUpdated('found', parseInt(id)));
     res.json({ success: true, data: result.rows[0], message: 'Found item updated' });
   } catch (error) {
     console.error('Update found item error:', error);
@@ -217,6 +292,51 @@ export async function updateFoundItem(req: Request, res: Response): Promise<void
   }
 }
 
+// Record hidden attributes after logging (finder only, before anyone claims)
+export async function updateFoundItemHiddenAttributes(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    const existing = await query(
+      'SELECT id, category FROM found_items WHERE id = $1 AND finder_id = $2',
+      [id, userId]
+    );
+
+    if (existing.rows.length === 0) {
+      res.status(404).json({ success: false, message: 'Found item not found or no permission' });
+      return;
+    }
+
+    // Changing them mid-claim would let the finder pick who passes
+    const claims = await query(
+      `SELECT id FROM claims WHERE found_item_id = $1 AND status NOT IN ('CANCELLED', 'REJECTED', 'EXPIRED')`,
+      [id]
+    );
+    if (claims.rows.length > 0) {
+      res.status(400).json({ success: false, message: 'Hidden attributes cannot change once the item has been claimed' });
+      return;
+    }
+
+    const hidden = validateHiddenAttributes(existing.rows[0].category, req.body.hidden_attributes);
+    if (!hidden.success) {
+      res.status(400).json({ success: false, message: hidden.message });
+      return;
+    }
+
+    await transaction((client) =>
+      saveHiddenAttributes(client, parseInt(id), existing.rows[0].category, hidden.values!, userId)
+    );
+    await logUpdate(req, 'found_item', parseInt(id), {}, { hidden_attributes: Object.keys(hidden.values!) });
+
+    const keys = await getRecordedAttributeKeys(parseInt(id), existing.rows[0].category);
+    res.json({ success: true, data: { hidden_attributes: keys }, message: 'Hidden attributes saved' });
+  } catch (error) {
+    console.error('Update hidden attributes error:', error);
+    res.status(500).json({ success: false, message: 'Failed to save hidden attributes' });
+  }
+}
+
 // Delete found item
 export async function deleteFoundItem(req: Request, res: Response): Promise<void> {
   try {
@@ -273,16 +393,46 @@ export async function uploadFoundItemImages(req: Request, res: Response): Promis
       return;
     }
 
-    const newImageUrls = (req.files as Express.Multer.File[]).map(file => `/uploads/${file.filename}`);
+    // Found IDs and wallets are only shown to their finder: keep the photos private
     const currentImages = existing.rows[0].image_urls || [];
-    const allImages = [...currentImages, ...newImageUrls].slice(0, 5);
+    const files = (req.files as Express.Multer.File[]).slice(0, Math.max(0, 5 - currentImages.length));
+    const isPrivate = [ItemCategory.ID, ItemCategory.WALLET].includes(existing.rows[0].category);
+    const processed = await processUploads(files);
+    if (!processed.success) {
+      res.status(400).json({ success: false, message: processed.message });
+      return;
+    }
+
+    const stored = await storeUploads(processed.images!, { private: isPrivate });
+    const allImages = [...currentImages, ...stored.map(image => image.url)];
+    const reused = await recordItemImages('found', parseInt(id), userId, stored);
+
+    // Everyone else sees these photos with names and numbers pixelated
+    const previews = isPrivate ? await storeRedactedPreviews(processed.images!.map(image => image.original)) : [];
 
     const result = await query(
-      'UPDATE found_items SET image_urls = $1 WHERE id = $2 RETURNING *',
-      [allImages, id]
+      `UPDATE found_items SET image_urls = $1, redacted_image_urls = redacted_image_urls || $2::text[]
+       WHERE id = $3 RETURNING *`,
+      [allImages, previews, id]
     );
 
-    res.json({ success: true, data: result.rows[0], message: 'Images uploaded' });
+    // Match explanations point out when both sides have photos
+    setImmediate(() => onItemUpdated('found', parseInt(id)));
+
+    const updated = result.rows[0];
+    res.json({
+      success: true,
+      data: {
+        ...updated,
+        image_urls: signFileUrls(updated.image_urls),
+        // Same photo as on another of your reports: probably reported twice.
+        // Matches with other accounts' photos only feed fraud scoring.
+        possible_duplicates: reused
+          .filter(image => image.same_user)
+          .map(image => ({ item_type: image.item_type, item_id: image.item_id }))
+      },
+      message: 'Images uploaded'
+    });
   } catch (error) {
     console.error('Upload images error:', error);
     res.status(500).json({ success: false, message: 'Failed to upload images' });
@@ -308,6 +458,7 @@ export async function getFoundItemMatches(req: Request, res: Response): Promise<
     }
 
     const matches = await findMatchesForFoundItem(parseInt(id));
+    const verdicts = await getFeedbackVerdicts(req.user!.userId, 'found', parseInt(id));
     res.json({
       success: true,
       data: matches.map(m => ({
@@ -317,10 +468,18 @@ export async function getFoundItemMatches(req: Request, res: Response): Promise<
           title: m.lost_item.title,
           description: m.lost_item.description,
           location_area: m.lost_item.location_area,
-          lost_date: m.lost_item.lost_date
+          lost_date: m.lost_item.lost_date,
+          lost_window_start: m.lost_item.lost_window_start,
+          lost_window_end: m.lost_item.lost_window_end,
+          route_name: m.lost_item.route_name,
+          vehicle_plate: m.lost_item.vehicle_plate,
+          // The owner's photos are private: a finder only learns they exist
+          has_photos: (m.lost_item.image_urls?.length ?? 0) > 0
         },
         score: m.score,
-        explanation: m.explanation
+        explanation: m.explanation,
+        profile_version: m.profile_version,
+        my_feedback: verdicts.get(m.lost_item.id) || null
       }))
     });
   } catch (error) {
@@ -329,6 +488,93 @@ export async function getFoundItemMatches(req: Request, res: Response): Promise<
   }
 }
 
+// Ranked queue of the claims on a found item (finder, the holding cooperative's staff, admin)
+export async function getFoundItemClaimQueue(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+
+    const itemResult = await query('SELECT id, finder_id, cooperative_id FROM found_items WHERE id = $1', [id]);
+
+    if (itemResult.rows.length === 0) {
+      res.status(404).json({ success: false, message: 'Found item not found' });
+      return;
+    }
+
+    if (!await canViewClaimQueue(req.user!, itemResult.rows[0])) {
+      res.status(403).json({ success: false, message: 'Can only view claims on your own items' });
+      return;
+    }
+
+    const queue = await getClaimQueue(parseInt(id));
+    res.json({ success: true, data: queue });
+  } catch (error) {
+    console.error('Get found item claim queue error:', error);
+    res.status(500).json({ success: false, message: 'Failed to get claims' });
+  }
+}
+
+// Finder feedback on a suggested match ("not this one" / "looks right")
+export async function submitFoundItemMatchFeedback(req: Request, res: Response): Promise<void> {
+  try {
+    const { id, lostItemId } = req.params;
+    const { verdict, reason } = req.body;
+
+    const itemResult = await query('SELECT finder_id FROM found_items WHERE id = $1', [id]);
+    if (itemResult.rows.length === 0) {
+      res.status(404).json({ success: false, message: 'Found item not found' });
+      return;
+    }
+
+    if (itemResult.rows[0].finder_id !== req.user!.userId) {
+      res.status(403).json({ success: false, message: 'Can only give feedback on matches for your own items' });
+      return;
+    }
+
+    const feedback = await recordMatchFeedback({
+      lostItemId: parseInt(lostItemId),
+      foundItemId: parseInt(id),
+      userId: req.user!.userId,
+      role: 'finder',
+      verdict,
+      reason
+    });
+
+    if (!feedback) {
+      res.status(404).json({ success: false, message: 'Lost item not found' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: feedback,
+      message: verdict === MatchFeedbackVerdict.NOT_MINE
+        ? 'Match dismissed. It will not be suggested again.'
+        : 'Thanks for the feedback'
+    });
+  } catch (error) {
+    console.error('Found item match feedback error:', error);
+    res.status(500).json({ success: false, message: 'Failed to save match feedback' });
+  }
+}
+
+// Withdraw finder feedback on a match
+export async function deleteFoundItemMatchFeedback(req: Request, res: Response): Promise<void> {
+  try {
+    const { id, lostItemId } = req.params;
+
+    const removed = await removeMatchFeedback(parseInt(lostItemId), parseInt(id), req.user!.userId);
+    if (!removed) {
+      res.status(404).json({ success: false, message: 'No feedback to remove' });
+      return;
+    }
+
+    res.json({ success: true, message: 'Match feedback removed' });
+  } catch (error) {
+    console.error('Delete found item match feedback error:', error);
+    res.status(500).json({ success: false, message: 'Failed to remove match feedback' });
+  }
+}
+
 // Get user's own found items
 export async function getMyFoundItems(req: Request, res: Response): Promise<void> {
   try {
@@ -338,19 +584,34 @@ export async function getMyFoundItems(req: Request, res: Response): Promise<void
       req.query.limit as string
     );
 
-    const countResult = await query('SELECT COUNT(*) FROM found_items WHERE finder_id = $1', [userId]);
-    const total = parseInt(countResult.rows[0].count);
+    const cursor = decodeCursor(req.query.cursor);
+    if (cursor === null) {
+      res.status(400).json({ success: false, message: 'Invalid cursor' });
+      return;
+    }
+
+    let total: number | null = null;
+    if (!cursor) {
+      const countResult = await query('SELECT COUNT(*) FROM found_items WHERE finder_id = $1', [userId]);
+      total = parseInt(countResult.rows[0].count);
+    }
 
+    const params: any[] = [userId];
+    const keyset = cursor ? `AND ${keysetCondition('f.created_at', 'f.id', cursor, params)}` : '';
     const result = await query(
-      `SELECT f.*, (SELECT COUNT(*) FROM claims c WHERE c.found_item_id = f.id) as claim_count
-       FROM found_items f WHERE f.finder_id = $1 ORDER BY f.created_at DESC LIMIT $2 OFFSET $3`,
-      [userId, limit, offset]
+      `SELECT f.*, (SELECT COUNT(*) FROM claims c WHERE c.found_item_id = f.id) as claim_count,
+              ${cursorKeyColumn('f.created_at')}
+       FROM found_items f WHERE f.finder_id = $1 ${keyset}
+       ORDER BY f.created_at DESC, f.id DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit + 1, cursor ? 0 : offset]
     );
+    const { rows, nextCursor } = takeCursorPage(result.rows, limit);
 
     res.json({
       success: true,
-      data: result.rows,
-      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) }
+      data: rows.map(row => ({ ...row, image_urls: signFileUrls(row.image_urls) })),
+      pagination: buildPagination(page, limit, total, nextCursor)
     });
   } catch (error) {
     console.error('Get my found items error:', error);
@@ -0,0 +1,111 @@
+import { Request, Response } from 'express';
+import { logCreate, logUpdate } from '../services/auditService';
+import { onItemCreated } from '../services/matchJobService';
+import {
+  createLossIncident,
+  getLossIncident,
+  listLossIncidents,
+  markItemsRecovered
+} from '../services/lossIncidentService';
+
+// ============================================
+// LOSS INCIDENTS CONTROLLER
+// Several lost items reported as one loss
+// ============================================
+
+// Report a loss with all the items in it; each item becomes its own lost report
+export async function createIncident(req: Request, res: Response): Promise<void> {
+  try {
+    const result = await createLossIncident(req.user!.userId, req.body);
+    if (!result.success) {
+      res.status(400).json({ success: false, message: result.message });
+      return;
+    }
+
+    const incident = result.incident;
+    const items = result.items!;
+
+    await logCreate(req, 'loss_incident', incident.id, {
+      title: incident.title,
+      items: items.map(item => item.id)
+    });
+    for (const item of items) {
+      await logCreate(req, 'lost_item', item.id, { title: item.title, category: item.category, incident_id: incident.id });
+    }
+
+    // Trigger matching in background, one item at a time
+    setImmediate(async () => {
+      for (const item of items) {
+        await onItemCreated('lost', item.id);
+      }
+    });
+
+    res.status(201).json({
+      success: true,
+      data: {
+        ...incident,
+        items: items.map(item => ({
+          id: item.id,
+          category: item.category,
+          title: item.title,
+          status: item.status,
+          photo_url: item.photo_url
+        }))
+      },
+      message: result.message
+    });
+  } catch (error) {
+    console.error('Create loss incident error:', error);
+    res.status(500).json({ success: false, message: 'Failed to report loss incident' });
+  }
+}
+
+// Owner only: the incident with its items and how well each is matched
+export async function getIncident(req: Request, res: Response): Promise<void> {
+  try {
+    const incident = await getLossIncident(req.user!.userId, parseInt(req.params.id));
+    if (!incident) {
+      res.status(404).json({ success: false, message: 'Loss incident not found' });
+      return;
+    }
+
+    res.json({ success: true, data: incident });
+  } catch (error) {
+    console.error('Get loss incident error:', error);
+    res.status(500).json({ success: false, message: 'Failed to get loss incident' });
+  }
+}
+
+export async function getMyIncidents(req: Request, res: Response): Promise<void> {
+  try {
+    const incidents = await listLossIncidents(req.user!.userId);
+    res.json({ success: true, data: incidents });
+  } catch (error) {
+    console.error('Get loss incidents error:', error);
+    res.status(500).json({ success: false, message: 'Failed to get loss incidents' });
+  }
+}
+
+// Several items came back together (the bag was handed in with the phone in it)
+export async function recoverIncidentItems(req: Request, res: Response): Promise<void> {
+  try {
+    const incidentId = parseInt(req.params.id);
+    const result = await markItemsRecovered(req.user!.userId, incidentId, req.body.item_ids);
+    if (!result.success) {
+      const status = result.message === 'Loss incident not found' ? 404 : 400;
+      res.status(status).json({ success: false, message: result.message });
+      return;
+    }
+
+    await logUpdate(req, 'loss_incident', incidentId, {}, { recovered: result.recovered });
+
+    res.json({
+      success: true,
+      data: { recovered: result.recovered, open_items: result.open_items },
+      message: result.message
+    });
+  } catch (error) {
+    console.error('Recover incident items error:', error);
+    res.status(500).json({ success: false, message: 'Failed to update loss incident' });
+  }
+}
@@ -1,9 +1,22 @@
 import { Request, Response } from 'express';
 import { query, transaction } from '../config/database';
-import { extractKeywords, hashSecretAnswer, parsePaginationParams } from '../utils';
+import {
+  extractKeywords, parsePaginationParams, decodeCursor, keysetCondition,
+  cursorKeyColumn, takeCursorPage, buildPagination
+} from '../utils';
 import { logCreate, logUpdate, logDelete } from '../services/auditService';
-import { onItemCreated, findMatchesForLostItem } from '../services/matchingService';
-import { ItemCategory, LostItemStatus } from '../types';
+import { findMatchesForLostItem } from '../services/matchingService';
+import { onItemCreated, onItemUpdated } from '../services/matchJobService';
+import { recordMatchFeedback, removeMatchFeedback, getFeedbackVerdicts } from '../services/matchFeedbackService';
+import { resolveTransportContext } from '../services/transportService';
+import { insertLostItem } from '../services/lossIncidentService';
+import { getQuestionTexts } from '../services/verificationQuestionService';
+import { buildItemFilters, searchItems, getItemFacets, ItemFilters, SearchParams } from '../services/searchService';
+import { logSearch } from '../services/searchAnalyticsService';
+import { storeUploads, signFileUrls } from '../services/storageService';
+import { processUploads } from '../services/imageProcessingService';
+import { recordItemImages } from '../services/duplicateDetectionService';
+import { ItemCategory, LostItemStatus, MatchFeedbackVerdict } from '../types';
 
 // ============================================
 // LOST ITEMS CONTROLLER
@@ -13,54 +26,18 @@ import { ItemCategory, LostItemStatus } from '../types';
 export async function createLostItem(req: Request, res: Response): Promise<void> {
   try {
     const userId = req.user!.userId;
-    const {
-      category,
-      title,
-      description,
-      location_area,
-      location_hint,
-      lost_date,
-      photo_url,
-      verification_questions
-    } = req.body;
-
-    // Extract keywords for matching
-    const keywords = extractKeywords(`${title} ${description}`);
+    const { category, title } = req.body;
 
-    // Create lost item and verification secrets in transaction
-    const result = await transaction(async (client) => {
-      // Create lost item
-      const itemResult = await client.query(
-        `INSERT INTO lost_items (user_id, category, title, description, location_area, location_hint, lost_date, keywords, photo_url)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-         RETURNING *`,
-        [userId, category, title, description, location_area, location_hint || null, lost_date, keywords, photo_url || null]
-      );
-
-      const lostItem = itemResult.rows[0];
-
-      // Hash verification answers
-      const q1Answer = await hashSecretAnswer(verification_questions[0].answer);
-      const q2Answer = await hashSecretAnswer(verification_questions[1].answer);
-      const q3Answer = await hashSecretAnswer(verification_questions[2].answer);
-
-      // Create verification secrets
-      await client.query(
-        `INSERT INTO verification_secrets (lost_item_id, 
-          question_1_text, answer_1_hash, answer_1_salt,
-          question_2_text, answer_2_hash, answer_2_salt,
-          question_3_text, answer_3_hash, answer_3_salt)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
-        [
-          lostItem.id,
-          verification_questions[0].question, q1Answer.hash, q1Answer.salt,
-          verification_questions[1].question, q2Answer.hash, q2Answer.salt,
-          verification_questions[2].question, q3Answer.hash, q3Answer.salt
-        ]
-      );
+    const transport = await resolveTransportContext(req.body);
+    if (!transport.success) {
+      res.status(400).json({ success: false, message: transport.message });
+      return;
+    }
 
-      return lostItem;
-    });
+    // Create lost item and verification secrets in transaction
+    const result = await transaction((client) =>
+      insertLostItem(client, userId, req.body, transport.context!)
+    );
 
     // Log creation
     await logCreate(req, 'lost_item', result.id, { title, category });
@@ -78,6 +55,13 @@ export async function createLostItem(req: Request, res: Response): Promise<void>
         location_area: result.location_area,
         location_hint: result.location_hint,
         lost_date: result.lost_date,
+        lost_window_start: result.lost_window_start,
+        lost_window_end: result.lost_window_end,
+        transport_cooperative_id: result.transport_cooperative_id,
+        route_id: result.route_id,
+        route_name: result.route_name,
+        vehicle_plate: result.vehicle_plate,
+        stop_sequence: result.stop_sequence,
         status: result.status,
         photo_url: result.photo_url,
         created_at: result.created_at
@@ -101,95 +85,99 @@ export async function getLostItems(req: Request, res: Response): Promise<void> {
       req.query.limit as string
     );
 
-    const {
-      category,
-      location_area,
-      date_from,
-      date_to,
-      keyword,
-      status
-    } = req.query;
-
-    // Build query conditions
-    const conditions: string[] = [];
-    const params: any[] = [];
-    let paramIndex = 1;
-
-    // Only show active items by default for public view
-    if (status) {
-      conditions.push(`l.status = $${paramIndex++}`);
-      params.push(status);
-    } else {
-      conditions.push(`l.status = 'ACTIVE'`);
-    }
-
-    if (category) {
-      conditions.push(`l.category = $${paramIndex++}`);
-      params.push(category);
-    }
-
-    if (location_area) {
-      conditions.push(`LOWER(l.location_area) LIKE LOWER($${paramIndex++})`);
-      params.push(`%${location_area}%`);
-    }
-
-    if (date_from) {
-      conditions.push(`l.lost_date >= $${paramIndex++}`);
-      params.push(date_from);
-    }
-
-    if (date_to) {
-      conditions.push(`l.lost_date <= $${paramIndex++}`);
-      params.push(date_to);
+    const cursor = decodeCursor(req.query.cursor);
+    if (cursor === null) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid cursor'
+      });
+      return;
     }
 
-    if (keyword) {
-      conditions.push(`(
-        LOWER(l.title) LIKE LOWER($${paramIndex}) OR 
-        LOWER(l.description) LIKE LOWER($${paramIndex}) OR
-        $${paramIndex}::text = ANY(l.keywords)
-      )`);
-      params.push(`%${keyword}%`);
-      paramIndex++;
+    const filters = req.query as ItemFilters;
+    const params: any[] = [];
+    const conditions = buildItemFilters('lost', filters, params);
+    if (cursor) conditions.push(keysetCondition('l.created_at', 'l.id', cursor, params));
+    const whereClause = `WHERE ${conditions.join(' AND ')}`;
+
+    // Get total count; following a cursor continues an earlier search, so
+    // it is neither recounted nor logged again
+    let total: number | null = null;
+    if (!cursor) {
+      const countResult = await query(
+        `SELECT COUNT(*) FROM lost_items l ${whereClause}`,
+        params
+      );
+      total = parseInt(countResult.rows[0].count);
+      const resultsCount = total;
+      setImmediate(() => logSearch(req, {
+        ...filters, query: filters.keyword, itemType: 'lost', mode: 'LIST', page, resultsCount
+      }));
     }
 
-    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
-
-    // Get total count
-    const countResult = await query(
-      `SELECT COUNT(*) FROM lost_items l ${whereClause}`,
-      params
-    );
-    const total = parseInt(countResult.rows[0].count);
-
     // Get items with user info
     const result = await query(
       `SELECT l.id, l.category, l.title, l.description, l.location_area, 
               l.location_hint, l.lost_date, l.status, l.photo_url, l.created_at,
-              u.name as user_name
+              u.name as user_name, ${cursorKeyColumn('l.created_at')}
        FROM lost_items l
        JOIN users u ON l.user_id = u.id
        ${whereClause}
-       ORDER BY l.created_at DESC
-       LIMIT $${paramIndex++} OFFSET $${paramIndex++}`,
-      [...params, limit, offset]
+       ORDER BY l.created_at DESC, l.id DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit + 1, cursor ? 0 : offset]
     );
+    const { rows, nextCursor } = takeCursorPage(result.rows, limit);
+    const facets = req.query.facets === 'true' ? await getItemFacets('lost', filters) : undefined;
 
     res.json({
       success: true,
-      data: result.rows,
+      data: rows,
+      pagination: buildPagination(page, limit, total, nextCursor),
+      ...(facets && { facets })
+    });
+  } catch (error) {
+    console.error('Get lost items error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to get lost items'
+    });
+  }
+}
+
+// Ranked full-text search over lost items
+export async function searchLostItems(req: Request, res: Response): Promise<void> {
+  try {
+    const { page, limit, offset } = parsePaginationParams(
+      req.query.page as string,
+      req.query.limit as string
+    );
+
+    const search: SearchParams = { ...(req.query as unknown as SearchParams), limit, offset };
+    const [{ items, total }, facets] = await Promise.all([
+      searchItems('lost', search, req.user?.userId),
+      req.query.facets === 'true' ? getItemFacets('lost', search) : undefined
+    ]);
+    setImmediate(() => logSearch(req, {
+      ...search, query: search.q, itemType: 'lost', mode: 'RANKED', page, resultsCount: total
+    }));
+
+    res.json({
+      success: true,
+      data: items,
       pagination: {
         page,
         limit,
         total,
         totalPages: Math.ceil(total / limit)
-      }
+      },
+      ...(facets && { facets })
     });
   } catch (error) {
-    console.error('Get lost items error:', error);
+    console.error('Search lost items error:', error);
     res.status(500).json({
       success: false,
-      message: 'Failed to get lost items'
+      message: 'Failed to search lost items'
     });
   }
 }
@@ -215,29 +203,22 @@ export async function getLostItem(req: Request, res: Response): Promise<void> {
       return;
     }
 
-    const item = result.rows[0];
+    const { image_urls, ...item } = result.rows[0];
+    const isOwner = req.user?.userId === item.user_id;
 
     // If user is the owner, include verification questions (not answers)
     let verificationQuestions = null;
-    if (req.user?.userId === item.user_id) {
-      const secretsResult = await query(
-        `SELECT question_1_text, question_2_text, question_3_text
-         FROM verification_secrets WHERE lost_item_id = $1`,
-        [id]
-      );
-      if (secretsResult.rows.length > 0) {
-        verificationQuestions = [
-          secretsResult.rows[0].question_1_text,
-          secretsResult.rows[0].question_2_text,
-          secretsResult.rows[0].question_3_text
-        ];
-      }
+    if (isOwner) {
+      const questions = await getQuestionTexts(parseInt(id));
+      if (questions.length > 0) verificationQuestions = questions;
     }
 
     res.json({
       success: true,
       data: {
         ...item,
+        // Uploaded photos are private to the owner
+        ...(isOwner && { image_urls: signFileUrls(image_urls) }),
         verification_questions: verificationQuestions
       }
     });
@@ -292,6 +273,9 @@ export async function updateLostItem(req: Request, res: Response): Promise<void>
     // Log update
     await logUpdate(req, 'lost_item', parseInt(id), existing.rows[0], result.rows[0]);
 
+    // Re-match in background (keywords or location may have changed)
+    setImmediate(() => onItemUpdated('lost', parseInt(id)));
+
     res.json({
       success: true,
       data: result.rows[0],
@@ -340,7 +324,7 @@ export async function deleteLostItem(req: Request, res: Response): Promise<void>
       return;
     }
 
-    // Delete (will cascade to verification_secrets)
+    // Delete (will cascade to verification_questions)
     await query('DELETE FROM lost_items WHERE id = $1', [id]);
 
     // Log deletion
@@ -359,6 +343,81 @@ export async function deleteLostItem(req: Request, res: Response): Promise<void>
   }
 }
 
+// Upload photos of the lost item (owner only, at most 5 in total)
+export async function uploadLostItemImages(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+    const userId = req.user!.userId;
+
+    const existing = await query(
+      'SELECT * FROM lost_items WHERE id = $1 AND user_id = $2',
+      [id, userId]
+    );
+
+    if (existing.rows.length === 0) {
+      res.status(404).json({ success: false, message: 'Lost item not found or no permission' });
+      return;
+    }
+
+    if (!req.files || !Array.isArray(req.files) || req.files.length === 0) {
+      res.status(400).json({ success: false, message: 'No images uploaded' });
+      return;
+    }
+
+    // Owner photos are private: only reachable through signed URLs
+    const currentImages = existing.rows[0].image_urls || [];
+    const files = req.files as Express.Multer.File[];
+    // Nothing is dropped quietly: over the limit, the whole upload is refused
+    const slots = Math.max(0, 5 - currentImages.length);
+    if (files.length > slots) {
+      res.status(400).json({
+        success: false,
+        message: slots === 0
+          ? 'This item already has 5 photos'
+          : `Only ${slots} more photo${slots === 1 ? '' : 's'} can be added (5 in total)`
+      });
+      return;
+    }
+
+    const processed = await processUploads(files);
+    if (!processed.success) {
+      res.status(400).json({ success: false, message: processed.message });
+      return;
+    }
+
+    const stored = await storeUploads(processed.images!, { private: true });
+    const allImages = [...currentImages, ...stored.map(image => image.url)];
+    const reused = await recordItemImages('lost', parseInt(id), userId, stored);
+
+    const result = await query(
+      'UPDATE lost_items SET image_urls = $1, updated_at = NOW() WHERE id = $2 RETURNING id, image_urls',
+      [allImages, id]
+    );
+
+    await logUpdate(req, 'lost_item', parseInt(id), { image_urls: currentImages }, { image_urls: allImages });
+
+    // Match explanations point out when both sides have photos
+    setImmediate(() => onItemUpdated('lost', parseInt(id)));
+
+    res.json({
+      success: true,
+      data: {
+        ...result.rows[0],
+        image_urls: signFileUrls(result.rows[0].image_urls),
+        // Same photo as on another of your reports: probably reported twice.
+        // Matches with other accounts' photos only feed fraud scoring.
+        possible_duplicates: reused
+          .filter(image => image.same_user)
+          .map(image => ({ item_type: image.item_type, item_id: image.item_id }))
+      },
+      message: 'Images uploaded'
+    });
+  } catch (error) {
+    console.error('Upload lost item images error:', error);
+    res.status(500).json({ success: false, message: 'Failed to upload images' });
+  }
+}
+
 // Get matches for a lost item
 export async function getLostItemMatches(req: Request, res: Response): Promise<void> {
   try {
@@ -391,6 +450,7 @@ export async function getLostItemMatches(req: Request, res: Response): Promise<v
 
     // Get matches
     const matches = await findMatchesForLostItem(parseInt(id));
+    const verdicts = await getFeedbackVerdicts(req.user!.userId, 'lost', parseInt(id));
 
     res.json({
       success: true,
@@ -402,11 +462,20 @@ export async function getLostItemMatches(req: Request, res: Response): Promise<v
           description: m.found_item.description,
           location_area: m.found_item.location_area,
           found_date: m.found_item.found_date,
-          image_urls: m.found_item.image_urls,
+          found_window_start: m.found_item.found_window_start,
+          found_window_end: m.found_item.found_window_end,
+          route_name: m.found_item.route_name,
+          vehicle_plate: m.found_item.vehicle_plate,
+          // Found IDs and wallets: only the previews with the text pixelated
+          image_urls: [ItemCategory.ID, ItemCategory.WALLET].includes(m.found_item.category)
+            ? m.found_item.redacted_image_urls || []
+            : signFileUrls(m.found_item.image_urls),
           source: m.found_item.source
         },
         score: m.score,
-        explanation: m.explanation
+        explanation: m.explanation,
+        profile_version: m.profile_version,
+        my_feedback: verdicts.get(m.found_item.id) || null
       }))
     });
   } catch (error) {
@@ -418,6 +487,68 @@ export async function getLostItemMatches(req: Request, res: Response): Promise<v
   }
 }
 
+// Owner feedback on a suggested match ("not mine" / "looks right")
+export async function submitLostItemMatchFeedback(req: Request, res: Response): Promise<void> {
+  try {
+    const { id, foundItemId } = req.params;
+    const { verdict, reason } = req.body;
+
+    const itemResult = await query('SELECT user_id FROM lost_items WHERE id = $1', [id]);
+    if (itemResult.rows.length === 0) {
+      res.status(404).json({ success: false, message: 'Lost item not found' });
+      return;
+    }
+
+    if (itemResult.rows[0].user_id !== req.user!.userId) {
+      res.status(403).json({ success: false, message: 'You can only give feedback on matches for your own lost items' });
+      return;
+    }
+
+    const feedback = await recordMatchFeedback({
+      lostItemId: parseInt(id),
+      foundItemId: parseInt(foundItemId),
+      userId: req.user!.userId,
+      role: 'owner',
+      verdict,
+      reason
+    });
+
+    if (!feedback) {
+      res.status(404).json({ success: false, message: 'Found item not found' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: feedback,
+      message: verdict === MatchFeedbackVerdict.NOT_MINE
+        ? 'Match dismissed. It will not be suggested again.'
+        : 'Thanks for the feedback'
+    });
+  } catch (error) {
+    console.error('Lost item match feedback error:', error);
+    res.status(500).json({ success: false, message: 'Failed to save match feedback' });
+  }
+}
+
+// Withdraw owner feedback on a match
+export async function deleteLostItemMatchFeedback(req: Request, res: Response): Promise<void> {
+  try {
+    const { id, foundItemId } = req.params;
+
+    const removed = await removeMatchFeedback(parseInt(id), parseInt(foundItemId), req.user!.userId);
+    if (!removed) {
+      res.status(404).json({ success: false, message: 'No feedback to remove' });
+      return;
+    }
+
+    res.json({ success: true, message: 'Match feedback removed' });
+  } catch (error) {
+    console.error('Delete lost item match feedback error:', error);
+    res.status(500).json({ success: false, message: 'Failed to remove match feedback' });
+  }
+}
+
 // Get user's own lost items
 export async function getMyLostItems(req: Request, res: Response): Promise<void> {
   try {
@@ -427,32 +558,43 @@ export async function getMyLostItems(req: Request, res: Response): Promise<void>
       req.query.limit as string
     );
 
-    const countResult = await query(
-      'SELECT COUNT(*) FROM lost_items WHERE user_id = $1',
-      [userId]
-    );
-    const total = parseInt(countResult.rows[0].count);
+    const cursor = decodeCursor(req.query.cursor);
+    if (cursor === null) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid cursor'
+      });
+      return;
+    }
 
+    let total: number | null = null;
+    if (!cursor) {
+      const countResult = await query(
+        'SELECT COUNT(*) FROM lost_items WHERE user_id = $1',
+        [userId]
+      );
+      total = parseInt(countResult.rows[0].count);
+    }
+
+    const params: any[] = [userId];
+    const keyset = cursor ? `AND ${keysetCondition('l.created_at', 'l.id', cursor, params)}` : '';
     const result = await query(
       `SELECT l.*, 
               (SELECT COUNT(*) FROM matches m WHERE m.lost_item_id = l.id) as match_count,
-              (SELECT COUNT(*) FROM claims c WHERE c.lost_item_id = l.id AND c.status = 'VERIFIED') as claim_count
+              (SELECT COUNT(*) FROM claims c WHERE c.lost_item_id = l.id AND c.status = 'VERIFIED') as claim_count,
+              ${cursorKeyColumn('l.created_at')}
        FROM lost_items l
-       WHERE l.user_id = $1
-       ORDER BY l.created_at DESC
-       LIMIT $2 OFFSET $3`,
-      [userId, limit, offset]
+       WHERE l.user_id = $1 ${keyset}
+       ORDER BY l.created_at DESC, l.id DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit + 1, cursor ? 0 : offset]
     );
+    const { rows, nextCursor } = takeCursorPage(result.rows, limit);
 
     res.json({
       success: true,
-      data: result.rows,
-      pagination: {
-        page,
-        limit,
-        total,
-        totalPages: Math.ceil(total / limit)
-      }
+      data: rows.map(row => ({ ...row, image_urls: signFileUrls(row.image_urls) })),
+      pagination: buildPagination(page, limit, total, nextCursor)
     });
   } catch (error) {
     console.error('Get my lost items error:', error);
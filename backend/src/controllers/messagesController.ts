@@ -1,6 +1,9 @@
 import { Request, Response } from 'express';
 import { query } from '../config/database';
-import { parsePaginationParams, isMessageFlaggable } from '../utils';
+import {
+  parsePaginationParams, isMessageFlaggable, decodeCursor, keysetCondition, cursorKeyColumn,
+  takeCursorPage, buildPagination
+} from '../utils';
 import { UserRole } from '../types';
 
 // ============================================
@@ -149,43 +152,62 @@ export async function getMessageThreads(req: Request, res: Response): Promise<vo
       req.query.limit as string
     );
 
+    const cursor = decodeCursor(req.query.cursor);
+    if (cursor === null) {
+      res.status(400).json({ success: false, message: 'Invalid cursor' });
+      return;
+    }
+
+    // Threads are ordered by their latest activity (last message, or the
+    // claim itself when nobody has written yet)
+    const activity = 'COALESCE(lm.created_at, c.created_at)';
+    const params: any[] = [userId];
+    const keyset = cursor ? `AND ${keysetCondition(activity, 'c.id', cursor, params)}` : '';
+
     // Get claims where user is participant
     const result = await query(
-      `SELECT DISTINCT ON (c.id)
-              c.id as claim_id,
+      `SELECT c.id as claim_id,
               c.status as claim_status,
               li.title as item_title,
               li.category,
               CASE WHEN li.user_id = $1 THEN 'owner' ELSE 'finder' END as my_role,
               CASE WHEN li.user_id = $1 THEN finder.name ELSE owner.name END as other_party_name,
-              (SELECT content FROM messages WHERE claim_id = c.id ORDER BY created_at DESC LIMIT 1) as last_message,
-              (SELECT created_at FROM messages WHERE claim_id = c.id ORDER BY created_at DESC LIMIT 1) as last_message_at,
-              (SELECT COUNT(*) FROM messages WHERE claim_id = c.id AND receiver_id = $1 AND is_read = false) as unread_count
+              lm.content as last_message,
+              lm.created_at as last_message_at,
+              (SELECT COUNT(*) FROM messages WHERE claim_id = c.id AND receiver_id = $1 AND is_read = false) as unread_count,
+              ${cursorKeyColumn(activity)}
        FROM claims c
        JOIN lost_items li ON c.lost_item_id = li.id
        JOIN found_items fi ON c.found_item_id = fi.id
        JOIN users owner ON li.user_id = owner.id
        JOIN users finder ON fi.finder_id = finder.id
-       WHERE li.user_id = $1 OR fi.finder_id = $1
-       ORDER BY c.id, last_message_at DESC NULLS LAST
-       LIMIT $2 OFFSET $3`,
-      [userId, limit, offset]
-    );
-
-    const countResult = await query(
-      `SELECT COUNT(DISTINCT c.id)
-       FROM claims c
-       JOIN lost_items li ON c.lost_item_id = li.id
-       JOIN found_items fi ON c.found_item_id = fi.id
-       WHERE li.user_id = $1 OR fi.finder_id = $1`,
-      [userId]
+       LEFT JOIN LATERAL (
+         SELECT content, created_at FROM messages WHERE claim_id = c.id ORDER BY created_at DESC LIMIT 1
+       ) lm ON TRUE
+       WHERE (li.user_id = $1 OR fi.finder_id = $1) ${keyset}
+       ORDER BY ${activity} DESC, c.id DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit + 1, cursor ? 0 : offset]
     );
-    const total = parseInt(countResult.rows[0].count);
+    const { rows, nextCursor } = takeCursorPage(result.rows, limit, 'claim_id');
+
+    let total: number | null = null;
+    if (!cursor) {
+      const countResult = await query(
+        `SELECT COUNT(DISTINCT c.id)
+         FROM claims c
+         JOIN lost_items li ON c.lost_item_id = li.id
+         JOIN found_items fi ON c.found_item_id = fi.id
+         WHERE li.user_id = $1 OR fi.finder_id = $1`,
+        [userId]
+      );
+      total = parseInt(countResult.rows[0].count);
+    }
 
     res.json({
       success: true,
-      data: result.rows,
-      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) }
+      data: rows,
+      pagination: buildPagination(page, limit, total, nextCursor)
     });
   } catch (error) {
     console.error('Get message threads error:', error);
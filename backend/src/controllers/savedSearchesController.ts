@@ -0,0 +1,98 @@
+import { Request, Response } from 'express';
+import {
+  listSavedSearches,
+  createSavedSearch,
+  updateSavedSearch,
+  deleteSavedSearch,
+  getSavedSearchHits
+} from '../services/savedSearchService';
+
+// ============================================
+// SAVED SEARCHES CONTROLLER
+// Standing watches on new found items
+// ============================================
+
+// Postgres CHECK violation: an edit left a watch with no criteria or
+// with its dates reversed
+const CHECK_VIOLATION = '23514';
+
+// Get the current user's saved searches
+export async function getMySavedSearches(req: Request, res: Response): Promise<void> {
+  try {
+    const savedSearches = await listSavedSearches(req.user!.userId);
+    res.json({ success: true, data: savedSearches });
+  } catch (error) {
+    console.error('Get saved searches error:', error);
+    res.status(500).json({ success: false, message: 'Failed to get saved searches' });
+  }
+}
+
+// Save a search; it starts watching new found items straight away
+export async function createMySavedSearch(req: Request, res: Response): Promise<void> {
+  try {
+    const result = await createSavedSearch(req.user!.userId, req.body);
+    if (!result.success) {
+      res.status(400).json({ success: false, message: result.message });
+      return;
+    }
+
+    res.status(201).json({ success: true, data: result.savedSearch, message: result.message });
+  } catch (error) {
+    console.error('Create saved search error:', error);
+    res.status(500).json({ success: false, message: 'Failed to save search' });
+  }
+}
+
+// Edit criteria, switch channel, or pause/resume a watch
+export async function updateMySavedSearch(req: Request, res: Response): Promise<void> {
+  try {
+    const savedSearch = await updateSavedSearch(req.user!.userId, parseInt(req.params.id), req.body);
+    if (!savedSearch) {
+      res.status(404).json({ success: false, message: 'Saved search not found' });
+      return;
+    }
+
+    res.json({ success: true, data: savedSearch, message: 'Saved search updated' });
+  } catch (error: any) {
+    if (error.code === CHECK_VIOLATION) {
+      res.status(400).json({
+        success: false,
+        message: 'A saved search needs a category, area or keyword, and an end date on or after the start date'
+      });
+      return;
+    }
+    console.error('Update saved search error:', error);
+    res.status(500).json({ success: false, message: 'Failed to update saved search' });
+  }
+}
+
+export async function deleteMySavedSearch(req: Request, res: Response): Promise<void> {
+  try {
+    const deleted = await deleteSavedSearch(req.user!.userId, parseInt(req.params.id));
+    if (!deleted) {
+      res.status(404).json({ success: false, message: 'Saved search not found' });
+      return;
+    }
+
+    res.json({ success: true, message: 'Saved search deleted' });
+  } catch (error) {
+    console.error('Delete saved search error:', error);
+    res.status(500).json({ success: false, message: 'Failed to delete saved search' });
+  }
+}
+
+// Found items a watch fired on; viewing them clears the unseen count
+export async function getMySavedSearchHits(req: Request, res: Response): Promise<void> {
+  try {
+    const hits = await getSavedSearchHits(req.user!.userId, parseInt(req.params.id));
+    if (!hits) {
+      res.status(404).json({ success: false, message: 'Saved search not found' });
+      return;
+    }
+
+    res.json({ success: true, data: hits });
+  } catch (error) {
+    console.error('Get saved search hits error:', error);
+    res.status(500).json({ success: false, message: 'Failed to get saved search alerts' });
+  }
+}
@@ -0,0 +1,44 @@
+import { Request, Response } from 'express';
+import { parsePaginationParams } from '../utils';
+import { searchAllItems, UnifiedSearchParams } from '../services/searchService';
+import { logSearch } from '../services/searchAnalyticsService';
+
+// ============================================
+// SEARCH CONTROLLER
+// One search over lost and found items together
+// ============================================
+
+// Search both item tables; each result carries its item_type
+export async function searchAll(req: Request, res: Response): Promise<void> {
+  try {
+    const { page, limit, offset } = parsePaginationParams(
+      req.query.page as string,
+      req.query.limit as string
+    );
+
+    const search: UnifiedSearchParams = {
+      ...(req.query as unknown as UnifiedSearchParams),
+      max_distance: req.query.max_distance !== undefined ? Number(req.query.max_distance) : undefined,
+      limit,
+      offset
+    };
+    const { items, total } = await searchAllItems(search, req.user?.userId);
+    setImmediate(() => logSearch(req, {
+      ...search,
+      query: search.q,
+      itemType: search.type,
+      mode: search.q ? 'RANKED' : 'LIST',
+      page,
+      resultsCount: total
+    }));
+
+    res.json({
+      success: true,
+      data: items,
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) }
+    });
+  } catch (error) {
+    console.error('Search all items error:', error);
+    res.status(500).json({ success: false, message: 'Failed to search items' });
+  }
+}
@@ -0,0 +1,136 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { closePool } from '../config/database';
+import { ItemCategory } from '../types';
+import { updateMatchProfileSchema } from '../middleware/validation';
+import {
+  activeProfiles,
+  buildEvaluationConfig,
+  compareRanks,
+  defaultProfiles,
+  evaluateConfig,
+  loadEvaluationCases,
+  EvaluationConfig,
+  EvaluationMetrics,
+  ProfileOverrides
+} from '../services/matchEvaluationService';
+
+// ============================================
+// OFFLINE MATCH EVALUATION
+// Replays RETURNED claims and dismissed pairs against two weight configs
+//
+//   npm run evaluate:matching -- --baseline=active --candidate=./weights.json --k=5
+//
+// A config is "default" (built-in profiles), "active" (profiles in the
+// database) or a JSON file of overrides applied on top of the active ones:
+//   { "*": { "weights": { "SAME_LOCATION": 6 } }, "BAG": { "minimum_score": 7 } }
+// ============================================
+
+const overridesFileSchema = z.record(
+  z.enum(['*', ...Object.values(ItemCategory)] as [string, ...string[]]),
+  updateMatchProfileSchema
+);
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (const arg of argv) {
+    const match = arg.match(/^--([\w-]+)(?:=(.*))?$/);
+    if (match) args[match[1]] = match[2] ?? 'true';
+  }
+  return args;
+}
+
+async function loadConfig(spec: string): Promise<EvaluationConfig> {
+  if (spec === 'default') return buildEvaluationConfig('default', defaultProfiles());
+  if (spec === 'active') return buildEvaluationConfig('active', await activeProfiles());
+
+  const file = path.resolve(spec);
+  const overrides = overridesFileSchema.parse(JSON.parse(fs.readFileSync(file, 'utf8'))) as ProfileOverrides;
+  return buildEvaluationConfig(path.basename(file), await activeProfiles(), overrides);
+}
+
+function formatValue(value: number | null): string {
+  return value === null ? '—' : String(value);
+}
+
+function formatDelta(baseline: number | null, candidate: number | null): string {
+  if (baseline === null || candidate === null) return '';
+  const delta = Math.round((candidate - baseline) * 1000) / 1000;
+  return delta === 0 ? '=' : `${delta > 0 ? '+' : ''}${delta}`;
+}
+
+function printComparison(title: string, labels: [string, string], a: EvaluationMetrics, b: EvaluationMetrics, k: number) {
+  const rows: Array<[string, number | null, number | null]> = [
+    ['Queries (lost items)', a.queries, b.queries],
+    ['True pairs (RETURNED)', a.true_pairs, b.true_pairs],
+    ['Dismissed pairs', a.dismissed_pairs, b.dismissed_pairs],
+    [`Precision@${k}`, a.precision_at_k, b.precision_at_k],
+    [`Recall@${k}`, a.recall_at_k, b.recall_at_k],
+    ['Recall (above minimum)', a.recall, b.recall],
+    ['Mean rank of true match', a.mean_rank, b.mean_rank],
+    [`Dismissed in top ${k}`, a.dismissed_in_top_k, b.dismissed_in_top_k],
+  ];
+
+  console.log(`\n${title}`);
+  console.log(`  ${'Metric'.padEnd(26)}${labels[0].padStart(14)}${labels[1].padStart(14)}${'Δ'.padStart(10)}`);
+  for (const [name, left, right] of rows) {
+    console.log(
+      `  ${name.padEnd(26)}${formatValue(left).padStart(14)}${formatValue(right).padStart(14)}${formatDelta(left, right).padStart(10)}`
+    );
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const k = parseInt(args.k || '5', 10);
+
+  try {
+    const [baseline, candidate] = await Promise.all([
+      loadConfig(args.baseline || 'default'),
+      loadConfig(args.candidate || 'active')
+    ]);
+
+    console.log('📊 Loading historical outcomes...');
+    const cases = await loadEvaluationCases();
+    if (cases.length === 0) {
+      console.log('⚠️  No RETURNED claims or dismissed matches to replay');
+      return;
+    }
+
+    const baselineReport = evaluateConfig(cases, baseline, k);
+    const candidateReport = evaluateConfig(cases, candidate, k);
+
+    if (args.json) {
+      console.log(JSON.stringify({ baseline: baselineReport, candidate: candidateReport }, null, 2));
+      return;
+    }
+
+    const labels: [string, string] = [baseline.label, candidate.label];
+    printComparison('Overall', labels, baselineReport.overall, candidateReport.overall, k);
+
+    for (const row of baselineReport.by_category) {
+      const other = candidateReport.by_category.find(c => c.category === row.category)!;
+      printComparison(row.category, labels, row, other, k);
+    }
+
+    const moved = compareRanks(baselineReport, candidateReport);
+    if (moved.length > 0) {
+      console.log(`\nTrue matches that changed rank (${moved.length}):`);
+      for (const m of moved.slice(0, 20)) {
+        const arrow = m.candidate_rank < m.baseline_rank ? '↑' : '↓';
+        console.log(`  lost #${m.lost_item_id} ↔ found #${m.found_item_id}: ${m.baseline_rank} → ${m.candidate_rank} ${arrow}`);
+      }
+    }
+  } catch (error) {
+    console.error('❌ Evaluation failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await closePool();
+  }
+}
+
+main();
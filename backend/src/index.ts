@@ -3,7 +3,6 @@ import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
 import dotenv from 'dotenv';
-import path from 'path';
 import cron from 'node-cron';
 
 import routes from './routes';
@@ -14,7 +13,28 @@ import { apiLimiter } from './middleware/rateLimiter';
 import { notFoundHandler, errorHandler } from './middleware/errorHandler';
 import { runMigrations } from './migrations/001_initial';
 import { runPatchMigrations } from './migrations/002_patch';
+import { runMatchProfileMigrations } from './migrations/003_match_weight_profiles';
+import { runMatchJobMigrations } from './migrations/004_match_jobs';
+import { runMatchFeedbackMigrations } from './migrations/005_match_feedback';
+import { runTimeWindowMigrations } from './migrations/006_time_windows';
+import { runTransportContextMigrations } from './migrations/007_transport_context';
+import { runSavedSearchMigrations } from './migrations/008_saved_searches';
+import { runSearchRankingMigrations } from './migrations/009_search_ranking';
+import { runSearchLogMigrations } from './migrations/010_search_logs';
+import { runLossIncidentMigrations } from './migrations/011_loss_incidents';
+import { runLostItemImageMigrations } from './migrations/012_lost_item_images';
+import { runStoredFileMigrations } from './migrations/013_stored_files';
+import { runItemImageMigrations } from './migrations/014_item_images';
+import { runRedactedImageMigrations } from './migrations/015_redacted_images';
+import { runCustodyTransferMigrations } from './migrations/016_custody_transfers';
+import { runFoundItemAttributeMigrations } from './migrations/017_found_item_attributes';
+import { runVerificationQuestionMigrations } from './migrations/018_verification_questions';
+import { runTypedAnswerMigrations } from './migrations/019_typed_answers';
+import { runClaimQueueMigrations } from './migrations/020_claim_queue';
+import { startMatchWorker, stopMatchWorker } from './services/matchJobService';
 import { sendPendingExpiryWarnings, checkEmailHealth } from './services/emailService';
+import { getStorage } from './services/storageService';
+import { serveUpload } from './controllers/filesController';
 import { swaggerSpec } from './config/swagger';
 
 // swagger-ui-express is CJS — use require for reliable loading
@@ -68,9 +88,9 @@ app.use(express.urlencoded({ extended: true, limit: '1mb' }));
 // Rate limiting
 app.use('/api/v1', apiLimiter);
 
-// Static files for uploads
+// Uploaded files, from the configured storage driver
 const uploadPath = process.env.UPLOAD_PATH || './uploads';
-app.use('/uploads', express.static(path.resolve(uploadPath)));
+app.get('/uploads/*', serveUpload);
 
 // ============================================
 // SWAGGER API DOCS
@@ -174,11 +194,38 @@ async function startServer() {
     // Run migrations
     await runMigrations();
     await runPatchMigrations();
+    await runMatchProfileMigrations();
+    await runMatchJobMigrations();
+    await runMatchFeedbackMigrations();
+    await runTimeWindowMigrations();
+    await runTransportContextMigrations();
+    await runSavedSearchMigrations();
+    await runSearchRankingMigrations();
+    await runSearchLogMigrations();
+    await runLossIncidentMigrations();
+    await runLostItemImageMigrations();
+    await runStoredFileMigrations();
+    await runItemImageMigrations();
+    await runRedactedImageMigrations();
+    await runCustodyTransferMigrations();
+    await runFoundItemAttributeMigrations();
+    await runVerificationQuestionMigrations();
+    await runTypedAnswerMigrations();
+    await runClaimQueueMigrations();
+
+    // Background worker for the incremental match queue
+    await startMatchWorker();
+
+    // Fail early on a misconfigured storage driver
+    const storage = getStorage();
+    console.log(`📁 Upload storage: ${storage.name}`);
 
     // Create uploads directory if it doesn't exist
-    const fs = await import('fs');
-    if (!fs.existsSync(uploadPath)) {
-      fs.mkdirSync(uploadPath, { recursive: true });
+    if (storage.name === 'local') {
+      const fs = await import('fs');
+      if (!fs.existsSync(uploadPath)) {
+        fs.mkdirSync(uploadPath, { recursive: true });
+      }
     }
 
     // Start server
@@ -204,6 +251,7 @@ async function startServer() {
     // Graceful shutdown
     const shutdown = async () => {
       console.log('\n🛑 Shutting down server...');
+      stopMatchWorker();
       server.close(async () => {
         await closePool();
         console.log('✅ Server shut down gracefully');
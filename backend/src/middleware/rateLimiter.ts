@@ -74,23 +74,6 @@ export const claimLimiter = rateLimit({
   legacyHeaders: false,
 });
 
-// Verification attempt limiter (per item)
-export const verificationLimiter = rateLimit({
-  windowMs: 24 * 60 * 60 * 1000, // 24 hours
-  max: 3, // 3 attempts per item per day
-  message: {
-    success: false,
-    message: 'Too many verification attempts for this item. Try again in 24 hours.'
-  },
-  keyGenerator: (req: Request): string => {
-    const userId = req.user?.userId || 'anonymous';
-    const claimId = req.params.claimId || 'unknown';
-    return `verify:${userId}:${claimId}`;
-  },
-  standardHeaders: true,
-  legacyHeaders: false,
-});
-
 // OTP verification limiter
 export const otpLimiter = rateLimit({
   windowMs: 60 * 60 * 1000, // 1 hour
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { z, ZodSchema, ZodError } from 'zod';
-import { ItemCategory, UserRole } from '../types';
+import { ItemCategory, UserRole, MatchFeedbackVerdict, SavedSearchChannel, AnswerType } from '../types';
+import { canonicalForms, ANSWER_TYPE_DESCRIPTIONS } from '../utils/answerForms';
 
 // ============================================
 // VALIDATION MIDDLEWARE
@@ -77,11 +78,60 @@ export const resetPasswordSchema = z.object({
 // LOST ITEM SCHEMAS
 // ============================================
 
+// Optional time-of-day window ("between 08:00 and 08:30") on a report.
+// Both ends or neither; a window longer than a day adds nothing over the date.
+const MAX_TIME_WINDOW_HOURS = 24;
+const windowTimestampSchema = z.string().datetime({ offset: true });
+
+function timeWindowCheck(startKey: string, endKey: string) {
+  return (data: Record<string, unknown>, ctx: z.RefinementCtx) => {
+    const start = data[startKey] as string | undefined;
+    const end = data[endKey] as string | undefined;
+    if (!start && !end) return;
+    if (!start || !end) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [start ? endKey : startKey], message: 'Both ends of the time window are required' });
+      return;
+    }
+    const hours = (new Date(end).getTime() - new Date(start).getTime()) / (1000 * 60 * 60);
+    if (hours < 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [endKey], message: 'Time window must end after it starts' });
+    } else if (hours > MAX_TIME_WINDOW_HOURS) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [endKey], message: `Time window cannot exceed ${MAX_TIME_WINDOW_HOURS} hours` });
+    }
+  };
+}
+
+// Optional transport context (see transportService.ts)
+const plateNumberSchema = z.string().regex(/^[A-Za-z0-9 -]{3,20}$/, 'Invalid vehicle plate number');
+
+const transportContextFields = {
+  transport_cooperative_id: z.number().int().positive().optional(),
+  route_id: z.number().int().positive().optional(),
+  route_name: z.string().min(3).max(150).optional(),
+  vehicle_plate: plateNumberSchema.optional(),
+  stop_sequence: z.array(z.string().min(1).max(100)).max(30).optional(),
+};
+
+// A chosen answer type has to fit the answer: "several" is not a number
 const verificationQuestionSchema = z.object({
   question: z.string().min(5, 'Question must be at least 5 characters').max(255),
   answer: z.string().min(1, 'Answer is required').max(100),
+  answer_type: z.nativeEnum(AnswerType).optional(),
+}).superRefine((data, ctx) => {
+  if (data.answer_type && canonicalForms(data.answer_type, data.answer, 'stored') === null) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Answer should be ${ANSWER_TYPE_DESCRIPTIONS[data.answer_type]}`,
+      path: ['answer'],
+    });
+  }
 });
 
+// 2 to 7, see verificationQuestionService
+const verificationQuestionsSchema = z.array(verificationQuestionSchema)
+  .min(2, 'At least 2 verification questions required')
+  .max(7, 'At most 7 verification questions allowed');
+
 export const createLostItemSchema = z.object({
   category: z.nativeEnum(ItemCategory),
   title: z.string().min(3, 'Title must be at least 3 characters').max(100),
@@ -89,9 +139,12 @@ export const createLostItemSchema = z.object({
   location_area: z.string().min(2, 'Location area is required').max(100),
   location_hint: z.string().max(500).optional(),
   lost_date: z.string().datetime({ offset: true }).or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)),
+  lost_window_start: windowTimestampSchema.optional(),
+  lost_window_end: windowTimestampSchema.optional(),
+  ...transportContextFields,
   photo_url: z.string().url().optional(),
-  verification_questions: z.array(verificationQuestionSchema).length(3, 'Exactly 3 verification questions required'),
-});
+  verification_questions: verificationQuestionsSchema,
+}).superRefine(timeWindowCheck('lost_window_start', 'lost_window_end'));
 
 export const updateLostItemSchema = z.object({
   title: z.string().min(3).max(100).optional(),
@@ -101,6 +154,38 @@ export const updateLostItemSchema = z.object({
   photo_url: z.string().url().optional().nullable(),
 });
 
+// ============================================
+// LOSS INCIDENT SCHEMAS
+// ============================================
+
+const incidentItemSchema = z.object({
+  category: z.nativeEnum(ItemCategory),
+  title: z.string().min(3, 'Title must be at least 3 characters').max(100),
+  description: z.string().min(10, 'Description must be at least 10 characters').max(2000),
+  photo_url: z.string().url().optional(),
+  verification_questions: verificationQuestionsSchema,
+});
+
+// One loss, several items: the where and when are shared, each item keeps
+// its own category and verification questions
+export const createLossIncidentSchema = z.object({
+  title: z.string().min(3, 'Title must be at least 3 characters').max(100),
+  description: z.string().max(2000).optional(),
+  location_area: z.string().min(2, 'Location area is required').max(100),
+  location_hint: z.string().max(500).optional(),
+  lost_date: z.string().datetime({ offset: true }).or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)),
+  lost_window_start: windowTimestampSchema.optional(),
+  lost_window_end: windowTimestampSchema.optional(),
+  ...transportContextFields,
+  items: z.array(incidentItemSchema)
+    .min(2, 'An incident needs at least 2 items')
+    .max(8, 'An incident can hold at most 8 items'),
+}).superRefine(timeWindowCheck('lost_window_start', 'lost_window_end'));
+
+export const recoverIncidentItemsSchema = z.object({
+  item_ids: z.array(z.number().int().positive()).min(1, 'Select at least one item').max(8),
+});
+
 // ============================================
 // FOUND ITEM SCHEMAS
 // ============================================
@@ -112,8 +197,12 @@ export const createFoundItemSchema = z.object({
   location_area: z.string().min(2, 'Location area is required').max(100),
   location_hint: z.string().max(500).optional(),
   found_date: z.string().datetime({ offset: true }).or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)),
+  found_window_start: windowTimestampSchema.optional(),
+  found_window_end: windowTimestampSchema.optional(),
+  ...transportContextFields,
   cooperative_id: z.number().int().positive().optional(),
-});
+  hidden_attributes: z.record(z.string().max(100)).optional(),
+}).superRefine(timeWindowCheck('found_window_start', 'found_window_end'));
 
 export const updateFoundItemSchema = z.object({
   title: z.string().min(3).max(100).optional(),
@@ -122,6 +211,10 @@ export const updateFoundItemSchema = z.object({
   location_hint: z.string().max(500).optional().nullable(),
 });
 
+export const hiddenAttributesSchema = z.object({
+  hidden_attributes: z.record(z.string().max(100)),
+});
+
 // ============================================
 // CLAIM SCHEMAS
 // ============================================
@@ -132,7 +225,9 @@ export const createClaimSchema = z.object({
 });
 
 export const verifyClaimSchema = z.object({
-  answers: z.array(z.string().min(1, 'Answer is required')).length(3, 'All 3 answers are required'),
+  answers: z.array(z.string().min(1, 'Answer is required')).min(2, 'Answer every question').max(7),
+  // Answers about the found object, keyed like its hidden attributes
+  item_answers: z.record(z.string().max(200)).optional(),
 });
 
 export const disputeClaimSchema = z.object({
@@ -186,6 +281,28 @@ export const approveCooperativeSchema = z.object({
   status: z.enum(['VERIFIED', 'SUSPENDED']),
 });
 
+export const createRouteSchema = z.object({
+  name: z.string().min(3, 'Route name is required').max(150),
+  stops: z.array(z.string().min(2).max(100)).min(2, 'A route needs at least 2 stops').max(30),
+});
+
+export const createVehicleSchema = z.object({
+  plate_number: plateNumberSchema,
+  route_id: z.number().int().positive().optional(),
+  description: z.string().max(100).optional(),
+});
+
+export const registryEntryStatusSchema = z.object({
+  is_active: z.boolean(),
+});
+
+export const custodyTransferSchema = z.object({
+  to_holder: z.string().min(2, 'Say who received the item').max(150),
+  location: z.string().min(2, 'Say where the item is now').max(200),
+  notes: z.string().max(500).optional(),
+  transferred_at: z.string().datetime({ offset: true }).optional(),
+});
+
 // ============================================
 // ADMIN SCHEMAS
 // ============================================
@@ -202,6 +319,83 @@ export const createCoopStaffSchema = z.object({
   cooperative_id: z.number().int().positive('Cooperative ID is required'),
 });
 
+// ============================================
+// MATCH WEIGHT PROFILE SCHEMAS
+// ============================================
+
+const matchWeightSchema = z.number().int().min(0, 'Weights cannot be negative').max(20);
+
+export const updateMatchProfileSchema = z.object({
+  weights: z.object({
+    CATEGORY_MATCH: matchWeightSchema,
+    SAME_LOCATION: matchWeightSchema,
+    ADJACENT_LOCATION: matchWeightSchema,
+    NEARBY_LOCATION: matchWeightSchema,
+    WITHIN_24H: matchWeightSchema,
+    WITHIN_72H: matchWeightSchema,
+    WITHIN_7D: matchWeightSchema,
+    WINDOW_OVERLAP: matchWeightSchema,
+    WINDOW_WITHIN_2H: matchWeightSchema,
+    VEHICLE_MATCH: matchWeightSchema,
+    ROUTE_MATCH: matchWeightSchema,
+    STOP_OVERLAP: matchWeightSchema,
+    INCIDENT_CONTENTS: matchWeightSchema,
+    INCIDENT_CO_FOUND: matchWeightSchema,
+    KEYWORD_MATCH: matchWeightSchema,
+    COLOR_MATCH: matchWeightSchema,
+    BRAND_MATCH: matchWeightSchema,
+    SUBCATEGORY_MATCH: matchWeightSchema,
+  }).partial().strict().optional(),
+  minimum_score: z.number().int().min(0).max(100).optional(),
+  max_matches: z.number().int().min(1).max(20).optional(),
+  max_keyword_bonuses: z.number().int().min(0).max(20).optional(),
+  notes: z.string().max(500).optional(),
+});
+
+// ============================================
+// MATCH FEEDBACK SCHEMAS
+// ============================================
+
+export const matchFeedbackSchema = z.object({
+  verdict: z.nativeEnum(MatchFeedbackVerdict),
+  reason: z.string().max(500).optional(),
+});
+
+// ============================================
+// SAVED SEARCH SCHEMAS
+// ============================================
+
+const savedSearchDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD').nullable().optional();
+
+const savedSearchFields = {
+  name: z.string().min(2, 'Name is required').max(100),
+  category: z.nativeEnum(ItemCategory).nullable().optional(),
+  location_area: z.string().max(100).nullable().optional(),
+  keyword: z.string().max(100).nullable().optional(),
+  date_from: savedSearchDateSchema,
+  date_to: savedSearchDateSchema,
+  channel: z.nativeEnum(SavedSearchChannel).optional(),
+};
+
+function savedSearchDateOrder(data: { date_from?: string | null; date_to?: string | null }, ctx: z.RefinementCtx) {
+  if (data.date_from && data.date_to && data.date_from > data.date_to) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['date_to'], message: 'End date must be on or after the start date' });
+  }
+}
+
+export const createSavedSearchSchema = z.object(savedSearchFields).superRefine((data, ctx) => {
+  // A watch with no criteria would fire on every found item
+  if (!data.category && !data.location_area?.trim() && !data.keyword?.trim()) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['category'], message: 'Choose a category, area or keyword' });
+  }
+  savedSearchDateOrder(data, ctx);
+});
+
+export const updateSavedSearchSchema = z.object({
+  ...savedSearchFields,
+  is_active: z.boolean().optional(),
+}).partial().superRefine(savedSearchDateOrder);
+
 // ============================================
 // SEARCH/FILTER SCHEMAS
 // ============================================
@@ -215,6 +409,34 @@ export const searchParamsSchema = z.object({
   status: z.string().optional(),
   page: z.string().regex(/^\d+$/).transform(Number).optional(),
   limit: z.string().regex(/^\d+$/).transform(Number).optional(),
+  cursor: z.string().max(200).optional(),
+  facets: z.enum(['true', 'false']).optional(),
+});
+
+export const itemSearchSchema = searchParamsSchema.omit({ keyword: true, cursor: true }).extend({
+  q: z.string().trim().min(2, 'Search query must be at least 2 characters').max(100),
+  sort: z.enum(['relevance', 'newest', 'closest']).optional(),
+  near: z.string().trim().min(2).max(100).optional(),
+}).superRefine((data, ctx) => {
+  if (data.sort === 'closest' && !data.near) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['near'], message: 'Sorting by distance needs an area to measure from' });
+  }
+});
+
+// Lost and found together; without q it lists by recency or distance
+export const unifiedSearchSchema = searchParamsSchema.omit({ keyword: true, status: true, cursor: true, facets: true }).extend({
+  q: z.string().trim().min(2, 'Search query must be at least 2 characters').max(100).optional(),
+  type: z.enum(['lost', 'found']).optional(),
+  sort: z.enum(['relevance', 'newest', 'closest']).optional(),
+  near: z.string().trim().min(2).max(100).optional(),
+  max_distance: z.string().regex(/^[0-2]$/, 'max_distance must be 0, 1 or 2').transform(Number).optional(),
+}).superRefine((data, ctx) => {
+  if ((data.sort === 'closest' || data.max_distance !== undefined) && !data.near) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['near'], message: 'Distance needs an area to measure from' });
+  }
+  if (data.sort === 'relevance' && !data.q) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['q'], message: 'Sorting by relevance needs a search query' });
+  }
 });
 
 // ============================================
@@ -0,0 +1,66 @@
+import { query } from '../config/database';
+import { DEFAULT_MATCH_PROFILES } from '../services/matchWeightProfileService';
+
+/**
+ * Migration: Per-category matching weight profiles.
+ * Each edit inserts a new version so match quality can be compared
+ * across weight changes; only one version per category is active.
+ */
+export async function runMatchProfileMigrations(): Promise<void> {
+  console.log('🔧 Running match weight profile migrations...');
+
+  // ==========================================
+  // MATCH WEIGHT PROFILES TABLE
+  // ==========================================
+  await query(`
+    CREATE TABLE IF NOT EXISTS match_weight_profiles (
+      id SERIAL PRIMARY KEY,
+      category item_category NOT NULL,
+      version INTEGER NOT NULL,
+      weights JSONB NOT NULL,
+      minimum_score INTEGER NOT NULL DEFAULT 5,
+      max_matches INTEGER NOT NULL DEFAULT 5,
+      max_keyword_bonuses INTEGER NOT NULL DEFAULT 5,
+      is_active BOOLEAN NOT NULL DEFAULT TRUE,
+      notes TEXT,
+      created_by INTEGER REFERENCES users(id),
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      UNIQUE(category, version)
+    )
+  `);
+  await query(`CREATE UNIQUE INDEX IF NOT EXISTS idx_match_profiles_active ON match_weight_profiles(category) WHERE is_active`);
+
+  // Record which profile produced each cached match
+  await query(`ALTER TABLE matches ADD COLUMN IF NOT EXISTS profile_id INTEGER REFERENCES match_weight_profiles(id) ON DELETE SET NULL`);
+  await query(`ALTER TABLE matches ADD COLUMN IF NOT EXISTS profile_version INTEGER`);
+  await query(`CREATE INDEX IF NOT EXISTS idx_matches_profile ON matches(profile_id)`);
+
+  // Fuzzy keyword matches award fractional points (e.g. +0.5)
+  await query(`
+    DO $$ BEGIN
+      IF EXISTS (SELECT 1 FROM information_schema.columns
+                 WHERE table_name = 'matches' AND column_name = 'score' AND data_type = 'integer')
+      THEN
+        ALTER TABLE matches ALTER COLUMN score TYPE NUMERIC(6,2);
+      END IF;
+    END $$;
+  `);
+
+  // Seed version 1 for every category (no-op once a profile exists)
+  for (const profile of Object.values(DEFAULT_MATCH_PROFILES)) {
+    await query(
+      `INSERT INTO match_weight_profiles (category, version, weights, minimum_score, max_matches, max_keyword_bonuses, notes)
+       SELECT $1, 1, $2, $3, $4, $5, 'Initial default profile'
+       WHERE NOT EXISTS (SELECT 1 FROM match_weight_profiles WHERE category = $1)`,
+      [
+        profile.category,
+        JSON.stringify(profile.weights),
+        profile.minimum_score,
+        profile.max_matches,
+        profile.max_keyword_bonuses
+      ]
+    );
+  }
+
+  console.log('✅ Match weight profile migrations completed successfully');
+}
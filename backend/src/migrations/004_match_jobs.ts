@@ -0,0 +1,48 @@
+import { query } from '../config/database';
+
+/**
+ * Migration: Persistent queue for incremental match recomputation.
+ * New and edited reports enqueue a job; a background worker scores only
+ * that item against its candidates and records how long the run took.
+ */
+export async function runMatchJobMigrations(): Promise<void> {
+  console.log('🔧 Running match job migrations...');
+
+  // ==========================================
+  // MATCH JOBS TABLE
+  // ==========================================
+  await query(`
+    CREATE TABLE IF NOT EXISTS match_jobs (
+      id SERIAL PRIMARY KEY,
+      item_type VARCHAR(10) NOT NULL CHECK (item_type IN ('lost', 'found')),
+      item_id INTEGER NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'PENDING'
+        CHECK (status IN ('PENDING', 'RUNNING', 'DONE', 'FAILED')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      run_after TIMESTAMP NOT NULL DEFAULT NOW(),
+      last_error TEXT,
+      candidates_scored INTEGER,
+      rows_upserted INTEGER,
+      rows_removed INTEGER,
+      duration_ms INTEGER,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      started_at TIMESTAMP,
+      finished_at TIMESTAMP
+    )
+  `);
+  await query(`CREATE INDEX IF NOT EXISTS idx_match_jobs_pending ON match_jobs(run_after) WHERE status = 'PENDING'`);
+  await query(`CREATE INDEX IF NOT EXISTS idx_match_jobs_finished ON match_jobs(finished_at)`);
+
+  // At most one pending job per item; repeated edits collapse into it
+  await query(`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_match_jobs_one_pending
+    ON match_jobs(item_type, item_id) WHERE status = 'PENDING'
+  `);
+
+  // When (and with which profile) the lost item's match cache was last fully
+  // computed. Incremental runs only touch caches that are current.
+  await query(`ALTER TABLE lost_items ADD COLUMN IF NOT EXISTS matches_computed_at TIMESTAMP`);
+  await query(`ALTER TABLE lost_items ADD COLUMN IF NOT EXISTS matches_profile_id INTEGER REFERENCES match_weight_profiles(id) ON DELETE SET NULL`);
+
+  console.log('✅ Match job migrations completed successfully');
+}
@@ -0,0 +1,37 @@
+import { query } from '../config/database';
+
+/**
+ * Migration: Owner/finder feedback on suggested matches.
+ * "Not mine" dismisses a pair for good; both verdicts are kept with the
+ * score and explanation at the time, as labelled data for precision reports.
+ */
+export async function runMatchFeedbackMigrations(): Promise<void> {
+  console.log('🔧 Running match feedback migrations...');
+
+  // ==========================================
+  // MATCH FEEDBACK TABLE
+  // ==========================================
+  await query(`
+    CREATE TABLE IF NOT EXISTS match_feedback (
+      id SERIAL PRIMARY KEY,
+      lost_item_id INTEGER NOT NULL REFERENCES lost_items(id) ON DELETE CASCADE,
+      found_item_id INTEGER NOT NULL REFERENCES found_items(id) ON DELETE CASCADE,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      role VARCHAR(10) NOT NULL CHECK (role IN ('owner', 'finder')),
+      verdict VARCHAR(20) NOT NULL CHECK (verdict IN ('NOT_MINE', 'LOOKS_RIGHT')),
+      reason TEXT,
+      category item_category NOT NULL,
+      score NUMERIC(6,2) NOT NULL,
+      explanation TEXT[] NOT NULL DEFAULT '{}',
+      profile_id INTEGER REFERENCES match_weight_profiles(id) ON DELETE SET NULL,
+      profile_version INTEGER,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      UNIQUE(lost_item_id, found_item_id, user_id)
+    )
+  `);
+  await query(`CREATE INDEX IF NOT EXISTS idx_match_feedback_dismissed ON match_feedback(lost_item_id, found_item_id) WHERE verdict = 'NOT_MINE'`);
+  await query(`CREATE INDEX IF NOT EXISTS idx_match_feedback_created ON match_feedback(created_at)`);
+
+  console.log('✅ Match feedback migrations completed successfully');
+}
@@ -0,0 +1,21 @@
+import { query } from '../config/database';
+
+/**
+ * Migration: Optional time-of-day windows on lost and found reports.
+ * Transport losses are often pinned to minutes ("left on the 08:10 bus");
+ * when both reports carry a window the matcher scores their overlap.
+ */
+export async function runTimeWindowMigrations(): Promise<void> {
+  console.log('🔧 Running time window migrations...');
+
+  await query(`ALTER TABLE lost_items ADD COLUMN IF NOT EXISTS lost_window_start TIMESTAMP`);
+  await query(`ALTER TABLE lost_items ADD COLUMN IF NOT EXISTS lost_window_end TIMESTAMP`);
+  await query(`ALTER TABLE found_items ADD COLUMN IF NOT EXISTS found_window_start TIMESTAMP`);
+  await query(`ALTER TABLE found_items ADD COLUMN IF NOT EXISTS found_window_end TIMESTAMP`);
+
+  // Both ends or neither, and never inverted
+  await query(`DO $$ BEGIN ALTER TABLE lost_items ADD CONSTRAINT lost_items_window_check CHECK ((lost_window_start IS NULL) = (lost_window_end IS NULL) AND lost_window_start <= lost_window_end); EXCEPTION WHEN duplicate_object THEN null; END $$;`);
+  await query(`DO $$ BEGIN ALTER TABLE found_items ADD CONSTRAINT found_items_window_check CHECK ((found_window_start IS NULL) = (found_window_end IS NULL) AND found_window_start <= found_window_end); EXCEPTION WHEN duplicate_object THEN null; END $$;`);
+
+  console.log('✅ Time window migrations completed successfully');
+}
@@ -0,0 +1,63 @@
+import { query } from '../config/database';
+
+/**
+ * Migration: Structured transport context for lost and found reports.
+ * Cooperatives register their routes (with ordered stops) and vehicles;
+ * reports can name the cooperative, route, vehicle plate and the stops
+ * travelled, and the matcher rewards a shared vehicle or route.
+ */
+export async function runTransportContextMigrations(): Promise<void> {
+  console.log('🔧 Running transport context migrations...');
+
+  // ==========================================
+  // COOPERATIVE ROUTES
+  // ==========================================
+  await query(`
+    CREATE TABLE IF NOT EXISTS cooperative_routes (
+      id SERIAL PRIMARY KEY,
+      cooperative_id INTEGER NOT NULL REFERENCES cooperatives(id) ON DELETE CASCADE,
+      name VARCHAR(150) NOT NULL,
+      stops TEXT[] NOT NULL DEFAULT '{}',
+      is_active BOOLEAN NOT NULL DEFAULT TRUE,
+      created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      UNIQUE(cooperative_id, name)
+    )
+  `);
+
+  // ==========================================
+  // COOPERATIVE VEHICLES
+  // ==========================================
+  // plate_number is stored normalised (upper case, no spaces or dashes)
+  await query(`
+    CREATE TABLE IF NOT EXISTS cooperative_vehicles (
+      id SERIAL PRIMARY KEY,
+      cooperative_id INTEGER NOT NULL REFERENCES cooperatives(id) ON DELETE CASCADE,
+      plate_number VARCHAR(20) NOT NULL UNIQUE,
+      route_id INTEGER REFERENCES cooperative_routes(id) ON DELETE SET NULL,
+      description VARCHAR(100),
+      is_active BOOLEAN NOT NULL DEFAULT TRUE,
+      created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+    )
+  `);
+  await query(`CREATE INDEX IF NOT EXISTS idx_coop_vehicles_coop ON cooperative_vehicles(cooperative_id)`);
+
+  // ==========================================
+  // TRANSPORT CONTEXT ON REPORTS
+  // ==========================================
+  // route_name is copied from the registered route so the matcher can
+  // compare routes run by different cooperatives without a join
+  for (const table of ['lost_items', 'found_items']) {
+    await query(`ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS transport_cooperative_id INTEGER REFERENCES cooperatives(id) ON DELETE SET NULL`);
+    await query(`ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS route_id INTEGER REFERENCES cooperative_routes(id) ON DELETE SET NULL`);
+    await query(`ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS route_name VARCHAR(150)`);
+    await query(`ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS vehicle_plate VARCHAR(20)`);
+    await query(`ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS stop_sequence TEXT[]`);
+    await query(`CREATE INDEX IF NOT EXISTS idx_${table}_vehicle_plate ON ${table}(vehicle_plate) WHERE vehicle_plate IS NOT NULL`);
+  }
+
+  console.log('✅ Transport context migrations completed successfully');
+}
@@ -0,0 +1,62 @@
+import { query } from '../config/database';
+
+/**
+ * Migration: Saved searches that act as standing watches.
+ * Each new found item is checked against active watches; every hit is
+ * recorded (and shown in Settings), and EMAIL watches also send a mail.
+ */
+export async function runSavedSearchMigrations(): Promise<void> {
+  console.log('🔧 Running saved search migrations...');
+
+  // ==========================================
+  // SAVED SEARCHES
+  // ==========================================
+  await query(`
+    CREATE TABLE IF NOT EXISTS saved_searches (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name VARCHAR(100) NOT NULL,
+      category VARCHAR(20),
+      location_area VARCHAR(100),
+      keyword VARCHAR(100),
+      date_from DATE,
+      date_to DATE,
+      channel VARCHAR(10) NOT NULL DEFAULT 'EMAIL' CHECK (channel IN ('EMAIL', 'IN_APP')),
+      is_active BOOLEAN NOT NULL DEFAULT TRUE,
+      last_hit_at TIMESTAMP,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      CONSTRAINT saved_searches_criteria_check CHECK (category IS NOT NULL OR location_area IS NOT NULL OR keyword IS NOT NULL),
+      CONSTRAINT saved_searches_dates_check CHECK (date_from IS NULL OR date_to IS NULL OR date_from <= date_to)
+    )
+  `);
+  await query(`CREATE INDEX IF NOT EXISTS idx_saved_searches_user ON saved_searches(user_id)`);
+  await query(`CREATE INDEX IF NOT EXISTS idx_saved_searches_active ON saved_searches(category) WHERE is_active = TRUE`);
+
+  // ==========================================
+  // WATCH HITS
+  // ==========================================
+  // One row per (watch, found item) so a watch never fires twice for an item
+  await query(`
+    CREATE TABLE IF NOT EXISTS saved_search_hits (
+      id SERIAL PRIMARY KEY,
+      saved_search_id INTEGER NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+      found_item_id INTEGER NOT NULL REFERENCES found_items(id) ON DELETE CASCADE,
+      notified_via VARCHAR(10) NOT NULL,
+      seen_at TIMESTAMP,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      UNIQUE(saved_search_id, found_item_id)
+    )
+  `);
+  await query(`CREATE INDEX IF NOT EXISTS idx_saved_search_hits_unseen ON saved_search_hits(saved_search_id) WHERE seen_at IS NULL`);
+
+  await query(`DROP TRIGGER IF EXISTS update_saved_searches_updated_at ON saved_searches`);
+  await query(`
+    CREATE TRIGGER update_saved_searches_updated_at
+      BEFORE UPDATE ON saved_searches
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column()
+  `);
+
+  console.log('✅ Saved search migrations completed successfully');
+}
@@ -0,0 +1,52 @@
+import { query } from '../config/database';
+
+/**
+ * Migration: Ranked full-text search over lost and found items.
+ * Each item carries a weighted search_vector (title > keywords > description)
+ * kept current by a trigger; the existing trigram indexes on title and
+ * description catch misspellings the vector misses.
+ */
+export async function runSearchRankingMigrations(): Promise<void> {
+  console.log('🔧 Running search ranking migrations...');
+
+  // Reports mix Kinyarwanda, English and French; accents are folded so
+  // "téléphone" and "telephone" index the same
+  await query(`CREATE EXTENSION IF NOT EXISTS "unaccent";`);
+
+  // ==========================================
+  // SEARCH VECTORS
+  // ==========================================
+  // A trigger rather than a generated column: unaccent() and
+  // array_to_string() are not immutable
+  await query(`
+    CREATE OR REPLACE FUNCTION update_item_search_vector()
+    RETURNS TRIGGER AS $$
+    BEGIN
+      NEW.search_vector =
+        setweight(to_tsvector('simple', unaccent(LOWER(COALESCE(NEW.title, '')))), 'A') ||
+        setweight(to_tsvector('simple', unaccent(LOWER(array_to_string(COALESCE(NEW.keywords, '{}'), ' ')))), 'B') ||
+        setweight(to_tsvector('simple', unaccent(LOWER(COALESCE(NEW.description, '')))), 'C');
+      RETURN NEW;
+    END;
+    $$ language 'plpgsql'
+  `);
+
+  for (const table of ['lost_items', 'found_items']) {
+    await query(`ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS search_vector tsvector`);
+
+    await query(`DROP TRIGGER IF EXISTS update_${table}_search_vector ON ${table}`);
+    await query(`
+      CREATE TRIGGER update_${table}_search_vector
+        BEFORE INSERT OR UPDATE OF title, description, keywords ON ${table}
+        FOR EACH ROW
+        EXECUTE FUNCTION update_item_search_vector()
+    `);
+
+    // Backfill rows created before the trigger existed
+    await query(`UPDATE ${table} SET title = title WHERE search_vector IS NULL`);
+
+    await query(`CREATE INDEX IF NOT EXISTS idx_${table}_search_vector ON ${table} USING GIN(search_vector)`);
+  }
+
+  console.log('✅ Search ranking migrations completed successfully');
+}
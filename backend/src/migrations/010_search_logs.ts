@@ -0,0 +1,29 @@
+import { query } from '../config/database';
+
+/**
+ * Migration: Search logs detailed enough to mine.
+ * search_logs (002_patch) only had the query text, category and area; each
+ * row now also records which table was searched, whether it was a plain
+ * listing or ranked search, the remaining filters, and a normalised query
+ * for grouping "Téléphone " with "telephone".
+ */
+export async function runSearchLogMigrations(): Promise<void> {
+  console.log('🔧 Running search log migrations...');
+
+  await query(`ALTER TABLE search_logs ADD COLUMN IF NOT EXISTS item_type VARCHAR(10)`);
+  await query(`ALTER TABLE search_logs ADD COLUMN IF NOT EXISTS search_mode VARCHAR(10) NOT NULL DEFAULT 'LIST'`);
+  await query(`ALTER TABLE search_logs ADD COLUMN IF NOT EXISTS normalized_query TEXT`);
+  await query(`ALTER TABLE search_logs ADD COLUMN IF NOT EXISTS filters JSONB NOT NULL DEFAULT '{}'`);
+
+  await query(`DO $$ BEGIN ALTER TABLE search_logs ADD CONSTRAINT search_logs_item_type_check CHECK (item_type IN ('LOST', 'FOUND')); EXCEPTION WHEN duplicate_object THEN NULL; END $$`);
+  await query(`DO $$ BEGIN ALTER TABLE search_logs ADD CONSTRAINT search_logs_mode_check CHECK (search_mode IN ('LIST', 'RANKED')); EXCEPTION WHEN duplicate_object THEN NULL; END $$`);
+
+  // Users can be deleted; their searches stay as anonymous analytics
+  await query(`ALTER TABLE search_logs DROP CONSTRAINT IF EXISTS search_logs_user_id_fkey`);
+  await query(`ALTER TABLE search_logs ADD CONSTRAINT search_logs_user_id_fkey FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL`);
+
+  await query(`CREATE INDEX IF NOT EXISTS idx_search_logs_query ON search_logs(normalized_query, created_at) WHERE normalized_query IS NOT NULL`);
+  await query(`CREATE INDEX IF NOT EXISTS idx_search_logs_area ON search_logs(LOWER(location_area), category, created_at) WHERE location_area IS NOT NULL`);
+
+  console.log('✅ Search log migrations completed successfully');
+}
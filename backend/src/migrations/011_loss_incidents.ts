@@ -0,0 +1,33 @@
+import { query } from '../config/database';
+
+/**
+ * Migration: Loss incidents.
+ * One loss often means several items ("my bag with my phone, ID and
+ * keys"). An incident groups those lost items: each keeps its own
+ * category and verification questions, while the incident records the
+ * shared where and when. Matching uses siblings in the same incident as
+ * extra evidence.
+ */
+export async function runLossIncidentMigrations(): Promise<void> {
+  console.log('🔧 Running loss incident migrations...');
+
+  await query(`
+    CREATE TABLE IF NOT EXISTS loss_incidents (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      title VARCHAR(100) NOT NULL,
+      description TEXT,
+      location_area VARCHAR(100) NOT NULL,
+      lost_date TIMESTAMP NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+    )
+  `);
+  await query(`CREATE INDEX IF NOT EXISTS idx_loss_incidents_user ON loss_incidents(user_id, created_at DESC)`);
+
+  // Items outlive a deleted incident as standalone reports
+  await query(`ALTER TABLE lost_items ADD COLUMN IF NOT EXISTS incident_id INTEGER REFERENCES loss_incidents(id) ON DELETE SET NULL`);
+  await query(`CREATE INDEX IF NOT EXISTS idx_lost_items_incident ON lost_items(incident_id) WHERE incident_id IS NOT NULL`);
+
+  console.log('✅ Loss incident migrations completed successfully');
+}
@@ -0,0 +1,15 @@
+import { query } from '../config/database';
+
+/**
+ * Migration: Lost item photos.
+ * Owners can upload up to 5 photos of what they lost, stored the same
+ * way as found item images. Unlike found item images they are private:
+ * only the owner sees them, plus the finder of a suggested match.
+ */
+export async function runLostItemImageMigrations(): Promise<void> {
+  console.log('🔧 Running lost item image migrations...');
+
+  await query(`ALTER TABLE lost_items ADD COLUMN IF NOT EXISTS image_urls TEXT[] NOT NULL DEFAULT '{}'`);
+
+  console.log('✅ Lost item image migrations completed successfully');
+}
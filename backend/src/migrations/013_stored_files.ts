@@ -0,0 +1,22 @@
+import { query } from '../config/database';
+
+/**
+ * Migration: Stored files.
+ * Backing table for STORAGE_DRIVER=database, which keeps uploaded photos
+ * in Postgres for deployments without a persistent disk or object store.
+ */
+export async function runStoredFileMigrations(): Promise<void> {
+  console.log('🔧 Running stored file migrations...');
+
+  await query(`
+    CREATE TABLE IF NOT EXISTS stored_files (
+      key TEXT PRIMARY KEY,
+      content_type VARCHAR(100) NOT NULL,
+      size INTEGER NOT NULL,
+      data BYTEA NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    )
+  `);
+
+  console.log('✅ Stored file migrations completed successfully');
+}
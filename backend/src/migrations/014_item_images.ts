@@ -0,0 +1,32 @@
+import { query } from '../config/database';
+
+/**
+ * Migration: Processed item images.
+ * One row per photo that went through the image pipeline: its perceptual
+ * hash for spotting the same photo on two reports, and which earlier photo
+ * it repeats. A row also means medium and thumbnail copies exist.
+ */
+export async function runItemImageMigrations(): Promise<void> {
+  console.log('🔧 Running item image migrations...');
+
+  await query(`
+    CREATE TABLE IF NOT EXISTS item_images (
+      id SERIAL PRIMARY KEY,
+      item_type VARCHAR(10) NOT NULL CHECK (item_type IN ('lost', 'found')),
+      item_id INTEGER NOT NULL,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      url TEXT NOT NULL UNIQUE,
+      phash CHAR(16) NOT NULL,
+      width INTEGER,
+      height INTEGER,
+      duplicate_of INTEGER REFERENCES item_images(id) ON DELETE SET NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    )
+  `);
+
+  await query(`CREATE INDEX IF NOT EXISTS idx_item_images_item ON item_images(item_type, item_id)`);
+  await query(`CREATE INDEX IF NOT EXISTS idx_item_images_user ON item_images(user_id, created_at)`);
+  await query(`CREATE INDEX IF NOT EXISTS idx_item_images_created ON item_images(created_at)`);
+
+  console.log('✅ Item image migrations completed successfully');
+}
@@ -0,0 +1,17 @@
+import { query } from '../config/database';
+
+/**
+ * Migration: Redacted previews of document photos.
+ * Found IDs and wallets keep their photos private; redacted_image_urls
+ * holds a public copy of each with the text pixelated, in the same order.
+ */
+export async function runRedactedImageMigrations(): Promise<void> {
+  console.log('🔧 Running redacted image migrations...');
+
+  await query(`
+    ALTER TABLE found_items
+    ADD COLUMN IF NOT EXISTS redacted_image_urls TEXT[] NOT NULL DEFAULT '{}'
+  `);
+
+  console.log('✅ Redacted image migrations completed successfully');
+}
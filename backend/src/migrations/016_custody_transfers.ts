@@ -0,0 +1,34 @@
+import { query } from '../config/database';
+
+/**
+ * Migration: Custody chain of cooperative-held found items.
+ * Each row is one hand-over of the physical object (driver → depot office
+ * → sector office ...), signed by the staff member who recorded it and
+ * chained to the previous row's signature. found_items keeps the latest
+ * holder and location for listings.
+ */
+export async function runCustodyTransferMigrations(): Promise<void> {
+  console.log('🔧 Running custody transfer migrations...');
+
+  await query(`
+    CREATE TABLE IF NOT EXISTS custody_transfers (
+      id SERIAL PRIMARY KEY,
+      found_item_id INTEGER NOT NULL REFERENCES found_items(id) ON DELETE CASCADE,
+      from_holder VARCHAR(150),
+      to_holder VARCHAR(150) NOT NULL,
+      location VARCHAR(200) NOT NULL,
+      notes TEXT,
+      transferred_at TIMESTAMP NOT NULL,
+      recorded_by INTEGER NOT NULL REFERENCES users(id),
+      signature CHAR(64) NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    )
+  `);
+
+  await query(`CREATE INDEX IF NOT EXISTS idx_custody_transfers_item ON custody_transfers(found_item_id, id)`);
+
+  await query(`ALTER TABLE found_items ADD COLUMN IF NOT EXISTS current_holder VARCHAR(150)`);
+  await query(`ALTER TABLE found_items ADD COLUMN IF NOT EXISTS current_location VARCHAR(200)`);
+
+  console.log('✅ Custody transfer migrations completed successfully');
+}
@@ -0,0 +1,26 @@
+import { query } from '../config/database';
+
+/**
+ * Migration: Hidden attributes of found items.
+ * Facts the finder notes about the physical object when logging it (last
+ * IMEI digits, case colour, number of cards...), stored hashed like
+ * verification answers. Claimants are checked against them.
+ */
+export async function runFoundItemAttributeMigrations(): Promise<void> {
+  console.log('🔧 Running found item attribute migrations...');
+
+  await query(`
+    CREATE TABLE IF NOT EXISTS found_item_attributes (
+      id SERIAL PRIMARY KEY,
+      found_item_id INTEGER NOT NULL REFERENCES found_items(id) ON DELETE CASCADE,
+      attribute_key VARCHAR(40) NOT NULL,
+      answer_hash VARCHAR(255) NOT NULL,
+      answer_salt VARCHAR(64) NOT NULL,
+      recorded_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      UNIQUE (found_item_id, attribute_key)
+    )
+  `);
+
+  console.log('✅ Found item attribute migrations completed successfully');
+}
@@ -0,0 +1,46 @@
+import { query } from '../config/database';
+
+/**
+ * Migration: Verification questions, one row each.
+ * Replaces the three fixed question/answer column pairs of
+ * verification_secrets: a lost item now has 2 to 7 questions, each with a
+ * weight from the strength analyzer. Existing secrets are copied over
+ * with weight 1; their answers are only stored hashed, so they cannot be
+ * re-analysed, and equal weights keep the old 2-of-3 outcome for them.
+ * verification_secrets itself is no longer read or written.
+ */
+export async function runVerificationQuestionMigrations(): Promise<void> {
+  console.log('🔧 Running verification question migrations...');
+
+  await query(`
+    CREATE TABLE IF NOT EXISTS verification_questions (
+      id SERIAL PRIMARY KEY,
+      lost_item_id INTEGER NOT NULL REFERENCES lost_items(id) ON DELETE CASCADE,
+      position SMALLINT NOT NULL,
+      question_text VARCHAR(255) NOT NULL,
+      answer_hash VARCHAR(255) NOT NULL,
+      answer_salt VARCHAR(64) NOT NULL,
+      weight NUMERIC(4,2) NOT NULL DEFAULT 1,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      UNIQUE (lost_item_id, position)
+    )
+  `);
+
+  // Items that already have questions are skipped, so this can run on every start
+  const copied = await query(`
+    INSERT INTO verification_questions (lost_item_id, position, question_text, answer_hash, answer_salt, weight, created_at)
+    SELECT s.lost_item_id, q.position, q.question_text, q.answer_hash, q.answer_salt, 1, s.created_at
+    FROM verification_secrets s
+    CROSS JOIN LATERAL (VALUES
+      (1, s.question_1_text, s.answer_1_hash, s.answer_1_salt),
+      (2, s.question_2_text, s.answer_2_hash, s.answer_2_salt),
+      (3, s.question_3_text, s.answer_3_hash, s.answer_3_salt)
+    ) AS q(position, question_text, answer_hash, answer_salt)
+    WHERE NOT EXISTS (SELECT 1 FROM verification_questions v WHERE v.lost_item_id = s.lost_item_id)
+  `);
+  if (copied.rowCount) {
+    console.log(`  Copied ${copied.rowCount} questions from verification_secrets`);
+  }
+
+  console.log('✅ Verification question migrations completed successfully');
+}
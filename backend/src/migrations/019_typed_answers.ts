@@ -0,0 +1,23 @@
+import { query } from '../config/database';
+
+/**
+ * Migration: Typed verification answers.
+ * Owner questions and finder-noted attributes get an answer type (number,
+ * date, colour, set of words or free text) and the keyed hashes of the
+ * answer's canonical forms, so "five" matches "5 cards". Existing rows
+ * stay TEXT: only their bcrypt hash is stored, so there is nothing to
+ * derive forms from, and they keep matching exactly as before.
+ */
+export async function runTypedAnswerMigrations(): Promise<void> {
+  console.log('🔧 Running typed answer migrations...');
+
+  for (const table of ['verification_questions', 'found_item_attributes']) {
+    await query(`
+      ALTER TABLE ${table}
+        ADD COLUMN IF NOT EXISTS answer_type VARCHAR(10) NOT NULL DEFAULT 'TEXT',
+        ADD COLUMN IF NOT EXISTS answer_keys TEXT[]
+    `);
+  }
+
+  console.log('✅ Typed answer migrations completed successfully');
+}
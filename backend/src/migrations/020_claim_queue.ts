@@ -0,0 +1,19 @@
+import { query } from '../config/database';
+
+/**
+ * Migration: Claim queue.
+ * A found item can have several competing claims. When one is verified
+ * the others still pending are closed as rejected and point at the claim
+ * that won, so the queue can say why they were closed and the claimant
+ * can still dispute it.
+ */
+export async function runClaimQueueMigrations(): Promise<void> {
+  console.log('🔧 Running claim queue migrations...');
+
+  await query(`
+    ALTER TABLE claims
+      ADD COLUMN IF NOT EXISTS superseded_by INTEGER REFERENCES claims(id) ON DELETE SET NULL
+  `);
+
+  console.log('✅ Claim queue migrations completed successfully');
+}
@@ -12,7 +12,7 @@
 import { Router } from 'express';
 import { authenticate, adminOnly } from '../middleware/auth';
 import { validate } from '../middleware/validation';
-import { verificationLimiter, otpLimiter } from '../middleware/rateLimiter';
+import { otpLimiter } from '../middleware/rateLimiter';
 import { requireVerifiedEmail } from '../middleware/emailVerification';
 import { z } from 'zod';
 
@@ -218,8 +218,9 @@ enhancedRouter.get('/claims/:claimId/dispute',
   async (req, res) => {
     try {
       const { claimId } = req.params;
-      const dispute = await disputeService.getDisputeByClaimId(parseInt(claimId));
+      const dispute = await disputeService.getDisputeByClaimId(parseInt(claimId), req.user!);
       
+      // Also for claims the caller takes no part in
       if (!dispute) {
         res.status(404).json({ success: false, message: 'No dispute found for this claim' });
         return;
@@ -351,11 +352,15 @@ enhancedRouter.get('/claims/:claimId/verification/status',
     try {
       const { claimId } = req.params;
       const userId = req.user!.userId;
-      
-      const status = await verificationCooldownService.checkCooldownStatus(
+
+      const status = await verificationCooldownService.getClaimVerificationStatus(
         parseInt(claimId),
         userId
       );
+      if (!status) {
+        res.status(404).json({ success: false, message: 'Claim not found' });
+        return;
+      }
       
       res.json({
         success: true,
@@ -1,7 +1,5 @@
 import { Router } from 'express';
 import multer from 'multer';
-import path from 'path';
-import { v4 as uuidv4 } from 'uuid';
 
 // Controllers
 import * as authController from '../controllers/authController';
@@ -11,13 +9,20 @@ import * as claimsController from '../controllers/claimsController';
 import * as messagesController from '../controllers/messagesController';
 import * as adminController from '../controllers/adminController';
 import * as cooperativesController from '../controllers/cooperativesController';
+import * as savedSearchesController from '../controllers/savedSearchesController';
+import * as searchController from '../controllers/searchController';
+import * as lossIncidentsController from '../controllers/lossIncidentsController';
 
 // Middleware
 import { authenticate, optionalAuth, adminOnly, authorize, adminOrCoopStaff } from '../middleware/auth';
 import { validate, registerSchema, loginSchema, refreshTokenSchema, forgotPasswordSchema, resetPasswordSchema,
          createLostItemSchema, updateLostItemSchema, createFoundItemSchema, updateFoundItemSchema,
-         createClaimSchema, verifyClaimSchema, verifyOtpSchema, sendMessageSchema } from '../middleware/validation';
-import { authLimiter, reportLimiter, claimLimiter, verificationLimiter, otpLimiter, messageLimiter, 
+         createClaimSchema, verifyClaimSchema, verifyOtpSchema, sendMessageSchema,
+         updateMatchProfileSchema, matchFeedbackSchema, createRouteSchema, createVehicleSchema,
+         registryEntryStatusSchema, createSavedSearchSchema, updateSavedSearchSchema,
+         itemSearchSchema, unifiedSearchSchema, createLossIncidentSchema,
+         recoverIncidentItemsSchema, custodyTransferSchema, hiddenAttributesSchema } from '../middleware/validation';
+import { authLimiter, reportLimiter, claimLimiter, otpLimiter, messageLimiter, 
          passwordResetLimiter, searchLimiter } from '../middleware/rateLimiter';
 import { UserRole } from '../types';
 import { checkConnection } from '../config/database';
@@ -32,15 +37,9 @@ const router = Router();
 // FILE UPLOAD CONFIGURATION
 // ============================================
 
-const storage = multer.diskStorage({
-  destination: (req, file, cb) => {
-    cb(null, process.env.UPLOAD_PATH || './uploads');
-  },
-  filename: (req, file, cb) => {
-    const ext = path.extname(file.originalname);
-    cb(null, `${uuidv4()}${ext}`);
-  }
-});
+// Files stay in memory until the controller hands them to the storage
+// driver (local disk, S3 or database - see storageService.ts)
+const storage = multer.memoryStorage();
 
 const fileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
   const allowedTypes = ['image/jpeg', 'image/png', 'image/webp'];
@@ -112,6 +111,17 @@ router.post('/auth/change-password',
   authController.changePassword
 );
 
+// ============================================
+// SEARCH ROUTES (lost and found together)
+// ============================================
+
+router.get('/search',
+  optionalAuth,
+  searchLimiter,
+  validate(unifiedSearchSchema, 'query'),
+  searchController.searchAll
+);
+
 // ============================================
 // LOST ITEMS ROUTES
 // ============================================
@@ -131,6 +141,13 @@ router.get('/lost-items',
   lostItemsController.getLostItems
 );
 
+router.get('/lost-items/search',
+  optionalAuth,
+  searchLimiter,
+  validate(itemSearchSchema, 'query'),
+  lostItemsController.searchLostItems
+);
+
 router.get('/lost-items/:id',
   optionalAuth,
   lostItemsController.getLostItem
@@ -147,16 +164,62 @@ router.delete('/lost-items/:id',
   lostItemsController.deleteLostItem
 );
 
+router.post('/lost-items/:id/images',
+  authenticate,
+  upload.array('images', 5),
+  lostItemsController.uploadLostItemImages
+);
+
 router.get('/lost-items/:id/matches',
   authenticate,
   lostItemsController.getLostItemMatches
 );
 
+router.post('/lost-items/:id/matches/:foundItemId/feedback',
+  authenticate,
+  validate(matchFeedbackSchema),
+  lostItemsController.submitLostItemMatchFeedback
+);
+
+router.delete('/lost-items/:id/matches/:foundItemId/feedback',
+  authenticate,
+  lostItemsController.deleteLostItemMatchFeedback
+);
+
 router.get('/users/me/lost-items',
   authenticate,
   lostItemsController.getMyLostItems
 );
 
+// ============================================
+// LOSS INCIDENT ROUTES
+// ============================================
+
+router.post('/loss-incidents',
+  authenticate,
+  reportLimiter,
+  requireRecaptcha('report_lost'),
+  fraudCheck('REPORT_CREATE'),
+  validate(createLossIncidentSchema),
+  lossIncidentsController.createIncident
+);
+
+router.get('/loss-incidents/:id',
+  authenticate,
+  lossIncidentsController.getIncident
+);
+
+router.post('/loss-incidents/:id/recovered',
+  authenticate,
+  validate(recoverIncidentItemsSchema),
+  lossIncidentsController.recoverIncidentItems
+);
+
+router.get('/users/me/loss-incidents',
+  authenticate,
+  lossIncidentsController.getMyIncidents
+);
+
 // ============================================
 // FOUND ITEMS ROUTES
 // ============================================
@@ -176,6 +239,13 @@ router.get('/found-items',
   foundItemsController.getFoundItems
 );
 
+router.get('/found-items/search',
+  optionalAuth,
+  searchLimiter,
+  validate(itemSearchSchema, 'query'),
+  foundItemsController.searchFoundItems
+);
+
 router.get('/found-items/:id',
   optionalAuth,
   foundItemsController.getFoundItem
@@ -192,6 +262,12 @@ router.delete('/found-items/:id',
   foundItemsController.deleteFoundItem
 );
 
+router.put('/found-items/:id/hidden-attributes',
+  authenticate,
+  validate(hiddenAttributesSchema),
+  foundItemsController.updateFoundItemHiddenAttributes
+);
+
 router.post('/found-items/:id/images',
   authenticate,
   upload.array('images', 5),
@@ -203,11 +279,58 @@ router.get('/found-items/:id/matches',
   foundItemsController.getFoundItemMatches
 );
 
+router.get('/found-items/:id/claims',
+  authenticate,
+  foundItemsController.getFoundItemClaimQueue
+);
+
+router.post('/found-items/:id/matches/:lostItemId/feedback',
+  authenticate,
+  validate(matchFeedbackSchema),
+  foundItemsController.submitFoundItemMatchFeedback
+);
+
+router.delete('/found-items/:id/matches/:lostItemId/feedback',
+  authenticate,
+  foundItemsController.deleteFoundItemMatchFeedback
+);
+
 router.get('/users/me/found-items',
   authenticate,
   foundItemsController.getMyFoundItems
 );
 
+// ============================================
+// SAVED SEARCHES ROUTES
+// ============================================
+
+router.get('/users/me/saved-searches',
+  authenticate,
+  savedSearchesController.getMySavedSearches
+);
+
+router.post('/users/me/saved-searches',
+  authenticate,
+  validate(createSavedSearchSchema),
+  savedSearchesController.createMySavedSearch
+);
+
+router.patch('/users/me/saved-searches/:id',
+  authenticate,
+  validate(updateSavedSearchSchema),
+  savedSearchesController.updateMySavedSearch
+);
+
+router.delete('/users/me/saved-searches/:id',
+  authenticate,
+  savedSearchesController.deleteMySavedSearch
+);
+
+router.get('/users/me/saved-searches/:id/hits',
+  authenticate,
+  savedSearchesController.getMySavedSearchHits
+);
+
 // ============================================
 // CLAIMS ROUTES
 // ============================================
@@ -227,13 +350,11 @@ router.get('/claims/:claimId',
 
 router.get('/claims/:claimId/questions',
   authenticate,
-  verificationLimiter,
   claimsController.getVerificationQuestions
 );
 
 router.post('/claims/:claimId/verify',
   authenticate,
-  verificationLimiter,
   fraudCheck('CLAIM_VERIFY'),
   validate(verifyClaimSchema),
   claimsController.verifyClaim
@@ -330,6 +451,58 @@ router.get('/cooperatives/:id/items',
   cooperativesController.getCooperativeItems
 );
 
+router.get('/cooperatives/:id/items/:itemId/custody',
+  authenticate,
+  adminOrCoopStaff,
+  cooperativesController.getCustodyChain
+);
+
+router.post('/cooperatives/:id/items/:itemId/custody',
+  authenticate,
+  adminOrCoopStaff,
+  validate(custodyTransferSchema),
+  cooperativesController.recordCustodyTransfer
+);
+
+router.get('/cooperatives/:id/routes',
+  optionalAuth,
+  cooperativesController.getCooperativeRoutes
+);
+
+router.post('/cooperatives/:id/routes',
+  authenticate,
+  adminOrCoopStaff,
+  validate(createRouteSchema),
+  cooperativesController.createCooperativeRoute
+);
+
+router.patch('/cooperatives/:id/routes/:routeId',
+  authenticate,
+  adminOrCoopStaff,
+  validate(registryEntryStatusSchema),
+  cooperativesController.updateCooperativeRouteStatus
+);
+
+router.get('/cooperatives/:id/vehicles',
+  authenticate,
+  adminOrCoopStaff,
+  cooperativesController.getCooperativeVehicles
+);
+
+router.post('/cooperatives/:id/vehicles',
+  authenticate,
+  adminOrCoopStaff,
+  validate(createVehicleSchema),
+  cooperativesController.createCooperativeVehicle
+);
+
+router.patch('/cooperatives/:id/vehicles/:vehicleId',
+  authenticate,
+  adminOrCoopStaff,
+  validate(registryEntryStatusSchema),
+  cooperativesController.updateCooperativeVehicleStatus
+);
+
 router.get('/cooperative/dashboard',
   authenticate,
   authorize(UserRole.COOP_STAFF),
@@ -394,6 +567,43 @@ router.post('/admin/cleanup',
   adminController.triggerCleanup
 );
 
+router.get('/admin/matching/profiles',
+  authenticate,
+  adminOnly,
+  adminController.getMatchProfiles
+);
+
+router.get('/admin/matching/profiles/:category',
+  authenticate,
+  adminOnly,
+  adminController.getMatchProfileHistory
+);
+
+router.put('/admin/matching/profiles/:category',
+  authenticate,
+  adminOnly,
+  validate(updateMatchProfileSchema),
+  adminController.updateMatchProfile
+);
+
+router.get('/admin/matching/jobs',
+  authenticate,
+  adminOnly,
+  adminController.getMatchJobs
+);
+
+router.get('/admin/matching/feedback',
+  authenticate,
+  adminOnly,
+  adminController.getMatchFeedbackStats
+);
+
+router.get('/admin/analytics/search',
+  authenticate,
+  adminOnly,
+  adminController.getSearchStats
+);
+
 // ============================================
 // HEALTH CHECK (with DB connectivity)
 // ============================================
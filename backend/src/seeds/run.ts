@@ -4,6 +4,7 @@ dotenv.config();
 import { query, closePool } from '../config/database';
 import bcrypt from 'bcryptjs';
 import crypto from 'crypto';
+import { computeQuestionWeights } from '../services/verificationQuestionService';
 
 // ============================================
 // BYABONEKA+ COMPREHENSIVE SEED DATA
@@ -51,6 +52,7 @@ async function seed(): Promise<void> {
   await query('DELETE FROM verification_attempts');
   await query('DELETE FROM claims');
   await query('DELETE FROM matches');
+  await query('DELETE FROM verification_questions');
   await query('DELETE FROM verification_secrets');
   await query('DELETE FROM found_items');
   await query('DELETE FROM lost_items');
@@ -64,7 +66,7 @@ async function seed(): Promise<void> {
   await query("ALTER SEQUENCE users_id_seq RESTART WITH 1");
   await query("ALTER SEQUENCE lost_items_id_seq RESTART WITH 1");
   await query("ALTER SEQUENCE found_items_id_seq RESTART WITH 1");
-  await query("ALTER SEQUENCE verification_secrets_id_seq RESTART WITH 1");
+  await query("ALTER SEQUENCE verification_questions_id_seq RESTART WITH 1");
   await query("ALTER SEQUENCE claims_id_seq RESTART WITH 1");
   await query("ALTER SEQUENCE messages_id_seq RESTART WITH 1");
 
@@ -282,18 +284,20 @@ async function seed(): Promise<void> {
     const lostId = result.rows[0].id;
     lostItemIds.push(lostId);
 
-    // Create verification secrets
+    // Create verification questions
     if (item.questions && item.answers) {
-      const a1 = await hashAnswer(item.answers[0]);
-      const a2 = await hashAnswer(item.answers[1]);
-      const a3 = await hashAnswer(item.answers[2]);
-      
-      await query(`
-        INSERT INTO verification_secrets (lost_item_id, question_1_text, answer_1_hash, answer_1_salt, 
-                                          question_2_text, answer_2_hash, answer_2_salt,
-                                          question_3_text, answer_3_hash, answer_3_salt)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
-      `, [lostId, item.questions[0], a1.hash, a1.salt, item.questions[1], a2.hash, a2.salt, item.questions[2], a3.hash, a3.salt]);
+      const weights = computeQuestionWeights(
+        item.questions.map((question, q) => ({ question, answer: item.answers[q] })),
+        item.category,
+        item.desc
+      );
+      for (let q = 0; q < item.questions.length; q++) {
+        const answer = await hashAnswer(item.answers[q]);
+        await query(`
+          INSERT INTO verification_questions (lost_item_id, position, question_text, answer_hash, answer_salt, weight)
+          VALUES ($1, $2, $3, $4, $5, $6)
+        `, [lostId, q + 1, item.questions[q], answer.hash, answer.salt, weights[q]]);
+      }
       
       lostItemSecretMap.set(lostId, { questions: item.questions, answers: item.answers });
     }
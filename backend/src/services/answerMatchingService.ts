@@ -0,0 +1,83 @@
+/**
+ * Answer Matching Service for Byaboneka+
+ *
+ * Verification answers used to be compared as one normalised string, so
+ * "five" failed against "5 cards" and "about 15k" against "15000 RWF".
+ * Answers now have a type (see utils/answerForms.ts). Alongside the bcrypt
+ * hash of the whole answer, typed answers store keyed hashes of their
+ * canonical forms: the plain answer is never kept, and without the server
+ * secret a leaked row cannot be brute-forced one small number at a time.
+ *
+ * An exact match of the whole answer always passes, whatever the type.
+ */
+
+import crypto from 'crypto';
+import { hashSecretAnswer, verifySecretAnswer } from '../utils';
+import { canonicalForms } from '../utils/answerForms';
+import { AnswerType } from '../types';
+
+// Share of the owner's words a TOKENS answer has to contain, and share of
+// the claimant's words that have to be right, so listing every word in
+// the dictionary does not pass
+const TOKEN_RECALL = 2 / 3;
+const TOKEN_PRECISION = 0.5;
+
+export interface StoredAnswer {
+  answer_type: AnswerType | string | null;
+  answer_hash: string;
+  answer_salt: string;
+  answer_keys: string[] | null;
+}
+
+export interface HashedAnswer {
+  hash: string;
+  salt: string;
+  // Keyed canonical forms, null for TEXT answers
+  keys: string[] | null;
+}
+
+function answerSecret(): string {
+  const secret = process.env.ANSWER_HASH_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('ANSWER_HASH_SECRET or JWT_SECRET must be set to hash verification answers');
+  }
+  return secret;
+}
+
+// Salted per answer, so equal answers to different questions do not share keys
+export function keyAnswerForm(form: string, salt: string): string {
+  return crypto.createHmac('sha256', answerSecret()).update(`${salt}:${form}`).digest('hex');
+}
+
+// Whether an answer can be read as its type at all (TEXT always can)
+export function isReadableAnswer(type: AnswerType, answer: string): boolean {
+  return canonicalForms(type, answer, 'stored') !== null;
+}
+
+export async function hashTypedAnswer(type: AnswerType, answer: string): Promise<HashedAnswer> {
+  const { hash, salt } = await hashSecretAnswer(answer);
+  const forms = canonicalForms(type, answer, 'stored');
+  const keys = forms && forms.length > 0
+    ? [...new Set(forms.map(form => keyAnswerForm(form, salt)))].sort()
+    : null;
+  return { hash, salt, keys };
+}
+
+export async function verifyTypedAnswer(answer: string, stored: StoredAnswer): Promise<boolean> {
+  if (await verifySecretAnswer(answer, stored.answer_hash, stored.answer_salt)) return true;
+
+  const type = (stored.answer_type || AnswerType.TEXT) as AnswerType;
+  if (type === AnswerType.TEXT || !stored.answer_keys || stored.answer_keys.length === 0) return false;
+
+  const forms = canonicalForms(type, answer, 'given');
+  if (!forms || forms.length === 0) return false;
+
+  const storedKeys = new Set(stored.answer_keys);
+  const givenKeys = new Set(forms.map(form => keyAnswerForm(form, stored.answer_salt)));
+  const shared = [...givenKeys].filter(key => storedKeys.has(key)).length;
+
+  if (type === AnswerType.TOKENS) {
+    return shared / storedKeys.size >= TOKEN_RECALL && shared / givenKeys.size >= TOKEN_PRECISION;
+  }
+  return shared > 0;
+}
@@ -1,6 +1,7 @@
 import { Request } from 'express';
 import { query } from '../config/database';
-import { AuditAction } from '../types';
+import { AuditAction, CustodyTransfer } from '../types';
+import { PageCursor, keysetCondition, cursorKeyColumn, takeCursorPage, buildPagination } from '../utils';
 
 // ============================================
 // AUDIT LOGGING SERVICE
@@ -153,6 +154,25 @@ export async function logOtpAction(
   });
 }
 
+export async function logCustodyTransfer(req: Request, transfer: CustodyTransfer): Promise<void> {
+  const { ipAddress, userAgent } = extractRequestMeta(req);
+  await logAudit({
+    actorId: req.user?.userId,
+    action: AuditAction.CUSTODY_TRANSFERRED,
+    resourceType: 'found_item',
+    resourceId: transfer.found_item_id,
+    changes: {
+      transfer_id: transfer.id,
+      from_holder: transfer.from_holder,
+      to_holder: transfer.to_holder,
+      location: transfer.location,
+      transferred_at: transfer.transferred_at
+    },
+    ipAddress,
+    userAgent
+  });
+}
+
 export async function logTrustScoreChange(
   req: Request | null,
   userId: number,
@@ -200,6 +220,7 @@ export interface AuditLogFilter {
   toDate?: Date;
   page?: number;
   limit?: number;
+  cursor?: PageCursor;
 }
 
 export async function getAuditLogs(filter: AuditLogFilter) {
@@ -241,31 +262,36 @@ export async function getAuditLogs(filter: AuditLogFilter) {
   const limit = filter.limit || 50;
   const offset = ((filter.page || 1) - 1) * limit;
 
-  // Get total count
-  const countResult = await query(
-    `SELECT COUNT(*) FROM audit_logs ${whereClause}`,
-    params
-  );
-  const total = parseInt(countResult.rows[0].count);
+  // The total is only counted for the first (page-numbered) request;
+  // cursor pages just follow on
+  let total: number | null = null;
+  if (!filter.cursor) {
+    const countResult = await query(
+      `SELECT COUNT(*) FROM audit_logs ${whereClause}`,
+      params
+    );
+    total = parseInt(countResult.rows[0].count);
+  }
+
+  const pageParams = [...params];
+  const keyset = filter.cursor
+    ? `${whereClause ? 'AND' : 'WHERE'} ${keysetCondition('al.timestamp', 'al.id', filter.cursor, pageParams)}`
+    : '';
 
   // Get logs
   const result = await query(
-    `SELECT al.*, u.name as actor_name, u.email as actor_email
+    `SELECT al.*, u.name as actor_name, u.email as actor_email, ${cursorKeyColumn('al.timestamp')}
      FROM audit_logs al
      LEFT JOIN users u ON al.actor_id = u.id
-     ${whereClause}
-     ORDER BY al.timestamp DESC
-     LIMIT $${paramIndex++} OFFSET $${paramIndex++}`,
-    [...params, limit, offset]
+     ${whereClause} ${keyset}
+     ORDER BY al.timestamp DESC, al.id DESC
+     LIMIT $${pageParams.length + 1} OFFSET $${pageParams.length + 2}`,
+    [...pageParams, limit + 1, filter.cursor ? 0 : offset]
   );
+  const { rows, nextCursor } = takeCursorPage(result.rows, limit);
 
   return {
-    logs: result.rows,
-    pagination: {
-      page: filter.page || 1,
-      limit,
-      total,
-      totalPages: Math.ceil(total / limit)
-    }
+    logs: rows,
+    pagination: buildPagination(filter.page || 1, limit, total, nextCursor)
   };
 }
\ No newline at end of file
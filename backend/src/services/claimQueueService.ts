@@ -0,0 +1,322 @@
+/**
+ * Claim Queue Service for Byaboneka+
+ *
+ * Several people can claim the same found item. The finder and the
+ * cooperative holding it see every claim in one queue, strongest first:
+ * verification score, the claimant's trust level and their fraud risk.
+ *
+ * The first claim to pass verification wins the item. Its competitors
+ * still pending are closed as rejected, marked as superseded by the
+ * winner, and their claimants are told why; they can still dispute. A
+ * claimant who passes verification after another claim already won
+ * (two answering at once, or one closed a moment before passing) has a
+ * contested case: their claim goes straight to a dispute for an admin.
+ */
+
+import { PoolClient } from 'pg';
+import { query, transaction } from '../config/database';
+import { logAudit } from './auditService';
+import { sendClaimSupersededEmail, sendDisputeOpenedEmail } from './emailService';
+import { calculateFraudRisk, RiskLevel } from './fraudDetectionService';
+import { getTrustLevel } from '../utils';
+import { AuditAction, ClaimStatus, TrustLevel, UserRole } from '../types';
+
+export interface ClaimQueueEntry {
+  rank: number;
+  claim_id: number;
+  claimant_id: number;
+  claimant_name: string;
+  lost_item_id: number;
+  lost_item_title: string;
+  status: ClaimStatus;
+  verification_score: number | null;
+  attempts_made: number;
+  superseded_by: number | null;
+  trust_score: number;
+  trust_level: TrustLevel;
+  fraud_risk: { score: number; level: RiskLevel; factors: string[] };
+  created_at: Date;
+}
+
+export interface ClaimQueue {
+  found_item_id: number;
+  // More than one claim still holds on to the item
+  contested: boolean;
+  claims: ClaimQueueEntry[];
+}
+
+export interface SupersededClaim {
+  id: number;
+  claimant_id: number;
+  lost_item_id: number;
+}
+
+export interface VerifiedClaimSettlement {
+  status: ClaimStatus.VERIFIED | ClaimStatus.DISPUTED;
+  superseded: SupersededClaim[];
+  // Unsigned; set when the claim won the item
+  found_item_image_urls?: string[];
+  // Set when the claim was escalated
+  dispute_id?: number;
+  rival_claim_id?: number;
+}
+
+// Claims that hold on to the item, the winner first; closed claims last
+const STATUS_ORDER: Record<string, number> = {
+  [ClaimStatus.RETURNED]: 0,
+  [ClaimStatus.VERIFIED]: 0,
+  [ClaimStatus.DISPUTED]: 1,
+  [ClaimStatus.PENDING]: 2,
+};
+const CLOSED_ORDER = 3;
+
+const HOLDING_STATUSES = [ClaimStatus.VERIFIED, ClaimStatus.RETURNED, ClaimStatus.DISPUTED];
+
+/**
+ * Order a queue: status, then verification score (highest first), fraud
+ * risk (lowest first), trust (highest first) and finally who claimed first.
+ */
+export function rankClaimQueue(entries: Omit<ClaimQueueEntry, 'rank'>[]): ClaimQueueEntry[] {
+  return [...entries]
+    .sort((a, b) =>
+      (STATUS_ORDER[a.status] ?? CLOSED_ORDER) - (STATUS_ORDER[b.status] ?? CLOSED_ORDER) ||
+      (b.verification_score ?? 0) - (a.verification_score ?? 0) ||
+      a.fraud_risk.score - b.fraud_risk.score ||
+      b.trust_score - a.trust_score ||
+      new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+    .map((entry, index) => ({ ...entry, rank: index + 1 }));
+}
+
+export function isContested(entries: Pick<ClaimQueueEntry, 'status'>[]): boolean {
+  return entries.filter(entry => HOLDING_STATUSES.includes(entry.status)).length > 1;
+}
+
+/**
+ * Whether a user may see an item's claim queue: its finder, an admin, or
+ * staff of the cooperative holding it
+ */
+export async function canViewClaimQueue(
+  user: { userId: number; role: UserRole },
+  item: { finder_id: number; cooperative_id: number | null }
+): Promise<boolean> {
+  if (user.userId === item.finder_id || user.role === UserRole.ADMIN) return true;
+  if (user.role !== UserRole.COOP_STAFF || !item.cooperative_id) return false;
+  const staff = await query(
+    'SELECT 1 FROM users WHERE id = $1 AND cooperative_id = $2',
+    [user.userId, item.cooperative_id]
+  );
+  return staff.rows.length > 0;
+}
+
+export async function getClaimQueue(foundItemId: number): Promise<ClaimQueue> {
+  const result = await query(
+    `SELECT c.id AS claim_id, c.claimant_id, u.name AS claimant_name, u.trust_score,
+            c.lost_item_id, li.title AS lost_item_title, c.status, c.verification_score,
+            c.attempts_made, c.superseded_by, c.created_at
+     FROM claims c
+     JOIN users u ON c.claimant_id = u.id
+     JOIN lost_items li ON c.lost_item_id = li.id
+     WHERE c.found_item_id = $1`,
+    [foundItemId]
+  );
+
+  // Reading the risk is not an action by the claimant, so it is not logged
+  const entries = await Promise.all(result.rows.map(async row => {
+    const risk = await calculateFraudRisk(
+      'CLAIM_VERIFY',
+      { user_id: row.claimant_id, target_id: row.claim_id },
+      { log: false }
+    );
+    const trustScore = row.trust_score ?? 0;
+    return {
+      ...row,
+      verification_score: row.verification_score === null ? null : parseFloat(row.verification_score),
+      trust_score: trustScore,
+      trust_level: getTrustLevel(trustScore),
+      fraud_risk: { score: risk.score, level: risk.level, factors: risk.factors }
+    };
+  }));
+
+  return {
+    found_item_id: foundItemId,
+    contested: isContested(entries),
+    claims: rankClaimQueue(entries)
+  };
+}
+
+/**
+ * Close the claims competing with the one that won an item, as rejected
+ * and superseded by it. A competitor that had been verified loses its
+ * hold on its lost item too. Runs inside the caller's transaction.
+ */
+export async function closeCompetingClaims(
+  client: PoolClient,
+  foundItemId: number,
+  winningClaimId: number
+): Promise<SupersededClaim[]> {
+  const closed = await client.query(
+    `UPDATE claims SET status = 'REJECTED', superseded_by = $2
+     WHERE found_item_id = $1 AND id <> $2 AND status IN ('PENDING', 'VERIFIED')
+     RETURNING id, claimant_id, lost_item_id`,
+    [foundItemId, winningClaimId]
+  );
+  if (closed.rows.length > 0) {
+    await client.query(
+      `UPDATE lost_items SET status = 'ACTIVE' WHERE id = ANY($1) AND status = 'CLAIMED'`,
+      [closed.rows.map(row => row.lost_item_id)]
+    );
+  }
+  return closed.rows;
+}
+
+/**
+ * Settle a claim that just passed verification. The found item is locked
+ * so two claimants passing at once are settled one after the other: the
+ * first wins the item and closes its competitors, the second is escalated.
+ */
+export async function settleVerifiedClaim(claimId: number): Promise<VerifiedClaimSettlement> {
+  return transaction(async (client) => {
+    const claimResult = await client.query(
+      `SELECT c.id, c.claimant_id, c.lost_item_id, c.found_item_id
+       FROM claims c JOIN found_items fi ON c.found_item_id = fi.id
+       WHERE c.id = $1
+       FOR UPDATE OF fi`,
+      [claimId]
+    );
+    const claim = claimResult.rows[0];
+
+    const rival = await client.query(
+      `SELECT id FROM claims
+       WHERE found_item_id = $1 AND id <> $2 AND status IN ('VERIFIED', 'RETURNED')
+       ORDER BY id LIMIT 1`,
+      [claim.found_item_id, claimId]
+    );
+
+    if (rival.rows.length > 0) {
+      const rivalClaimId = rival.rows[0].id;
+      await client.query(
+        `UPDATE claims SET status = 'DISPUTED', superseded_by = NULL WHERE id = $1`,
+        [claimId]
+      );
+      const dispute = await client.query(
+        `INSERT INTO claim_disputes (claim_id, initiated_by, reason)
+         VALUES ($1, $2, $3)
+         RETURNING id`,
+        [claimId, claim.claimant_id,
+          `Passed verification after claim #${rivalClaimId} was verified for the same item`]
+      );
+      return {
+        status: ClaimStatus.DISPUTED,
+        superseded: [],
+        dispute_id: dispute.rows[0].id,
+        rival_claim_id: rivalClaimId
+      };
+    }
+
+    await client.query(
+      `UPDATE claims SET status = 'VERIFIED', superseded_by = NULL WHERE id = $1`,
+      [claimId]
+    );
+    const foundItem = await client.query(
+      `UPDATE found_items SET status = 'MATCHED' WHERE id = $1 RETURNING image_urls`,
+      [claim.found_item_id]
+    );
+    await client.query(
+      `UPDATE lost_items SET status = 'CLAIMED' WHERE id = $1`,
+      [claim.lost_item_id]
+    );
+    const superseded = await closeCompetingClaims(client, claim.found_item_id, claimId);
+
+    return {
+      status: ClaimStatus.VERIFIED,
+      superseded,
+      found_item_image_urls: foundItem.rows[0]?.image_urls || []
+    };
+  });
+}
+
+/**
+ * Record and tell the claimants whose claims were closed for a winner.
+ * Emails are sent in the background.
+ */
+export async function notifySupersededClaims(
+  superseded: SupersededClaim[],
+  winningClaimId: number,
+  actorId?: number
+): Promise<void> {
+  if (superseded.length === 0) return;
+
+  for (const claim of superseded) {
+    await logAudit({
+      actorId,
+      action: AuditAction.CLAIM_SUPERSEDED,
+      resourceType: 'claim',
+      resourceId: claim.id,
+      changes: { superseded_by: winningClaimId }
+    });
+  }
+
+  try {
+    const recipients = await query(
+      `SELECT c.id, u.email, u.name, li.title
+       FROM claims c
+       JOIN users u ON c.claimant_id = u.id
+       JOIN lost_items li ON c.lost_item_id = li.id
+       WHERE c.id = ANY($1)`,
+      [superseded.map(claim => claim.id)]
+    );
+    for (const row of recipients.rows) {
+      sendClaimSupersededEmail(row.email, row.name, row.title, row.id)
+        .catch(err => console.error('Claim superseded email failed:', err.message));
+    }
+  } catch (emailErr) {
+    console.error('Failed to send claim superseded emails:', emailErr);
+  }
+}
+
+/**
+ * Record and tell everyone involved that a claim was escalated: its
+ * claimant, the claimant of the claim that won first, and the finder
+ */
+export async function notifyEscalatedClaim(
+  claimId: number,
+  settlement: VerifiedClaimSettlement
+): Promise<void> {
+  if (settlement.status !== ClaimStatus.DISPUTED || !settlement.dispute_id) return;
+
+  await logAudit({
+    action: 'DISPUTE_OPENED',
+    resourceType: 'claim_dispute',
+    resourceId: settlement.dispute_id,
+    changes: { claim_id: claimId, rival_claim_id: settlement.rival_claim_id, automatic: true }
+  });
+
+  try {
+    const parties = await query(
+      `SELECT c.id AS claim_id, li.title AS item_title,
+              claimant.email AS claimant_email, claimant.name AS claimant_name,
+              finder.email AS finder_email, finder.name AS finder_name
+       FROM claims c
+       JOIN lost_items li ON c.lost_item_id = li.id
+       JOIN users claimant ON c.claimant_id = claimant.id
+       JOIN found_items fi ON c.found_item_id = fi.id
+       JOIN users finder ON fi.finder_id = finder.id
+       WHERE c.id = ANY($1)`,
+      [[claimId, settlement.rival_claim_id]]
+    );
+    const escalated = parties.rows.find(row => row.claim_id === claimId);
+    const rival = parties.rows.find(row => row.claim_id === settlement.rival_claim_id);
+    if (!escalated) return;
+
+    const sends = [
+      sendDisputeOpenedEmail(escalated.claimant_email, escalated.claimant_name, escalated.item_title, claimId, true),
+      sendDisputeOpenedEmail(escalated.finder_email, escalated.finder_name, escalated.item_title, claimId, false),
+      ...(rival ? [sendDisputeOpenedEmail(rival.claimant_email, rival.claimant_name, rival.item_title, rival.claim_id, false)] : [])
+    ];
+    for (const send of sends) {
+      send.catch(err => console.error('Escalated claim email failed:', err.message));
+    }
+  } catch (emailErr) {
+    console.error('Failed to send escalated claim emails:', emailErr);
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Custody Service for Byaboneka+
+ *
+ * A found item handed to a cooperative passes through several hands before
+ * its owner collects it: the driver who found it, the depot office, the
+ * sector office. Staff record each hand-over, so the chain shows where the
+ * object is now and who had it before, and backs up disputes about an
+ * item that went missing or was swapped (see disputeService.ts).
+ *
+ * Each transfer is signed with an HMAC over its fields, the staff member
+ * who recorded it and the previous transfer's signature. A row edited or
+ * deleted in the database afterwards breaks every signature after it.
+ */
+
+import crypto from 'crypto';
+import { query, transaction } from '../config/database';
+import { CustodyTransfer } from '../types';
+
+export interface CustodyTransferInput {
+  to_holder: string;
+  location: string;
+  notes?: string;
+  transferred_at?: string;
+}
+
+export interface CustodyChain {
+  transfers: Array<CustodyTransfer & { recorded_by_name: string }>;
+  // False when a transfer no longer matches its signature
+  intact: boolean;
+}
+
+// Staff sometimes record a hand-over a little after the fact on another device
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// ============================================
+// SIGNATURES
+// ============================================
+
+function custodySecret(): string {
+  const secret = process.env.CUSTODY_SIGNING_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('CUSTODY_SIGNING_SECRET or JWT_SECRET must be set to sign custody transfers');
+  }
+  return secret;
+}
+
+type SignedFields = Pick<CustodyTransfer,
+  'found_item_id' | 'from_holder' | 'to_holder' | 'location' | 'notes' | 'transferred_at' | 'recorded_by'>;
+
+export function signCustodyTransfer(transfer: SignedFields, previousSignature: string | null): string {
+  const payload = JSON.stringify([
+    transfer.found_item_id,
+    transfer.from_holder,
+    transfer.to_holder,
+    transfer.location,
+    transfer.notes,
+    new Date(transfer.transferred_at).toISOString(),
+    transfer.recorded_by,
+    previousSignature
+  ]);
+  return crypto.createHmac('sha256', custodySecret()).update(payload).digest('hex');
+}
+
+/**
+ * Check a chain in recording order: every signature must match its row and
+ * the row before it, and each transfer must start where the last one ended.
+ */
+export function verifyCustodyChain(transfers: CustodyTransfer[]): boolean {
+  let previous: CustodyTransfer | null = null;
+  for (const transfer of transfers) {
+    if (previous && transfer.from_holder !== previous.to_holder) return false;
+
+    const expected = Buffer.from(signCustodyTransfer(transfer, previous?.signature ?? null));
+    const actual = Buffer.from(transfer.signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return false;
+
+    previous = transfer;
+  }
+  return true;
+}
+
+// ============================================
+// CHAIN
+// ============================================
+
+export async function getCustodyChain(foundItemId: number): Promise<CustodyChain> {
+  const result = await query(
+    `SELECT t.*, u.name AS recorded_by_name
+     FROM custody_transfers t
+     JOIN users u ON t.recorded_by = u.id
+     WHERE t.found_item_id = $1
+     ORDER BY t.id`,
+    [foundItemId]
+  );
+  return { transfers: result.rows, intact: verifyCustodyChain(result.rows) };
+}
+
+/**
+ * Record a hand-over of a cooperative-held item. The item row is locked so
+ * two staff recording at once cannot both chain onto the same transfer.
+ */
+export async function recordCustodyTransfer(
+  foundItemId: number,
+  staffId: number,
+  data: CustodyTransferInput
+): Promise<{ success: boolean; message: string; transfer?: CustodyTransfer }> {
+  const transferredAt = data.transferred_at ? new Date(data.transferred_at) : new Date();
+  if (transferredAt.getTime() > Date.now() + CLOCK_SKEW_MS) {
+    return { success: false, message: 'A transfer cannot be recorded in the future' };
+  }
+
+  return transaction(async (client) => {
+    const item = await client.query(
+      'SELECT id, current_holder FROM found_items WHERE id = $1 FOR UPDATE',
+      [foundItemId]
+    );
+    if (item.rows.length === 0) {
+      return { success: false, message: 'Found item not found' };
+    }
+
+    const last = await client.query(
+      `SELECT transferred_at, signature FROM custody_transfers
+       WHERE found_item_id = $1 ORDER BY id DESC LIMIT 1`,
+      [foundItemId]
+    );
+    const previous = last.rows[0];
+    if (previous && transferredAt < new Date(previous.transferred_at)) {
+      return { success: false, message: 'A transfer cannot be dated before the previous one' };
+    }
+
+    const fields: SignedFields = {
+      found_item_id: foundItemId,
+      from_holder: item.rows[0].current_holder ?? null,
+      to_holder: data.to_holder.trim(),
+      location: data.location.trim(),
+      notes: data.notes?.trim() || null,
+      transferred_at: transferredAt,
+      recorded_by: staffId
+    };
+    const signature = signCustodyTransfer(fields, previous?.signature ?? null);
+
+    const inserted = await client.query(
+      `INSERT INTO custody_transfers
+         (found_item_id, from_holder, to_holder, location, notes, transferred_at, recorded_by, signature)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING *`,
+      [fields.found_item_id, fields.from_holder, fields.to_holder, fields.location, fields.notes,
+        fields.transferred_at, fields.recorded_by, signature]
+    );
+    await client.query(
+      'UPDATE found_items SET current_holder = $1, current_location = $2 WHERE id = $3',
+      [fields.to_holder, fields.location, foundItemId]
+    );
+
+    return { success: true, message: 'Custody transfer recorded', transfer: inserted.rows[0] };
+  });
+}
@@ -10,7 +10,10 @@ import { query, transaction } from '../config/database';
 import { logAudit, extractRequestMeta } from './auditService';
 import { sendDisputeOpenedEmail } from './emailService';
 import { updateTrustScore } from './trustService';
+import { getCustodyChain, CustodyChain } from './custodyService';
+import { closeCompetingClaims, notifySupersededClaims, SupersededClaim } from './claimQueueService';
 import { Request } from 'express';
+import { UserRole } from '../types';
 
 export type DisputeStatus = 'OPEN' | 'UNDER_REVIEW' | 'RESOLVED_OWNER' | 'RESOLVED_FINDER' | 'DISMISSED';
 
@@ -26,6 +29,8 @@ export interface Dispute {
   resolved_at: Date | null;
   created_at: Date;
   updated_at: Date;
+  // Evidence: hand-overs of the item while a cooperative held it
+  custody_chain?: CustodyChain;
 }
 
 export interface DisputeCreationResult {
@@ -180,15 +185,40 @@ export async function getDispute(disputeId: number): Promise<Dispute | null> {
 }
 
 /**
- * Get dispute by claim ID
+ * Get dispute by claim ID, for the claim's participants, admins and staff
+ * of the cooperative holding the item. Only admins and that cooperative's
+ * staff also get the item's custody chain. Null when there is no dispute
+ * or the viewer is none of these.
  */
-export async function getDisputeByClaimId(claimId: number): Promise<Dispute | null> {
+export async function getDisputeByClaimId(
+  claimId: number,
+  viewer: { userId: number; role: UserRole }
+): Promise<Dispute | null> {
   const result = await query(
-    'SELECT * FROM claim_disputes WHERE claim_id = $1 ORDER BY created_at DESC LIMIT 1',
+    `SELECT d.*, fi.id AS found_item_id, fi.cooperative_id, fi.finder_id,
+            c.claimant_id, li.user_id AS lost_item_owner
+     FROM claim_disputes d
+     JOIN claims c ON d.claim_id = c.id
+     JOIN lost_items li ON c.lost_item_id = li.id
+     JOIN found_items fi ON c.found_item_id = fi.id
+     WHERE d.claim_id = $1
+     ORDER BY d.created_at DESC LIMIT 1`,
     [claimId]
   );
-  
-  return result.rows.length > 0 ? result.rows[0] : null;
+  if (result.rows.length === 0) return null;
+
+  const { found_item_id, cooperative_id, finder_id, claimant_id, lost_item_owner, ...dispute } = result.rows[0];
+
+  const isAdmin = viewer.role === UserRole.ADMIN;
+  const isHoldingStaff = !!cooperative_id && viewer.role === UserRole.COOP_STAFF &&
+    (await query('SELECT 1 FROM users WHERE id = $1 AND cooperative_id = $2', [viewer.userId, cooperative_id])).rows.length > 0;
+  const isParticipant = [claimant_id, lost_item_owner, finder_id].includes(viewer.userId);
+
+  if (!isAdmin && !isHoldingStaff && !isParticipant) return null;
+
+  return cooperative_id && (isAdmin || isHoldingStaff)
+    ? { ...dispute, custody_chain: await getCustodyChain(found_item_id) }
+    : dispute;
 }
 
 /**
@@ -270,6 +300,7 @@ export async function resolveDispute(
   let ownerAdjustment = 0;
   let finderAdjustment = 0;
   let newClaimStatus = 'DISPUTED';
+  let superseded: SupersededClaim[] = [];
   
   await transaction(async (client) => {
     // Update dispute
@@ -332,11 +363,16 @@ export async function resolveDispute(
         `UPDATE lost_items SET status = 'CLAIMED' WHERE id = $1`,
         [dispute.lost_item_id]
       );
+      // Any other claim on the item, including one verified first, loses it
+      superseded = await closeCompetingClaims(client, dispute.found_item_id, dispute.claim_id);
     } else if (resolution === 'RESOLVED_FINDER') {
-      // Reset items to available
+      // Reset items to available, unless another claim already won the item
       await client.query(
-        `UPDATE found_items SET status = 'UNCLAIMED' WHERE id = $1`,
-        [dispute.found_item_id]
+        `UPDATE found_items SET status = 'UNCLAIMED'
+         WHERE id = $1 AND NOT EXISTS (
+           SELECT 1 FROM claims WHERE found_item_id = $1 AND id <> $2 AND status IN ('VERIFIED', 'RETURNED')
+         )`,
+        [dispute.found_item_id, dispute.claim_id]
       );
       await client.query(
         `UPDATE lost_items SET status = 'ACTIVE' WHERE id = $1`,
@@ -365,6 +401,8 @@ if (finderAdjustment !== 0) {
 }
 
   
+  await notifySupersededClaims(superseded, dispute.claim_id, adminId);
+
   // Log resolution
   const { ipAddress, userAgent } = req ? extractRequestMeta(req) : {};
   await logAudit({
@@ -425,7 +463,7 @@ export async function getDisputesForReview(
             owner.name as owner_name, owner.email as owner_email,
             finder.name as finder_name, finder.email as finder_email,
             li.title as lost_item_title, li.category,
-            fi.title as found_item_title
+            fi.title as found_item_title, c.found_item_id, fi.cooperative_id
      FROM claim_disputes d
      JOIN claims c ON d.claim_id = c.id
      JOIN users initiator ON d.initiated_by = initiator.id
@@ -439,8 +477,15 @@ export async function getDisputesForReview(
     [...params, limit, offset]
   );
   
+  // Cooperative-held items come with their custody chain as evidence
+  const disputes = await Promise.all(result.rows.map(async dispute => (
+    dispute.cooperative_id
+      ? { ...dispute, custody_chain: await getCustodyChain(dispute.found_item_id) }
+      : dispute
+  )));
+
   return {
-    disputes: result.rows,
+    disputes,
     total: parseInt(countResult.rows[0].count)
   };
 }
@@ -7,6 +7,9 @@
 
 import { query } from '../config/database';
 import { ItemCategory } from '../types';
+import { canonicalizeKeyword, collapsePhrases, foldAccents } from '../utils';
+import { hammingDistance } from './imageProcessingService';
+import { StoredImage } from './storageService';
 
 interface DuplicateCandidate {
   id: number;
@@ -36,16 +39,23 @@ const KEYWORD_MATCH_SCORE = 1;
 const TITLE_SIMILARITY_THRESHOLD = 0.6;
 const DUPLICATE_THRESHOLD = 8; // Minimum score to flag as potential duplicate
 
+// Perceptual hashes this close are the same photo (resized, recompressed,
+// lightly cropped); unrelated photos differ in ~32 of 64 bits
+const REUSED_IMAGE_MAX_DISTANCE = 6;
+const REUSED_IMAGE_WINDOW_DAYS = 180;
+
 /**
- * Calculate Jaccard similarity between two strings (based on words)
+ * Calculate Jaccard similarity between two strings (based on words).
+ * Words are canonicalised first, so "telefone y'umukara" and
+ * "téléphone noir" count as the same two words.
  */
 function calculateTextSimilarity(text1: string, text2: string): number {
   if (!text1 || !text2) return 0;
   
-  const normalize = (s: string) => s.toLowerCase()
-    .replace(/[^\w\s]/g, '')
+  const normalize = (s: string) => collapsePhrases(foldAccents(s.toLowerCase()).replace(/[^\w\s]/g, ' '))
     .split(/\s+/)
-    .filter(w => w.length > 2);
+    .filter(w => w.length > 2)
+    .map(canonicalizeKeyword);
   
   const words1 = new Set(normalize(text1));
   const words2 = new Set(normalize(text2));
@@ -339,4 +349,81 @@ export async function recordPotentialDuplicate(
      ON CONFLICT DO NOTHING`,
     [originalId, originalType, duplicateId, duplicateType, score, reasons]
   );
-}
\ No newline at end of file
+}
+
+// ============================================
+// REUSED PHOTOS
+// ============================================
+
+export interface ReusedImage {
+  url: string;
+  image_id: number;
+  item_type: 'lost' | 'found';
+  item_id: number;
+  user_id: number;
+  same_user: boolean;
+  distance: number;
+}
+
+/**
+ * Closest earlier photo with (almost) the same perceptual hash on another
+ * report, lost or found. The same finder reusing a photo points to a
+ * duplicate report; another account's photo on a report is a fraud signal
+ * (a found item's public photo copied into a fake lost report).
+ */
+export async function findReusedImage(
+  phash: string,
+  userId: number,
+  itemType: 'lost' | 'found',
+  itemId: number
+): Promise<Omit<ReusedImage, 'url'> | null> {
+  const result = await query(
+    `SELECT id, item_type, item_id, user_id, phash
+     FROM item_images
+     WHERE NOT (item_type = $1 AND item_id = $2)
+     AND created_at > NOW() - INTERVAL '${REUSED_IMAGE_WINDOW_DAYS} days'
+     ORDER BY created_at DESC
+     LIMIT 5000`,
+    [itemType, itemId]
+  );
+
+  let best: Omit<ReusedImage, 'url'> | null = null;
+  for (const row of result.rows) {
+    const distance = hammingDistance(phash, row.phash);
+    if (distance <= REUSED_IMAGE_MAX_DISTANCE && (!best || distance < best.distance)) {
+      best = {
+        image_id: row.id,
+        item_type: row.item_type,
+        item_id: row.item_id,
+        user_id: row.user_id,
+        same_user: row.user_id === userId,
+        distance
+      };
+    }
+  }
+  return best;
+}
+
+/**
+ * Record freshly stored photos of an item with their hashes, linking each
+ * to the earlier photo it repeats. Returns the reused ones.
+ */
+export async function recordItemImages(
+  itemType: 'lost' | 'found',
+  itemId: number,
+  userId: number,
+  images: StoredImage[]
+): Promise<ReusedImage[]> {
+  const reused: ReusedImage[] = [];
+  for (const image of images) {
+    const match = await findReusedImage(image.phash, userId, itemType, itemId);
+    await query(
+      `INSERT INTO item_images (item_type, item_id, user_id, url, phash, width, height, duplicate_of)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (url) DO NOTHING`,
+      [itemType, itemId, userId, image.url, image.phash, image.width, image.height, match?.image_id || null]
+    );
+    if (match) reused.push({ url: image.url, ...match });
+  }
+  return reused;
+}
@@ -8,6 +8,7 @@
  * - Password reset
  * - Claim notifications (new claim, verified, rejected)
  * - Match notifications
+ * - Saved search (watch) alerts
  * - Expiry warnings
  * - Handover confirmations
  * - Welcome emails
@@ -406,6 +407,37 @@ export async function sendClaimResultEmail(
   });
 }
 
+/**
+ * Notify a competing claimant that another claim on the same item was verified
+ */
+export async function sendClaimSupersededEmail(
+  claimantEmail: string,
+  claimantName: string,
+  itemTitle: string,
+  claimId: number
+): Promise<boolean> {
+  const config = _config || getEmailConfig();
+  const claimUrl = `${config.frontendUrl}/claims/${claimId}`;
+
+  const html = emailLayout('Claim Closed', `
+    <h1 style="color:#DC2626;font-size:24px;margin:0 0 16px 0;">
+      Claim Closed
+    </h1>
+    <p style="color:#4b5563;font-size:15px;line-height:1.7;margin:0 0 16px 0;">
+      Hi ${claimantName.split(' ')[0]}, another person claimed <strong>"${itemTitle}"</strong> and
+      passed verification first, so your claim has been closed.
+    </p>
+    ${infoBox(`
+      <p style="color:#92400e;font-size:13px;margin:0;">
+        If this item is yours, open a dispute from the claim page and our team will review both claims.
+      </p>
+    `, '#FEF3C7', '#F59E0B')}
+    ${buttonHtml('View Claim', claimUrl)}
+  `);
+
+  return sendEmail({ to: claimantEmail, subject: `Claim closed: "${itemTitle}"`, html });
+}
+
 /**
  * Notify about a match between lost and found items
  */
@@ -454,6 +486,51 @@ export async function sendMatchNotificationEmail(
   return sendEmail({ to: email, subject: `Match found for "${lostItemTitle}" 🎯`, html });
 }
 
+/**
+ * Notify a user that a new found item matches one of their saved searches
+ */
+export async function sendSavedSearchAlertEmail(
+  email: string,
+  name: string,
+  searchName: string,
+  foundItemTitle: string,
+  foundItemArea: string,
+  foundItemId: number
+): Promise<boolean> {
+  const config = _config || getEmailConfig();
+  const itemUrl = `${config.frontendUrl}/found-items/${foundItemId}`;
+
+  const html = emailLayout('Saved Search Alert', `
+    <h1 style="color:#1a1a1a;font-size:24px;margin:0 0 16px 0;">
+      A new item matches your watch 🔔
+    </h1>
+    <p style="color:#4b5563;font-size:15px;line-height:1.7;margin:0 0 16px 0;">
+      Hi ${name.split(' ')[0]}, a found item was just reported that matches your 
+      saved search <strong>"${searchName}"</strong>.
+    </p>
+    <table role="presentation" cellspacing="0" cellpadding="0" style="width:100%;margin:16px 0;background-color:#f9fafb;border-radius:12px;padding:20px;">
+      <tr>
+        <td style="padding:8px 20px;">
+          <p style="color:#6b7280;font-size:13px;margin:0;">Found item</p>
+          <p style="color:#1a1a1a;font-size:16px;font-weight:600;margin:4px 0 0 0;">${foundItemTitle}</p>
+        </td>
+      </tr>
+      <tr>
+        <td style="padding:8px 20px;">
+          <p style="color:#6b7280;font-size:13px;margin:0;">Found in</p>
+          <p style="color:#1a1a1a;font-size:16px;font-weight:600;margin:4px 0 0 0;">${foundItemArea}</p>
+        </td>
+      </tr>
+    </table>
+    ${buttonHtml('View Item', itemUrl, '#2E7D32')}
+    <p style="color:#9ca3af;font-size:13px;line-height:1.6;margin:16px 0 0 0;">
+      You can pause or delete this watch in Settings → Watches.
+    </p>
+  `);
+
+  return sendEmail({ to: email, subject: `New match for your watch "${searchName}" 🔔`, html });
+}
+
 /**
  * Send item expiry warning (7 days before expiry)
  */
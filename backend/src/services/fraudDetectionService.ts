@@ -12,13 +12,14 @@ import { logAudit } from './auditService';
  * 
  * Implements Algorithm Spec section 3.4 (was 100% missing from codebase).
  * 
- * 6-Factor Risk Scoring:
+ * 7-Factor Risk Scoring:
  *   Factor 1: Account age (newer = riskier)
  *   Factor 2: Verification status (unverified = riskier)
  *   Factor 3: Recent failed claims (pattern of suspicious behavior)
  *   Factor 4: IP/device anomalies (new device/IP = riskier)
  *   Factor 5: Behavioral velocity (too many actions too fast)
  *   Factor 6: Trust score trajectory (declining = riskier)
+ *   Factor 7: Reused photos (another account's photo on own reports)
  */
 
 // ============================================
@@ -72,6 +73,10 @@ const THRESHOLDS = {
   // Failure pattern thresholds
   FAILED_CLAIMS_24H_ALERT: 3,
   FAILED_CLAIMS_CROSS_ITEM_ALERT: 5,
+
+  // Photos on own reports that are another account's photo (30 days)
+  REUSED_PHOTO_SCORE: 15,
+  REUSED_PHOTO_MAX_SCORE: 30,
 };
 
 // ============================================
@@ -80,7 +85,8 @@ const THRESHOLDS = {
 
 export async function calculateFraudRisk(
   actionType: ActionType,
-  context: ActionContext
+  context: ActionContext,
+  options: { log?: boolean } = {}
 ): Promise<FraudRiskAssessment> {
   let riskScore = 0;
   const factors: string[] = [];
@@ -248,6 +254,26 @@ export async function calculateFraudRisk(
       }
     }
 
+    // ────────────────────────────────────
+    // FACTOR 7: Reused Photos
+    // ────────────────────────────────────
+    const reusedResult = await query(
+      `SELECT COUNT(*) as reused
+       FROM item_images i
+       JOIN item_images original ON i.duplicate_of = original.id
+       WHERE i.user_id = $1
+       AND original.user_id != $1
+       AND i.created_at > NOW() - INTERVAL '30 days'`,
+      [context.user_id]
+    );
+
+    const reusedPhotos = parseInt(reusedResult.rows[0]?.reused) || 0;
+    if (reusedPhotos > 0) {
+      const reuseScore = Math.min(reusedPhotos * THRESHOLDS.REUSED_PHOTO_SCORE, THRESHOLDS.REUSED_PHOTO_MAX_SCORE);
+      riskScore += reuseScore;
+      factors.push(`${reusedPhotos} photo(s) copied from other accounts' reports: +${reuseScore}`);
+    }
+
   } catch (error) {
     console.error('Fraud risk calculation error:', error);
     // On error, don't block - return low risk
@@ -296,8 +322,9 @@ export async function calculateFraudRisk(
     recommendation
   };
 
-  // Log the assessment for audit trail
-  if (level !== 'LOW') {
+  // Log the assessment for audit trail; reviews of a claim queue only
+  // read the risk, they are not an action by the claimant
+  if (level !== 'LOW' && options.log !== false) {
     await logFraudAssessment(context.user_id, actionType, assessment, context.ip_address);
   }
 
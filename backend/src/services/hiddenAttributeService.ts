@@ -0,0 +1,172 @@
+/**
+ * Hidden Attribute Service for Byaboneka+
+ *
+ * verification_secrets are written by the owner of the lost report, and a
+ * claim can only be made from one's own report, so passing them proves the
+ * claimant remembers what they typed, not that the found object is theirs.
+ *
+ * Hidden attributes come from the other side: the finder (or cooperative
+ * staff) notes facts about the physical object when logging it, such as
+ * the lockscreen, case colour, last IMEI digits or number of cards. They
+ * are stored hashed and never shown. A claimant has to state them, and the
+ * owner's own questions stay as a second factor (see verifyClaim).
+ */
+
+import { PoolClient } from 'pg';
+import { query } from '../config/database';
+import { AnswerType, ItemCategory } from '../types';
+import { ANSWER_TYPE_DESCRIPTIONS } from '../utils/answerForms';
+import { hashTypedAnswer, isReadableAnswer, verifyTypedAnswer } from './answerMatchingService';
+
+export interface HiddenAttributeDefinition {
+  key: string;
+  // What the finder is asked to note
+  label: string;
+  // How the finder's note and the claimant's answer are compared
+  answer_type: AnswerType;
+  // What the claimant is asked
+  question: string;
+}
+
+export interface HiddenAttributeCheck {
+  asked: number;
+  correct: number;
+  passed: boolean;
+}
+
+// Only facts the finder can read off the object without help from the owner
+export const HIDDEN_ATTRIBUTES: Record<ItemCategory, HiddenAttributeDefinition[]> = {
+  [ItemCategory.PHONE]: [
+    { key: 'lockscreen', label: 'Lockscreen wallpaper', answer_type: AnswerType.TOKENS, question: 'What is on your lockscreen wallpaper?' },
+    { key: 'case_colour', label: 'Case colour', answer_type: AnswerType.COLOUR, question: 'What colour is the phone case?' },
+    { key: 'imei_last4', label: 'Last 4 digits of the IMEI (SIM tray or sticker)', answer_type: AnswerType.TEXT, question: 'What are the last 4 digits of the IMEI?' },
+  ],
+  [ItemCategory.ID]: [
+    { key: 'id_last3', label: 'Last 3 characters of the ID number', answer_type: AnswerType.TEXT, question: 'What are the last 3 characters of the ID number?' },
+    { key: 'issuing_district', label: 'District that issued it', answer_type: AnswerType.TEXT, question: 'Which district issued the document?' },
+    { key: 'issue_year', label: 'Year of issue', answer_type: AnswerType.DATE, question: 'What year was the document issued?' },
+  ],
+  [ItemCategory.WALLET]: [
+    { key: 'card_count', label: 'Number of cards inside', answer_type: AnswerType.NUMBER, question: 'How many cards are inside the wallet?' },
+    { key: 'interior_colour', label: 'Colour of the inside', answer_type: AnswerType.COLOUR, question: 'What colour is the inside of the wallet?' },
+  ],
+  [ItemCategory.BAG]: [
+    { key: 'brand', label: 'Brand', answer_type: AnswerType.TEXT, question: 'What brand is the bag?' },
+    { key: 'compartment_count', label: 'Number of compartments', answer_type: AnswerType.NUMBER, question: 'How many compartments does the bag have?' },
+    { key: 'distinctive_mark', label: 'A sticker, mark or damage', answer_type: AnswerType.TOKENS, question: 'Describe a sticker, mark or damage on the bag' },
+  ],
+  [ItemCategory.KEYS]: [
+    { key: 'key_count', label: 'Number of keys', answer_type: AnswerType.NUMBER, question: 'How many keys are on the ring?' },
+    { key: 'keychain', label: 'Keychain or attachment', answer_type: AnswerType.TOKENS, question: 'Describe the keychain or attachment' },
+  ],
+  [ItemCategory.OTHER]: [
+    { key: 'distinctive_mark', label: 'A distinctive mark or feature', answer_type: AnswerType.TOKENS, question: 'Describe a distinctive mark or feature of the item' },
+  ],
+};
+
+export function getAttributeDefinitions(category: string): HiddenAttributeDefinition[] {
+  return HIDDEN_ATTRIBUTES[category as ItemCategory] || HIDDEN_ATTRIBUTES[ItemCategory.OTHER];
+}
+
+// Blank values are dropped; unknown keys for the category, or a value that
+// does not fit its type (a count of "several"), are an error
+export function validateHiddenAttributes(
+  category: string,
+  values: Record<string, string>
+): { success: boolean; message: string; values?: Record<string, string> } {
+  const definitions = new Map(getAttributeDefinitions(category).map(definition => [definition.key, definition]));
+  const cleaned: Record<string, string> = {};
+  for (const [key, value] of Object.entries(values)) {
+    const definition = definitions.get(key);
+    if (!definition) {
+      return { success: false, message: `${key} is not a hidden attribute of ${category.toLowerCase()} items` };
+    }
+    if (!value.trim()) continue;
+    if (!isReadableAnswer(definition.answer_type, value)) {
+      return { success: false, message: `${definition.label} should be ${ANSWER_TYPE_DESCRIPTIONS[definition.answer_type]}` };
+    }
+    cleaned[key] = value.trim();
+  }
+  return { success: true, message: 'Hidden attributes valid', values: cleaned };
+}
+
+// ============================================
+// STORAGE
+// ============================================
+
+// Runs inside the caller's transaction, so an item is never saved without
+// the attributes its finder noted
+export async function saveHiddenAttributes(
+  client: PoolClient,
+  foundItemId: number,
+  category: string,
+  values: Record<string, string>,
+  recordedBy: number
+): Promise<void> {
+  const definitions = new Map(getAttributeDefinitions(category).map(definition => [definition.key, definition]));
+  for (const [key, value] of Object.entries(values)) {
+    const answerType = definitions.get(key)?.answer_type || AnswerType.TEXT;
+    const { hash, salt, keys } = await hashTypedAnswer(answerType, value);
+    await client.query(
+      `INSERT INTO found_item_attributes
+         (found_item_id, attribute_key, answer_hash, answer_salt, answer_type, answer_keys, recorded_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (found_item_id, attribute_key)
+       DO UPDATE SET answer_hash = $3, answer_salt = $4, answer_type = $5, answer_keys = $6,
+         recorded_by = $7, created_at = NOW()`,
+      [foundItemId, key, hash, salt, answerType, keys, recordedBy]
+    );
+  }
+}
+
+// Keys recorded for an item, in catalogue order
+export async function getRecordedAttributeKeys(foundItemId: number, category: string): Promise<string[]> {
+  const result = await query(
+    'SELECT attribute_key FROM found_item_attributes WHERE found_item_id = $1',
+    [foundItemId]
+  );
+  const recorded = new Set(result.rows.map(row => row.attribute_key));
+  return getAttributeDefinitions(category)
+    .map(definition => definition.key)
+    .filter(key => recorded.has(key));
+}
+
+// Questions put to a claimant: one per recorded attribute
+export async function getHiddenAttributeQuestions(
+  foundItemId: number,
+  category: string
+): Promise<Array<{ key: string; question: string; answer_type: AnswerType }>> {
+  const keys = new Set(await getRecordedAttributeKeys(foundItemId, category));
+  return getAttributeDefinitions(category)
+    .filter(definition => keys.has(definition.key))
+    .map(({ key, question, answer_type }) => ({ key, question, answer_type }));
+}
+
+// ============================================
+// VERIFICATION
+// ============================================
+
+/**
+ * Compare a claimant's answers with the finder's notes. A majority has to
+ * match, so one hard-to-recall detail does not sink a real owner. Items
+ * logged without hidden attributes ask nothing and report asked = 0.
+ */
+export async function checkHiddenAttributes(
+  foundItemId: number,
+  answers: Record<string, string>
+): Promise<HiddenAttributeCheck> {
+  const result = await query(
+    `SELECT attribute_key, answer_hash, answer_salt, answer_type, answer_keys
+     FROM found_item_attributes WHERE found_item_id = $1`,
+    [foundItemId]
+  );
+
+  let correct = 0;
+  for (const row of result.rows) {
+    const answer = answers[row.attribute_key];
+    if (answer && await verifyTypedAnswer(answer, row)) correct++;
+  }
+
+  const asked = result.rows.length;
+  return { asked, correct, passed: asked > 0 && correct * 2 > asked };
+}
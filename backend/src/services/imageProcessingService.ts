@@ -0,0 +1,160 @@
+/**
+ * Image Processing Service for Byaboneka+
+ *
+ * Every uploaded photo goes through sharp before it is stored:
+ * - orientation from EXIF is applied to the pixels, then all metadata is
+ *   dropped (phone photos carry the GPS position of the finder's home)
+ * - the original is capped at 2048px, and medium (1024px) and thumbnail
+ *   (320px) WebP copies are made for lists and mobile data
+ * - a 64-bit perceptual hash (DCT pHash) is computed, so the same photo
+ *   reused on two reports can be recognised after resizing or recompression
+ *   (see findReusedImages in duplicateDetectionService.ts)
+ */
+
+import sharp from 'sharp';
+
+export type ImageSize = 'medium' | 'thumb';
+
+export const IMAGE_SIZES: Record<ImageSize, number> = {
+  medium: 1024,
+  thumb: 320
+};
+
+const MAX_ORIGINAL_SIZE = 2048;
+
+export interface ProcessedImage {
+  original: Buffer;
+  contentType: string;
+  ext: string;
+  variants: Record<ImageSize, Buffer>;
+  phash: string;
+  width: number;
+  height: number;
+}
+
+// ============================================
+// PERCEPTUAL HASH
+// ============================================
+
+const HASH_SAMPLE = 32;
+const HASH_BITS_SIDE = 8;
+
+// cos((2x+1)uπ / 2N) for the low frequencies kept by the hash
+const DCT_COSINES: number[][] = Array.from({ length: HASH_BITS_SIDE }, (_, u) =>
+  Array.from({ length: HASH_SAMPLE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * HASH_SAMPLE)))
+);
+
+/**
+ * pHash of 32x32 greyscale pixels: the 8x8 lowest DCT frequencies, each
+ * bit set when the coefficient is above their median. Returned as 16 hex
+ * characters.
+ */
+export function perceptualHashFromPixels(pixels: Uint8Array | Buffer): string {
+  const coefficients: number[] = [];
+  for (let u = 0; u < HASH_BITS_SIDE; u++) {
+    for (let v = 0; v < HASH_BITS_SIDE; v++) {
+      let sum = 0;
+      for (let y = 0; y < HASH_SAMPLE; y++) {
+        for (let x = 0; x < HASH_SAMPLE; x++) {
+          sum += pixels[y * HASH_SAMPLE + x] * DCT_COSINES[u][y] * DCT_COSINES[v][x];
+        }
+      }
+      coefficients.push(sum);
+    }
+  }
+
+  // The DC term is the average brightness: left out of the median
+  const sorted = coefficients.slice(1).sort((a, b) => a - b);
+  const median = (sorted[31] + sorted[32]) / 2;
+
+  let hash = 0n;
+  for (const coefficient of coefficients) {
+    hash = (hash << 1n) | (coefficient > median ? 1n : 0n);
+  }
+  return hash.toString(16).padStart(16, '0');
+}
+
+export async function perceptualHash(image: Buffer): Promise<string> {
+  const pixels = await sharp(image)
+    .rotate()
+    .greyscale()
+    .resize(HASH_SAMPLE, HASH_SAMPLE, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+  return perceptualHashFromPixels(pixels);
+}
+
+// Number of differing bits between two hashes (0 = same picture)
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (diff > 0n) {
+    count += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return count;
+}
+
+// ============================================
+// UPLOAD PIPELINE
+// ============================================
+
+export async function processImage(input: Buffer): Promise<ProcessedImage> {
+  // rotate() with no angle applies the EXIF orientation; sharp writes no
+  // metadata unless asked to, so EXIF/GPS/XMP are gone from every output
+  const source = sharp(input, { failOn: 'error' }).rotate();
+  const { format } = await source.metadata();
+
+  const resized = source.clone().resize(MAX_ORIGINAL_SIZE, MAX_ORIGINAL_SIZE, { fit: 'inside', withoutEnlargement: true });
+  let original: Promise<{ data: Buffer; info: sharp.OutputInfo }>;
+  let contentType: string;
+  let ext: string;
+  if (format === 'png') {
+    original = resized.png().toBuffer({ resolveWithObject: true });
+    contentType = 'image/png';
+    ext = '.png';
+  } else if (format === 'webp') {
+    original = resized.webp({ quality: 85 }).toBuffer({ resolveWithObject: true });
+    contentType = 'image/webp';
+    ext = '.webp';
+  } else {
+    original = resized.jpeg({ quality: 85 }).toBuffer({ resolveWithObject: true });
+    contentType = 'image/jpeg';
+    ext = '.jpg';
+  }
+
+  const variant = (size: number) => source.clone()
+    .resize(size, size, { fit: 'inside', withoutEnlargement: true })
+    .webp({ quality: 80 })
+    .toBuffer();
+
+  const [main, medium, thumb] = await Promise.all([original, variant(IMAGE_SIZES.medium), variant(IMAGE_SIZES.thumb)]);
+
+  return {
+    original: main.data,
+    contentType,
+    ext,
+    variants: { medium, thumb },
+    phash: await perceptualHash(main.data),
+    width: main.info.width,
+    height: main.info.height
+  };
+}
+
+/**
+ * Run every uploaded file through the pipeline. Files that are not
+ * readable images (a renamed PDF with an image/jpeg type) fail the batch.
+ */
+export async function processUploads(
+  files: Express.Multer.File[]
+): Promise<{ success: boolean; message: string; images?: ProcessedImage[] }> {
+  const images: ProcessedImage[] = [];
+  for (const file of files) {
+    try {
+      images.push(await processImage(file.buffer));
+    } catch (error) {
+      return { success: false, message: `${file.originalname} could not be read as an image` };
+    }
+  }
+  return { success: true, message: 'Images processed', images };
+}
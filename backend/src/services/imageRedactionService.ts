@@ -0,0 +1,208 @@
+/**
+ * Image Redaction Service for Byaboneka+
+ *
+ * Photos of found IDs and wallets are private, which left owners with no
+ * way to recognise their document before claiming it. Each such photo now
+ * gets a public preview with its text pixelated: the colour, layout and
+ * wear of a card stay visible, names and numbers do not.
+ *
+ * Text is found with a local heuristic, no OCR engine or external service:
+ * printed text is a dense mix of horizontal and vertical edges at a small
+ * scale, which smooth backgrounds, fabric and leather mostly are not. The
+ * heuristic errs towards blurring too much; when it finds no text at all,
+ * or text over most of the photo, the whole preview is pixelated.
+ *
+ * The full photo is released to a claimant once their claim is verified
+ * (see getFoundItem and getClaim).
+ */
+
+import sharp from 'sharp';
+import { getStorage, newUploadKey, UPLOAD_URL_PREFIX } from './storageService';
+
+export interface TextRegion {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Text detection runs on a small greyscale copy
+const ANALYSIS_WIDTH = 320;
+const CELL = 8;
+const EDGE_THRESHOLD = 40;
+// Share of a cell's pixels on an edge, in each direction, for it to look like text
+const TEXT_EDGE_DENSITY = 0.1;
+// Regions over this share of the photo: treat the whole photo as text
+const FULL_REDACTION_COVERAGE = 0.5;
+
+const PREVIEW_SIZE = 640;
+// Pixel blocks of ~1/40 of the preview: letters become unreadable smudges
+const PIXELATE_DIVISOR = 40;
+
+// ============================================
+// TEXT DETECTION
+// ============================================
+
+/**
+ * Bounding boxes of text-like areas in greyscale pixels. Cells dense in
+ * both horizontal and vertical edges are joined along the line (letters
+ * into words, words into lines) and grouped; single cells are noise.
+ */
+export function detectTextRegionsFromPixels(pixels: Uint8Array | Buffer, width: number, height: number): TextRegion[] {
+  const cols = Math.floor(width / CELL);
+  const rows = Math.floor(height / CELL);
+  if (cols === 0 || rows === 0) return [];
+
+  const texty: boolean[] = new Array(cols * rows).fill(false);
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      let horizontal = 0;
+      let vertical = 0;
+      for (let y = row * CELL; y < (row + 1) * CELL; y++) {
+        for (let x = col * CELL; x < (col + 1) * CELL; x++) {
+          const p = pixels[y * width + x];
+          if (x + 1 < width && Math.abs(p - pixels[y * width + x + 1]) > EDGE_THRESHOLD) horizontal++;
+          if (y + 1 < height && Math.abs(p - pixels[(y + 1) * width + x]) > EDGE_THRESHOLD) vertical++;
+        }
+      }
+      const cellPixels = CELL * CELL;
+      texty[row * cols + col] = horizontal / cellPixels >= TEXT_EDGE_DENSITY && vertical / cellPixels >= TEXT_EDGE_DENSITY;
+    }
+  }
+
+  // Close one-cell gaps along a line (spaces between words)
+  const joined = texty.slice();
+  for (let row = 0; row < rows; row++) {
+    for (let col = 1; col < cols - 1; col++) {
+      if (texty[row * cols + col - 1] && texty[row * cols + col + 1]) joined[row * cols + col] = true;
+    }
+  }
+
+  // Group touching cells and keep the bounding box of each group
+  const seen: boolean[] = new Array(cols * rows).fill(false);
+  const regions: TextRegion[] = [];
+  for (let start = 0; start < joined.length; start++) {
+    if (!joined[start] || seen[start]) continue;
+
+    let minCol = cols, maxCol = 0, minRow = rows, maxRow = 0, size = 0;
+    const stack = [start];
+    seen[start] = true;
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      const row = Math.floor(cell / cols);
+      const col = cell % cols;
+      size++;
+      minCol = Math.min(minCol, col); maxCol = Math.max(maxCol, col);
+      minRow = Math.min(minRow, row); maxRow = Math.max(maxRow, row);
+
+      const neighbours = [
+        col > 0 ? cell - 1 : -1,
+        col < cols - 1 ? cell + 1 : -1,
+        row > 0 ? cell - cols : -1,
+        row < rows - 1 ? cell + cols : -1
+      ];
+      for (const next of neighbours) {
+        if (next >= 0 && joined[next] && !seen[next]) {
+          seen[next] = true;
+          stack.push(next);
+        }
+      }
+    }
+
+    if (size < 2) continue;
+    // Half a cell of margin so letter edges are covered too
+    const left = Math.max(0, minCol * CELL - CELL / 2);
+    const top = Math.max(0, minRow * CELL - CELL / 2);
+    regions.push({
+      left,
+      top,
+      width: Math.min(width, (maxCol + 1) * CELL + CELL / 2) - left,
+      height: Math.min(height, (maxRow + 1) * CELL + CELL / 2) - top
+    });
+  }
+
+  return regions;
+}
+
+// Share of the image covered by the regions (overlaps counted once)
+export function regionCoverage(regions: TextRegion[], width: number, height: number): number {
+  if (regions.length === 0) return 0;
+  const covered = new Uint8Array(width * height);
+  for (const region of regions) {
+    for (let y = region.top; y < region.top + region.height; y++) {
+      covered.fill(1, y * width + region.left, y * width + region.left + region.width);
+    }
+  }
+  return covered.reduce((sum, value) => sum + value, 0) / (width * height);
+}
+
+// ============================================
+// REDACTION
+// ============================================
+
+// Two passes: sharp keeps only the last resize of a pipeline
+async function pixelate(image: sharp.Sharp, width: number, height: number, block: number): Promise<Buffer> {
+  const small = await image
+    .resize(Math.max(1, Math.round(width / block)), Math.max(1, Math.round(height / block)), { fit: 'fill' })
+    .toBuffer();
+  return sharp(small).resize(width, height, { fit: 'fill', kernel: 'nearest' }).toBuffer();
+}
+
+/**
+ * Public preview of a document photo with its text pixelated. Expects a
+ * photo that already went through processImage (upright, no metadata).
+ */
+export async function redactImage(image: Buffer): Promise<{ body: Buffer; regions: number; full: boolean }> {
+  const preview = await sharp(image)
+    .resize(PREVIEW_SIZE, PREVIEW_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .removeAlpha()
+    .toBuffer({ resolveWithObject: true });
+  const { width, height } = preview.info;
+  const block = Math.max(4, Math.round(Math.max(width, height) / PIXELATE_DIVISOR));
+
+  const analysis = await sharp(preview.data)
+    .greyscale()
+    .resize(Math.min(ANALYSIS_WIDTH, width))
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const found = detectTextRegionsFromPixels(analysis.data, analysis.info.width, analysis.info.height);
+  const coverage = regionCoverage(found, analysis.info.width, analysis.info.height);
+
+  if (found.length === 0 || coverage > FULL_REDACTION_COVERAGE) {
+    const body = await sharp(await pixelate(sharp(preview.data), width, height, block)).webp({ quality: 80 }).toBuffer();
+    return { body, regions: found.length, full: true };
+  }
+
+  // Back to preview coordinates
+  const scale = width / analysis.info.width;
+  const overlays = await Promise.all(found.map(async region => {
+    const left = Math.floor(region.left * scale);
+    const top = Math.floor(region.top * scale);
+    const regionWidth = Math.min(width - left, Math.ceil(region.width * scale));
+    const regionHeight = Math.min(height - top, Math.ceil(region.height * scale));
+    const input = await pixelate(
+      sharp(preview.data).extract({ left, top, width: regionWidth, height: regionHeight }),
+      regionWidth, regionHeight, block
+    );
+    return { input, left, top };
+  }));
+
+  const body = await sharp(preview.data).composite(overlays).webp({ quality: 80 }).toBuffer();
+  return { body, regions: found.length, full: false };
+}
+
+/**
+ * Redacted public previews for private document photos, in the same order.
+ * Stored outside private/, so anyone can load them.
+ */
+export async function storeRedactedPreviews(images: Buffer[]): Promise<string[]> {
+  const storage = getStorage();
+  const urls: string[] = [];
+  for (const image of images) {
+    const { body } = await redactImage(image);
+    const key = newUploadKey('preview.webp', false);
+    await storage.put(key, body, 'image/webp');
+    urls.push(`${UPLOAD_URL_PREFIX}${key}`);
+  }
+  return urls;
+}
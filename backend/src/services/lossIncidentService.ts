@@ -0,0 +1,210 @@
+/**
+ * Loss Incident Service for Byaboneka+
+ *
+ * A loss incident groups the lost items from one loss - a bag and the
+ * phone, ID and keys that were in it. The incident carries the shared
+ * where and when; every item is still a full lost item report with its
+ * own category and verification questions, so each can be matched and
+ * claimed on its own. Matching reads the siblings of an incident as extra
+ * evidence (see loadIncidentContexts in matchingService.ts), and items that
+ * come back together can be closed together.
+ */
+
+import { PoolClient } from 'pg';
+import { query, transaction } from '../config/database';
+import { ItemCategory, LostItem, LostItemStatus, TransportContext } from '../types';
+import { extractKeywords } from '../utils';
+import { resolveTransportContext, TransportContextInput } from './transportService';
+import { saveVerificationQuestions, VerificationQuestionInput } from './verificationQuestionService';
+
+export const MIN_INCIDENT_ITEMS = 2;
+export const MAX_INCIDENT_ITEMS = 8;
+
+// Where and when: shared by every item of an incident
+export interface LossContextInput extends TransportContextInput {
+  location_area: string;
+  location_hint?: string;
+  lost_date: string;
+  lost_window_start?: string;
+  lost_window_end?: string;
+}
+
+export interface LostItemInput extends LossContextInput {
+  category: ItemCategory;
+  title: string;
+  description: string;
+  photo_url?: string;
+  verification_questions: VerificationQuestionInput[];
+}
+
+export interface LossIncidentInput extends LossContextInput {
+  title: string;
+  description?: string;
+  items: Array<Pick<LostItemInput, 'category' | 'title' | 'description' | 'photo_url' | 'verification_questions'>>;
+}
+
+// ============================================
+// LOST ITEM PERSISTENCE
+// ============================================
+
+/**
+ * Insert one lost item and its hashed verification answers. Shared by
+ * single reports and incidents; runs inside the caller's transaction.
+ */
+export async function insertLostItem(
+  client: PoolClient,
+  userId: number,
+  item: LostItemInput,
+  transport: Required<TransportContext>,
+  incidentId: number | null = null
+): Promise<LostItem> {
+  const keywords = extractKeywords(`${item.title} ${item.description}`);
+
+  const itemResult = await client.query(
+    `INSERT INTO lost_items (user_id, category, title, description, location_area, location_hint, lost_date,
+      lost_window_start, lost_window_end, keywords, photo_url,
+      transport_cooperative_id, route_id, route_name, vehicle_plate, stop_sequence, incident_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
+     RETURNING *`,
+    [userId, item.category, item.title, item.description, item.location_area, item.location_hint || null,
+     item.lost_date, item.lost_window_start || null, item.lost_window_end || null, keywords, item.photo_url || null,
+     transport.transport_cooperative_id, transport.route_id, transport.route_name, transport.vehicle_plate,
+     transport.stop_sequence, incidentId]
+  );
+  const lostItem = itemResult.rows[0];
+
+  await saveVerificationQuestions(client, lostItem.id, item.verification_questions, item.category, item.description);
+
+  return lostItem;
+}
+
+// ============================================
+// INCIDENTS
+// ============================================
+
+export async function createLossIncident(
+  userId: number,
+  input: LossIncidentInput
+): Promise<{ success: boolean; message: string; incident?: any; items?: LostItem[] }> {
+  if (input.items.length < MIN_INCIDENT_ITEMS || input.items.length > MAX_INCIDENT_ITEMS) {
+    return { success: false, message: `An incident groups ${MIN_INCIDENT_ITEMS} to ${MAX_INCIDENT_ITEMS} items` };
+  }
+
+  const transport = await resolveTransportContext(input);
+  if (!transport.success) {
+    return { success: false, message: transport.message };
+  }
+
+  const { incident, items } = await transaction(async (client) => {
+    const incidentResult = await client.query(
+      `INSERT INTO loss_incidents (user_id, title, description, location_area, lost_date)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [userId, input.title, input.description || null, input.location_area, input.lost_date]
+    );
+    const incident = incidentResult.rows[0];
+
+    const items: LostItem[] = [];
+    for (const item of input.items) {
+      items.push(await insertLostItem(client, userId, {
+        ...item,
+        location_area: input.location_area,
+        location_hint: input.location_hint,
+        lost_date: input.lost_date,
+        lost_window_start: input.lost_window_start,
+        lost_window_end: input.lost_window_end
+      }, transport.context!, incident.id));
+    }
+
+    return { incident, items };
+  });
+
+  return { success: true, message: 'Loss incident reported', incident, items };
+}
+
+// Incident with its items and each item's best current match score.
+// Null when it does not exist or belongs to someone else.
+export async function getLossIncident(userId: number, incidentId: number): Promise<any | null> {
+  const incidentResult = await query(
+    'SELECT * FROM loss_incidents WHERE id = $1 AND user_id = $2',
+    [incidentId, userId]
+  );
+  if (incidentResult.rows.length === 0) return null;
+
+  const itemsResult = await query(
+    `SELECT l.id, l.category, l.title, l.status, l.photo_url, l.created_at,
+            (SELECT MAX(m.score) FROM matches m WHERE m.lost_item_id = l.id)::float AS best_match_score
+     FROM lost_items l
+     WHERE l.incident_id = $1
+     ORDER BY l.id`,
+    [incidentId]
+  );
+
+  return { ...incidentResult.rows[0], items: itemsResult.rows };
+}
+
+export async function listLossIncidents(userId: number): Promise<any[]> {
+  const result = await query(
+    `SELECT i.*,
+            COUNT(l.id)::int AS item_count,
+            COUNT(l.id) FILTER (WHERE l.status = 'ACTIVE')::int AS open_items,
+            COALESCE(array_agg(l.category ORDER BY l.id) FILTER (WHERE l.id IS NOT NULL), '{}') AS categories
+     FROM loss_incidents i
+     LEFT JOIN lost_items l ON l.incident_id = i.id
+     WHERE i.user_id = $1
+     GROUP BY i.id
+     ORDER BY i.created_at DESC`,
+    [userId]
+  );
+  return result.rows;
+}
+
+/**
+ * The owner got several items back at once (the phone was still in the
+ * returned bag): close those still-active items of the incident as
+ * RETURNED and drop their match suggestions.
+ */
+export async function markItemsRecovered(
+  userId: number,
+  incidentId: number,
+  itemIds: number[]
+): Promise<{ success: boolean; message: string; recovered?: number[]; open_items?: number }> {
+  const incident = await query(
+    'SELECT id FROM loss_incidents WHERE id = $1 AND user_id = $2',
+    [incidentId, userId]
+  );
+  if (incident.rows.length === 0) {
+    return { success: false, message: 'Loss incident not found' };
+  }
+
+  const recovered = await transaction(async (client) => {
+    const updated = await client.query(
+      `UPDATE lost_items SET status = $3, updated_at = NOW()
+       WHERE incident_id = $1 AND id = ANY($2::int[]) AND status = $4
+       RETURNING id`,
+      [incidentId, itemIds, LostItemStatus.RETURNED, LostItemStatus.ACTIVE]
+    );
+    const ids = updated.rows.map(row => row.id);
+    if (ids.length > 0) {
+      await client.query('DELETE FROM matches WHERE lost_item_id = ANY($1::int[])', [ids]);
+      await client.query('UPDATE loss_incidents SET updated_at = NOW() WHERE id = $1', [incidentId]);
+    }
+    return ids;
+  });
+
+  if (recovered.length === 0) {
+    return { success: false, message: 'None of these items are still open in this incident' };
+  }
+
+  const openResult = await query(
+    `SELECT COUNT(*)::int AS open_items FROM lost_items WHERE incident_id = $1 AND status = $2`,
+    [incidentId, LostItemStatus.ACTIVE]
+  );
+
+  return {
+    success: true,
+    message: `${recovered.length} item${recovered.length === 1 ? '' : 's'} marked as returned`,
+    recovered,
+    open_items: openResult.rows[0].open_items
+  };
+}
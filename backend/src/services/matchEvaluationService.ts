@@ -0,0 +1,297 @@
+/**
+ * Match Evaluation Service for Byaboneka+
+ *
+ * Offline replay of historical outcomes against computeMatchScore. Every
+ * lost/found pair that ended in a RETURNED claim is a known true match;
+ * every pair an owner or finder marked "not mine" is a known false one.
+ * Replaying them under a weight configuration gives precision@k, recall
+ * and the mean rank of the true match, so a scoring change can be judged
+ * before it ships (see src/evaluation/run.ts).
+ */
+
+import { query } from '../config/database';
+import { ItemCategory, LostItem, FoundItem, MatchWeightProfile } from '../types';
+import { computeMatchScore } from './matchingService';
+import { DEFAULT_MATCH_PROFILES, listActiveProfiles, MatchProfileUpdate } from './matchWeightProfileService';
+
+// Found items reported this long after the loss are still replayed
+const REPLAY_HORIZON_DAYS = 30;
+
+export interface EvaluationCase {
+  lost_item: LostItem;
+  candidates: FoundItem[];
+  returned_found_ids: number[];
+  dismissed_found_ids: number[];
+}
+
+export interface EvaluationConfig {
+  label: string;
+  profiles: Record<ItemCategory, MatchWeightProfile>;
+}
+
+export interface EvaluationMetrics {
+  queries: number;
+  true_pairs: number;
+  dismissed_pairs: number;
+  // Judged suggestions in the top k that were the true match
+  precision_at_k: number | null;
+  // True matches ranked within the top k
+  recall_at_k: number | null;
+  // True matches scoring above the profile minimum (shown at any rank)
+  recall: number | null;
+  mean_rank: number | null;
+  dismissed_in_top_k: number;
+}
+
+export interface PairRank {
+  lost_item_id: number;
+  found_item_id: number;
+  rank: number;
+  score: number;
+}
+
+export interface EvaluationReport {
+  label: string;
+  k: number;
+  overall: EvaluationMetrics;
+  by_category: Array<EvaluationMetrics & { category: ItemCategory }>;
+  true_pair_ranks: PairRank[];
+}
+
+// ============================================
+// CONFIGURATIONS
+// ============================================
+
+export type ProfileOverrides = Partial<Record<ItemCategory | '*', MatchProfileUpdate>>;
+
+function applyOverrides(profile: MatchWeightProfile, update?: MatchProfileUpdate): MatchWeightProfile {
+  if (!update) return profile;
+  return {
+    ...profile,
+    weights: { ...profile.weights, ...update.weights },
+    minimum_score: update.minimum_score ?? profile.minimum_score,
+    max_matches: update.max_matches ?? profile.max_matches,
+    max_keyword_bonuses: update.max_keyword_bonuses ?? profile.max_keyword_bonuses,
+  };
+}
+
+/**
+ * Build a configuration from base profiles plus overrides.
+ * "*" applies to every category, then the category's own entry on top.
+ */
+export function buildEvaluationConfig(
+  label: string,
+  base: Record<ItemCategory, MatchWeightProfile>,
+  overrides: ProfileOverrides = {}
+): EvaluationConfig {
+  const profiles = {} as Record<ItemCategory, MatchWeightProfile>;
+  for (const category of Object.values(ItemCategory)) {
+    profiles[category] = applyOverrides(applyOverrides(base[category], overrides['*']), overrides[category]);
+  }
+  return { label, profiles };
+}
+
+export function defaultProfiles(): Record<ItemCategory, MatchWeightProfile> {
+  return { ...DEFAULT_MATCH_PROFILES };
+}
+
+export async function activeProfiles(): Promise<Record<ItemCategory, MatchWeightProfile>> {
+  const profiles = await listActiveProfiles();
+  return profiles.reduce((acc, profile) => {
+    acc[profile.category] = profile;
+    return acc;
+  }, {} as Record<ItemCategory, MatchWeightProfile>);
+}
+
+// ============================================
+// LOADING HISTORICAL OUTCOMES
+// ============================================
+
+/**
+ * Load every lost item with a known outcome, along with the found items
+ * it competed against: same category, reported from 7 days before the
+ * loss (the live matcher's window) up to REPLAY_HORIZON_DAYS after it.
+ * Judged found items are always included so every pair gets a rank.
+ */
+export async function loadEvaluationCases(): Promise<EvaluationCase[]> {
+  const feedbackTable = await query(`SELECT to_regclass('match_feedback') IS NOT NULL AS present`);
+  const dismissedSql = feedbackTable.rows[0].present
+    ? `UNION
+       SELECT lost_item_id, found_item_id, 'DISMISSED' AS outcome
+       FROM match_feedback WHERE verdict = 'NOT_MINE'`
+    : '';
+
+  const pairsResult = await query(
+    `SELECT lost_item_id, found_item_id, 'RETURNED' AS outcome
+     FROM claims WHERE status = 'RETURNED'
+     ${dismissedSql}`
+  );
+
+  const judged = new Map<number, { returned: Set<number>; dismissed: Set<number> }>();
+  for (const row of pairsResult.rows) {
+    const entry = judged.get(row.lost_item_id) || { returned: new Set<number>(), dismissed: new Set<number>() };
+    (row.outcome === 'RETURNED' ? entry.returned : entry.dismissed).add(row.found_item_id);
+    judged.set(row.lost_item_id, entry);
+  }
+
+  if (judged.size === 0) return [];
+
+  const lostResult = await query(
+    'SELECT * FROM lost_items WHERE id = ANY($1) ORDER BY id',
+    [Array.from(judged.keys())]
+  );
+
+  const cases: EvaluationCase[] = [];
+  for (const lostItem of lostResult.rows as LostItem[]) {
+    const entry = judged.get(lostItem.id)!;
+    // A pair both returned and dismissed counts as returned
+    const returned = Array.from(entry.returned);
+    const dismissed = Array.from(entry.dismissed).filter(id => !entry.returned.has(id));
+
+    const candidatesResult = await query(
+      `SELECT * FROM found_items
+       WHERE (category = $1
+              AND found_date >= ($2::date - INTERVAL '7 days')
+              AND found_date <= ($2::date + make_interval(days => $3)))
+       OR id = ANY($4)
+       ORDER BY found_date DESC, id`,
+      [lostItem.category, lostItem.lost_date, REPLAY_HORIZON_DAYS, [...returned, ...dismissed]]
+    );
+
+    cases.push({
+      lost_item: lostItem,
+      candidates: candidatesResult.rows,
+      returned_found_ids: returned,
+      dismissed_found_ids: dismissed,
+    });
+  }
+
+  return cases;
+}
+
+// ============================================
+// SCORING
+// ============================================
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? Math.round((numerator / denominator) * 1000) / 1000 : null;
+}
+
+interface Tally {
+  queries: number;
+  true_pairs: number;
+  dismissed_pairs: number;
+  true_in_top_k: number;
+  judged_in_top_k: number;
+  true_above_minimum: number;
+  rank_sum: number;
+  dismissed_in_top_k: number;
+}
+
+function emptyTally(): Tally {
+  return {
+    queries: 0, true_pairs: 0, dismissed_pairs: 0, true_in_top_k: 0,
+    judged_in_top_k: 0, true_above_minimum: 0, rank_sum: 0, dismissed_in_top_k: 0,
+  };
+}
+
+function toMetrics(t: Tally): EvaluationMetrics {
+  return {
+    queries: t.queries,
+    true_pairs: t.true_pairs,
+    dismissed_pairs: t.dismissed_pairs,
+    precision_at_k: ratio(t.true_in_top_k, t.judged_in_top_k),
+    recall_at_k: ratio(t.true_in_top_k, t.true_pairs),
+    recall: ratio(t.true_above_minimum, t.true_pairs),
+    mean_rank: t.true_pairs > 0 ? Math.round((t.rank_sum / t.true_pairs) * 100) / 100 : null,
+    dismissed_in_top_k: t.dismissed_in_top_k,
+  };
+}
+
+/**
+ * Replay every case under one configuration.
+ * Candidates are ranked the way the live matcher ranks them: score
+ * descending, newest found item first on ties. Ranks ignore the minimum
+ * score so a change that lifts a true match from 9th to 2nd still shows.
+ */
+export function evaluateConfig(cases: EvaluationCase[], config: EvaluationConfig, k: number): EvaluationReport {
+  const overall = emptyTally();
+  const byCategory = new Map<ItemCategory, Tally>();
+  const truePairRanks: PairRank[] = [];
+
+  for (const evaluationCase of cases) {
+    const lost = evaluationCase.lost_item;
+    const profile = config.profiles[lost.category];
+
+    const ranked = evaluationCase.candidates
+      .map(found => ({ found, score: computeMatchScore(lost, found, profile).score }))
+      .sort((a, b) => b.score - a.score);
+    const rankOf = (foundId: number) => ranked.findIndex(r => r.found.id === foundId);
+
+    const tally = byCategory.get(lost.category) || emptyTally();
+    byCategory.set(lost.category, tally);
+
+    for (const t of [overall, tally]) {
+      t.queries++;
+      t.dismissed_pairs += evaluationCase.dismissed_found_ids.length;
+    }
+
+    for (const foundId of evaluationCase.returned_found_ids) {
+      const index = rankOf(foundId);
+      if (index === -1) continue;
+      const { score } = ranked[index];
+      truePairRanks.push({ lost_item_id: lost.id, found_item_id: foundId, rank: index + 1, score });
+
+      for (const t of [overall, tally]) {
+        t.true_pairs++;
+        t.rank_sum += index + 1;
+        if (score >= profile.minimum_score) t.true_above_minimum++;
+        if (index < k) {
+          t.true_in_top_k++;
+          t.judged_in_top_k++;
+        }
+      }
+    }
+
+    for (const foundId of evaluationCase.dismissed_found_ids) {
+      const index = rankOf(foundId);
+      if (index === -1 || index >= k) continue;
+      for (const t of [overall, tally]) {
+        t.judged_in_top_k++;
+        t.dismissed_in_top_k++;
+      }
+    }
+  }
+
+  return {
+    label: config.label,
+    k,
+    overall: toMetrics(overall),
+    by_category: Array.from(byCategory.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([category, t]) => ({ category, ...toMetrics(t) })),
+    true_pair_ranks: truePairRanks,
+  };
+}
+
+// True pairs whose rank differs between two reports, biggest moves first
+export function compareRanks(baseline: EvaluationReport, candidate: EvaluationReport): Array<{
+  lost_item_id: number;
+  found_item_id: number;
+  baseline_rank: number;
+  candidate_rank: number;
+}> {
+  const candidateRanks = new Map(
+    candidate.true_pair_ranks.map(r => [`${r.lost_item_id}:${r.found_item_id}`, r.rank])
+  );
+
+  return baseline.true_pair_ranks
+    .map(r => ({
+      lost_item_id: r.lost_item_id,
+      found_item_id: r.found_item_id,
+      baseline_rank: r.rank,
+      candidate_rank: candidateRanks.get(`${r.lost_item_id}:${r.found_item_id}`) ?? r.rank,
+    }))
+    .filter(r => r.baseline_rank !== r.candidate_rank)
+    .sort((a, b) => Math.abs(b.candidate_rank - b.baseline_rank) - Math.abs(a.candidate_rank - a.baseline_rank));
+}
@@ -0,0 +1,184 @@
+/**
+ * Match Feedback Service for Byaboneka+
+ *
+ * Owners and finders can mark a suggested match "not mine" or "looks
+ * right". A "not mine" pair is never suggested again to whoever dismissed
+ * it; the other side still sees it (see matchingService).
+ * Each verdict is stored with the score, explanation and profile version
+ * at the time, so admins can report match precision per category,
+ * profile version and score band.
+ */
+
+import { query } from '../config/database';
+import { LostItem, FoundItem, MatchFeedback, MatchFeedbackVerdict } from '../types';
+import { computeMatchScore } from './matchingService';
+import { getActiveProfile } from './matchWeightProfileService';
+import { enqueueMatchJob } from './matchJobService';
+
+export interface MatchFeedbackInput {
+  lostItemId: number;
+  foundItemId: number;
+  userId: number;
+  role: 'owner' | 'finder';
+  verdict: MatchFeedbackVerdict;
+  reason?: string;
+}
+
+// Record (or change) a user's verdict on a lost/found pair.
+// Returns null when either item no longer exists.
+export async function recordMatchFeedback(input: MatchFeedbackInput): Promise<MatchFeedback | null> {
+  const [lostResult, foundResult] = await Promise.all([
+    query('SELECT * FROM lost_items WHERE id = $1', [input.lostItemId]),
+    query('SELECT * FROM found_items WHERE id = $1', [input.foundItemId])
+  ]);
+
+  if (lostResult.rows.length === 0 || foundResult.rows.length === 0) {
+    return null;
+  }
+
+  const lostItem = lostResult.rows[0] as LostItem;
+  const foundItem = foundResult.rows[0] as FoundItem;
+
+  // Snapshot what the matcher thought of this pair when the user judged it
+  const profile = await getActiveProfile(lostItem.category);
+  const { score, explanation } = computeMatchScore(lostItem, foundItem, profile);
+
+  const result = await query(
+    `INSERT INTO match_feedback (lost_item_id, found_item_id, user_id, role, verdict, reason,
+       category, score, explanation, profile_id, profile_version)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+     ON CONFLICT (lost_item_id, found_item_id, user_id)
+     DO UPDATE SET verdict = $5, reason = $6, score = $8, explanation = $9,
+                   profile_id = $10, profile_version = $11, updated_at = NOW()
+     RETURNING *`,
+    [
+      input.lostItemId, input.foundItemId, input.userId, input.role, input.verdict, input.reason || null,
+      lostItem.category, score, explanation, profile.id, profile.version
+    ]
+  );
+
+  // The cache holds the owner's matches, so only the owner's dismissal
+  // drops the pair from it; a finder's only hides it from the found item
+  if (input.verdict === MatchFeedbackVerdict.NOT_MINE && input.role === 'owner') {
+    // Drop it now and let the queue refill the owner's top matches
+    await query(
+      'DELETE FROM matches WHERE lost_item_id = $1 AND found_item_id = $2',
+      [input.lostItemId, input.foundItemId]
+    );
+    await enqueueMatchJob('lost', input.lostItemId);
+  }
+
+  const row = result.rows[0];
+  return { ...row, score: parseFloat(row.score) };
+}
+
+// Withdraw a verdict. Undoing "not mine" lets the pair be suggested again.
+export async function removeMatchFeedback(
+  lostItemId: number,
+  foundItemId: number,
+  userId: number
+): Promise<boolean> {
+  const result = await query(
+    `DELETE FROM match_feedback
+     WHERE lost_item_id = $1 AND found_item_id = $2 AND user_id = $3
+     RETURNING verdict, role`,
+    [lostItemId, foundItemId, userId]
+  );
+
+  if (result.rows.length === 0) {
+    return false;
+  }
+
+  const { verdict, role } = result.rows[0];
+  if (verdict === MatchFeedbackVerdict.NOT_MINE && role === 'owner') {
+    await enqueueMatchJob('lost', lostItemId);
+  }
+  return true;
+}
+
+// A user's verdicts on one item's matches, keyed by the other item's id
+export async function getFeedbackVerdicts(
+  userId: number,
+  side: 'lost' | 'found',
+  itemId: number
+): Promise<Map<number, MatchFeedbackVerdict>> {
+  const [ownColumn, otherColumn] = side === 'lost'
+    ? ['lost_item_id', 'found_item_id']
+    : ['found_item_id', 'lost_item_id'];
+
+  const result = await query(
+    `SELECT ${otherColumn} AS other_id, verdict FROM match_feedback
+     WHERE ${ownColumn} = $1 AND user_id = $2`,
+    [itemId, userId]
+  );
+
+  return new Map(result.rows.map(row => [row.other_id, row.verdict]));
+}
+
+// ============================================
+// PRECISION ANALYTICS
+// ============================================
+
+interface PrecisionRow {
+  positive: number;
+  negative: number;
+  precision: number | null;
+}
+
+function withPrecision<T extends { positive: number; negative: number }>(row: T): T & PrecisionRow {
+  const total = row.positive + row.negative;
+  return {
+    ...row,
+    precision: total > 0 ? Math.round((row.positive / total) * 1000) / 1000 : null
+  };
+}
+
+const VERDICT_COUNTS = `
+  COUNT(*) FILTER (WHERE verdict = 'LOOKS_RIGHT')::int AS positive,
+  COUNT(*) FILTER (WHERE verdict = 'NOT_MINE')::int AS negative`;
+
+// Score bands follow the 0-13 scale shown to users
+const SCORE_BAND = `
+  CASE WHEN score < 8 THEN '5-7.5'
+       WHEN score < 11 THEN '8-10.5'
+       WHEN score < 14 THEN '11-13.5'
+       ELSE '14+' END`;
+
+// Share of judged matches users agreed with (precision = positive / judged)
+export async function getMatchPrecisionStats(days: number = 90) {
+  const since = `created_at > NOW() - make_interval(days => $1)`;
+
+  const [overall, byCategory, byProfile, byBand, byRole] = await Promise.all([
+    query(`SELECT ${VERDICT_COUNTS} FROM match_feedback WHERE ${since}`, [days]),
+    query(
+      `SELECT category, ${VERDICT_COUNTS} FROM match_feedback WHERE ${since}
+       GROUP BY category ORDER BY category`,
+      [days]
+    ),
+    query(
+      `SELECT category, profile_version, ${VERDICT_COUNTS} FROM match_feedback WHERE ${since}
+       GROUP BY category, profile_version ORDER BY category, profile_version`,
+      [days]
+    ),
+    query(
+      `SELECT ${SCORE_BAND} AS score_band, MIN(score) AS band_floor, ${VERDICT_COUNTS}
+       FROM match_feedback WHERE ${since}
+       GROUP BY 1 ORDER BY band_floor`,
+      [days]
+    ),
+    query(
+      `SELECT role, ${VERDICT_COUNTS} FROM match_feedback WHERE ${since}
+       GROUP BY role ORDER BY role`,
+      [days]
+    )
+  ]);
+
+  return {
+    days,
+    overall: withPrecision(overall.rows[0]),
+    by_category: byCategory.rows.map(withPrecision),
+    by_profile_version: byProfile.rows.map(withPrecision),
+    by_score_band: byBand.rows.map(({ band_floor, ...row }) => withPrecision(row)),
+    by_role: byRole.rows.map(withPrecision)
+  };
+}
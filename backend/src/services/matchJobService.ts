@@ -0,0 +1,226 @@
+/**
+ * Match Job Queue Service for Byaboneka+
+ *
+ * Persistent (Postgres-backed) queue that keeps match recomputation off
+ * the request path. Creating or editing a report enqueues a job; a
+ * background worker runs the incremental matcher and records how long
+ * each run took, how many candidates it scored and how many rows changed.
+ */
+
+import { query } from '../config/database';
+import { MatchJob, MatchRunStats } from '../types';
+import { matchNewFoundItem, rematchLostItem } from './matchingService';
+
+const MAX_ATTEMPTS = 3;
+const POLL_INTERVAL_MS = parseInt(process.env.MATCH_WORKER_INTERVAL_MS || '5000', 10);
+const BATCH_SIZE = 20;
+// A RUNNING job older than this was abandoned by a crashed worker
+const STUCK_JOB_MINUTES = 10;
+
+let workerTimer: NodeJS.Timeout | null = null;
+let draining = false;
+
+// Queue a (re)match for an item. Repeated calls before the worker picks it
+// up collapse into the one pending job.
+export async function enqueueMatchJob(itemType: 'lost' | 'found', itemId: number): Promise<void> {
+  await query(
+    `INSERT INTO match_jobs (item_type, item_id)
+     VALUES ($1, $2)
+     ON CONFLICT (item_type, item_id) WHERE status = 'PENDING' DO NOTHING`,
+    [itemType, itemId]
+  );
+
+  // Nudge the worker so fresh reports are matched within moments
+  if (workerTimer) {
+    setImmediate(() => { processMatchJobs().catch(err => console.error('Match worker error:', err)); });
+  }
+}
+
+// Trigger matching when a new item is created
+export async function onItemCreated(itemType: 'lost' | 'found', itemId: number): Promise<void> {
+  try {
+    await enqueueMatchJob(itemType, itemId);
+  } catch (error) {
+    // Don't let matching errors crash the main flow
+    console.error(`Failed to enqueue match job for ${itemType} item ${itemId}:`, error);
+  }
+}
+
+// Title/description edits change keywords, so the item is re-matched
+export const onItemUpdated = onItemCreated;
+
+async function claimNextJob(): Promise<MatchJob | null> {
+  const result = await query(
+    `UPDATE match_jobs
+     SET status = 'RUNNING', started_at = NOW(), attempts = attempts + 1
+     WHERE id = (
+       SELECT id FROM match_jobs
+       WHERE status = 'PENDING' AND run_after <= NOW()
+       ORDER BY run_after, id
+       LIMIT 1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING *`
+  );
+  return result.rows[0] || null;
+}
+
+function runJob(job: MatchJob): Promise<MatchRunStats> {
+  return job.item_type === 'found'
+    ? matchNewFoundItem(job.item_id)
+    : rematchLostItem(job.item_id);
+}
+
+export async function processMatchJobs(limit: number = BATCH_SIZE): Promise<number> {
+  if (draining) return 0;
+  draining = true;
+
+  let processed = 0;
+  try {
+    while (processed < limit) {
+      const job = await claimNextJob();
+      if (!job) break;
+      processed++;
+
+      const startedAt = Date.now();
+      try {
+        const stats = await runJob(job);
+        const durationMs = Date.now() - startedAt;
+
+        await query(
+          `UPDATE match_jobs
+           SET status = 'DONE', finished_at = NOW(), duration_ms = $2,
+               candidates_scored = $3, rows_upserted = $4, rows_removed = $5, last_error = NULL
+           WHERE id = $1`,
+          [job.id, durationMs, stats.candidates_scored, stats.rows_upserted, stats.rows_removed]
+        );
+      } catch (error) {
+        const durationMs = Date.now() - startedAt;
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Match job ${job.id} (${job.item_type} item ${job.item_id}) failed:`, error);
+
+        if (job.attempts >= MAX_ATTEMPTS) {
+          await query(
+            `UPDATE match_jobs SET status = 'FAILED', finished_at = NOW(), duration_ms = $2, last_error = $3
+             WHERE id = $1`,
+            [job.id, durationMs, message]
+          );
+        } else {
+          // Retry with a linear back-off (1 min, 2 min, ...) unless a newer
+          // pending job for the same item already supersedes this one
+          const retried = await query(
+            `UPDATE match_jobs
+             SET status = 'PENDING', duration_ms = $2, last_error = $3,
+                 run_after = NOW() + make_interval(mins => $4)
+             WHERE id = $1
+             AND NOT EXISTS (
+               SELECT 1 FROM match_jobs p
+               WHERE p.item_type = $5 AND p.item_id = $6 AND p.status = 'PENDING'
+             )`,
+            [job.id, durationMs, message, job.attempts, job.item_type, job.item_id]
+          );
+          if (!retried.rowCount) {
+            await query(
+              `UPDATE match_jobs SET status = 'FAILED', finished_at = NOW(), duration_ms = $2, last_error = $3
+               WHERE id = $1`,
+              [job.id, durationMs, message]
+            );
+          }
+        }
+      }
+    }
+  } finally {
+    draining = false;
+  }
+
+  return processed;
+}
+
+// Start polling the queue (called once at server startup)
+export async function startMatchWorker(): Promise<void> {
+  if (workerTimer) return;
+
+  // One abandoned job per item goes back on the queue, unless the item
+  // already has a pending job; the nudge and the poll can both have been
+  // running one for the same item. The rest are dropped.
+  const requeued = await query(
+    `UPDATE match_jobs SET status = 'PENDING', run_after = NOW()
+     WHERE id IN (
+       SELECT DISTINCT ON (item_type, item_id) id FROM match_jobs r
+       WHERE status = 'RUNNING' AND started_at < NOW() - make_interval(mins => $1)
+       AND NOT EXISTS (
+         SELECT 1 FROM match_jobs p
+         WHERE p.item_type = r.item_type AND p.item_id = r.item_id AND p.status = 'PENDING'
+       )
+       ORDER BY item_type, item_id, id DESC
+     )
+     RETURNING id`,
+    [STUCK_JOB_MINUTES]
+  );
+  await query(
+    `UPDATE match_jobs SET status = 'FAILED', finished_at = NOW(), last_error = 'Abandoned (superseded)'
+     WHERE status = 'RUNNING' AND started_at < NOW() - make_interval(mins => $1)`,
+    [STUCK_JOB_MINUTES]
+  );
+  if (requeued.rowCount) {
+    console.log(`🔁 Re-queued ${requeued.rowCount} abandoned match jobs`);
+  }
+
+  workerTimer = setInterval(() => {
+    processMatchJobs().catch(err => console.error('Match worker error:', err));
+  }, POLL_INTERVAL_MS);
+  workerTimer.unref();
+}
+
+export function stopMatchWorker(): void {
+  if (workerTimer) {
+    clearInterval(workerTimer);
+    workerTimer = null;
+  }
+}
+
+// Queue depth and run durations for the admin dashboard
+export async function getMatchJobStats(): Promise<{
+  queue: Record<string, number>;
+  last_24h: {
+    runs: number;
+    avg_duration_ms: number | null;
+    p95_duration_ms: number | null;
+    max_duration_ms: number | null;
+    avg_candidates_scored: number | null;
+    rows_upserted: number;
+    rows_removed: number;
+  };
+  recent_failures: Pick<MatchJob, 'id' | 'item_type' | 'item_id' | 'attempts' | 'last_error' | 'finished_at'>[];
+}> {
+  const [queueResult, runsResult, failuresResult] = await Promise.all([
+    query(`SELECT status, COUNT(*)::int AS count FROM match_jobs GROUP BY status`),
+    query(
+      `SELECT COUNT(*)::int AS runs,
+              ROUND(AVG(duration_ms))::int AS avg_duration_ms,
+              PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY duration_ms)::int AS p95_duration_ms,
+              MAX(duration_ms) AS max_duration_ms,
+              ROUND(AVG(candidates_scored))::int AS avg_candidates_scored,
+              COALESCE(SUM(rows_upserted), 0)::int AS rows_upserted,
+              COALESCE(SUM(rows_removed), 0)::int AS rows_removed
+       FROM match_jobs
+       WHERE status = 'DONE' AND finished_at > NOW() - INTERVAL '24 hours'`
+    ),
+    query(
+      `SELECT id, item_type, item_id, attempts, last_error, finished_at
+       FROM match_jobs WHERE status = 'FAILED'
+       ORDER BY finished_at DESC LIMIT 10`
+    )
+  ]);
+
+  const queue: Record<string, number> = { PENDING: 0, RUNNING: 0, DONE: 0, FAILED: 0 };
+  for (const row of queueResult.rows) {
+    queue[row.status] = row.count;
+  }
+
+  return {
+    queue,
+    last_24h: runsResult.rows[0],
+    recent_failures: failuresResult.rows
+  };
+}
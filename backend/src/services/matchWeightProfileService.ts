@@ -0,0 +1,199 @@
+/**
+ * Match Weight Profile Service for Byaboneka+
+ *
+ * Per-category weight profiles for computeMatchScore. An ID card and a
+ * bag need different signals, so each ItemCategory carries its own
+ * weights, thresholds and caps. Profiles are versioned: an admin edit
+ * inserts a new version and deactivates the previous one, and every
+ * cached match records the version that produced it.
+ */
+
+import { query, transaction } from '../config/database';
+import { ItemCategory, MatchWeights, MatchWeightProfile } from '../types';
+
+// Baseline weights (the original single WEIGHTS object)
+export const DEFAULT_WEIGHTS: MatchWeights = {
+  CATEGORY_MATCH: 5,      // Required - must match
+  SAME_LOCATION: 5,       // Same sector/area
+  ADJACENT_LOCATION: 3,   // Adjacent sector
+  NEARBY_LOCATION: 1,     // Same district
+  WITHIN_24H: 3,          // Found within 24 hours
+  WITHIN_72H: 2,          // Found within 72 hours
+  WITHIN_7D: 1,           // Found within 7 days
+  WINDOW_OVERLAP: 5,      // Lost and found time windows overlap
+  WINDOW_WITHIN_2H: 4,    // Found within 2 hours after the loss window
+  VEHICLE_MATCH: 6,       // Same vehicle plate
+  ROUTE_MATCH: 3,         // Same transport route
+  STOP_OVERLAP: 2,        // Same route and the stops travelled overlap
+  INCIDENT_CONTENTS: 2,   // Found report mentions another item lost in the same incident
+  INCIDENT_CO_FOUND: 4,   // Same finder turned in a match for another item from the incident
+  KEYWORD_MATCH: 1,       // Per matching keyword
+  COLOR_MATCH: 1,         // Per matching colour keyword
+  BRAND_MATCH: 1,         // Per matching brand keyword
+  SUBCATEGORY_MATCH: 2,   // Additional category specificity
+};
+
+const DEFAULT_MINIMUM_SCORE = 5;  // Minimum score to show as match
+const DEFAULT_MAX_MATCHES = 5;    // Maximum matches to return
+const DEFAULT_MAX_KEYWORD_BONUSES = 5;
+
+// Category-specific adjustments on top of DEFAULT_WEIGHTS
+const CATEGORY_WEIGHT_OVERRIDES: Partial<Record<ItemCategory, Partial<MatchWeights>>> = {
+  // IDs: names and document numbers carry the signal
+  [ItemCategory.ID]: { KEYWORD_MATCH: 2 },
+  // Bags: colour and brand are what people remember
+  [ItemCategory.BAG]: { COLOR_MATCH: 3, BRAND_MATCH: 3 },
+};
+
+function buildDefaultProfile(category: ItemCategory): MatchWeightProfile {
+  return {
+    id: null,
+    category,
+    version: 1,
+    weights: { ...DEFAULT_WEIGHTS, ...CATEGORY_WEIGHT_OVERRIDES[category] },
+    minimum_score: DEFAULT_MINIMUM_SCORE,
+    max_matches: DEFAULT_MAX_MATCHES,
+    max_keyword_bonuses: DEFAULT_MAX_KEYWORD_BONUSES,
+    is_active: true,
+  };
+}
+
+export const DEFAULT_MATCH_PROFILES: Record<ItemCategory, MatchWeightProfile> =
+  Object.values(ItemCategory).reduce((profiles, category) => {
+    profiles[category] = buildDefaultProfile(category);
+    return profiles;
+  }, {} as Record<ItemCategory, MatchWeightProfile>);
+
+// ============================================
+// PROFILE CACHE
+// ============================================
+
+const CACHE_TTL_MS = 60 * 1000;
+const profileCache = new Map<ItemCategory, { profile: MatchWeightProfile; loadedAt: number }>();
+
+export function invalidateProfileCache(): void {
+  profileCache.clear();
+}
+
+function rowToProfile(row: any): MatchWeightProfile {
+  return {
+    id: row.id,
+    category: row.category,
+    version: row.version,
+    weights: { ...DEFAULT_WEIGHTS, ...row.weights },
+    minimum_score: row.minimum_score,
+    max_matches: row.max_matches,
+    max_keyword_bonuses: row.max_keyword_bonuses,
+    is_active: row.is_active,
+    notes: row.notes ?? undefined,
+    created_by: row.created_by ?? undefined,
+    created_at: row.created_at,
+  };
+}
+
+/**
+ * Get the active profile for a category.
+ * Falls back to the built-in default if the table is empty or unreachable,
+ * so matching never breaks because of profile storage.
+ */
+export async function getActiveProfile(category: ItemCategory): Promise<MatchWeightProfile> {
+  const cached = profileCache.get(category);
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+    return cached.profile;
+  }
+
+  let profile = DEFAULT_MATCH_PROFILES[category] || buildDefaultProfile(category);
+  try {
+    const result = await query(
+      'SELECT * FROM match_weight_profiles WHERE category = $1 AND is_active = TRUE',
+      [category]
+    );
+    if (result.rows.length > 0) {
+      profile = rowToProfile(result.rows[0]);
+    }
+  } catch (error) {
+    console.error(`Failed to load match profile for ${category}, using defaults:`, error);
+  }
+
+  profileCache.set(category, { profile, loadedAt: Date.now() });
+  return profile;
+}
+
+// List the active profile for every category
+export async function listActiveProfiles(): Promise<MatchWeightProfile[]> {
+  return Promise.all(Object.values(ItemCategory).map(category => getActiveProfile(category)));
+}
+
+// Full version history for a category, newest first
+export async function getProfileHistory(category: ItemCategory): Promise<MatchWeightProfile[]> {
+  const result = await query(
+    `SELECT * FROM match_weight_profiles
+     WHERE category = $1
+     ORDER BY version DESC`,
+    [category]
+  );
+  return result.rows.map(rowToProfile);
+}
+
+export interface MatchProfileUpdate {
+  weights?: Partial<MatchWeights>;
+  minimum_score?: number;
+  max_matches?: number;
+  max_keyword_bonuses?: number;
+  notes?: string;
+}
+
+/**
+ * Create a new active version of a category's profile.
+ * Unspecified fields are carried over from the current active version.
+ */
+export async function updateProfile(
+  category: ItemCategory,
+  changes: MatchProfileUpdate,
+  adminId: number
+): Promise<MatchWeightProfile> {
+  const created = await transaction(async (client) => {
+    const currentResult = await client.query(
+      `SELECT * FROM match_weight_profiles
+       WHERE category = $1 AND is_active = TRUE
+       FOR UPDATE`,
+      [category]
+    );
+    const current = currentResult.rows.length > 0
+      ? rowToProfile(currentResult.rows[0])
+      : DEFAULT_MATCH_PROFILES[category];
+
+    const versionResult = await client.query(
+      'SELECT COALESCE(MAX(version), 0) + 1 AS next_version FROM match_weight_profiles WHERE category = $1',
+      [category]
+    );
+    const nextVersion = versionResult.rows[0].next_version;
+
+    await client.query(
+      'UPDATE match_weight_profiles SET is_active = FALSE WHERE category = $1 AND is_active = TRUE',
+      [category]
+    );
+
+    const insertResult = await client.query(
+      `INSERT INTO match_weight_profiles
+        (category, version, weights, minimum_score, max_matches, max_keyword_bonuses, is_active, notes, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, TRUE, $7, $8)
+       RETURNING *`,
+      [
+        category,
+        nextVersion,
+        JSON.stringify({ ...current.weights, ...changes.weights }),
+        changes.minimum_score ?? current.minimum_score,
+        changes.max_matches ?? current.max_matches,
+        changes.max_keyword_bonuses ?? current.max_keyword_bonuses,
+        changes.notes || null,
+        adminId
+      ]
+    );
+
+    return rowToProfile(insertResult.rows[0]);
+  });
+
+  profileCache.delete(category);
+  return created;
+}
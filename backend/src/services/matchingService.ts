@@ -3,44 +3,163 @@ import {
   LostItem,
   FoundItem,
   MatchResult,
-  ItemCategory
+  MatchWeights,
+  MatchWeightProfile,
+  MatchRunStats
 } from '../types';
 import {
   extractKeywords,
   computeLocationDistance,
-  getHoursDifference
+  getHoursDifference,
+  keywordSimilarity,
+  closestKnownKeyword,
+  normalizePlateNumber,
+  routeKey,
+  sharedStops,
+  canonicalizeKeyword,
+  KEYWORD_SIMILARITY_THRESHOLD,
+  COLOR_PATTERNS,
+  BRAND_PATTERNS
 } from '../utils';
+import { getActiveProfile, DEFAULT_MATCH_PROFILES } from './matchWeightProfileService';
 
 // ============================================
 // MATCHING ENGINE SERVICE
 // Deterministic, Explainable Matching Algorithm
 // ============================================
 
-// Matching weights
-const WEIGHTS = {
-  CATEGORY_MATCH: 5,      // Required - must match
-  SAME_LOCATION: 5,       // Same sector/area
-  ADJACENT_LOCATION: 3,   // Adjacent sector
-  NEARBY_LOCATION: 1,     // Same district
-  WITHIN_24H: 3,          // Found within 24 hours
-  WITHIN_72H: 2,          // Found within 72 hours
-  WITHIN_7D: 1,           // Found within 7 days
-  KEYWORD_MATCH: 1,       // Per matching keyword
-  SUBCATEGORY_MATCH: 2,   // Additional category specificity
-};
-
-const MINIMUM_SCORE = 5;  // Minimum score to show as match
-const MAX_MATCHES = 5;    // Maximum matches to return
+// Weights, thresholds and caps come from the category's weight profile
+// (see matchWeightProfileService.ts)
 
 export interface MatchScore {
   score: number;
   explanation: string[];
 }
 
+/**
+ * What the other items lost in the same incident say about a candidate:
+ * the things they are (a found bag "with a Samsung phone inside" mentions
+ * the lost phone), and the found items they currently match (a phone
+ * turned in by the same finder as the matching bag was probably in it).
+ */
+export interface IncidentContext {
+  siblingTerms: string[];
+  siblingMatches: {
+    found_item_id: number;
+    finder_id: number;
+    cooperative_id: number | null;
+    found_date: Date;
+  }[];
+}
+
+// A sibling's match only vouches for items turned in around the same time
+const INCIDENT_CO_FOUND_HOURS = 48;
+
+// Colour and brand keywords can be weighted separately from generic ones
+function keywordWeight(keyword: string, weights: MatchWeights): number {
+  if (COLOR_PATTERNS.includes(keyword)) return weights.COLOR_MATCH;
+  if (BRAND_PATTERNS.includes(keyword)) return weights.BRAND_MATCH;
+  return weights.KEYWORD_MATCH;
+}
+
+// A report keyword alongside its canonical English form ("noir" -> "black")
+interface KeywordTerm {
+  raw: string;
+  canonical: string;
+}
+
+function toKeywordTerms(keywords: string[]): KeywordTerm[] {
+  return keywords.map(raw => ({ raw, canonical: canonicalizeKeyword(raw) }));
+}
+
+interface KeywordPair {
+  lost: KeywordTerm;
+  found: KeywordTerm;
+}
+
+interface SimilarKeywordPair extends KeywordPair {
+  similarity: number;
+}
+
+// Pair keywords spelt differently but meaning the same thing across
+// Kinyarwanda / English / French ("umukara" / "noir" / "black")
+function findTranslatedKeywords(lostTerms: KeywordTerm[], foundTerms: KeywordTerm[]): KeywordPair[] {
+  const pairs: KeywordPair[] = [];
+  const used = new Set<KeywordTerm>();
+
+  for (const lostTerm of lostTerms) {
+    const match = foundTerms.find(f => !used.has(f) && f.canonical === lostTerm.canonical);
+    if (match) {
+      used.add(match);
+      pairs.push({ lost: lostTerm, found: match });
+    }
+  }
+
+  return pairs;
+}
+
+// Pair each unmatched lost keyword with its most similar unmatched found keyword
+function findSimilarKeywords(lostTerms: KeywordTerm[], foundTerms: KeywordTerm[]): SimilarKeywordPair[] {
+  const pairs: SimilarKeywordPair[] = [];
+  const used = new Set<KeywordTerm>();
+
+  for (const lostTerm of lostTerms) {
+    let best: SimilarKeywordPair | null = null;
+    for (const foundTerm of foundTerms) {
+      if (used.has(foundTerm)) continue;
+      const similarity = keywordSimilarity(lostTerm.canonical, foundTerm.canonical);
+      if (similarity >= KEYWORD_SIMILARITY_THRESHOLD && (!best || similarity > best.similarity)) {
+        best = { lost: lostTerm, found: foundTerm, similarity };
+      }
+    }
+    if (best) {
+      used.add(best.found);
+      pairs.push(best);
+    }
+  }
+
+  return pairs.sort((a, b) => b.similarity - a.similarity);
+}
+
+// Fuzzy matches earn half-point steps of the full weight, never less than 0.5
+function partialKeywordCredit(weight: number, similarity: number): number {
+  return Math.max(0.5, Math.floor(weight * similarity * 2) / 2);
+}
+
+const HOUR_MS = 1000 * 60 * 60;
+
+interface TimeWindow {
+  start: Date;
+  end: Date;
+}
+
+// A report's optional time-of-day window; date-only reports have none
+function toTimeWindow(start?: Date | null, end?: Date | null): TimeWindow | null {
+  if (!start || !end) return null;
+  return { start: new Date(start), end: new Date(end) };
+}
+
+// A pair marked "not mine" is never suggested again to the side that
+// dismissed it: an owner's dismissal hides it from the lost item's matches,
+// a finder's from the found item's. One side cannot hide a pair from the other.
+function notDismissed(lostIdSql: string, foundIdSql: string, side: 'owner' | 'finder'): string {
+  return `NOT EXISTS (
+    SELECT 1 FROM match_feedback mf
+    WHERE mf.lost_item_id = ${lostIdSql} AND mf.found_item_id = ${foundIdSql}
+    AND mf.verdict = 'NOT_MINE' AND mf.role = '${side}'
+  )`;
+}
+
 // Compute match score between a lost item and found item
-export function computeMatchScore(lost: LostItem, found: FoundItem): MatchScore {
+export function computeMatchScore(
+  lost: LostItem,
+  found: FoundItem,
+  profile: MatchWeightProfile = DEFAULT_MATCH_PROFILES[lost.category],
+  incident?: IncidentContext
+): MatchScore {
   let score = 0;
   const explanation: string[] = [];
+  const WEIGHTS = profile.weights;
 
   // GATE 1: Category MUST match (required)
   if (lost.category !== found.category) {
@@ -62,13 +181,55 @@ export function computeMatchScore(lost: LostItem, found: FoundItem): MatchScore
     explanation.push(`Nearby area (+${WEIGHTS.NEARBY_LOCATION})`);
   }
 
-  // GATE 3: Temporal correlation
-  const lostDate = new Date(lost.lost_date);
-  const foundDate = new Date(found.found_date);
-  const hoursDiff = getHoursDifference(lostDate, foundDate);
+  // Transport context: the same vehicle or route is a strong signal for
+  // items left on buses and moto-taxis
+  if (lost.vehicle_plate && found.vehicle_plate
+      && normalizePlateNumber(lost.vehicle_plate) === normalizePlateNumber(found.vehicle_plate)) {
+    score += WEIGHTS.VEHICLE_MATCH;
+    explanation.push(`Same vehicle: ${normalizePlateNumber(found.vehicle_plate)} (+${WEIGHTS.VEHICLE_MATCH})`);
+  }
+
+  const sameRoute = (lost.route_id && lost.route_id === found.route_id)
+    || (!!lost.route_name && !!found.route_name && routeKey(lost.route_name) === routeKey(found.route_name));
+  if (sameRoute) {
+    score += WEIGHTS.ROUTE_MATCH;
+    explanation.push(`Same route: ${found.route_name || lost.route_name} (+${WEIGHTS.ROUTE_MATCH})`);
+
+    const stops = sharedStops(lost.stop_sequence || [], found.stop_sequence || []);
+    if (stops.length > 0) {
+      score += WEIGHTS.STOP_OVERLAP;
+      explanation.push(`Shared stops: ${stops.join(', ')} (+${WEIGHTS.STOP_OVERLAP})`);
+    }
+  }
+
+  // GATE 3: Temporal correlation. When both reports give a time-of-day
+  // window, compare the windows; otherwise compare the report dates.
+  const lostWindow = toTimeWindow(lost.lost_window_start, lost.lost_window_end);
+  const foundWindow = toTimeWindow(found.found_window_start, found.found_window_end);
+
+  let foundAfterLoss: boolean;
+  let hoursDiff: number;
+
+  if (lostWindow && foundWindow) {
+    foundAfterLoss = foundWindow.end >= lostWindow.start;
+    hoursDiff = foundAfterLoss
+      ? Math.max(0, foundWindow.start.getTime() - lostWindow.end.getTime()) / HOUR_MS
+      : getHoursDifference(lostWindow.start, foundWindow.end);
+  } else {
+    const lostDate = new Date(lost.lost_date);
+    const foundDate = new Date(found.found_date);
+    foundAfterLoss = foundDate >= lostDate;
+    hoursDiff = getHoursDifference(lostDate, foundDate);
+  }
 
   // Found item should be after or around the same time as lost
-  if (foundDate >= lostDate || hoursDiff <= 24) {
+  if (lostWindow && foundWindow && foundAfterLoss && hoursDiff === 0) {
+    score += WEIGHTS.WINDOW_OVERLAP;
+    explanation.push(`Time windows overlap (+${WEIGHTS.WINDOW_OVERLAP})`);
+  } else if (lostWindow && foundWindow && foundAfterLoss && hoursDiff <= 2) {
+    score += WEIGHTS.WINDOW_WITHIN_2H;
+    explanation.push(`Found within 2 hours of the loss window (+${WEIGHTS.WINDOW_WITHIN_2H})`);
+  } else if (foundAfterLoss || hoursDiff <= 24) {
     if (hoursDiff <= 24) {
       score += WEIGHTS.WITHIN_24H;
       explanation.push(`Within 24 hours (+${WEIGHTS.WITHIN_24H})`);
@@ -81,127 +242,295 @@ export function computeMatchScore(lost: LostItem, found: FoundItem): MatchScore
     }
   }
 
-  // GATE 4: Keyword overlap
+  // GATE 4: Keyword overlap (exact, then via translation, then typo-tolerant)
   const lostKeywords = lost.keywords || extractKeywords(lost.title + ' ' + lost.description);
   const foundKeywords = found.keywords || extractKeywords(found.title + ' ' + found.description);
 
-  const overlappingKeywords = lostKeywords.filter(kw => 
-    foundKeywords.some(fkw => fkw.toLowerCase() === kw.toLowerCase())
+  const lostTerms = toKeywordTerms(lostKeywords);
+  const foundTerms = toKeywordTerms(foundKeywords);
+
+  const foundLower = foundKeywords.map(fkw => fkw.toLowerCase());
+  const overlappingTerms = lostTerms.filter(t => foundLower.includes(t.raw.toLowerCase()));
+  const unmatchedLost = lostTerms.filter(t => !overlappingTerms.includes(t));
+  const unmatchedFound = foundTerms.filter(f => !lostKeywords.some(kw => kw.toLowerCase() === f.raw.toLowerCase()));
+
+  const translatedKeywords = findTranslatedKeywords(unmatchedLost, unmatchedFound);
+  const similarKeywords = findSimilarKeywords(
+    unmatchedLost.filter(t => !translatedKeywords.some(p => p.lost === t)),
+    unmatchedFound.filter(f => !translatedKeywords.some(p => p.found === f))
   );
 
-  for (const keyword of overlappingKeywords.slice(0, 5)) { // Cap at 5 keyword bonuses
-    score += WEIGHTS.KEYWORD_MATCH;
-    explanation.push(`Keyword: "${keyword}" (+${WEIGHTS.KEYWORD_MATCH})`);
+  let keywordBonuses = 0;
+  for (const term of overlappingTerms) {
+    if (keywordBonuses++ >= profile.max_keyword_bonuses) break;
+    const weight = keywordWeight(term.canonical, WEIGHTS);
+    score += weight;
+    explanation.push(`Keyword: "${term.raw}" (+${weight})`);
+  }
+
+  for (const pair of translatedKeywords) {
+    if (keywordBonuses++ >= profile.max_keyword_bonuses) break;
+    const weight = keywordWeight(pair.lost.canonical, WEIGHTS);
+    const meaning = [pair.lost.raw, pair.found.raw].includes(pair.lost.canonical) ? '' : ` → ${pair.lost.canonical}`;
+    score += weight;
+    explanation.push(`Linked via translation: "${pair.lost.raw}"↔"${pair.found.raw}"${meaning} (+${weight})`);
   }
 
+  for (const pair of similarKeywords) {
+    if (keywordBonuses++ >= profile.max_keyword_bonuses) break;
+    const canonical = closestKnownKeyword(pair.found.canonical)
+      || closestKnownKeyword(pair.lost.canonical)
+      || pair.found.canonical;
+    const credit = partialKeywordCredit(keywordWeight(canonical, WEIGHTS), pair.similarity);
+    score += credit;
+    explanation.push(`Similar keyword: "${pair.lost.raw}"≈"${pair.found.raw}" (+${credit})`);
+  }
+
+  // Incident signals: other things lost together with this item
+  if (incident) {
+    const ownTerms = new Set(lostTerms.map(t => t.canonical));
+    const foundCanonical = new Set(foundTerms.map(t => t.canonical));
+    const mentioned = incident.siblingTerms.filter(term => !ownTerms.has(term) && foundCanonical.has(term));
+    if (mentioned.length > 0) {
+      score += WEIGHTS.INCIDENT_CONTENTS;
+      explanation.push(`Mentions other items lost with it: ${mentioned.slice(0, 3).join(', ')} (+${WEIGHTS.INCIDENT_CONTENTS})`);
+    }
+
+    const coFound = incident.siblingMatches.find(match =>
+      match.found_item_id !== found.id
+      && (match.cooperative_id ? match.cooperative_id === found.cooperative_id : match.finder_id === found.finder_id)
+      && getHoursDifference(new Date(match.found_date), new Date(found.found_date)) <= INCIDENT_CO_FOUND_HOURS
+    );
+    if (coFound) {
+      score += WEIGHTS.INCIDENT_CO_FOUND;
+      explanation.push(`Turned in with a likely match for another item from this loss (+${WEIGHTS.INCIDENT_CO_FOUND})`);
+    }
+  }
+
+  // Not scored: photos are for the people comparing, not the engine
+  const lostPhotos = lost.image_urls?.length || 0;
+  const foundPhotos = found.image_urls?.length || 0;
+  if (lostPhotos > 0 && foundPhotos > 0) {
+    explanation.push(`Photos on both reports: ${lostPhotos} from the owner, ${foundPhotos} from the finder - compare them`);
+  }
+
+  explanation.push(`Weight profile: ${profile.category} v${profile.version}`);
+
   return { score, explanation };
 }
 
+// Category words a sibling contributes besides its title keywords
+const INCIDENT_CATEGORY_TERMS: Partial<Record<string, string>> = {
+  PHONE: 'phone', WALLET: 'wallet', BAG: 'bag', KEYS: 'keys'
+};
+
+/**
+ * Incident context for every lost item that belongs to an incident, keyed
+ * by lost item id. Colours are left out of the sibling terms: "black" in a
+ * found bag's description says nothing about a black phone.
+ */
+export async function loadIncidentContexts(lostItems: LostItem[]): Promise<Map<number, IncidentContext>> {
+  const contexts = new Map<number, IncidentContext>();
+  const ids = lostItems.filter(item => item.incident_id).map(item => item.id);
+  if (ids.length === 0) return contexts;
+
+  const [siblings, siblingMatches] = await Promise.all([
+    query(
+      `SELECT l.id AS lost_item_id, s.category, s.title, s.keywords
+       FROM lost_items l
+       JOIN lost_items s ON s.incident_id = l.incident_id AND s.id <> l.id
+       WHERE l.id = ANY($1::int[])`,
+      [ids]
+    ),
+    query(
+      `SELECT l.id AS lost_item_id, f.id AS found_item_id, f.finder_id, f.cooperative_id, f.found_date
+       FROM lost_items l
+       JOIN lost_items s ON s.incident_id = l.incident_id AND s.id <> l.id AND s.status = 'ACTIVE'
+       JOIN matches m ON m.lost_item_id = s.id
+       JOIN found_items f ON f.id = m.found_item_id AND f.status = 'UNCLAIMED'
+       WHERE l.id = ANY($1::int[])`,
+      [ids]
+    )
+  ]);
+
+  for (const id of ids) contexts.set(id, { siblingTerms: [], siblingMatches: [] });
+
+  for (const row of siblings.rows) {
+    const context = contexts.get(row.lost_item_id)!;
+    const terms = new Set(context.siblingTerms);
+    const categoryTerm = INCIDENT_CATEGORY_TERMS[row.category];
+    if (categoryTerm) terms.add(canonicalizeKeyword(categoryTerm));
+    for (const keyword of row.keywords || extractKeywords(row.title)) {
+      const canonical = canonicalizeKeyword(keyword);
+      if (!COLOR_PATTERNS.includes(canonical)) terms.add(canonical);
+    }
+    context.siblingTerms = Array.from(terms);
+  }
+
+  for (const row of siblingMatches.rows) {
+    const { lost_item_id, ...match } = row;
+    contexts.get(lost_item_id)!.siblingMatches.push(match);
+  }
+
+  return contexts;
+}
+
 // Find matches for a lost item
 export async function findMatchesForLostItem(
   lostItemId: number,
   forceRefresh: boolean = false
 ): Promise<MatchResult[]> {
-  // Check cache first (unless force refresh)
-  if (!forceRefresh) {
+  // Get the lost item
+  const lostResult = await query(
+    'SELECT * FROM lost_items WHERE id = $1',
+    [lostItemId]
+  );
+
+  if (lostResult.rows.length === 0) {
+    throw new Error('Lost item not found');
+  }
+
+  const lostItem = lostResult.rows[0] as LostItem;
+  const profile = await getActiveProfile(lostItem.category);
+
+  // Check cache first (unless force refresh). New found items are merged
+  // into current caches incrementally (see matchNewFoundItem), so a cache is
+  // only stale once it ages out or was scored by another profile version.
+  if (!forceRefresh && isMatchCacheCurrent(lostItem, profile)) {
     // FIX BUG-01: Explicitly alias columns to avoid id collision between matches and found_items
     const cachedResult = await query(
-      `SELECT m.score, m.explanation,
+      `SELECT m.score, m.explanation, m.profile_version,
               f.id, f.finder_id, f.cooperative_id, f.category,
               f.title, f.description, f.location_area, f.location_hint,
-              f.found_date, f.status, f.source, f.image_urls, f.keywords,
+              f.found_date, f.found_window_start, f.found_window_end,
+              f.transport_cooperative_id, f.route_id, f.route_name, f.vehicle_plate, f.stop_sequence,
+              f.status, f.source, f.image_urls, f.redacted_image_urls, f.keywords,
               f.expiry_warning_sent, f.expired_at, f.created_at, f.updated_at
        FROM matches m
        JOIN found_items f ON m.found_item_id = f.id
        WHERE m.lost_item_id = $1
-       AND m.computed_at > NOW() - INTERVAL '1 hour'
+       AND m.profile_id IS NOT DISTINCT FROM $3
+       AND ${notDismissed('m.lost_item_id', 'm.found_item_id', 'owner')}
        ORDER BY m.score DESC
        LIMIT $2`,
-      [lostItemId, MAX_MATCHES]
+      [lostItemId, profile.max_matches, profile.id]
     );
 
-    if (cachedResult.rows.length > 0) {
-      return cachedResult.rows.map(row => ({
-        found_item: {
-          id: row.id,
-          finder_id: row.finder_id,
-          cooperative_id: row.cooperative_id,
-          category: row.category,
-          title: row.title,
-          description: row.description,
-          location_area: row.location_area,
-          location_hint: row.location_hint,
-          found_date: row.found_date,
-          status: row.status,
-          source: row.source,
-          image_urls: row.image_urls,
-          keywords: row.keywords,
-          expiry_warning_sent: row.expiry_warning_sent,
-          expired_at: row.expired_at,
-          created_at: row.created_at,
-          updated_at: row.updated_at
-        },
-        score: row.score,
-        explanation: row.explanation
-      }));
-    }
+    return cachedResult.rows.map(row => ({
+      found_item: {
+        id: row.id,
+        finder_id: row.finder_id,
+        cooperative_id: row.cooperative_id,
+        category: row.category,
+        title: row.title,
+        description: row.description,
+        location_area: row.location_area,
+        location_hint: row.location_hint,
+        found_date: row.found_date,
+        found_window_start: row.found_window_start,
+        found_window_end: row.found_window_end,
+        transport_cooperative_id: row.transport_cooperative_id,
+        route_id: row.route_id,
+        route_name: row.route_name,
+        vehicle_plate: row.vehicle_plate,
+        stop_sequence: row.stop_sequence,
+        status: row.status,
+        source: row.source,
+        image_urls: row.image_urls,
+        redacted_image_urls: row.redacted_image_urls,
+        keywords: row.keywords,
+        expiry_warning_sent: row.expiry_warning_sent,
+        expired_at: row.expired_at,
+        created_at: row.created_at,
+        updated_at: row.updated_at
+      },
+      score: parseFloat(row.score),
+      explanation: row.explanation,
+      profile_version: row.profile_version
+    }));
   }
 
-  // Get the lost item
-  const lostResult = await query(
-    'SELECT * FROM lost_items WHERE id = $1',
-    [lostItemId]
-  );
+  const { matches } = await recomputeLostItemMatches(lostItem, profile);
+  return matches;
+}
 
-  if (lostResult.rows.length === 0) {
-    throw new Error('Lost item not found');
-  }
+// Matches are cached per lost item for a day; clearStaleMatches() uses the same window
+const MATCH_CACHE_TTL_HOURS = 24;
 
-  const lostItem = lostResult.rows[0] as LostItem;
+function isMatchCacheCurrent(lostItem: LostItem, profile: MatchWeightProfile): boolean {
+  if (!lostItem.matches_computed_at) return false;
+  if ((lostItem.matches_profile_id ?? null) !== profile.id) return false;
+  const ageHours = getHoursDifference(new Date(lostItem.matches_computed_at), new Date());
+  return ageHours < MATCH_CACHE_TTL_HOURS;
+}
 
+// Score a lost item against every candidate found item and sync its cache
+async function recomputeLostItemMatches(
+  lostItem: LostItem,
+  profile: MatchWeightProfile
+): Promise<{ matches: MatchResult[]; stats: MatchRunStats }> {
   // Get potential found items (same category, unclaimed, recent)
   const foundResult = await query(
     `SELECT * FROM found_items
      WHERE category = $1
      AND status = 'UNCLAIMED'
      AND found_date >= ($2::date - INTERVAL '7 days')
+     AND ${notDismissed('$3', 'found_items.id', 'owner')}
      ORDER BY found_date DESC
      LIMIT 100`,
-    [lostItem.category, lostItem.lost_date]
+    [lostItem.category, lostItem.lost_date, lostItem.id]
   );
 
   const foundItems = foundResult.rows as FoundItem[];
+  const incident = (await loadIncidentContexts([lostItem])).get(lostItem.id);
 
   // Compute scores
   const scoredMatches: MatchResult[] = [];
 
   for (const foundItem of foundItems) {
-    const { score, explanation } = computeMatchScore(lostItem, foundItem);
+    const { score, explanation } = computeMatchScore(lostItem, foundItem, profile, incident);
 
-    if (score >= MINIMUM_SCORE) {
+    if (score >= profile.minimum_score) {
       scoredMatches.push({
         found_item: foundItem,
         score,
-        explanation
+        explanation,
+        profile_version: profile.version
       });
     }
   }
 
   // Sort by score descending and take top N
   scoredMatches.sort((a, b) => b.score - a.score);
-  const topMatches = scoredMatches.slice(0, MAX_MATCHES);
+  const topMatches = scoredMatches.slice(0, profile.max_matches);
 
   // Cache results
-  await cacheMatches(lostItemId, topMatches);
+  const { upserted, removed } = await cacheMatches(lostItem.id, topMatches, profile);
+
+  return {
+    matches: topMatches,
+    stats: { candidates_scored: foundItems.length, rows_upserted: upserted, rows_removed: removed }
+  };
+}
+
+// Full recompute for one lost item (new or edited report)
+export async function rematchLostItem(lostItemId: number): Promise<MatchRunStats> {
+  const lostResult = await query('SELECT * FROM lost_items WHERE id = $1', [lostItemId]);
+  if (lostResult.rows.length === 0 || lostResult.rows[0].status !== 'ACTIVE') {
+    return { candidates_scored: 0, rows_upserted: 0, rows_removed: 0 };
+  }
 
-  return topMatches;
+  const lostItem = lostResult.rows[0] as LostItem;
+  const profile = await getActiveProfile(lostItem.category);
+  const { stats } = await recomputeLostItemMatches(lostItem, profile);
+  return stats;
 }
 
 // Find matches for a found item (reverse lookup)
 export async function findMatchesForFoundItem(
   foundItemId: number,
   forceRefresh: boolean = false
-): Promise<{ lost_item: LostItem; score: number; explanation: string[] }[]> {
+): Promise<{ lost_item: LostItem; score: number; explanation: string[]; profile_version: number }[]> {
   // Get the found item
   const foundResult = await query(
     'SELECT * FROM found_items WHERE id = $1',
@@ -213,6 +542,7 @@ export async function findMatchesForFoundItem(
   }
 
   const foundItem = foundResult.rows[0] as FoundItem;
+  const profile = await getActiveProfile(foundItem.category);
 
   // Get potential lost items (same category, active, recent)
   const lostResult = await query(
@@ -220,96 +550,190 @@ export async function findMatchesForFoundItem(
      WHERE category = $1
      AND status = 'ACTIVE'
      AND lost_date <= ($2::date + INTERVAL '7 days')
+     AND ${notDismissed('lost_items.id', '$3', 'finder')}
      ORDER BY lost_date DESC
      LIMIT 100`,
-    [foundItem.category, foundItem.found_date]
+    [foundItem.category, foundItem.found_date, foundItemId]
   );
 
   const lostItems = lostResult.rows as LostItem[];
+  const incidents = await loadIncidentContexts(lostItems);
 
   // Compute scores
-  const scoredMatches: { lost_item: LostItem; score: number; explanation: string[] }[] = [];
+  const scoredMatches: { lost_item: LostItem; score: number; explanation: string[]; profile_version: number }[] = [];
 
   for (const lostItem of lostItems) {
-    const { score, explanation } = computeMatchScore(lostItem, foundItem);
+    const { score, explanation } = computeMatchScore(lostItem, foundItem, profile, incidents.get(lostItem.id));
 
-    if (score >= MINIMUM_SCORE) {
+    if (score >= profile.minimum_score) {
       scoredMatches.push({
         lost_item: lostItem,
         score,
-        explanation
+        explanation,
+        profile_version: profile.version
       });
     }
   }
 
   // Sort by score descending and take top N
   scoredMatches.sort((a, b) => b.score - a.score);
-  return scoredMatches.slice(0, MAX_MATCHES);
+  return scoredMatches.slice(0, profile.max_matches);
 }
 
-// Cache match results
-async function cacheMatches(lostItemId: number, matches: MatchResult[]): Promise<void> {
-  // Clear old cache for this lost item
-  await query('DELETE FROM matches WHERE lost_item_id = $1', [lostItemId]);
+// Sync a lost item's cache with its new top matches, writing only rows
+// whose score or explanation actually changed
+async function cacheMatches(
+  lostItemId: number,
+  matches: MatchResult[],
+  profile: MatchWeightProfile
+): Promise<{ upserted: number; removed: number }> {
+  const keepIds = matches.map(m => m.found_item.id);
+  const removed = await query(
+    'DELETE FROM matches WHERE lost_item_id = $1 AND NOT (found_item_id = ANY($2::int[]))',
+    [lostItemId, keepIds]
+  );
 
-  // Insert new matches
+  let upserted = 0;
   for (const match of matches) {
-    await query(
-      `INSERT INTO matches (lost_item_id, found_item_id, score, explanation, computed_at)
-       VALUES ($1, $2, $3, $4, NOW())
-       ON CONFLICT (lost_item_id, found_item_id) 
-       DO UPDATE SET score = $3, explanation = $4, computed_at = NOW()`,
-      [lostItemId, match.found_item.id, match.score, match.explanation]
-    );
+    upserted += await upsertMatch(lostItemId, match.found_item.id, match.score, match.explanation, profile);
   }
+
+  await query(
+    'UPDATE lost_items SET matches_computed_at = NOW(), matches_profile_id = $2 WHERE id = $1',
+    [lostItemId, profile.id]
+  );
+
+  return { upserted, removed: removed.rowCount || 0 };
 }
 
-// Trigger matching when a new item is created
-export async function onItemCreated(
-  itemType: 'lost' | 'found',
-  itemId: number
-): Promise<void> {
-  try {
-    if (itemType === 'lost') {
-      // Find matches for the new lost item
-      await findMatchesForLostItem(itemId, true);
-    } else {
-      // For found items, update matches for all potentially matching lost items
-      const foundResult = await query(
-        'SELECT category, found_date FROM found_items WHERE id = $1',
-        [itemId]
-      );
+// Returns 1 if the row was inserted or changed, 0 if it was already current
+async function upsertMatch(
+  lostItemId: number,
+  foundItemId: number,
+  score: number,
+  explanation: string[],
+  profile: MatchWeightProfile
+): Promise<number> {
+  const result = await query(
+    `INSERT INTO matches (lost_item_id, found_item_id, score, explanation, profile_id, profile_version, computed_at)
+     VALUES ($1, $2, $3, $4, $5, $6, NOW())
+     ON CONFLICT (lost_item_id, found_item_id)
+     DO UPDATE SET score = $3, explanation = $4, profile_id = $5, profile_version = $6, computed_at = NOW()
+     WHERE matches.score IS DISTINCT FROM EXCLUDED.score
+        OR matches.explanation IS DISTINCT FROM EXCLUDED.explanation
+        OR matches.profile_id IS DISTINCT FROM EXCLUDED.profile_id`,
+    [lostItemId, foundItemId, score, explanation, profile.id, profile.version]
+  );
+  return result.rowCount || 0;
+}
+
+/**
+ * Incremental matching for a new (or edited) found item: score it against
+ * every eligible lost item and merge it into each current cache, instead
+ * of recomputing whole caches. Lost items whose cache is not current are
+ * skipped - their next read does a full recompute that includes this item.
+ */
+export async function matchNewFoundItem(foundItemId: number): Promise<MatchRunStats> {
+  const stats: MatchRunStats = { candidates_scored: 0, rows_upserted: 0, rows_removed: 0 };
+
+  const foundResult = await query('SELECT * FROM found_items WHERE id = $1', [foundItemId]);
+  if (foundResult.rows.length === 0) {
+    return stats;
+  }
+
+  const foundItem = foundResult.rows[0] as FoundItem;
+  if (foundItem.status !== 'UNCLAIMED') {
+    const removed = await query('DELETE FROM matches WHERE found_item_id = $1', [foundItemId]);
+    stats.rows_removed = removed.rowCount || 0;
+    return stats;
+  }
+
+  const profile = await getActiveProfile(foundItem.category);
 
-      if (foundResult.rows.length > 0) {
-        const { category, found_date } = foundResult.rows[0];
-
-        // Get all active lost items in same category
-        const lostItems = await query(
-          `SELECT id FROM lost_items
-           WHERE category = $1
-           AND status = 'ACTIVE'
-           AND lost_date <= ($2::date + INTERVAL '7 days')`,
-          [category, found_date]
-        );
-
-        // Refresh matches for each (limited to avoid overload)
-        for (const item of lostItems.rows.slice(0, 20)) {
-          await findMatchesForLostItem(item.id, true);
-        }
+  const lostResult = await query(
+    `SELECT l.*,
+            cache.cached_count, cache.min_score,
+            (SELECT m.score FROM matches m WHERE m.lost_item_id = l.id AND m.found_item_id = $3) AS existing_score
+     FROM lost_items l
+     LEFT JOIN LATERAL (
+       SELECT COUNT(*)::int AS cached_count, MIN(score) AS min_score
+       FROM matches WHERE lost_item_id = l.id
+     ) cache ON TRUE
+     WHERE l.category = $1
+     AND l.status = 'ACTIVE'
+     AND l.lost_date <= ($2::date + INTERVAL '7 days')
+     AND l.matches_computed_at > NOW() - make_interval(hours => $4)
+     AND l.matches_profile_id IS NOT DISTINCT FROM $5
+     AND ${notDismissed('l.id', '$3', 'owner')}`,
+    [foundItem.category, foundItem.found_date, foundItemId, MATCH_CACHE_TTL_HOURS, profile.id]
+  );
+
+  const incidents = await loadIncidentContexts(lostResult.rows);
+  // Incidents whose items gained this match; their siblings are re-scored
+  // below since this found item may vouch for theirs
+  const touchedIncidents = new Set<number>();
+
+  for (const row of lostResult.rows) {
+    stats.candidates_scored++;
+    const { score, explanation } = computeMatchScore(row as LostItem, foundItem, profile, incidents.get(row.id));
+    const alreadyCached = row.existing_score !== null;
+
+    if (score < profile.minimum_score) {
+      if (alreadyCached) {
+        await query('DELETE FROM matches WHERE lost_item_id = $1 AND found_item_id = $2', [row.id, foundItemId]);
+        stats.rows_removed++;
       }
+      continue;
+    }
+
+    const cacheFull = row.cached_count >= profile.max_matches;
+    if (!alreadyCached && cacheFull && score <= parseFloat(row.min_score)) {
+      continue;
+    }
+
+    stats.rows_upserted += await upsertMatch(row.id, foundItemId, score, explanation, profile);
+    if (row.incident_id) touchedIncidents.add(row.incident_id);
+
+    // Keep only the top N for this lost item
+    if (!alreadyCached && cacheFull) {
+      const trimmed = await query(
+        `DELETE FROM matches WHERE id IN (
+           SELECT id FROM matches WHERE lost_item_id = $1
+           ORDER BY score DESC, id ASC
+           OFFSET $2
+         )`,
+        [row.id, profile.max_matches]
+      );
+      stats.rows_removed += trimmed.rowCount || 0;
+    }
+  }
+
+  if (touchedIncidents.size > 0) {
+    const siblings = await query(
+      `SELECT id FROM lost_items
+       WHERE incident_id = ANY($1::int[]) AND status = 'ACTIVE' AND category <> $2`,
+      [Array.from(touchedIncidents), foundItem.category]
+    );
+    for (const sibling of siblings.rows) {
+      const siblingStats = await rematchLostItem(sibling.id);
+      stats.candidates_scored += siblingStats.candidates_scored;
+      stats.rows_upserted += siblingStats.rows_upserted;
+      stats.rows_removed += siblingStats.rows_removed;
     }
-  } catch (error) {
-    // Don't let matching errors crash the main flow
-    console.error(`Matching error for ${itemType} item ${itemId}:`, error);
   }
+
+  return stats;
 }
 
-// Clear stale matches
+// Clear matches whose lost item cache has aged out
 export async function clearStaleMatches(): Promise<number> {
   const result = await query(
-    `DELETE FROM matches
-     WHERE computed_at < NOW() - INTERVAL '24 hours'
-     RETURNING id`
+    `DELETE FROM matches m
+     USING lost_items l
+     WHERE m.lost_item_id = l.id
+     AND (l.matches_computed_at IS NULL OR l.matches_computed_at < NOW() - make_interval(hours => $1))
+     RETURNING m.id`,
+    [MATCH_CACHE_TTL_HOURS]
   );
   return result.rowCount || 0;
-}
\ No newline at end of file
+}
@@ -0,0 +1,208 @@
+/**
+ * S3-compatible storage driver for Byaboneka+
+ *
+ * Talks to AWS S3, MinIO, Cloudflare R2 or any other S3-compatible store
+ * with plain HTTPS requests signed with AWS Signature Version 4, so no SDK
+ * is needed. MinIO and most self-hosted stores want path-style addressing
+ * (S3_FORCE_PATH_STYLE=true); AWS uses virtual-hosted buckets.
+ * S3_PUBLIC_ENDPOINT is for stores the API reaches under another name than
+ * browsers do (http://minio:9000 inside docker compose, localhost outside):
+ * presigned URLs are signed for the public host.
+ */
+
+import crypto from 'crypto';
+import { StorageDriver, StoredObject } from './storageService';
+
+export interface S3Config {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean;
+  publicEndpoint?: string;
+}
+
+const ALGORITHM = 'AWS4-HMAC-SHA256';
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+// Presigned URLs may live at most 7 days
+const MAX_PRESIGN_SECONDS = 7 * 24 * 3600;
+
+// ============================================
+// SIGNATURE V4
+// ============================================
+
+function sha256Hex(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+// RFC 3986 encoding as S3 expects it: encodeURIComponent leaves !'()* alone
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function encodeKeyPath(key: string): string {
+  return key.split('/').map(encodeRfc3986).join('/');
+}
+
+// 20130524T000000Z
+function amzTimestamp(date: Date): string {
+  return date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+}
+
+function signingKey(secretAccessKey: string, day: string, region: string): Buffer {
+  const dateKey = hmac(`AWS4${secretAccessKey}`, day);
+  const regionKey = hmac(dateKey, region);
+  const serviceKey = hmac(regionKey, 's3');
+  return hmac(serviceKey, 'aws4_request');
+}
+
+interface SignableRequest {
+  method: string;
+  host: string;
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  payloadHash: string;
+}
+
+function signature(config: S3Config, request: SignableRequest, timestamp: string): string {
+  const day = timestamp.slice(0, 8);
+  const scope = `${day}/${config.region}/s3/aws4_request`;
+
+  const canonicalQuery = Object.keys(request.query).sort()
+    .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(request.query[name])}`)
+    .join('&');
+  const headerNames = Object.keys(request.headers).map(name => name.toLowerCase()).sort();
+  const canonicalHeaders = headerNames
+    .map(name => {
+      const original = Object.keys(request.headers).find(h => h.toLowerCase() === name)!;
+      return `${name}:${request.headers[original].trim()}\n`;
+    })
+    .join('');
+
+  const canonicalRequest = [
+    request.method,
+    request.path,
+    canonicalQuery,
+    canonicalHeaders,
+    headerNames.join(';'),
+    request.payloadHash
+  ].join('\n');
+
+  const stringToSign = [ALGORITHM, timestamp, scope, sha256Hex(canonicalRequest)].join('\n');
+  return crypto.createHmac('sha256', signingKey(config.secretAccessKey, day, config.region))
+    .update(stringToSign)
+    .digest('hex');
+}
+
+// Host and path of an object for the configured addressing style
+function objectLocation(config: S3Config, key: string): { origin: string; host: string; path: string } {
+  const endpoint = new URL(config.endpoint);
+  if (config.forcePathStyle) {
+    return {
+      origin: `${endpoint.protocol}//${endpoint.host}`,
+      host: endpoint.host,
+      path: `/${encodeRfc3986(config.bucket)}/${encodeKeyPath(key)}`
+    };
+  }
+  const host = `${config.bucket}.${endpoint.host}`;
+  return { origin: `${endpoint.protocol}//${host}`, host, path: `/${encodeKeyPath(key)}` };
+}
+
+/**
+ * Presigned GET URL for one object (query-string authentication).
+ * `now` is only passed by tests.
+ */
+export function presignGetUrl(config: S3Config, key: string, expiresInSeconds: number, now: Date = new Date()): string {
+  const { origin, host, path } = objectLocation(config, key);
+  const timestamp = amzTimestamp(now);
+  const query: Record<string, string> = {
+    'X-Amz-Algorithm': ALGORITHM,
+    'X-Amz-Credential': `${config.accessKeyId}/${timestamp.slice(0, 8)}/${config.region}/s3/aws4_request`,
+    'X-Amz-Date': timestamp,
+    'X-Amz-Expires': String(Math.min(Math.max(Math.floor(expiresInSeconds), 1), MAX_PRESIGN_SECONDS)),
+    'X-Amz-SignedHeaders': 'host'
+  };
+
+  const signed = signature(config, {
+    method: 'GET', host, path, query, headers: { host }, payloadHash: UNSIGNED_PAYLOAD
+  }, timestamp);
+
+  const search = Object.keys(query).sort()
+    .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+    .join('&');
+  return `${origin}${path}?${search}&X-Amz-Signature=${signed}`;
+}
+
+// Header-signed request against one object
+async function s3Request(config: S3Config, method: 'GET' | 'PUT' | 'DELETE', key: string, body?: Buffer, contentType?: string) {
+  const { origin, host, path } = objectLocation(config, key);
+  const timestamp = amzTimestamp(new Date());
+  const payloadHash = sha256Hex(body || '');
+  const headers: Record<string, string> = {
+    host,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': timestamp,
+    ...(contentType && { 'content-type': contentType })
+  };
+
+  const signed = signature(config, { method, host, path, query: {}, headers, payloadHash }, timestamp);
+  const signedHeaders = Object.keys(headers).map(name => name.toLowerCase()).sort().join(';');
+  const credential = `${config.accessKeyId}/${timestamp.slice(0, 8)}/${config.region}/s3/aws4_request`;
+
+  // fetch sets Host itself
+  const { host: _host, ...sendHeaders } = headers;
+  return fetch(`${origin}${path}`, {
+    method,
+    headers: {
+      ...sendHeaders,
+      authorization: `${ALGORITHM} Credential=${credential}, SignedHeaders=${signedHeaders}, Signature=${signed}`
+    },
+    body
+  });
+}
+
+// ============================================
+// DRIVER
+// ============================================
+
+export function createS3Driver(config: S3Config): StorageDriver {
+  return {
+    name: 's3',
+
+    async put(key: string, body: Buffer, contentType: string): Promise<void> {
+      const response = await s3Request(config, 'PUT', key, body, contentType);
+      if (!response.ok) {
+        throw new Error(`S3 upload of ${key} failed: ${response.status} ${await response.text()}`);
+      }
+    },
+
+    async get(key: string): Promise<StoredObject | null> {
+      const response = await s3Request(config, 'GET', key);
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`S3 download of ${key} failed: ${response.status}`);
+      }
+      return {
+        body: Buffer.from(await response.arrayBuffer()),
+        contentType: response.headers.get('content-type') || 'application/octet-stream'
+      };
+    },
+
+    async delete(key: string): Promise<void> {
+      const response = await s3Request(config, 'DELETE', key);
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`S3 delete of ${key} failed: ${response.status}`);
+      }
+    },
+
+    directUrl(key: string, expiresInSeconds: number): string {
+      return presignGetUrl({ ...config, endpoint: config.publicEndpoint || config.endpoint }, key, expiresInSeconds);
+    }
+  };
+}
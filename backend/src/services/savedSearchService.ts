@@ -0,0 +1,222 @@
+/**
+ * Saved Search Service for Byaboneka+
+ *
+ * Users save search criteria (category, area, keyword, date range). An
+ * active saved search is a standing watch: every new found item is checked
+ * against it, each hit is recorded once, and watches on the EMAIL channel
+ * also send a mail. IN_APP watches are read from Settings.
+ */
+
+import { query } from '../config/database';
+import { FoundItem, ItemCategory, SavedSearch, SavedSearchChannel } from '../types';
+import { extractKeywords, canonicalizeKeyword } from '../utils';
+import { sendSavedSearchAlertEmail } from './emailService';
+
+export const MAX_SAVED_SEARCHES_PER_USER = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SavedSearchInput {
+  name: string;
+  category?: ItemCategory | null;
+  location_area?: string | null;
+  keyword?: string | null;
+  date_from?: string | null;
+  date_to?: string | null;
+  channel?: SavedSearchChannel;
+  is_active?: boolean;
+}
+
+const UPDATABLE_FIELDS: Array<keyof SavedSearchInput> = [
+  'name', 'category', 'location_area', 'keyword', 'date_from', 'date_to', 'channel', 'is_active'
+];
+
+// ============================================
+// MANAGEMENT
+// ============================================
+
+export async function listSavedSearches(userId: number): Promise<Array<SavedSearch & { unseen_hits: number }>> {
+  const result = await query(
+    `SELECT s.*,
+            (SELECT COUNT(*)::int FROM saved_search_hits h
+             WHERE h.saved_search_id = s.id AND h.seen_at IS NULL) AS unseen_hits
+     FROM saved_searches s
+     WHERE s.user_id = $1
+     ORDER BY s.created_at DESC`,
+    [userId]
+  );
+  return result.rows;
+}
+
+export async function createSavedSearch(
+  userId: number,
+  data: SavedSearchInput
+): Promise<{ success: boolean; message: string; savedSearch?: SavedSearch }> {
+  const countResult = await query('SELECT COUNT(*) FROM saved_searches WHERE user_id = $1', [userId]);
+  if (parseInt(countResult.rows[0].count) >= MAX_SAVED_SEARCHES_PER_USER) {
+    return { success: false, message: `You can have at most ${MAX_SAVED_SEARCHES_PER_USER} saved searches` };
+  }
+
+  const result = await query(
+    `INSERT INTO saved_searches (user_id, name, category, location_area, keyword, date_from, date_to, channel)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     RETURNING *`,
+    [userId, data.name.trim(), data.category || null, data.location_area?.trim() || null,
+     data.keyword?.trim() || null, data.date_from || null, data.date_to || null,
+     data.channel || SavedSearchChannel.EMAIL]
+  );
+  return { success: true, message: 'Search saved', savedSearch: result.rows[0] };
+}
+
+// Returns null when the search does not exist or belongs to someone else
+export async function updateSavedSearch(
+  userId: number,
+  searchId: number,
+  data: Partial<SavedSearchInput>
+): Promise<SavedSearch | null> {
+  const sets: string[] = [];
+  const params: any[] = [searchId, userId];
+
+  for (const field of UPDATABLE_FIELDS) {
+    if (data[field] === undefined) continue;
+    const value = data[field];
+    params.push(typeof value === 'string' ? value.trim() || null : value);
+    sets.push(`${field} = $${params.length}`);
+  }
+
+  if (sets.length === 0) {
+    const existing = await query('SELECT * FROM saved_searches WHERE id = $1 AND user_id = $2', params);
+    return existing.rows[0] || null;
+  }
+
+  const result = await query(
+    `UPDATE saved_searches SET ${sets.join(', ')}
+     WHERE id = $1 AND user_id = $2
+     RETURNING *`,
+    params
+  );
+  return result.rows[0] || null;
+}
+
+export async function deleteSavedSearch(userId: number, searchId: number): Promise<boolean> {
+  const result = await query('DELETE FROM saved_searches WHERE id = $1 AND user_id = $2', [searchId, userId]);
+  return (result.rowCount ?? 0) > 0;
+}
+
+// Recent hits for one watch; reading them marks them seen
+export async function getSavedSearchHits(userId: number, searchId: number, limit: number = 20): Promise<any[] | null> {
+  const owner = await query('SELECT id FROM saved_searches WHERE id = $1 AND user_id = $2', [searchId, userId]);
+  if (owner.rows.length === 0) return null;
+
+  const result = await query(
+    `SELECT h.id, h.found_item_id, h.notified_via, h.seen_at, h.created_at,
+            f.title, f.category, f.location_area, f.found_date, f.status,
+            CASE WHEN f.category IN ('ID', 'WALLET') THEN f.redacted_image_urls ELSE f.image_urls END as image_urls
+     FROM saved_search_hits h
+     JOIN found_items f ON h.found_item_id = f.id
+     WHERE h.saved_search_id = $1
+     ORDER BY h.created_at DESC
+     LIMIT $2`,
+    [searchId, limit]
+  );
+
+  await query(
+    'UPDATE saved_search_hits SET seen_at = NOW() WHERE saved_search_id = $1 AND seen_at IS NULL',
+    [searchId]
+  );
+
+  return result.rows;
+}
+
+// ============================================
+// WATCHES
+// ============================================
+
+// Every keyword of the watch must appear in the item, compared through the
+// trilingual dictionary so "agakapu" finds a "wallet"
+function keywordMatches(keyword: string, item: Pick<FoundItem, 'title' | 'description' | 'keywords'>): boolean {
+  const text = `${item.title} ${item.description}`;
+  const wanted = extractKeywords(keyword).map(canonicalizeKeyword);
+  if (wanted.length === 0) {
+    return text.toLowerCase().includes(keyword.toLowerCase().trim());
+  }
+
+  const present = new Set([...(item.keywords || []), ...extractKeywords(text)].map(canonicalizeKeyword));
+  return wanted.every(word => present.has(word));
+}
+
+// Same semantics as the search filters: category exact, area substring,
+// keyword on title/description, dates inclusive
+export function matchesSavedSearch(
+  search: Pick<SavedSearch, 'category' | 'location_area' | 'keyword' | 'date_from' | 'date_to'>,
+  item: Pick<FoundItem, 'category' | 'title' | 'description' | 'location_area' | 'found_date' | 'keywords'>
+): boolean {
+  if (search.category && search.category !== item.category) return false;
+
+  if (search.location_area
+      && !item.location_area.toLowerCase().includes(search.location_area.toLowerCase())) {
+    return false;
+  }
+
+  const foundAt = new Date(item.found_date).getTime();
+  if (search.date_from && foundAt < new Date(search.date_from).getTime()) return false;
+  if (search.date_to && foundAt >= new Date(search.date_to).getTime() + DAY_MS) return false;
+
+  if (search.keyword && !keywordMatches(search.keyword, item)) return false;
+
+  return true;
+}
+
+/**
+ * Check a newly created found item against every active watch, record the
+ * hits and notify each owner on their chosen channel. Returns the number
+ * of watches that fired.
+ */
+export async function runSavedSearchesForFoundItem(foundItemId: number): Promise<number> {
+  try {
+    const itemResult = await query(
+      `SELECT id, finder_id, category, title, description, location_area, found_date, keywords
+       FROM found_items WHERE id = $1`,
+      [foundItemId]
+    );
+    const item = itemResult.rows[0];
+    if (!item) return 0;
+
+    const watches = await query(
+      `SELECT s.*, u.email, u.name AS user_name
+       FROM saved_searches s
+       JOIN users u ON s.user_id = u.id
+       WHERE s.is_active = TRUE
+         AND s.user_id <> $1
+         AND (s.category IS NULL OR s.category = $2)
+         AND u.is_banned = FALSE`,
+      [item.finder_id, item.category]
+    );
+
+    let fired = 0;
+    for (const watch of watches.rows) {
+      if (!matchesSavedSearch(watch, item)) continue;
+
+      const hit = await query(
+        `INSERT INTO saved_search_hits (saved_search_id, found_item_id, notified_via)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (saved_search_id, found_item_id) DO NOTHING
+         RETURNING id`,
+        [watch.id, item.id, watch.channel]
+      );
+      if (hit.rows.length === 0) continue;
+
+      fired++;
+      await query('UPDATE saved_searches SET last_hit_at = NOW() WHERE id = $1', [watch.id]);
+
+      if (watch.channel === SavedSearchChannel.EMAIL) {
+        await sendSavedSearchAlertEmail(watch.email, watch.user_name, watch.name, item.title, item.location_area, item.id);
+      }
+    }
+
+    return fired;
+  } catch (error) {
+    // Watches must never break found-item creation
+    console.error(`Failed to run saved searches for found item ${foundItemId}:`, error);
+    return 0;
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Search Analytics Service for Byaboneka+
+ *
+ * Every item listing or ranked search that carries criteria is written to
+ * search_logs with its filters and result count. Admins mine the log for
+ * the most common queries, queries that found nothing, and the areas and
+ * categories people search most, set against how many items were actually
+ * reported there - high demand with little supply marks an under-served spot.
+ */
+
+import { Request } from 'express';
+import { query } from '../config/database';
+import { foldAccents } from '../utils';
+import { extractRequestMeta } from './auditService';
+import { ItemType } from './searchService';
+
+export type SearchMode = 'LIST' | 'RANKED';
+
+export interface SearchLogEntry {
+  // Absent when lost and found items were searched together
+  itemType?: ItemType;
+  mode: SearchMode;
+  page: number;
+  resultsCount: number;
+  query?: string;
+  category?: string;
+  location_area?: string;
+  date_from?: string;
+  date_to?: string;
+  status?: string;
+  sort?: string;
+  near?: string;
+}
+
+const TOP_LIMIT = 20;
+const HOT_SPOT_LIMIT = 15;
+const TIMELINE_SPOTS = 5;
+
+// ============================================
+// LOGGING
+// ============================================
+
+// Lower-case, accents folded, punctuation and extra spaces dropped
+export function normalizeSearchQuery(text: string): string | null {
+  const normalized = foldAccents(text.toLowerCase())
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return normalized || null;
+}
+
+// Plain browsing (no criteria) is not a search, and paging through the
+// same results is not a new one
+export function shouldLogSearch(entry: SearchLogEntry): boolean {
+  if (entry.page > 1) return false;
+  return !!(entry.query?.trim() || entry.category || entry.location_area || entry.near
+    || entry.date_from || entry.date_to);
+}
+
+export async function logSearch(req: Request, entry: SearchLogEntry): Promise<void> {
+  if (!shouldLogSearch(entry)) return;
+
+  try {
+    const { ipAddress } = extractRequestMeta(req);
+    const filters: Record<string, string> = {};
+    for (const key of ['date_from', 'date_to', 'status', 'sort', 'near'] as const) {
+      if (entry[key]) filters[key] = String(entry[key]);
+    }
+
+    await query(
+      `INSERT INTO search_logs
+         (user_id, item_type, search_mode, query_text, normalized_query, category, location_area,
+          filters, results_count, ip_address)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [
+        req.user?.userId || null,
+        entry.itemType?.toUpperCase() || null,
+        entry.mode,
+        entry.query?.trim().slice(0, 200) || null,
+        entry.query ? normalizeSearchQuery(entry.query) : null,
+        entry.category || null,
+        (entry.location_area || entry.near)?.trim().slice(0, 100) || null,
+        JSON.stringify(filters),
+        entry.resultsCount,
+        ipAddress || null
+      ]
+    );
+  } catch (error) {
+    // Analytics must never break a search
+    console.error('Failed to log search:', error);
+  }
+}
+
+// ============================================
+// ANALYTICS
+// ============================================
+
+/**
+ * Search analytics over the last `days`, optionally for one item type.
+ * Hot spots compare searches in an area/category against items reported
+ * there in the same window; the timeline follows the top spots week by week.
+ */
+export async function getSearchAnalytics(days: number = 30, itemType?: ItemType) {
+  const params: any[] = itemType ? [days, itemType.toUpperCase()] : [days];
+  const inWindow = (prefix: string = '') =>
+    `${prefix}created_at > NOW() - make_interval(days => $1)${itemType ? ` AND ${prefix}item_type = $2` : ''}`;
+  const where = inWindow();
+
+  const [totals, topQueries, zeroResultQueries, hotSpots, timeline] = await Promise.all([
+    query(
+      `SELECT COUNT(*)::int AS searches,
+              COUNT(*) FILTER (WHERE results_count = 0)::int AS zero_result_searches,
+              COUNT(DISTINCT normalized_query)::int AS unique_queries,
+              COUNT(DISTINCT user_id)::int AS searching_users
+       FROM search_logs WHERE ${where}`,
+      params
+    ),
+    query(
+      `SELECT normalized_query AS query, COUNT(*)::int AS searches,
+              ROUND(AVG(results_count), 1)::float AS avg_results,
+              COUNT(*) FILTER (WHERE results_count = 0)::int AS zero_result_searches
+       FROM search_logs WHERE ${where} AND normalized_query IS NOT NULL
+       GROUP BY normalized_query
+       ORDER BY searches DESC, query
+       LIMIT ${TOP_LIMIT}`,
+      params
+    ),
+    query(
+      `SELECT normalized_query AS query, COUNT(*)::int AS searches, MAX(created_at) AS last_searched_at
+       FROM search_logs WHERE ${where} AND normalized_query IS NOT NULL AND results_count = 0
+       GROUP BY normalized_query
+       ORDER BY searches DESC, last_searched_at DESC
+       LIMIT ${TOP_LIMIT}`,
+      params
+    ),
+    query(
+      `WITH spots AS (
+         SELECT LOWER(TRIM(location_area)) AS area, category,
+                COUNT(*)::int AS searches,
+                COUNT(*) FILTER (WHERE results_count = 0)::int AS zero_result_searches
+         FROM search_logs WHERE ${where} AND location_area IS NOT NULL
+         GROUP BY 1, 2
+         ORDER BY searches DESC
+         LIMIT ${HOT_SPOT_LIMIT}
+       )
+       SELECT s.*,
+              (SELECT COUNT(*)::int FROM lost_items l
+               WHERE LOWER(TRIM(l.location_area)) = s.area
+                 AND (s.category IS NULL OR l.category::text = s.category)
+                 AND l.created_at > NOW() - make_interval(days => $1)) AS lost_reports,
+              (SELECT COUNT(*)::int FROM found_items f
+               WHERE LOWER(TRIM(f.location_area)) = s.area
+                 AND (s.category IS NULL OR f.category::text = s.category)
+                 AND f.created_at > NOW() - make_interval(days => $1)) AS found_reports
+       FROM spots s
+       ORDER BY s.searches DESC, s.area`,
+      params
+    ),
+    query(
+      `WITH top_spots AS (
+         SELECT LOWER(TRIM(location_area)) AS area, category
+         FROM search_logs WHERE ${where} AND location_area IS NOT NULL
+         GROUP BY 1, 2
+         ORDER BY COUNT(*) DESC
+         LIMIT ${TIMELINE_SPOTS}
+       )
+       SELECT date_trunc('week', sl.created_at)::date AS week, t.area, t.category,
+              COUNT(*)::int AS searches,
+              COUNT(*) FILTER (WHERE sl.results_count = 0)::int AS zero_result_searches
+       FROM search_logs sl
+       JOIN top_spots t ON LOWER(TRIM(sl.location_area)) = t.area
+                       AND sl.category IS NOT DISTINCT FROM t.category
+       WHERE ${inWindow('sl.')}
+       GROUP BY 1, 2, 3
+       ORDER BY week, t.area, t.category`,
+      params
+    )
+  ]);
+
+  const summary = totals.rows[0];
+  return {
+    days,
+    item_type: itemType ? itemType.toUpperCase() : null,
+    totals: {
+      ...summary,
+      zero_result_rate: summary.searches > 0
+        ? Math.round((summary.zero_result_searches / summary.searches) * 1000) / 1000
+        : null
+    },
+    top_queries: topQueries.rows,
+    zero_result_queries: zeroResultQueries.rows,
+    hot_spots: hotSpots.rows.map(row => ({
+      ...row,
+      searches_per_found_item: Math.round((row.searches / Math.max(row.found_reports, 1)) * 10) / 10
+    })),
+    timeline: timeline.rows
+  };
+}
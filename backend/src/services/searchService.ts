@@ -0,0 +1,536 @@
+/**
+ * Search Service for Byaboneka+
+ *
+ * Shared filter builder for the item listings, and ranked full-text search
+ * over lost and found items. Queries are matched against each item's
+ * weighted search_vector (title > keywords > description) with prefix terms
+ * expanded through the trilingual dictionary, and pg_trgm word similarity
+ * catches misspellings. Results can be ordered by relevance, recency or
+ * distance from an area, and carry highlighted title/description fragments.
+ * Listings and searches can also return facet counts, so filter options
+ * show how many items each would leave. Unified search runs the same query
+ * over both tables at once and merges the results into one ranking.
+ */
+
+import { query } from '../config/database';
+import {
+  foldAccents,
+  lookupKeyword,
+  escapeLikePattern,
+  keywordSimilarity,
+  KEYWORD_SIMILARITY_THRESHOLD,
+  areasByDistance
+} from '../utils';
+import { redactItemList } from './sensitiveRedactionService';
+
+export type ItemType = 'lost' | 'found';
+export type SearchSort = 'relevance' | 'newest' | 'closest';
+
+export const MAX_SEARCH_TERMS = 8;
+export const HIGHLIGHT_START = '<mark>';
+export const HIGHLIGHT_END = '</mark>';
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD = 40;
+
+interface ItemTable {
+  table: string;
+  alias: string;
+  dateColumn: string;
+  defaultStatus: string;
+}
+
+export const ITEM_TABLES: Record<ItemType, ItemTable> = {
+  lost: { table: 'lost_items', alias: 'l', dateColumn: 'lost_date', defaultStatus: 'ACTIVE' },
+  found: { table: 'found_items', alias: 'f', dateColumn: 'found_date', defaultStatus: 'UNCLAIMED' },
+};
+
+export interface ItemFilters {
+  status?: string;
+  category?: string;
+  location_area?: string;
+  date_from?: string;
+  date_to?: string;
+  keyword?: string;
+}
+
+export interface SearchParams extends ItemFilters {
+  q: string;
+  sort?: SearchSort;
+  near?: string;
+  limit: number;
+  offset: number;
+}
+
+export interface UnifiedSearchParams extends Omit<ItemFilters, 'status' | 'keyword'> {
+  q?: string;
+  type?: ItemType;
+  sort?: SearchSort;
+  near?: string;
+  // Only items within this distance bucket of `near` (0 = same area,
+  // 1 = adjacent, 2 = same district)
+  max_distance?: number;
+  limit: number;
+  offset: number;
+}
+
+export interface SearchTerm {
+  term: string;
+  variants: string[];
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface ItemFacets {
+  category: FacetCount[];
+  location_area: FacetCount[];
+  status: FacetCount[];
+  // Week starts (Monday, YYYY-MM-DD) by the item's lost/found date
+  date: FacetCount[];
+}
+
+export const FACET_AREA_LIMIT = 20;
+export const FACET_WEEKS = 12;
+
+// ============================================
+// FILTERS
+// ============================================
+
+/**
+ * WHERE conditions for the public item listings. Values are appended to
+ * `params` and referenced by position, so callers can keep adding their own
+ * conditions afterwards. Public views only see open items unless a status
+ * is asked for; `anyStatus` drops the status condition altogether (for
+ * counting items per status).
+ */
+export function buildItemFilters(
+  type: ItemType,
+  filters: ItemFilters,
+  params: any[],
+  options: { anyStatus?: boolean } = {}
+): string[] {
+  const { alias, dateColumn, defaultStatus } = ITEM_TABLES[type];
+  const conditions: string[] = [];
+
+  if (options.anyStatus) {
+    // No status condition
+  } else if (filters.status) {
+    params.push(filters.status);
+    conditions.push(`${alias}.status = $${params.length}`);
+  } else {
+    conditions.push(`${alias}.status = '${defaultStatus}'`);
+  }
+
+  if (filters.category) {
+    params.push(filters.category);
+    conditions.push(`${alias}.category = $${params.length}`);
+  }
+
+  if (filters.location_area) {
+    params.push(`%${escapeLikePattern(String(filters.location_area))}%`);
+    conditions.push(`LOWER(${alias}.location_area) LIKE LOWER($${params.length})`);
+  }
+
+  if (filters.date_from) {
+    params.push(filters.date_from);
+    conditions.push(`${alias}.${dateColumn} >= $${params.length}`);
+  }
+
+  if (filters.date_to) {
+    params.push(filters.date_to);
+    conditions.push(`${alias}.${dateColumn} <= $${params.length}`);
+  }
+
+  if (filters.keyword) {
+    const keyword = String(filters.keyword);
+    params.push(`%${escapeLikePattern(keyword)}%`, keyword.toLowerCase().trim());
+    const pattern = `$${params.length - 1}`;
+    conditions.push(`(
+      LOWER(${alias}.title) LIKE LOWER(${pattern}) OR
+      LOWER(${alias}.description) LIKE LOWER(${pattern}) OR
+      $${params.length} = ANY(${alias}.keywords)
+    )`);
+  }
+
+  return conditions;
+}
+
+// ============================================
+// QUERY PARSING
+// ============================================
+
+/**
+ * Split a free-text query into search terms. Each term also carries its
+ * dictionary translations so "wallet" finds "agakapu" and "portefeuille".
+ */
+export function parseSearchQuery(q: string): SearchTerm[] {
+  const words = foldAccents(q.toLowerCase())
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length >= 2);
+
+  const terms: SearchTerm[] = [];
+  for (const word of Array.from(new Set(words)).slice(0, MAX_SEARCH_TERMS)) {
+    const entry = lookupKeyword(word);
+    const variants = new Set([word]);
+    if (entry) {
+      for (const variant of [entry.canonical, ...entry.variants]) {
+        const folded = foldAccents(variant.toLowerCase());
+        // Multi-word variants cannot be a single tsquery lexeme
+        if (/^[a-z0-9]+$/.test(folded)) variants.add(folded);
+      }
+    }
+    terms.push({ term: word, variants: Array.from(variants) });
+  }
+  return terms;
+}
+
+// Every term must match (as a prefix), in any of its translations:
+// "black phone" -> "(black:* | umukara:* | noir:*) & (phone:* | telefone:*)"
+export function buildTsQuery(terms: SearchTerm[]): string {
+  return terms
+    .map(term => `(${term.variants.map(variant => `${variant}:*`).join(' | ')})`)
+    .join(' & ');
+}
+
+// ============================================
+// HIGHLIGHTING
+// ============================================
+
+function wordMatches(word: string, terms: SearchTerm[]): boolean {
+  const folded = foldAccents(word.toLowerCase());
+  return terms.some(term => term.variants.some(variant =>
+    folded.startsWith(variant)
+    || (variant.length >= 4 && keywordSimilarity(folded, variant) >= KEYWORD_SIMILARITY_THRESHOLD)
+  ));
+}
+
+function markWords(text: string, terms: SearchTerm[]): { marked: string; firstMatch: number } {
+  let firstMatch = -1;
+  let position = 0;
+  const marked = text.split(/([\p{L}\p{N}]+)/u).map((part, i) => {
+    const start = position;
+    position += part.length;
+    // Odd parts are words, even parts the text between them
+    if (i % 2 === 0 || !wordMatches(part, terms)) return part;
+    if (firstMatch < 0) firstMatch = start;
+    return `${HIGHLIGHT_START}${part}${HIGHLIGHT_END}`;
+  }).join('');
+  return { marked, firstMatch };
+}
+
+// Wrap every word matching a search term in highlight markers
+export function highlightText(text: string, terms: SearchTerm[]): string {
+  return markWords(text, terms).marked;
+}
+
+/**
+ * A short highlighted fragment of `text` around the first match, with
+ * ellipses where it was cut. Null when nothing in the text matches.
+ */
+export function highlightFragment(
+  text: string,
+  terms: SearchTerm[],
+  maxLength: number = SNIPPET_LENGTH
+): string | null {
+  const { firstMatch } = markWords(text, terms);
+  if (firstMatch < 0) return null;
+
+  let start = Math.max(0, firstMatch - SNIPPET_LEAD);
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    start = space >= 0 && space < firstMatch ? space + 1 : firstMatch;
+  }
+  let end = Math.min(text.length, start + maxLength);
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > firstMatch) end = space;
+  }
+
+  const fragment = highlightText(text.slice(start, end).trim(), terms);
+  return `${start > 0 ? '…' : ''}${fragment}${end < text.length ? '…' : ''}`;
+}
+
+// ============================================
+// RANKED SEARCH
+// ============================================
+
+function selectColumns(type: ItemType): string {
+  if (type === 'lost') {
+    return `l.id, l.user_id, l.category, l.title, l.description, l.location_area,
+            l.location_hint, l.lost_date, l.status, l.photo_url, l.created_at,
+            u.name as user_name`;
+  }
+  return `f.id, f.finder_id, f.category, f.title,
+          CASE WHEN f.category IN ('ID', 'WALLET') THEN LEFT(f.description, 100) || '...' ELSE f.description END as description,
+          f.location_area, f.found_date, f.status, f.source,
+          CASE WHEN f.category IN ('ID', 'WALLET') THEN f.redacted_image_urls ELSE f.image_urls END as image_urls,
+          f.created_at, u.name as finder_name, c.name as cooperative_name`;
+}
+
+function fromClause(type: ItemType): string {
+  if (type === 'lost') {
+    return 'FROM lost_items l JOIN users u ON l.user_id = u.id';
+  }
+  return `FROM found_items f
+          JOIN users u ON f.finder_id = u.id
+          LEFT JOIN cooperatives c ON f.cooperative_id = c.id`;
+}
+
+/**
+ * Full-text or fuzzy title/description match, and the matching relevance:
+ * the weighted full-text rank plus trigram word similarity on title and
+ * description. Ranks from either table are on the same scale.
+ */
+function buildTextMatch(
+  type: ItemType,
+  terms: SearchTerm[],
+  values: any[]
+): { condition: string; relevance: string } {
+  const { alias } = ITEM_TABLES[type];
+  values.push(buildTsQuery(terms), terms.map(term => term.term).join(' '));
+  const tsQuery = `to_tsquery('simple', $${values.length - 1})`;
+  const text = `$${values.length}`;
+  return {
+    condition: `(
+    ${alias}.search_vector @@ ${tsQuery}
+    OR ${text} <% ${alias}.title
+    OR ${text} <% ${alias}.description
+  )`,
+    relevance: `(ts_rank_cd(${alias}.search_vector, ${tsQuery}, 32)
+    + 0.5 * word_similarity(${text}, ${alias}.title)
+    + 0.25 * word_similarity(${text}, ${alias}.description))`
+  };
+}
+
+// Distance bucket of each item's area from `near`: 0 (same area) to 3
+function buildDistance(alias: string, near: string, values: any[]): string {
+  const groups = areasByDistance(near);
+  const cases = groups.map((areas, bucket) => {
+    values.push(areas);
+    return `WHEN LOWER(TRIM(${alias}.location_area)) = ANY($${values.length}) THEN ${bucket}`;
+  });
+  return `CASE ${cases.join(' ')} ELSE ${groups.length} END`;
+}
+
+/**
+ * Ranked search over one item table. Relevance combines the weighted
+ * full-text rank with trigram word similarity on title and description;
+ * "closest" orders by distance bucket from `near`, then relevance.
+ * Text is redacted before highlighting so fragments never leak masked
+ * numbers. Owners (userId) see their own items unredacted.
+ */
+export async function searchItems(
+  type: ItemType,
+  params: SearchParams,
+  userId?: number
+): Promise<{ items: any[]; total: number }> {
+  const terms = parseSearchQuery(params.q);
+  if (terms.length === 0) return { items: [], total: 0 };
+
+  const { alias } = ITEM_TABLES[type];
+  const values: any[] = [];
+  const conditions = buildItemFilters(type, params, values);
+
+  const { condition, relevance } = buildTextMatch(type, terms, values);
+  conditions.push(condition);
+  const whereClause = `WHERE ${conditions.join(' AND ')}`;
+
+  const countResult = await query(
+    `SELECT COUNT(*) FROM ${ITEM_TABLES[type].table} ${alias} ${whereClause}`,
+    values
+  );
+  const total = parseInt(countResult.rows[0].count);
+
+  const distance = params.near ? buildDistance(alias, params.near, values) : 'NULL::int';
+
+  const orderBy = params.sort === 'newest'
+    ? `${alias}.created_at DESC`
+    : params.sort === 'closest'
+      ? `distance ASC, relevance DESC, ${alias}.created_at DESC`
+      : `relevance DESC, ${alias}.created_at DESC`;
+
+  const result = await query(
+    `SELECT ${selectColumns(type)},
+            ROUND(${relevance}::numeric, 4)::float AS relevance,
+            ${distance} AS distance
+     ${fromClause(type)}
+     ${whereClause}
+     ORDER BY ${orderBy}
+     LIMIT $${values.length + 1} OFFSET $${values.length + 2}`,
+    [...values, params.limit, params.offset]
+  );
+
+  const items = redactItemList(result.rows, userId).map(({ user_id, finder_id, ...item }) => ({
+    ...item,
+    highlights: {
+      title: highlightText(item.title, terms),
+      description: item.description ? highlightFragment(item.description, terms) : null,
+    },
+  }));
+
+  return { items, total };
+}
+
+// ============================================
+// UNIFIED SEARCH
+// ============================================
+
+// Columns shared by both tables so their rows can be UNIONed; either table
+// can come first, so both name every column. The statuses are different
+// enums, so enum columns go out as text
+function unifiedColumns(type: ItemType): string {
+  if (type === 'lost') {
+    return `l.id, 'lost' AS item_type, l.user_id, NULL::int AS finder_id, l.category::text AS category, l.title,
+            l.description, l.location_area, l.lost_date AS item_date, l.status::text AS status,
+            CASE WHEN l.photo_url IS NULL THEN ARRAY[]::text[] ELSE ARRAY[l.photo_url] END AS image_urls,
+            NULL::varchar AS source, l.created_at, u.name AS posted_by, NULL::varchar AS cooperative_name`;
+  }
+  return `f.id, 'found' AS item_type, NULL::int AS user_id, f.finder_id, f.category::text AS category, f.title,
+          CASE WHEN f.category IN ('ID', 'WALLET') THEN LEFT(f.description, 100) || '...' ELSE f.description END AS description,
+          f.location_area, f.found_date AS item_date, f.status::text AS status,
+          CASE WHEN f.category IN ('ID', 'WALLET') THEN f.redacted_image_urls ELSE f.image_urls END AS image_urls,
+          f.source::varchar AS source, f.created_at, u.name AS posted_by, c.name AS cooperative_name`;
+}
+
+/**
+ * Search lost and found items together. Each table gets the same filters,
+ * text match and distance buckets; the rows are merged with UNION ALL and
+ * ranked as one list, each tagged with its item_type. Without a query all
+ * relevance is 0, so the default order falls back to closest (with `near`)
+ * or newest - "everything near Remera this week" needs no search text.
+ */
+export async function searchAllItems(
+  params: UnifiedSearchParams,
+  userId?: number
+): Promise<{ items: any[]; total: number }> {
+  const terms = params.q ? parseSearchQuery(params.q) : [];
+  if (params.q && terms.length === 0) return { items: [], total: 0 };
+
+  const types: ItemType[] = params.type ? [params.type] : ['lost', 'found'];
+  const values: any[] = [];
+  const nearby = params.near !== undefined && params.max_distance !== undefined
+    ? areasByDistance(params.near).slice(0, params.max_distance + 1).flat()
+    : null;
+
+  const filtered = types.map(type => {
+    const { table, alias } = ITEM_TABLES[type];
+    const conditions = buildItemFilters(type, params, values);
+    let relevance = '0';
+    if (terms.length > 0) {
+      const match = buildTextMatch(type, terms, values);
+      conditions.push(match.condition);
+      relevance = match.relevance;
+    }
+    if (nearby) {
+      values.push(nearby);
+      conditions.push(`LOWER(TRIM(${alias}.location_area)) = ANY($${values.length})`);
+    }
+    return { type, table, alias, relevance, whereClause: `WHERE ${conditions.join(' AND ')}` };
+  });
+
+  const countResult = await query(
+    `SELECT ${filtered.map(({ table, alias, whereClause }) =>
+      `(SELECT COUNT(*) FROM ${table} ${alias} ${whereClause})`).join(' + ')} AS count`,
+    values
+  );
+  const total = parseInt(countResult.rows[0].count);
+
+  const sort = params.sort || (terms.length > 0 ? 'relevance' : params.near ? 'closest' : 'newest');
+  const orderBy = sort === 'newest'
+    ? 'created_at DESC'
+    : sort === 'closest'
+      ? 'distance ASC, relevance DESC, created_at DESC'
+      : 'relevance DESC, created_at DESC';
+
+  // Distance buckets only appear in the rows, so their params come after
+  // the filters the count shares
+  const rowValues = [...values];
+  const branches = filtered.map(({ type, alias, relevance, whereClause }) => {
+    const distance = params.near ? buildDistance(alias, params.near, rowValues) : 'NULL::int';
+    return `SELECT ${unifiedColumns(type)},
+                   ROUND(${relevance}::numeric, 4)::float AS relevance,
+                   ${distance} AS distance
+            ${fromClause(type)}
+            ${whereClause}`;
+  });
+
+  const result = await query(
+    `SELECT * FROM (${branches.join(' UNION ALL ')}) items
+     ORDER BY ${orderBy}, item_type, id DESC
+     LIMIT $${rowValues.length + 1} OFFSET $${rowValues.length + 2}`,
+    [...rowValues, params.limit, params.offset]
+  );
+
+  const items = redactItemList(result.rows, userId).map(({ user_id, finder_id, ...item }) => ({
+    ...item,
+    highlights: terms.length > 0
+      ? {
+          title: highlightText(item.title, terms),
+          description: item.description ? highlightFragment(item.description, terms) : null,
+        }
+      : null,
+  }));
+
+  return { items, total };
+}
+
+// ============================================
+// FACETS
+// ============================================
+
+/**
+ * Item counts per category, area, status and week, for the same filters
+ * (and free-text query, when searching) as the listing they accompany.
+ * Each facet ignores its own filter, so the counts answer "how many would
+ * I get if I picked this instead" rather than collapsing to the current
+ * selection. The weekly histogram covers the last FACET_WEEKS weeks.
+ */
+export async function getItemFacets(
+  type: ItemType,
+  filters: ItemFilters & { q?: string }
+): Promise<ItemFacets> {
+  const { table, alias, dateColumn } = ITEM_TABLES[type];
+  const terms = filters.q ? parseSearchQuery(filters.q) : [];
+
+  const facetQuery = (
+    groupBy: string,
+    without: Partial<ItemFilters>,
+    extra: string = '',
+    orderBy: string = 'count DESC, value'
+  ) => {
+    const values: any[] = [];
+    const conditions = buildItemFilters(type, { ...filters, ...without }, values, {
+      anyStatus: 'status' in without
+    });
+    if (terms.length > 0) conditions.push(buildTextMatch(type, terms, values).condition);
+    if (extra) conditions.push(extra);
+    return query(
+      `SELECT ${groupBy} AS value, COUNT(*)::int AS count
+       FROM ${table} ${alias}
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       GROUP BY 1
+       ORDER BY ${orderBy}`,
+      values
+    );
+  };
+
+  const [category, area, status, date] = await Promise.all([
+    facetQuery(`${alias}.category`, { category: undefined }),
+    facetQuery(`LOWER(TRIM(${alias}.location_area))`, { location_area: undefined },
+      `${alias}.location_area IS NOT NULL`, `count DESC, value LIMIT ${FACET_AREA_LIMIT}`),
+    facetQuery(`${alias}.status`, { status: undefined }),
+    facetQuery(`to_char(date_trunc('week', ${alias}.${dateColumn}), 'YYYY-MM-DD')`,
+      { date_from: undefined, date_to: undefined },
+      `${alias}.${dateColumn} >= date_trunc('week', NOW()) - make_interval(weeks => ${FACET_WEEKS - 1})`,
+      'value')
+  ]);
+
+  return {
+    category: category.rows,
+    location_area: area.rows,
+    status: status.rows,
+    date: date.rows
+  };
+}
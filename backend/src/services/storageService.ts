@@ -0,0 +1,266 @@
+/**
+ * Upload Storage Service for Byaboneka+
+ *
+ * Item photos go through a storage driver instead of straight to disk, so
+ * the API can run on an ephemeral disk (Render) or as several instances:
+ *
+ *   STORAGE_DRIVER=local     files under UPLOAD_PATH (default, development)
+ *   STORAGE_DRIVER=s3        AWS S3, MinIO, R2... (see s3StorageDriver.ts)
+ *   STORAGE_DRIVER=database  bytes in the stored_files table
+ *
+ * Whatever the driver, items keep referencing files as `/uploads/<key>` and
+ * the API serves that path (filesController.serveUpload). Keys under
+ * `private/` hold photos that must not be publicly reachable - lost item
+ * photos and found IDs and wallets. Their references are handed out with an
+ * expiring HMAC signature (signFileUrl) and refused without one.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { query } from '../config/database';
+import { createS3Driver } from './s3StorageDriver';
+import { ImageSize, ProcessedImage } from './imageProcessingService';
+
+export interface StoredObject {
+  body: Buffer;
+  contentType: string;
+}
+
+export interface StorageDriver {
+  name: string;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredObject | null>;
+  delete(key: string): Promise<void>;
+  // Drivers that can hand out their own short-lived URLs (S3) let the API
+  // redirect instead of proxying the bytes
+  directUrl?(key: string, expiresInSeconds: number): string;
+}
+
+export const UPLOAD_URL_PREFIX = '/uploads/';
+export const PRIVATE_KEY_PREFIX = 'private/';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp'
+};
+
+export function contentTypeFor(key: string): string {
+  return CONTENT_TYPES[path.extname(key).toLowerCase()] || 'application/octet-stream';
+}
+
+// Keys come from URLs: no absolute paths, no climbing out of the store
+export function isValidKey(key: string): boolean {
+  return key.length > 0 && !key.startsWith('/') && !key.split('/').some(part => part === '' || part === '.' || part === '..');
+}
+
+// ============================================
+// DRIVERS
+// ============================================
+
+export function createLocalDriver(root: string): StorageDriver {
+  const resolve = (key: string) => path.join(path.resolve(root), ...key.split('/'));
+
+  return {
+    name: 'local',
+
+    async put(key: string, body: Buffer): Promise<void> {
+      const file = resolve(key);
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      await fs.promises.writeFile(file, body);
+    },
+
+    async get(key: string): Promise<StoredObject | null> {
+      try {
+        return { body: await fs.promises.readFile(resolve(key)), contentType: contentTypeFor(key) };
+      } catch (error: any) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async delete(key: string): Promise<void> {
+      await fs.promises.rm(resolve(key), { force: true });
+    }
+  };
+}
+
+// Small deployments without object storage: photos live next to the data
+export function createDatabaseDriver(): StorageDriver {
+  return {
+    name: 'database',
+
+    async put(key: string, body: Buffer, contentType: string): Promise<void> {
+      await query(
+        `INSERT INTO stored_files (key, content_type, size, data)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (key) DO UPDATE SET content_type = $2, size = $3, data = $4, created_at = NOW()`,
+        [key, contentType, body.length, body]
+      );
+    },
+
+    async get(key: string): Promise<StoredObject | null> {
+      const result = await query('SELECT content_type, data FROM stored_files WHERE key = $1', [key]);
+      if (result.rows.length === 0) return null;
+      return { body: result.rows[0].data, contentType: result.rows[0].content_type };
+    },
+
+    async delete(key: string): Promise<void> {
+      await query('DELETE FROM stored_files WHERE key = $1', [key]);
+    }
+  };
+}
+
+let _storage: StorageDriver | null = null;
+
+export function createStorageDriver(name: string = process.env.STORAGE_DRIVER || 'local'): StorageDriver {
+  switch (name) {
+    case 'local':
+      return createLocalDriver(process.env.UPLOAD_PATH || './uploads');
+    case 'database':
+      return createDatabaseDriver();
+    case 's3': {
+      const missing = ['S3_BUCKET', 'S3_ACCESS_KEY_ID', 'S3_SECRET_ACCESS_KEY'].filter(name => !process.env[name]);
+      if (missing.length > 0) {
+        throw new Error(`STORAGE_DRIVER=s3 needs ${missing.join(', ')}`);
+      }
+      return createS3Driver({
+        endpoint: process.env.S3_ENDPOINT || `https://s3.${process.env.S3_REGION || 'us-east-1'}.amazonaws.com`,
+        region: process.env.S3_REGION || 'us-east-1',
+        bucket: process.env.S3_BUCKET!,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID!,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY!,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+        publicEndpoint: process.env.S3_PUBLIC_ENDPOINT || undefined
+      });
+    }
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${name}" (expected local, s3 or database)`);
+  }
+}
+
+export function getStorage(): StorageDriver {
+  if (!_storage) {
+    _storage = createStorageDriver();
+  }
+  return _storage;
+}
+
+// ============================================
+// UPLOADS
+// ============================================
+
+export function keyFromUrl(url: string): string | null {
+  if (!url.startsWith(UPLOAD_URL_PREFIX)) return null;
+  try {
+    const key = decodeURIComponent(url.slice(UPLOAD_URL_PREFIX.length).split('?')[0]);
+    return isValidKey(key) ? key : null;
+  } catch {
+    return null;
+  }
+}
+
+export function isPrivateKey(key: string): boolean {
+  return key.startsWith(PRIVATE_KEY_PREFIX);
+}
+
+export function newUploadKey(originalName: string, isPrivate: boolean): string {
+  const ext = path.extname(originalName).toLowerCase();
+  return `${isPrivate ? PRIVATE_KEY_PREFIX : ''}${uuidv4()}${ext}`;
+}
+
+// private/abc.jpg -> private/abc_thumb.webp
+export function variantKey(key: string, size: ImageSize): string {
+  const ext = path.extname(key);
+  return `${key.slice(0, key.length - ext.length)}_${size}.webp`;
+}
+
+/**
+ * Where an existing reference should live under the current rules, for
+ * the storage migration. Accepts legacy absolute URLs
+ * (https://api.example/uploads/x.jpg); null for anything that is not an
+ * upload reference (e.g. an external photo_url).
+ */
+export function migratedKey(url: string, isPrivate: boolean): { from: string; to: string } | null {
+  const match = url.match(/^(?:https?:\/\/[^/]+)?(\/uploads\/.*)$/);
+  const from = match ? keyFromUrl(match[1]) : null;
+  if (!from) return null;
+  if (!isPrivate || isPrivateKey(from)) return { from, to: from };
+  return { from, to: `${PRIVATE_KEY_PREFIX}${from}` };
+}
+
+export interface StoredImage {
+  url: string;
+  phash: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Store processed photos with their medium and thumbnail copies and
+ * return the references to save on the item. Private uploads are only
+ * reachable through signed URLs.
+ */
+export async function storeUploads(images: ProcessedImage[], options: { private: boolean }): Promise<StoredImage[]> {
+  const storage = getStorage();
+  const stored: StoredImage[] = [];
+  for (const image of images) {
+    const key = newUploadKey(`upload${image.ext}`, options.private);
+    await storage.put(key, image.original, image.contentType);
+    for (const [size, body] of Object.entries(image.variants) as Array<[ImageSize, Buffer]>) {
+      await storage.put(variantKey(key, size), body, 'image/webp');
+    }
+    stored.push({ url: `${UPLOAD_URL_PREFIX}${key}`, phash: image.phash, width: image.width, height: image.height });
+  }
+  return stored;
+}
+
+// ============================================
+// SIGNED URLS
+// ============================================
+
+const DEFAULT_SIGNED_URL_TTL = 15 * 60;
+
+export function signedUrlTtl(): number {
+  return parseInt(process.env.SIGNED_URL_TTL_SECONDS || '', 10) || DEFAULT_SIGNED_URL_TTL;
+}
+
+function urlSecret(): string {
+  const secret = process.env.STORAGE_URL_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('STORAGE_URL_SECRET or JWT_SECRET must be set to sign private file URLs');
+  }
+  return secret;
+}
+
+function fileSignature(key: string, expires: number): string {
+  return crypto.createHmac('sha256', urlSecret()).update(`${key}:${expires}`).digest('hex');
+}
+
+/**
+ * Expiring URL for a stored photo. Public references come back unchanged,
+ * so callers can pass every image through this.
+ */
+export function signFileUrl(url: string, ttlSeconds: number = signedUrlTtl(), now: number = Date.now()): string {
+  const key = keyFromUrl(url);
+  if (!key || !isPrivateKey(key)) return url;
+  const expires = Math.floor(now / 1000) + ttlSeconds;
+  return `${UPLOAD_URL_PREFIX}${key}?expires=${expires}&signature=${fileSignature(key, expires)}`;
+}
+
+export function signFileUrls(urls: string[] | null | undefined): string[] {
+  return (urls || []).map(url => signFileUrl(url));
+}
+
+export function verifyFileSignature(key: string, expires: unknown, signature: unknown, now: number = Date.now()): boolean {
+  if (typeof expires !== 'string' || typeof signature !== 'string') return false;
+  const expiresAt = parseInt(expires, 10);
+  if (!expiresAt || expiresAt * 1000 < now) return false;
+
+  const expected = Buffer.from(fileSignature(key, expiresAt));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+}
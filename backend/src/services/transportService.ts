@@ -0,0 +1,186 @@
+/**
+ * Transport Service for Byaboneka+
+ *
+ * Cooperatives register the routes they run (with stops in travel order)
+ * and their vehicles. Lost and found reports reference them so the
+ * matcher can reward a shared vehicle or route (see matchingService.ts).
+ */
+
+import { query } from '../config/database';
+import { CooperativeRoute, CooperativeVehicle, TransportContext } from '../types';
+import { normalizePlateNumber } from '../utils';
+
+// ============================================
+// REGISTRY
+// ============================================
+
+export async function listRoutes(cooperativeId: number, includeInactive: boolean = false): Promise<CooperativeRoute[]> {
+  const result = await query(
+    `SELECT * FROM cooperative_routes
+     WHERE cooperative_id = $1 ${includeInactive ? '' : 'AND is_active = TRUE'}
+     ORDER BY name`,
+    [cooperativeId]
+  );
+  return result.rows;
+}
+
+export async function listVehicles(cooperativeId: number, includeInactive: boolean = false): Promise<Array<CooperativeVehicle & { route_name: string | null }>> {
+  const result = await query(
+    `SELECT v.*, r.name AS route_name
+     FROM cooperative_vehicles v
+     LEFT JOIN cooperative_routes r ON v.route_id = r.id
+     WHERE v.cooperative_id = $1 ${includeInactive ? '' : 'AND v.is_active = TRUE'}
+     ORDER BY v.plate_number`,
+    [cooperativeId]
+  );
+  return result.rows;
+}
+
+export async function createRoute(
+  cooperativeId: number,
+  data: { name: string; stops: string[] },
+  createdBy: number
+): Promise<{ success: boolean; message: string; route?: CooperativeRoute }> {
+  const result = await query(
+    `INSERT INTO cooperative_routes (cooperative_id, name, stops, created_by)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (cooperative_id, name) DO NOTHING
+     RETURNING *`,
+    [cooperativeId, data.name.trim(), data.stops.map(stop => stop.trim()), createdBy]
+  );
+
+  if (result.rows.length === 0) {
+    return { success: false, message: 'This cooperative already has a route with that name' };
+  }
+  return { success: true, message: 'Route registered', route: result.rows[0] };
+}
+
+export async function createVehicle(
+  cooperativeId: number,
+  data: { plate_number: string; route_id?: number; description?: string },
+  createdBy: number
+): Promise<{ success: boolean; message: string; vehicle?: CooperativeVehicle }> {
+  if (data.route_id) {
+    const route = await query(
+      'SELECT id FROM cooperative_routes WHERE id = $1 AND cooperative_id = $2',
+      [data.route_id, cooperativeId]
+    );
+    if (route.rows.length === 0) {
+      return { success: false, message: 'Route is not registered to this cooperative' };
+    }
+  }
+
+  const result = await query(
+    `INSERT INTO cooperative_vehicles (cooperative_id, plate_number, route_id, description, created_by)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (plate_number) DO NOTHING
+     RETURNING *`,
+    [cooperativeId, normalizePlateNumber(data.plate_number), data.route_id || null, data.description || null, createdBy]
+  );
+
+  if (result.rows.length === 0) {
+    return { success: false, message: 'A vehicle with this plate number is already registered' };
+  }
+  return { success: true, message: 'Vehicle registered', vehicle: result.rows[0] };
+}
+
+// Retire a route or vehicle; reports that reference it keep their copy
+export async function setRegistryEntryActive(
+  kind: 'route' | 'vehicle',
+  cooperativeId: number,
+  entryId: number,
+  isActive: boolean
+): Promise<boolean> {
+  const table = kind === 'route' ? 'cooperative_routes' : 'cooperative_vehicles';
+  const result = await query(
+    `UPDATE ${table} SET is_active = $3, updated_at = NOW()
+     WHERE id = $1 AND cooperative_id = $2`,
+    [entryId, cooperativeId, isActive]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+// ============================================
+// REPORT CONTEXT
+// ============================================
+
+export interface TransportContextInput {
+  transport_cooperative_id?: number;
+  route_id?: number;
+  route_name?: string;
+  vehicle_plate?: string;
+  stop_sequence?: string[];
+}
+
+/**
+ * Turn the transport fields of a report into the columns to store.
+ * A registered route fills in the route name and cooperative, and a
+ * registered plate fills in whatever the reporter left out. When
+ * `staffCooperativeId` is given (coop staff logging for their cooperative)
+ * the route and vehicle must belong to that cooperative.
+ */
+export async function resolveTransportContext(
+  input: TransportContextInput,
+  staffCooperativeId?: number | null
+): Promise<{ success: boolean; message: string; context?: Required<TransportContext> }> {
+  const context: Required<TransportContext> = {
+    transport_cooperative_id: input.transport_cooperative_id ?? null,
+    route_id: input.route_id ?? null,
+    route_name: input.route_name?.trim() || null,
+    vehicle_plate: input.vehicle_plate ? normalizePlateNumber(input.vehicle_plate) || null : null,
+    stop_sequence: input.stop_sequence?.length ? input.stop_sequence.map(stop => stop.trim()) : null,
+  };
+
+  if (context.route_id) {
+    const routeResult = await query(
+      'SELECT id, cooperative_id, name, stops FROM cooperative_routes WHERE id = $1',
+      [context.route_id]
+    );
+    const route = routeResult.rows[0];
+    if (!route) {
+      return { success: false, message: 'Route not found' };
+    }
+    if (staffCooperativeId && route.cooperative_id !== staffCooperativeId) {
+      return { success: false, message: 'Route is not registered to your cooperative' };
+    }
+    if (context.transport_cooperative_id && context.transport_cooperative_id !== route.cooperative_id) {
+      return { success: false, message: 'Route does not belong to the selected cooperative' };
+    }
+    if (context.stop_sequence) {
+      const known = new Set((route.stops as string[]).map(stop => stop.toLowerCase()));
+      const unknown = context.stop_sequence.find(stop => !known.has(stop.toLowerCase()));
+      if (unknown) {
+        return { success: false, message: `"${unknown}" is not a stop on ${route.name}` };
+      }
+    }
+    context.route_name = route.name;
+    context.transport_cooperative_id = route.cooperative_id;
+  }
+
+  if (context.vehicle_plate) {
+    const vehicleResult = await query(
+      `SELECT v.cooperative_id, v.route_id, r.name AS route_name
+       FROM cooperative_vehicles v
+       LEFT JOIN cooperative_routes r ON v.route_id = r.id
+       WHERE v.plate_number = $1`,
+      [context.vehicle_plate]
+    );
+    const vehicle = vehicleResult.rows[0];
+    if (staffCooperativeId && vehicle?.cooperative_id !== staffCooperativeId) {
+      return { success: false, message: 'Vehicle is not registered to your cooperative' };
+    }
+    if (vehicle) {
+      context.transport_cooperative_id = context.transport_cooperative_id ?? vehicle.cooperative_id;
+      if (!context.route_id && !context.route_name && vehicle.route_id) {
+        context.route_id = vehicle.route_id;
+        context.route_name = vehicle.route_name;
+      }
+    }
+  }
+
+  if (staffCooperativeId) {
+    context.transport_cooperative_id = context.transport_cooperative_id ?? staffCooperativeId;
+  }
+
+  return { success: true, message: 'ok', context };
+}
@@ -1,22 +1,32 @@
 /**
  * Verification Cooldown Service for Byaboneka+
  * 
- * Implements CLAIM-04/05: Progressive cooldown for failed verification attempts
- * - 1 hour after first failure
- * - 4 hours after second failure
- * - 24 hours after third failure
+ * The one verification policy: every route that shows questions goes
+ * through checkCooldownStatus; checking answers first reserves the attempt
+ * through reserveVerificationAttempt, then records it through
+ * recordVerificationAttempt.
+ * - Attempts per claim per 24 hours follow the claimant's trust level
+ *   (getClaimAttemptLimit): 1 while restricted, 7 once trusted, none while
+ *   suspended
+ * - Consecutive failures back off exponentially (CLAIM-04/05): 1 hour
+ *   after the first, 4 after the second, a full day from the third on
+ * - A pass resets the backoff
+ * - A reserved attempt holds the claim as if it had failed until it is
+ *   recorded, so answers sent at the same time are checked one at a time
  */
 
-import { query } from '../config/database';
+import { QueryResult } from 'pg';
+import { query, transaction } from '../config/database';
+import { TrustLevel } from '../types';
+import { getClaimAttemptLimit, getTrustLevel } from '../utils';
 
-// Cooldown durations in milliseconds
-const COOLDOWN_DURATIONS = {
-  1: 60 * 60 * 1000,        // 1 hour after 1 failure
-  2: 4 * 60 * 60 * 1000,    // 4 hours after 2 failures  
-  3: 24 * 60 * 60 * 1000    // 24 hours after 3 failures
-};
+const COOLDOWN_BASE_MS = 60 * 60 * 1000;
+const COOLDOWN_FACTOR = 4;
+const COOLDOWN_MAX_MS = 24 * 60 * 60 * 1000;
+// CLAIM-05: the third failure in a row already waits the full day
+const COOLDOWN_MAX_FROM_FAILURE = 3;
 
-const MAX_DAILY_ATTEMPTS = 3;
+const ATTEMPT_WINDOW_MS = 24 * 60 * 60 * 1000;
 
 export interface CooldownStatus {
   canAttempt: boolean;
@@ -24,15 +34,34 @@ export interface CooldownStatus {
   remainingSeconds: number;
   attemptsToday: number;
   failuresToday: number;
+  // Attempts allowed per 24 hours at the claimant's trust level
+  attemptLimit: number;
+  attemptsRemaining: number;
+  consecutiveFailures: number;
+  trustLevel: TrustLevel;
   message: string;
 }
 
+export interface AttemptReservation extends CooldownStatus {
+  // Set while the reserved attempt is being checked
+  heldUntil: Date | null;
+}
+
 export interface AttemptResult {
   attemptId: number;
   newCooldown: Date | null;
   consecutiveFailures: number;
 }
 
+// Backoff after a run of failures; no failures, no wait
+export function cooldownAfterFailures(consecutiveFailures: number): number {
+  if (consecutiveFailures <= 0) return 0;
+  if (consecutiveFailures >= COOLDOWN_MAX_FROM_FAILURE) return COOLDOWN_MAX_MS;
+  return Math.min(COOLDOWN_BASE_MS * COOLDOWN_FACTOR ** (consecutiveFailures - 1), COOLDOWN_MAX_MS);
+}
+
+type Run = (text: string, params?: any[]) => Promise<QueryResult>;
+
 /**
  * Check if a user can make a verification attempt for a specific claim
  */
@@ -40,11 +69,21 @@ export async function checkCooldownStatus(
   claimId: number,
   userId: number
 ): Promise<CooldownStatus> {
-  // Get claim cooldown info
-  const claimResult = await query(
-    `SELECT next_attempt_at, consecutive_failures 
-     FROM claims WHERE id = $1`,
-    [claimId]
+  return readCooldownStatus(query, claimId, userId, false);
+}
+
+async function readCooldownStatus(
+  run: Run,
+  claimId: number,
+  userId: number,
+  lock: boolean
+): Promise<CooldownStatus> {
+  const claimResult = await run(
+    `SELECT c.next_attempt_at, c.consecutive_failures, u.trust_score
+     FROM claims c
+     JOIN users u ON u.id = $2
+     WHERE c.id = $1${lock ? ' FOR UPDATE OF c' : ''}`,
+    [claimId, userId]
   );
   
   if (claimResult.rows.length === 0) {
@@ -52,75 +91,135 @@ export async function checkCooldownStatus(
   }
   
   const claim = claimResult.rows[0];
+  const trustLevel = getTrustLevel(claim.trust_score || 0);
+  const attemptLimit = getClaimAttemptLimit(trustLevel);
+  const consecutiveFailures = claim.consecutive_failures || 0;
+
+  const attemptsResult = await run(
+    `SELECT 
+       COUNT(*) as total_attempts,
+       COUNT(*) FILTER (WHERE attempt_status = 'FAILED') as failed_attempts,
+       MIN(attempt_at) as oldest_attempt
+     FROM verification_attempts
+     WHERE claim_id = $1 
+     AND attempt_at > NOW() - INTERVAL '24 hours'`,
+    [claimId]
+  );
   
-  // Check claim-level cooldown
+  const attemptsToday = parseInt(attemptsResult.rows[0].total_attempts);
+  const failuresToday = parseInt(attemptsResult.rows[0].failed_attempts);
+  const status = {
+    attemptsToday,
+    failuresToday,
+    attemptLimit,
+    attemptsRemaining: Math.max(0, attemptLimit - attemptsToday),
+    consecutiveFailures,
+    trustLevel
+  };
+
+  if (attemptLimit === 0) {
+    return {
+      ...status,
+      canAttempt: false,
+      cooldownUntil: null,
+      remainingSeconds: 0,
+      message: 'Your account is suspended from verifying claims.'
+    };
+  }
+
+  // Backoff after consecutive failures
   if (claim.next_attempt_at && new Date(claim.next_attempt_at) > new Date()) {
     const cooldownUntil = new Date(claim.next_attempt_at);
     const remainingMs = cooldownUntil.getTime() - Date.now();
     
     return {
+      ...status,
       canAttempt: false,
       cooldownUntil,
       remainingSeconds: Math.ceil(remainingMs / 1000),
-      attemptsToday: claim.consecutive_failures,
-      failuresToday: claim.consecutive_failures,
       message: formatCooldownMessage(remainingMs)
     };
   }
   
-  // Count attempts in last 24 hours
-  const attemptsResult = await query(
-    `SELECT 
-       COUNT(*) as total_attempts,
-       COUNT(*) FILTER (WHERE attempt_status = 'FAILED') as failed_attempts
-     FROM verification_attempts
-     WHERE claim_id = $1 
-     AND attempt_at > NOW() - INTERVAL '24 hours'`,
-    [claimId]
-  );
-  
-  const attemptsToday = parseInt(attemptsResult.rows[0].total_attempts);
-  const failuresToday = parseInt(attemptsResult.rows[0].failed_attempts);
-  
-  // Check max daily attempts
-  if (attemptsToday >= MAX_DAILY_ATTEMPTS) {
-    // Find when the oldest attempt expires
-    const oldestAttempt = await query(
-      `SELECT attempt_at FROM verification_attempts
-       WHERE claim_id = $1
-       ORDER BY attempt_at ASC
-       LIMIT 1`,
-      [claimId]
-    );
-    
-    if (oldestAttempt.rows.length > 0) {
-      const expiresAt = new Date(oldestAttempt.rows[0].attempt_at);
-      expiresAt.setHours(expiresAt.getHours() + 24);
-      const remainingMs = expiresAt.getTime() - Date.now();
-      
-      return {
-        canAttempt: false,
-        cooldownUntil: expiresAt,
-        remainingSeconds: Math.ceil(remainingMs / 1000),
-        attemptsToday,
-        failuresToday,
-        message: 'Maximum daily verification attempts reached. Please try again tomorrow.'
-      };
-    }
+  // Attempts in the last 24 hours; the oldest one frees a slot when it ages out
+  if (attemptsToday >= attemptLimit) {
+    const cooldownUntil = new Date(new Date(attemptsResult.rows[0].oldest_attempt).getTime() + ATTEMPT_WINDOW_MS);
+    const remainingMs = Math.max(0, cooldownUntil.getTime() - Date.now());
+
+    return {
+      ...status,
+      canAttempt: false,
+      cooldownUntil,
+      remainingSeconds: Math.ceil(remainingMs / 1000),
+      message: `Maximum daily verification attempts reached. ${formatCooldownMessage(remainingMs)}`
+    };
   }
   
   return {
+    ...status,
     canAttempt: true,
     cooldownUntil: null,
     remainingSeconds: 0,
-    attemptsToday,
-    failuresToday,
-    message: `You have ${MAX_DAILY_ATTEMPTS - attemptsToday} attempts remaining today.`
+    message: `You have ${status.attemptsRemaining} attempt${status.attemptsRemaining === 1 ? '' : 's'} remaining today.`
   };
 }
 
 /**
- * Record a verification attempt and calculate new cooldown if failed
+ * Take one attempt before the answers are checked. The claim row is locked
+ * while the policy is read, and an allowed attempt holds the claim with the
+ * backoff a failure would bring; a second request sent at the same time
+ * waits for the lock, sees the hold and is turned away. Recording the
+ * attempt replaces the hold with the real outcome.
+ */
+export async function reserveVerificationAttempt(
+  claimId: number,
+  userId: number
+): Promise<AttemptReservation> {
+  return transaction(async (client) => {
+    const status = await readCooldownStatus(
+      (text, params) => client.query(text, params), claimId, userId, true
+    );
+    if (!status.canAttempt) return { ...status, heldUntil: null };
+
+    const heldUntil = new Date(Date.now() + cooldownAfterFailures(status.consecutiveFailures + 1));
+    await client.query(
+      `UPDATE claims SET next_attempt_at = $1 WHERE id = $2`,
+      [heldUntil, claimId]
+    );
+    return { ...status, heldUntil };
+  });
+}
+
+/**
+ * Give back a reserved attempt that was never checked (e.g. the answers
+ * were malformed). A claim can only be reserved with no backoff running,
+ * so the hold is simply cleared, unless something has replaced it since.
+ */
+export async function releaseVerificationAttempt(
+  claimId: number,
+  reservation: AttemptReservation
+): Promise<void> {
+  if (!reservation.heldUntil) return;
+  await query(
+    `UPDATE claims SET next_attempt_at = NULL WHERE id = $1 AND next_attempt_at = $2`,
+    [claimId, reservation.heldUntil]
+  );
+}
+
+// Status for the claimant only; null when the claim is missing or someone else's
+export async function getClaimVerificationStatus(
+  claimId: number,
+  userId: number
+): Promise<CooldownStatus | null> {
+  const claim = await query('SELECT claimant_id FROM claims WHERE id = $1', [claimId]);
+  if (claim.rows.length === 0 || claim.rows[0].claimant_id !== userId) return null;
+  return checkCooldownStatus(claimId, userId);
+}
+
+/**
+ * Record a verification attempt and calculate new cooldown if failed.
+ * The attempt and the claim's backoff are written together, so the hold
+ * from the reservation is never left half-replaced.
  */
 export async function recordVerificationAttempt(
   claimId: number,
@@ -129,72 +228,72 @@ export async function recordVerificationAttempt(
   correctAnswers: number,
   ipAddress?: string
 ): Promise<AttemptResult> {
-  // Insert attempt record
-  const attemptResult = await query(
-    `INSERT INTO verification_attempts 
-     (claim_id, user_id, correct_answers, attempt_status, ip_address)
-     VALUES ($1, $2, $3, $4, $5)
-     RETURNING id`,
-    [claimId, userId, correctAnswers, passed ? 'PASSED' : 'FAILED', ipAddress]
-  );
-  
-  const attemptId = attemptResult.rows[0].id;
-  
-  if (passed) {
-    // Success - reset consecutive failures
-    await query(
-      `UPDATE claims SET consecutive_failures = 0, next_attempt_at = NULL WHERE id = $1`,
+  return transaction(async (client) => {
+    // Insert attempt record
+    const attemptResult = await client.query(
+      `INSERT INTO verification_attempts 
+       (claim_id, user_id, correct_answers, attempt_status, ip_address)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING id`,
+      [claimId, userId, correctAnswers, passed ? 'PASSED' : 'FAILED', ipAddress || null]
+    );
+    
+    const attemptId = attemptResult.rows[0].id;
+    
+    if (passed) {
+      // Success - reset consecutive failures
+      await client.query(
+        `UPDATE claims SET consecutive_failures = 0, next_attempt_at = NULL, last_attempt_at = NOW() WHERE id = $1`,
+        [claimId]
+      );
+      
+      return {
+        attemptId,
+        newCooldown: null,
+        consecutiveFailures: 0
+      };
+    }
+    
+    // Failure - one more in the run, and a longer wait before the next try
+    const updateResult = await client.query(
+      `UPDATE claims 
+       SET consecutive_failures = consecutive_failures + 1,
+           last_attempt_at = NOW()
+       WHERE id = $1
+       RETURNING consecutive_failures`,
       [claimId]
     );
     
-    return {
-      attemptId,
-      newCooldown: null,
-      consecutiveFailures: 0
-    };
-  }
-  
-  // Failure - increment consecutive failures and set cooldown
-  const updateResult = await query(
-    `UPDATE claims 
-     SET consecutive_failures = consecutive_failures + 1,
-         last_attempt_at = NOW()
-     WHERE id = $1
-     RETURNING consecutive_failures`,
-    [claimId]
-  );
-  
-  const consecutiveFailures = updateResult.rows[0].consecutive_failures;
-  
-  // Calculate cooldown based on consecutive failures
-  const cooldownMs = COOLDOWN_DURATIONS[Math.min(consecutiveFailures, 3) as keyof typeof COOLDOWN_DURATIONS];
-  const cooldownUntil = cooldownMs ? new Date(Date.now() + cooldownMs) : null;
-  
-  if (cooldownUntil) {
-    await query(
+    const consecutiveFailures = updateResult.rows[0].consecutive_failures;
+    const cooldownUntil = new Date(Date.now() + cooldownAfterFailures(consecutiveFailures));
+    
+    await client.query(
       `UPDATE claims SET next_attempt_at = $1 WHERE id = $2`,
       [cooldownUntil, claimId]
     );
-  }
-  
-  return {
-    attemptId,
-    newCooldown: cooldownUntil,
-    consecutiveFailures
-  };
+    
+    return {
+      attemptId,
+      newCooldown: cooldownUntil,
+      consecutiveFailures
+    };
+  });
 }
 
 /**
  * Format a human-readable cooldown message
  */
-function formatCooldownMessage(remainingMs: number): string {
+export function formatCooldownMessage(remainingMs: number): string {
   const hours = Math.floor(remainingMs / (60 * 60 * 1000));
   const minutes = Math.floor((remainingMs % (60 * 60 * 1000)) / (60 * 1000));
   
   if (hours > 0) {
-    return `Please wait ${hours} hour${hours > 1 ? 's' : ''} and ${minutes} minute${minutes > 1 ? 's' : ''} before trying again.`;
+    const andMinutes = minutes > 0 ? ` and ${minutes} minute${minutes > 1 ? 's' : ''}` : '';
+    return `Please wait ${hours} hour${hours > 1 ? 's' : ''}${andMinutes} before trying again.`;
   }
-  return `Please wait ${minutes} minute${minutes > 1 ? 's' : ''} before trying again.`;
+  // Under a minute still reads as one
+  const wait = Math.max(1, minutes);
+  return `Please wait ${wait} minute${wait > 1 ? 's' : ''} before trying again.`;
 }
 
 /**
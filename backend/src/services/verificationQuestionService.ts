@@ -0,0 +1,156 @@
+/**
+ * Verification Question Service for Byaboneka+
+ *
+ * A lost item carries 2 to 7 owner-set questions. Not all of them are
+ * worth the same: "What colour is it?" answered "black" is guessed far
+ * more often than the last digits of an IMEI. Each question is weighted
+ * by its score from the strength analyzer when it is saved, and a claim
+ * passes on the weighted share of correct answers, not on a count.
+ */
+
+import { PoolClient } from 'pg';
+import { query } from '../config/database';
+import { AnswerType } from '../types';
+import { analyzeVerificationStrength, templateAnswerType } from './verificationStrengthService';
+import { hashTypedAnswer, isReadableAnswer, verifyTypedAnswer } from './answerMatchingService';
+
+export const MIN_VERIFICATION_QUESTIONS = 2;
+export const MAX_VERIFICATION_QUESTIONS = 7;
+
+// Share of the total weight to answer correctly. With equal weights this
+// is the old rule for three questions: two right passes, one does not.
+export const VERIFICATION_PASS_THRESHOLD = 0.6;
+
+// Analyzer scores (0-100) map onto 0.5-1.5: a weak question still counts,
+// a strong one counts three times as much
+const MIN_WEIGHT = 0.5;
+
+export interface VerificationQuestionInput {
+  question: string;
+  answer: string;
+  answer_type?: AnswerType;
+}
+
+export interface VerificationScore {
+  asked: number;
+  correct: number;
+  weight_total: number;
+  weight_correct: number;
+  // weight_correct / weight_total
+  score: number;
+  passed: boolean;
+}
+
+export function weightFromStrength(strengthScore: number): number {
+  return Math.round((MIN_WEIGHT + strengthScore / 100) * 100) / 100;
+}
+
+export function computeQuestionWeights(
+  questions: VerificationQuestionInput[],
+  category: string,
+  description: string
+): number[] {
+  const analysis = analyzeVerificationStrength(
+    questions.map(q => q.question),
+    questions.map(q => q.answer),
+    category,
+    description
+  );
+  return analysis.questions.map(q => weightFromStrength(q.score));
+}
+
+/**
+ * The type an answer is compared as: the one the owner chose, else the
+ * type of the template the question was taken from, else free text. An
+ * inferred type the answer does not fit (a count answered "lots") falls
+ * back to text, so the owner's answer still matches exactly.
+ */
+export function resolveAnswerType(question: VerificationQuestionInput): AnswerType {
+  if (question.answer_type) return question.answer_type;
+  const inferred = templateAnswerType(question.question);
+  return inferred && isReadableAnswer(inferred, question.answer) ? inferred : AnswerType.TEXT;
+}
+
+// ============================================
+// STORAGE
+// ============================================
+
+/**
+ * Hash and insert the questions of a new lost item, inside the caller's
+ * transaction. Weights are computed here, while the plain answers are
+ * still at hand.
+ */
+export async function saveVerificationQuestions(
+  client: PoolClient,
+  lostItemId: number,
+  questions: VerificationQuestionInput[],
+  category: string,
+  description: string
+): Promise<void> {
+  const weights = computeQuestionWeights(questions, category, description);
+  for (let i = 0; i < questions.length; i++) {
+    const answerType = resolveAnswerType(questions[i]);
+    const { hash, salt, keys } = await hashTypedAnswer(answerType, questions[i].answer);
+    await client.query(
+      `INSERT INTO verification_questions
+         (lost_item_id, position, question_text, answer_hash, answer_salt, weight, answer_type, answer_keys)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [lostItemId, i + 1, questions[i].question, hash, salt, weights[i], answerType, keys]
+    );
+  }
+}
+
+// Question texts in the order the owner wrote them (never answers or weights)
+export async function getQuestionTexts(lostItemId: number): Promise<string[]> {
+  return (await getQuestionPrompts(lostItemId)).map(prompt => prompt.question);
+}
+
+// Question texts with the type of answer expected, to hint the claimant
+export async function getQuestionPrompts(
+  lostItemId: number
+): Promise<Array<{ question: string; answer_type: AnswerType }>> {
+  const result = await query(
+    'SELECT question_text, answer_type FROM verification_questions WHERE lost_item_id = $1 ORDER BY position',
+    [lostItemId]
+  );
+  return result.rows.map(row => ({ question: row.question_text, answer_type: row.answer_type || AnswerType.TEXT }));
+}
+
+// ============================================
+// VERIFICATION
+// ============================================
+
+/**
+ * Score a claimant's answers, given in question order. Missing answers
+ * count as wrong; an item without questions cannot pass.
+ */
+export async function scoreVerificationAnswers(lostItemId: number, answers: string[]): Promise<VerificationScore> {
+  const result = await query(
+    `SELECT answer_hash, answer_salt, answer_type, answer_keys, weight FROM verification_questions
+     WHERE lost_item_id = $1 ORDER BY position`,
+    [lostItemId]
+  );
+
+  let correct = 0;
+  let weightTotal = 0;
+  let weightCorrect = 0;
+  for (let i = 0; i < result.rows.length; i++) {
+    const row = result.rows[i];
+    const weight = parseFloat(row.weight);
+    weightTotal += weight;
+    if (answers[i] && await verifyTypedAnswer(answers[i], row)) {
+      correct++;
+      weightCorrect += weight;
+    }
+  }
+
+  const score = weightTotal > 0 ? weightCorrect / weightTotal : 0;
+  return {
+    asked: result.rows.length,
+    correct,
+    weight_total: weightTotal,
+    weight_correct: weightCorrect,
+    score,
+    passed: result.rows.length > 0 && score >= VERIFICATION_PASS_THRESHOLD
+  };
+}
@@ -11,6 +11,8 @@
  * Algorithm Spec section 3.2.2 (was missing from codebase).
  */
 
+import { AnswerType } from '../types';
+
 // ============================================
 // TYPES
 // ============================================
@@ -36,6 +38,8 @@ export interface VerificationStrengthResult {
 export interface QuestionTemplate {
   category: string;
   question: string;
+  // How answers to it are compared (see utils/answerForms.ts)
+  answer_type: AnswerType;
   why_effective: string;
 }
 
@@ -45,40 +49,40 @@ export interface QuestionTemplate {
 
 export const QUESTION_TEMPLATES: Record<string, QuestionTemplate[]> = {
   PHONE: [
-    { category: 'PHONE', question: 'What is your lockscreen wallpaper?', why_effective: 'Only the owner would know this - it cannot be guessed from the phone exterior.' },
-    { category: 'PHONE', question: 'What color/design is the phone case?', why_effective: 'Specific physical detail that requires having seen the phone.' },
-    { category: 'PHONE', question: 'What are the last 4 digits of the IMEI number?', why_effective: 'Unique identifier that only the owner would have recorded.' },
-    { category: 'PHONE', question: 'Name one specific app on the home screen', why_effective: 'Personal customization that is unique to each user.' },
-    { category: 'PHONE', question: 'What is the phone ringtone or notification sound?', why_effective: 'Personal setting that distinguishes one phone from others.' },
+    { category: 'PHONE', question: 'What is your lockscreen wallpaper?', answer_type: AnswerType.TOKENS, why_effective: 'Only the owner would know this - it cannot be guessed from the phone exterior.' },
+    { category: 'PHONE', question: 'What color/design is the phone case?', answer_type: AnswerType.COLOUR, why_effective: 'Specific physical detail that requires having seen the phone.' },
+    { category: 'PHONE', question: 'What are the last 4 digits of the IMEI number?', answer_type: AnswerType.TEXT, why_effective: 'Unique identifier that only the owner would have recorded.' },
+    { category: 'PHONE', question: 'Name one specific app on the home screen', answer_type: AnswerType.TEXT, why_effective: 'Personal customization that is unique to each user.' },
+    { category: 'PHONE', question: 'What is the phone ringtone or notification sound?', answer_type: AnswerType.TOKENS, why_effective: 'Personal setting that distinguishes one phone from others.' },
   ],
   ID: [
-    { category: 'ID', question: 'What are the last 3 characters of the ID number?', why_effective: 'Partial identifier that the owner would know.' },
-    { category: 'ID', question: 'What are the name initials on the document?', why_effective: 'Verifies the document belongs to the claimant.' },
-    { category: 'ID', question: 'Which district issued the document?', why_effective: 'Administrative detail that only the holder would know.' },
-    { category: 'ID', question: 'What year was the document issued?', why_effective: 'Temporal detail specific to this particular document.' },
+    { category: 'ID', question: 'What are the last 3 characters of the ID number?', answer_type: AnswerType.TEXT, why_effective: 'Partial identifier that the owner would know.' },
+    { category: 'ID', question: 'What are the name initials on the document?', answer_type: AnswerType.TEXT, why_effective: 'Verifies the document belongs to the claimant.' },
+    { category: 'ID', question: 'Which district issued the document?', answer_type: AnswerType.TEXT, why_effective: 'Administrative detail that only the holder would know.' },
+    { category: 'ID', question: 'What year was the document issued?', answer_type: AnswerType.DATE, why_effective: 'Temporal detail specific to this particular document.' },
   ],
   WALLET: [
-    { category: 'WALLET', question: 'How many cards are inside the wallet?', why_effective: 'Specific content count that requires having owned the wallet.' },
-    { category: 'WALLET', question: 'Name one specific card (bank/ID/other) inside', why_effective: 'Identifies specific contents only the owner would know.' },
-    { category: 'WALLET', question: 'Approximately how much cash was inside (in RWF)?', why_effective: 'Content detail that is hard to guess correctly.' },
-    { category: 'WALLET', question: 'Are there any photos inside? If yes, describe one.', why_effective: 'Personal content that uniquely identifies the wallet.' },
-    { category: 'WALLET', question: 'What color is the wallet interior?', why_effective: 'Physical detail only visible when the wallet is open.' },
+    { category: 'WALLET', question: 'How many cards are inside the wallet?', answer_type: AnswerType.NUMBER, why_effective: 'Specific content count that requires having owned the wallet.' },
+    { category: 'WALLET', question: 'Name one specific card (bank/ID/other) inside', answer_type: AnswerType.TOKENS, why_effective: 'Identifies specific contents only the owner would know.' },
+    { category: 'WALLET', question: 'Approximately how much cash was inside (in RWF)?', answer_type: AnswerType.NUMBER, why_effective: 'Content detail that is hard to guess correctly.' },
+    { category: 'WALLET', question: 'Are there any photos inside? If yes, describe one.', answer_type: AnswerType.TOKENS, why_effective: 'Personal content that uniquely identifies the wallet.' },
+    { category: 'WALLET', question: 'What color is the wallet interior?', answer_type: AnswerType.COLOUR, why_effective: 'Physical detail only visible when the wallet is open.' },
   ],
   BAG: [
-    { category: 'BAG', question: 'Describe any distinctive marks, stickers, or damage', why_effective: 'Unique physical features that identify this specific bag.' },
-    { category: 'BAG', question: 'What brand is the bag?', why_effective: 'Manufacturer detail that narrows identification.' },
-    { category: 'BAG', question: 'How many compartments does it have?', why_effective: 'Structural detail requiring familiarity with the bag.' },
-    { category: 'BAG', question: 'Name one specific item that was inside', why_effective: 'Contents knowledge only the owner would have.' },
+    { category: 'BAG', question: 'Describe any distinctive marks, stickers, or damage', answer_type: AnswerType.TOKENS, why_effective: 'Unique physical features that identify this specific bag.' },
+    { category: 'BAG', question: 'What brand is the bag?', answer_type: AnswerType.TEXT, why_effective: 'Manufacturer detail that narrows identification.' },
+    { category: 'BAG', question: 'How many compartments does it have?', answer_type: AnswerType.NUMBER, why_effective: 'Structural detail requiring familiarity with the bag.' },
+    { category: 'BAG', question: 'Name one specific item that was inside', answer_type: AnswerType.TOKENS, why_effective: 'Contents knowledge only the owner would have.' },
   ],
   KEYS: [
-    { category: 'KEYS', question: 'How many keys are on the keyring?', why_effective: 'Specific count that the owner would know.' },
-    { category: 'KEYS', question: 'Describe the keychain or any attachment', why_effective: 'Decorative details unique to this key set.' },
-    { category: 'KEYS', question: 'Are there any distinctive or unusual key shapes?', why_effective: 'Physical detail that distinguishes these keys.' },
+    { category: 'KEYS', question: 'How many keys are on the keyring?', answer_type: AnswerType.NUMBER, why_effective: 'Specific count that the owner would know.' },
+    { category: 'KEYS', question: 'Describe the keychain or any attachment', answer_type: AnswerType.TOKENS, why_effective: 'Decorative details unique to this key set.' },
+    { category: 'KEYS', question: 'Are there any distinctive or unusual key shapes?', answer_type: AnswerType.TOKENS, why_effective: 'Physical detail that distinguishes these keys.' },
   ],
   OTHER: [
-    { category: 'OTHER', question: 'Describe a specific unique mark or feature on the item', why_effective: 'Physical uniqueness proves familiarity.' },
-    { category: 'OTHER', question: 'What was the item being used for when last seen?', why_effective: 'Contextual detail only the owner would know.' },
-    { category: 'OTHER', question: 'Where exactly was the item stored or placed before loss?', why_effective: 'Specific location knowledge proves ownership.' },
+    { category: 'OTHER', question: 'Describe a specific unique mark or feature on the item', answer_type: AnswerType.TOKENS, why_effective: 'Physical uniqueness proves familiarity.' },
+    { category: 'OTHER', question: 'What was the item being used for when last seen?', answer_type: AnswerType.TOKENS, why_effective: 'Contextual detail only the owner would know.' },
+    { category: 'OTHER', question: 'Where exactly was the item stored or placed before loss?', answer_type: AnswerType.TOKENS, why_effective: 'Specific location knowledge proves ownership.' },
   ],
 };
 
@@ -307,4 +311,14 @@ function checkRedundancy(questions: string[]): boolean {
 
 export function getTemplatesForCategory(category: string): QuestionTemplate[] {
   return QUESTION_TEMPLATES[category.toUpperCase()] || QUESTION_TEMPLATES['OTHER'];
-}
\ No newline at end of file
+}
+// Answer type of a question written from a template, or null for the
+// owner's own wording
+export function templateAnswerType(question: string): AnswerType | null {
+  const normalized = question.trim().toLowerCase();
+  for (const templates of Object.values(QUESTION_TEMPLATES)) {
+    const template = templates.find(t => t.question.toLowerCase() === normalized);
+    if (template) return template.answer_type;
+  }
+  return null;
+}
@@ -0,0 +1,152 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import path from 'path';
+import { closePool, query } from '../config/database';
+import {
+  createLocalDriver,
+  getStorage,
+  migratedKey,
+  variantKey,
+  StorageDriver,
+  UPLOAD_URL_PREFIX
+} from '../services/storageService';
+import { IMAGE_SIZES, ImageSize } from '../services/imageProcessingService';
+
+// ============================================
+// UPLOAD STORAGE MIGRATION
+// Copies photos referenced as /uploads/... into the configured driver
+//
+//   STORAGE_DRIVER=s3 npm run storage:migrate -- --from=./uploads --dry-run
+//
+// --from is the directory the files were written to (default UPLOAD_PATH).
+// Lost item photos and found IDs/wallets move under private/ and their
+// references are rewritten; everything else keeps its key. Safe to run
+// again: references already rewritten are recognised and left alone.
+// --delete-source removes the originals from --from once copied.
+// ============================================
+
+interface Stats {
+  items: number;
+  copied: number;
+  skipped: number;
+  missing: number;
+}
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (const arg of argv) {
+    const match = arg.match(/^--([\w-]+)(?:=(.*))?$/);
+    if (match) args[match[1]] = match[2] ?? 'true';
+  }
+  return args;
+}
+
+async function migrateTable(
+  table: 'found_items' | 'lost_items',
+  source: StorageDriver,
+  target: StorageDriver,
+  options: { dryRun: boolean; deleteSource: boolean; sameStore: boolean },
+  stats: Stats
+): Promise<void> {
+  const result = await query(
+    `SELECT id, category, image_urls FROM ${table}
+     WHERE EXISTS (SELECT 1 FROM unnest(image_urls) AS url WHERE url LIKE '%/uploads/%')
+     ORDER BY id`
+  );
+
+  for (const row of result.rows) {
+    // Owner photos are always private; found items only for documents
+    const isPrivate = table === 'lost_items' || row.category === 'ID' || row.category === 'WALLET';
+    const urls: string[] = [];
+
+    for (const url of row.image_urls as string[]) {
+      const move = migratedKey(url, isPrivate);
+      if (!move) {
+        urls.push(url);
+        continue;
+      }
+
+      const newUrl = `${UPLOAD_URL_PREFIX}${move.to}`;
+      if (options.sameStore && move.from === move.to) {
+        urls.push(newUrl);
+        stats.skipped++;
+        continue;
+      }
+
+      const file = await source.get(move.from);
+      if (!file) {
+        if (await target.get(move.to)) {
+          stats.skipped++;
+        } else {
+          console.warn(`⚠️  ${table} #${row.id}: ${url} not found in the source`);
+          stats.missing++;
+        }
+        urls.push(newUrl);
+        continue;
+      }
+
+      if (!options.dryRun) {
+        // The original with its medium and thumbnail copies, when it has them
+        const keys: Array<[string, string]> = [[move.from, move.to]];
+        for (const size of Object.keys(IMAGE_SIZES) as ImageSize[]) {
+          keys.push([variantKey(move.from, size), variantKey(move.to, size)]);
+        }
+
+        for (const [fromKey, toKey] of keys) {
+          const copy = fromKey === move.from ? file : await source.get(fromKey);
+          if (!copy) continue;
+          await target.put(toKey, copy.body, copy.contentType);
+          // A private copy is pointless while the public one is still served
+          if (fromKey !== toKey) await target.delete(fromKey);
+          if (options.deleteSource || options.sameStore) await source.delete(fromKey);
+        }
+
+        if (move.from !== move.to) {
+          await query('UPDATE item_images SET url = $1 WHERE url = $2', [newUrl, `${UPLOAD_URL_PREFIX}${move.from}`]);
+        }
+      }
+      console.log(`  ${table} #${row.id}: ${move.from} → ${move.to}`);
+      urls.push(newUrl);
+      stats.copied++;
+    }
+
+    const changed = urls.some((url, i) => url !== row.image_urls[i]);
+    if (changed && !options.dryRun) {
+      await query(`UPDATE ${table} SET image_urls = $1 WHERE id = $2`, [urls, row.id]);
+    }
+    stats.items++;
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const uploadPath = process.env.UPLOAD_PATH || './uploads';
+  const from = args.from || uploadPath;
+  const dryRun = args['dry-run'] === 'true';
+
+  try {
+    const source = createLocalDriver(from);
+    const target = getStorage();
+    // Local to the same directory: only private photos move (into private/)
+    const sameStore = target.name === 'local' && path.resolve(from) === path.resolve(uploadPath);
+
+    console.log(`📦 Migrating uploads from ${from} to the ${target.name} driver${dryRun ? ' (dry run)' : ''}...`);
+    const stats: Stats = { items: 0, copied: 0, skipped: 0, missing: 0 };
+    const options = { dryRun, deleteSource: args['delete-source'] === 'true', sameStore };
+
+    await migrateTable('found_items', source, target, options, stats);
+    await migrateTable('lost_items', source, target, options, stats);
+
+    console.log(
+      `✅ ${stats.items} items checked: ${stats.copied} files copied, ${stats.skipped} already in place, ${stats.missing} missing`
+    );
+  } catch (error) {
+    console.error('❌ Storage migration failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await closePool();
+  }
+}
+
+main();
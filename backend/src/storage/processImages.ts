@@ -0,0 +1,140 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { closePool, query } from '../config/database';
+import { getStorage, keyFromUrl, variantKey } from '../services/storageService';
+import { processImage, ImageSize } from '../services/imageProcessingService';
+import { recordItemImages } from '../services/duplicateDetectionService';
+import { storeRedactedPreviews } from '../services/imageRedactionService';
+
+// ============================================
+// IMAGE BACKFILL
+// Runs photos uploaded before the image pipeline through it
+//
+//   npm run images:process -- --dry-run
+//
+// Each stored original is replaced by its cleaned copy (orientation applied,
+// EXIF/GPS removed), medium and thumbnail copies are added and the
+// perceptual hash is recorded. Found IDs and wallets also get their public
+// previews with the text pixelated. Photos already processed are skipped,
+// so it can be stopped and run again.
+// ============================================
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (const arg of argv) {
+    const match = arg.match(/^--([\w-]+)(?:=(.*))?$/);
+    if (match) args[match[1]] = match[2] ?? 'true';
+  }
+  return args;
+}
+
+async function processTable(table: 'found_items' | 'lost_items', dryRun: boolean): Promise<{ processed: number; failed: number }> {
+  const itemType = table === 'found_items' ? 'found' : 'lost';
+  const ownerColumn = table === 'found_items' ? 'finder_id' : 'user_id';
+  const result = await query(
+    `SELECT t.id, t.${ownerColumn} AS user_id, image.url
+     FROM ${table} t, unnest(t.image_urls) AS image(url)
+     WHERE NOT EXISTS (SELECT 1 FROM item_images i WHERE i.url = image.url)
+     ORDER BY t.id`
+  );
+
+  const storage = getStorage();
+  let processed = 0;
+  let failed = 0;
+
+  for (const row of result.rows) {
+    const key = keyFromUrl(row.url);
+    if (!key) continue;
+
+    const file = await storage.get(key);
+    if (!file) {
+      console.warn(`⚠️  ${table} #${row.id}: ${row.url} is not in ${storage.name} storage`);
+      failed++;
+      continue;
+    }
+
+    try {
+      const image = await processImage(file.body);
+      if (!dryRun) {
+        await storage.put(key, image.original, image.contentType);
+        for (const [size, body] of Object.entries(image.variants) as Array<[ImageSize, Buffer]>) {
+          await storage.put(variantKey(key, size), body, 'image/webp');
+        }
+        const reused = await recordItemImages(itemType, row.id, row.user_id, [
+          { url: row.url, phash: image.phash, width: image.width, height: image.height }
+        ]);
+        for (const match of reused) {
+          console.log(`  ${table} #${row.id}: same photo as ${match.item_type} item #${match.item_id}`);
+        }
+      }
+      processed++;
+    } catch (error) {
+      console.warn(`⚠️  ${table} #${row.id}: ${row.url} could not be processed:`, (error as Error).message);
+      failed++;
+    }
+  }
+
+  return { processed, failed };
+}
+
+// Previews line up with image_urls, so only the missing tail is made
+async function redactDocuments(dryRun: boolean): Promise<{ processed: number; failed: number }> {
+  const result = await query(
+    `SELECT id, image_urls, redacted_image_urls FROM found_items
+     WHERE category IN ('ID', 'WALLET')
+     AND cardinality(redacted_image_urls) < cardinality(image_urls)
+     ORDER BY id`
+  );
+
+  const storage = getStorage();
+  let processed = 0;
+  let failed = 0;
+
+  for (const row of result.rows) {
+    const missing: string[] = row.image_urls.slice(row.redacted_image_urls.length);
+    try {
+      const images: Buffer[] = [];
+      for (const url of missing) {
+        const key = keyFromUrl(url);
+        const file = key ? await storage.get(key) : null;
+        if (!file) throw new Error(`${url} is not in ${storage.name} storage`);
+        images.push(file.body);
+      }
+      if (!dryRun) {
+        const previews = await storeRedactedPreviews(images);
+        await query(
+          'UPDATE found_items SET redacted_image_urls = redacted_image_urls || $1::text[] WHERE id = $2',
+          [previews, row.id]
+        );
+      }
+      processed += missing.length;
+    } catch (error) {
+      console.warn(`⚠️  found_items #${row.id}: previews could not be made:`, (error as Error).message);
+      failed += missing.length;
+    }
+  }
+
+  return { processed, failed };
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const dryRun = args['dry-run'] === 'true';
+
+  try {
+    console.log(`🖼️  Processing stored photos${dryRun ? ' (dry run)' : ''}...`);
+    const found = await processTable('found_items', dryRun);
+    const lost = await processTable('lost_items', dryRun);
+    console.log(`✅ ${found.processed + lost.processed} photos processed, ${found.failed + lost.failed} failed`);
+    const redacted = await redactDocuments(dryRun);
+    console.log(`✅ ${redacted.processed} ID/wallet previews made, ${redacted.failed} failed`);
+  } catch (error) {
+    console.error('❌ Image processing failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await closePool();
+  }
+}
+
+main();
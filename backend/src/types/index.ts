@@ -54,6 +54,15 @@ export enum VerificationAttemptStatus {
   FAILED = 'FAILED'
 }
 
+// How a verification answer is compared (see utils/answerForms.ts)
+export enum AnswerType {
+  TEXT = 'TEXT',
+  NUMBER = 'NUMBER',
+  DATE = 'DATE',
+  COLOUR = 'COLOUR',
+  TOKENS = 'TOKENS'
+}
+
 export enum CooperativeStatus {
   PENDING = 'PENDING',
   VERIFIED = 'VERIFIED',
@@ -86,7 +95,9 @@ export enum AuditAction {
   COOP_APPROVED = 'COOP_APPROVED',
   COOP_SUSPENDED = 'COOP_SUSPENDED',
   TRUST_SCORE_CHANGED = 'TRUST_SCORE_CHANGED',
-  REPORT_EXPIRED = 'REPORT_EXPIRED'
+  REPORT_EXPIRED = 'REPORT_EXPIRED',
+  CUSTODY_TRANSFERRED = 'CUSTODY_TRANSFERRED',
+  CLAIM_SUPERSEDED = 'CLAIM_SUPERSEDED'
 }
 
 export enum TrustLevel {
@@ -97,6 +108,16 @@ export enum TrustLevel {
   TRUSTED = 'TRUSTED'
 }
 
+export enum MatchFeedbackVerdict {
+  NOT_MINE = 'NOT_MINE',
+  LOOKS_RIGHT = 'LOOKS_RIGHT'
+}
+
+export enum SavedSearchChannel {
+  EMAIL = 'EMAIL',
+  IN_APP = 'IN_APP'
+}
+
 // ==================== INTERFACES ====================
 
 // Base entity with timestamps
@@ -141,8 +162,37 @@ export interface Cooperative extends BaseEntity {
   verified_by?: number;
 }
 
+// Transport context shared by lost and found reports
+// (cooperative, route, vehicle and the stops travelled)
+export interface TransportContext {
+  transport_cooperative_id?: number | null;
+  route_id?: number | null;
+  route_name?: string | null;
+  vehicle_plate?: string | null;
+  stop_sequence?: string[] | null;
+}
+
+// Route registered by a cooperative, stops in travel order
+export interface CooperativeRoute extends BaseEntity {
+  cooperative_id: number;
+  name: string;
+  stops: string[];
+  is_active: boolean;
+  created_by?: number;
+}
+
+// Vehicle registered by a cooperative (plate stored normalised)
+export interface CooperativeVehicle extends BaseEntity {
+  cooperative_id: number;
+  plate_number: string;
+  route_id?: number | null;
+  description?: string;
+  is_active: boolean;
+  created_by?: number;
+}
+
 // Lost Item
-export interface LostItem extends BaseEntity {
+export interface LostItem extends BaseEntity, TransportContext {
   user_id: number;
   category: ItemCategory;
   title: string;
@@ -150,15 +200,21 @@ export interface LostItem extends BaseEntity {
   location_area: string;
   location_hint?: string;
   lost_date: Date;
+  lost_window_start?: Date | null;
+  lost_window_end?: Date | null;
   status: LostItemStatus;
   keywords: string[];
   photo_url?: string;
+  image_urls?: string[];
   expiry_warning_sent: boolean;
   expired_at?: Date;
+  matches_computed_at?: Date;
+  matches_profile_id?: number | null;
+  incident_id?: number | null;
 }
 
 // Found Item
-export interface FoundItem extends BaseEntity {
+export interface FoundItem extends BaseEntity, TransportContext {
   finder_id: number;
   cooperative_id?: number;
   category: ItemCategory;
@@ -167,26 +223,48 @@ export interface FoundItem extends BaseEntity {
   location_area: string;
   location_hint?: string;
   found_date: Date;
+  found_window_start?: Date | null;
+  found_window_end?: Date | null;
   status: FoundItemStatus;
   source: ItemSource;
   image_urls: string[];
+  // Public copies of ID/wallet photos with the text pixelated
+  redacted_image_urls?: string[];
   keywords: string[];
   expiry_warning_sent: boolean;
   expired_at?: Date;
+  // Who holds a cooperative-held item now (latest custody transfer)
+  current_holder?: string | null;
+  current_location?: string | null;
+}
+
+// One hand-over of a cooperative-held found item
+export interface CustodyTransfer {
+  id: number;
+  found_item_id: number;
+  from_holder: string | null;
+  to_holder: string;
+  location: string;
+  notes: string | null;
+  transferred_at: Date;
+  recorded_by: number;
+  signature: string;
+  created_at: Date;
 }
 
-// Verification Secrets
-export interface VerificationSecret extends BaseEntity {
+// Verification Questions (2-7 per lost item)
+export interface VerificationQuestion {
+  id: number;
   lost_item_id: number;
-  question_1_text: string;
-  answer_1_hash: string;
-  answer_1_salt: string;
-  question_2_text: string;
-  answer_2_hash: string;
-  answer_2_salt: string;
-  question_3_text: string;
-  answer_3_hash: string;
-  answer_3_salt: string;
+  position: number;
+  question_text: string;
+  answer_hash: string;
+  answer_salt: string;
+  answer_type: AnswerType;
+  // Keyed hashes of the answer's canonical forms (not for TEXT)
+  answer_keys: string[] | null;
+  weight: number;
+  created_at: Date;
 }
 
 // Claim
@@ -199,6 +277,8 @@ export interface Claim extends BaseEntity {
   attempts_made: number;
   last_attempt_at?: Date;
   dispute_reason?: string;
+  // The claim that was verified ahead of this one, when it was closed for it
+  superseded_by?: number;
 }
 
 // Verification Attempt
@@ -258,11 +338,110 @@ export interface AuditLog {
   timestamp: Date;
 }
 
+// Match Weights (points awarded per matching signal)
+export interface MatchWeights {
+  CATEGORY_MATCH: number;
+  SAME_LOCATION: number;
+  ADJACENT_LOCATION: number;
+  NEARBY_LOCATION: number;
+  WITHIN_24H: number;
+  WITHIN_72H: number;
+  WITHIN_7D: number;
+  WINDOW_OVERLAP: number;
+  WINDOW_WITHIN_2H: number;
+  VEHICLE_MATCH: number;
+  ROUTE_MATCH: number;
+  STOP_OVERLAP: number;
+  INCIDENT_CONTENTS: number;
+  INCIDENT_CO_FOUND: number;
+  KEYWORD_MATCH: number;
+  COLOR_MATCH: number;
+  BRAND_MATCH: number;
+  SUBCATEGORY_MATCH: number;
+}
+
+// Match Weight Profile (versioned, one active per category)
+export interface MatchWeightProfile {
+  id: number | null;
+  category: ItemCategory;
+  version: number;
+  weights: MatchWeights;
+  minimum_score: number;
+  max_matches: number;
+  max_keyword_bonuses: number;
+  is_active: boolean;
+  notes?: string;
+  created_by?: number;
+  created_at?: Date;
+}
+
 // Match Result
 export interface MatchResult {
   found_item: FoundItem;
   score: number;
   explanation: string[];
+  profile_version?: number;
+}
+
+// Outcome of one matcher run (see matchJobService.ts)
+export interface MatchRunStats {
+  candidates_scored: number;
+  rows_upserted: number;
+  rows_removed: number;
+}
+
+// Owner/finder verdict on a suggested match, kept as labelled data
+export interface MatchFeedback {
+  id: number;
+  lost_item_id: number;
+  found_item_id: number;
+  user_id: number;
+  role: 'owner' | 'finder';
+  verdict: MatchFeedbackVerdict;
+  reason?: string;
+  category: ItemCategory;
+  score: number;
+  explanation: string[];
+  profile_id?: number | null;
+  profile_version?: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type MatchJobStatus = 'PENDING' | 'RUNNING' | 'DONE' | 'FAILED';
+
+export interface MatchJob {
+  id: number;
+  item_type: 'lost' | 'found';
+  item_id: number;
+  status: MatchJobStatus;
+  attempts: number;
+  run_after: Date;
+  last_error?: string;
+  candidates_scored?: number;
+  rows_upserted?: number;
+  rows_removed?: number;
+  duration_ms?: number;
+  created_at: Date;
+  started_at?: Date;
+  finished_at?: Date;
+}
+
+// Saved search criteria; an active one is a standing watch on new found items
+export interface SavedSearch {
+  id: number;
+  user_id: number;
+  name: string;
+  category?: ItemCategory | null;
+  location_area?: string | null;
+  keyword?: string | null;
+  date_from?: Date | string | null;
+  date_to?: Date | string | null;
+  channel: SavedSearchChannel;
+  is_active: boolean;
+  last_hit_at?: Date | null;
+  created_at: Date;
+  updated_at: Date;
 }
 
 // ==================== DTOs ====================
@@ -301,6 +480,8 @@ export interface CreateLostItemDTO {
   location_area: string;
   location_hint?: string;
   lost_date: string;
+  lost_window_start?: string;
+  lost_window_end?: string;
   photo_url?: string;
   verification_questions: VerificationQuestionDTO[];
 }
@@ -308,6 +489,7 @@ export interface CreateLostItemDTO {
 export interface VerificationQuestionDTO {
   question: string;
   answer: string;
+  answer_type?: AnswerType;
 }
 
 // Found Item DTOs
@@ -318,6 +500,8 @@ export interface CreateFoundItemDTO {
   location_area: string;
   location_hint?: string;
   found_date: string;
+  found_window_start?: string;
+  found_window_end?: string;
   cooperative_id?: number;
 }
 
@@ -0,0 +1,273 @@
+// ============================================
+// ANSWER FORMS
+// Canonical forms of typed verification answers
+// ============================================
+
+// "5 cards", "five" and "5" are the same answer to "How many cards?", as
+// are "15000 RWF" and "about 15k", or "Tecno, blue case" and "blue case
+// tecno". Each answer type reduces an answer to canonical forms, and the
+// forms are compared instead of the text. They are only ever stored as
+// keyed hashes (see answerMatchingService.ts), so everything here has to
+// turn a close answer into exactly the same string.
+
+import { AnswerType } from '../types';
+import { canonicalizeKeyword, collapsePhrases, foldAccents, KEYWORD_DICTIONARY } from './keywordDictionary';
+
+// Stored forms are the owner's answer, given forms the claimant's; dates
+// differ between the two (see dateForms)
+export type AnswerSide = 'stored' | 'given';
+
+function clean(text: string): string {
+  return foldAccents(text.toLowerCase()).replace(/[^\w\s.,/-]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+// ============================================
+// NUMBERS
+// ============================================
+
+// English, French and Kinyarwanda, as in the keyword dictionary
+const NUMBER_WORDS: Record<string, number> = {
+  zero: 0, none: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50,
+  sixty: 60, seventy: 70, eighty: 80, ninety: 90, dozen: 12,
+  un: 1, une: 1, deux: 2, trois: 3, quatre: 4, cinq: 5, sept: 7, huit: 8, neuf: 9, dix: 10,
+  rimwe: 1, kabiri: 2, gatatu: 3, kane: 4, gatanu: 5, gatandatu: 6, karindwi: 7, umunani: 8,
+  icyenda: 9, icumi: 10,
+};
+
+const MULTIPLIERS: Record<string, number> = {
+  hundred: 100, cent: 100, k: 1000, thousand: 1000, mille: 1000, igihumbi: 1000,
+  m: 1000000, million: 1000000, miliyoni: 1000000,
+};
+
+// Below this, numbers are counts or digits and must match exactly
+export const EXACT_NUMBER_LIMIT = 100;
+
+// Width of a tolerance band on a log scale. Values are placed on two grids
+// half a band apart, and match when they share a cell on either: within
+// ~14% of each other they always do, more than 30% apart they never do.
+const NUMBER_BAND = Math.log(1.3);
+
+/**
+ * The number an answer states: "5", "5 cards", "five", "15,000 RWF",
+ * "about 15k", "1.5 million". A range ("10-15", "between 10 and 15")
+ * gives its middle. Null when there is no number.
+ */
+export function parseNumber(text: string): number | null {
+  const normalized = clean(text)
+    .replace(/(\d)[,\s](?=\d{3}\b)/g, '$1')
+    .replace(/(\d),(\d)/g, '$1.$2');
+
+  const digits = [...normalized.matchAll(/(\d+(?:\.\d+)?)\s*(k|m|thousand|million|mille|miliyoni)?\b/g)]
+    .map(match => ({ value: parseFloat(match[1]), multiplier: match[2] ? MULTIPLIERS[match[2]] : 1 }));
+  if (digits.length === 2 && /\d\s*(-|to|and|or|a|na)\s*\d|between/.test(normalized)) {
+    // "10 to 20 thousand": the unit of the second end applies to both
+    const [low, high] = digits;
+    const lowMultiplier = low.multiplier === 1 ? high.multiplier : low.multiplier;
+    return (low.value * lowMultiplier + high.value * high.multiplier) / 2;
+  }
+  if (digits.length > 0) return digits[0].value * digits[0].multiplier;
+
+  // Spelled out: "twenty five", "two thousand"
+  let total = 0;
+  let current = 0;
+  let found = false;
+  for (const word of normalized.split(/[\s-]+/)) {
+    if (word in NUMBER_WORDS) {
+      current += NUMBER_WORDS[word];
+      found = true;
+    } else if (found && word in MULTIPLIERS) {
+      const multiplier = MULTIPLIERS[word];
+      if (multiplier === 100) {
+        current = (current || 1) * 100;
+      } else {
+        total += (current || 1) * multiplier;
+        current = 0;
+      }
+    }
+  }
+  return found ? total + current : null;
+}
+
+export function numberForms(value: number): string[] {
+  if (value < EXACT_NUMBER_LIMIT) return [`n:${Math.round(value * 100) / 100}`];
+  const position = Math.log(value) / NUMBER_BAND;
+  return [`a:${Math.floor(position)}`, `b:${Math.floor(position + 0.5)}`];
+}
+
+// ============================================
+// DATES
+// ============================================
+
+const MONTHS: Record<string, number> = {};
+[
+  ['january', 'jan', 'janvier', 'mutarama'],
+  ['february', 'feb', 'fevrier', 'gashyantare'],
+  ['march', 'mar', 'mars', 'werurwe'],
+  ['april', 'apr', 'avril', 'mata'],
+  ['may', 'mai', 'gicurasi'],
+  ['june', 'jun', 'juin', 'kamena'],
+  ['july', 'jul', 'juillet', 'nyakanga'],
+  ['august', 'aug', 'aout', 'kanama'],
+  ['september', 'sep', 'sept', 'septembre', 'nzeri'],
+  ['october', 'oct', 'octobre', 'ukwakira'],
+  ['november', 'nov', 'novembre', 'ugushyingo'],
+  ['december', 'dec', 'decembre', 'ukuboza'],
+].forEach((names, index) => names.forEach(name => { MONTHS[name] = index + 1; }));
+
+export interface PartialDate {
+  year: number;
+  month?: number;
+  day?: number;
+}
+
+function fullYear(year: number): number {
+  if (year >= 100) return year;
+  const century = new Date().getFullYear() % 100 >= year ? 2000 : 1900;
+  return century + year;
+}
+
+function validDate(date: PartialDate): PartialDate | null {
+  if (date.year < 1900 || date.year > 2100) return null;
+  if (date.month !== undefined && (date.month < 1 || date.month > 12)) return null;
+  if (date.day !== undefined && (date.day < 1 || date.day > 31)) return null;
+  return date;
+}
+
+/**
+ * The date an answer states, to whatever precision it gives: "2019",
+ * "March 2019", "12 March 2019", "2019-03-12", "12/03/2019". Numeric
+ * dates are read day first, as written in Rwanda.
+ */
+export function parseDate(text: string): PartialDate | null {
+  const normalized = clean(text);
+
+  let match = normalized.match(/\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/);
+  if (match) return validDate({ year: +match[1], month: +match[2], day: +match[3] });
+
+  match = normalized.match(/\b(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})\b/);
+  if (match) return validDate({ year: fullYear(+match[3]), month: +match[2], day: +match[1] });
+
+  match = normalized.match(/\b(\d{1,2})[-/.](\d{4})\b/);
+  if (match) return validDate({ year: +match[2], month: +match[1] });
+
+  const year = normalized.match(/\b(19|20)\d{2}\b/);
+  if (!year) return null;
+
+  const month = normalized.split(/[\s,.]+/).map(word => MONTHS[word]).find(Boolean);
+  if (!month) return validDate({ year: +year[0] });
+
+  const day = normalized.replace(year[0], ' ').match(/\b(\d{1,2})(st|nd|rd|th|er)?\b/);
+  return validDate({ year: +year[0], month, day: day ? +day[1] : undefined });
+}
+
+/**
+ * An answer with a day also states its month and year. The owner's date
+ * is stored at its own precision only; the claimant's at every level it
+ * has, so "12 March 2019" matches an owner who wrote "2019", but "2019"
+ * does not match an owner who gave the full date.
+ */
+export function dateForms(date: PartialDate, side: AnswerSide): string[] {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const forms = [`y:${date.year}`];
+  if (date.month !== undefined) {
+    forms.push(`m:${date.year}-${pad(date.month)}`);
+    if (date.day !== undefined) forms.push(`d:${date.year}-${pad(date.month)}-${pad(date.day)}`);
+  }
+  return side === 'stored' ? forms.slice(-1) : forms;
+}
+
+// ============================================
+// COLOURS
+// ============================================
+
+const COLOURS = new Set([
+  ...KEYWORD_DICTIONARY.filter(entry => entry.group === 'color').map(entry => entry.canonical),
+  'orange', 'transparent',
+]);
+
+// Shades people name instead of the colour
+const SHADES: Record<string, string> = {
+  navy: 'blue', turquoise: 'blue', teal: 'blue', cyan: 'blue',
+  maroon: 'red', burgundy: 'red', crimson: 'red', wine: 'red',
+  beige: 'brown', tan: 'brown', khaki: 'brown', chocolate: 'brown',
+  cream: 'white', ivory: 'white', olive: 'green', lime: 'green',
+  lilac: 'purple', lavender: 'purple', clear: 'transparent',
+};
+
+// Colours named in an answer, canonical and sorted; shades and "dark",
+// "light" are folded into the base colour
+export function parseColours(text: string): string[] {
+  const colours = new Set<string>();
+  for (const word of collapsePhrases(clean(text)).split(/[\s,./-]+/)) {
+    const canonical = canonicalizeKeyword(word);
+    if (COLOURS.has(canonical)) colours.add(canonical);
+    else if (SHADES[canonical]) colours.add(SHADES[canonical]);
+  }
+  return [...colours].sort();
+}
+
+// ============================================
+// TOKEN SETS
+// ============================================
+
+const FILLER_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'with', 'of', 'in', 'on', 'at', 'my', 'its', 'it', 'is', 'some',
+  'about', 'around', 'approximately', 'maybe', 'na', 'et', 'le', 'la', 'les', 'de', 'du', 'des',
+]);
+
+/**
+ * The words of an answer as a set, in any order: canonical keywords
+ * ("noir" -> "black"), numbers as digits, simple plurals folded.
+ */
+export function parseTokens(text: string): string[] {
+  const tokens = new Set<string>();
+  for (const word of collapsePhrases(clean(text)).split(/[\s,./-]+/)) {
+    if (!word || FILLER_WORDS.has(word)) continue;
+    let token = word in NUMBER_WORDS ? String(NUMBER_WORDS[word]) : canonicalizeKeyword(word);
+    if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) token = token.slice(0, -1);
+    tokens.add(token);
+  }
+  return [...tokens].sort();
+}
+
+// ============================================
+// DISPATCH
+// ============================================
+
+/**
+ * Canonical forms of an answer for its type, or null when the answer
+ * cannot be read as that type. TEXT has no forms: it is compared as a
+ * whole, normalised string.
+ */
+export function canonicalForms(type: AnswerType, answer: string, side: AnswerSide): string[] | null {
+  switch (type) {
+    case AnswerType.NUMBER: {
+      const value = parseNumber(answer);
+      return value === null ? null : numberForms(value);
+    }
+    case AnswerType.DATE: {
+      const date = parseDate(answer);
+      return date ? dateForms(date, side) : null;
+    }
+    case AnswerType.COLOUR: {
+      const colours = parseColours(answer);
+      return colours.length > 0 ? [`c:${colours.join('+')}`] : null;
+    }
+    case AnswerType.TOKENS: {
+      const tokens = parseTokens(answer);
+      return tokens.length > 0 ? tokens.map(token => `t:${token}`) : null;
+    }
+    default:
+      return [];
+  }
+}
+
+export const ANSWER_TYPE_DESCRIPTIONS: Record<AnswerType, string> = {
+  [AnswerType.TEXT]: 'text',
+  [AnswerType.NUMBER]: 'a number',
+  [AnswerType.DATE]: 'a date or year',
+  [AnswerType.COLOUR]: 'a colour',
+  [AnswerType.TOKENS]: 'a few words',
+};
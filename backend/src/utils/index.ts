@@ -2,6 +2,16 @@ import bcrypt from 'bcryptjs';
 import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import { TokenPayload, UserRole, TrustLevel } from '../types';
+import { foldAccents, collapsePhrases } from './keywordDictionary';
+
+export type { DictionaryEntry, DictionaryGroup } from './keywordDictionary';
+export {
+  KEYWORD_DICTIONARY,
+  foldAccents,
+  collapsePhrases,
+  lookupKeyword,
+  canonicalizeKeyword
+} from './keywordDictionary';
 
 // ============================================
 // PASSWORD & HASHING UTILITIES
@@ -108,7 +118,7 @@ export async function verifyOTP(otp: string, hash: string): Promise<boolean> {
 // KEYWORD EXTRACTION
 // ============================================
 
-// Common stopwords to filter out (English + Kinyarwanda)
+// Common stopwords to filter out (English + Kinyarwanda + French)
 const STOPWORDS = new Set([
   // English
   'the', 'a', 'an', 'in', 'on', 'at', 'to', 'for', 'of', 'and', 'or', 'is', 'it',
@@ -124,16 +134,20 @@ const STOPWORDS = new Set([
   // Kinyarwanda common
   'mu', 'ku', 'ni', 'na', 'ndi', 'uri', 'ari', 'dufite', 'nta', 'hari', 'ya', 'yo',
   'by', 'bya', 'cy', 'cya', 'ry', 'rya', 'wa', 'wo', 'ba', 'bo', 'ka', 'ko', 'ha',
+  // French common
+  'le', 'la', 'les', 'un', 'une', 'des', 'du', 'de', 'et', 'ou', 'avec', 'dans', 'sur',
+  'pour', 'par', 'est', 'mon', 'ma', 'mes', 'son', 'sa', 'ses', 'qui', 'que', 'perdu',
+  'perdue', 'trouve', 'trouvee',
 ]);
 
 // High-value keywords to always include if found
-const COLOR_PATTERNS = [
+export const COLOR_PATTERNS = [
   'black', 'white', 'red', 'blue', 'green', 'yellow', 'orange', 'pink', 'purple',
   'brown', 'grey', 'gray', 'silver', 'gold', 'dark', 'light',
   'umukara', 'umweru', 'umutuku', 'ubururu'
 ];
 
-const BRAND_PATTERNS = [
+export const BRAND_PATTERNS = [
   'iphone', 'samsung', 'galaxy', 'tecno', 'infinix', 'itel', 'huawei', 'xiaomi',
   'redmi', 'oppo', 'vivo', 'nokia', 'motorola', 'pixel', 'oneplus', 'realme',
   'nike', 'adidas', 'samsonite', 'puma', 'gucci', 'louis', 'vuitton', 'zara',
@@ -144,11 +158,14 @@ const BRAND_PATTERNS = [
 export function extractKeywords(text: string): string[] {
   if (!text) return [];
 
-  const normalized = text
-    .toLowerCase()
-    .replace(/[^\w\s]/g, ' ')
-    .replace(/\s+/g, ' ')
-    .trim();
+  // Accents are folded so "téléphone" survives the \w filter as "telephone";
+  // multi-word expressions ("porte-monnaie") collapse to one token.
+  const normalized = collapsePhrases(
+    foldAccents(text.toLowerCase())
+      .replace(/[^\w\s]/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+  );
 
   const words = normalized.split(' ');
   const keywords: Set<string> = new Set();
@@ -171,6 +188,76 @@ export function extractKeywords(text: string): string[] {
   return Array.from(keywords);
 }
 
+// ============================================
+// FUZZY KEYWORD MATCHING
+// ============================================
+
+export const KEYWORD_SIMILARITY_THRESHOLD = 0.75;
+
+// Classic edit distance (insert / delete / substitute)
+export function levenshteinDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Similarity between two keywords in [0, 1].
+ * - Typos: "samsng"/"samsung", "blak"/"black" via edit distance
+ * - Glued model numbers: "iphone12"/"iphone" via the alphabetic stem
+ * Differing model numbers ("iphone12"/"iphone13") never match.
+ */
+export function keywordSimilarity(a: string, b: string): number {
+  const w1 = a.toLowerCase();
+  const w2 = b.toLowerCase();
+  if (w1 === w2) return 1;
+
+  const digits1 = w1.replace(/\D/g, '');
+  const digits2 = w2.replace(/\D/g, '');
+  if (digits1 && digits2 && digits1 !== digits2) return 0;
+
+  const stem1 = w1.replace(/\d/g, '');
+  const stem2 = w2.replace(/\d/g, '');
+  if (stem1.length >= 3 && stem1 === stem2) return KEYWORD_SIMILARITY_THRESHOLD;
+
+  // Short words are too easy to confuse ("bag"/"bat")
+  if (Math.min(w1.length, w2.length) < 4) return 0;
+
+  const distance = levenshteinDistance(w1, w2);
+  const maxDistance = Math.max(w1.length, w2.length) > 5 ? 2 : 1;
+  if (distance > maxDistance) return 0;
+
+  return 1 - distance / Math.max(w1.length, w2.length);
+}
+
+// Snap a possibly misspelt word to a known colour or brand ("samsng" -> "samsung")
+export function closestKnownKeyword(word: string): string | null {
+  const lower = word.toLowerCase();
+  if (COLOR_PATTERNS.includes(lower) || BRAND_PATTERNS.includes(lower)) return lower;
+
+  let best: string | null = null;
+  let bestSimilarity = 0;
+  for (const candidate of [...COLOR_PATTERNS, ...BRAND_PATTERNS]) {
+    const similarity = keywordSimilarity(lower, candidate);
+    if (similarity >= KEYWORD_SIMILARITY_THRESHOLD && similarity > bestSimilarity) {
+      best = candidate;
+      bestSimilarity = similarity;
+    }
+  }
+  return best;
+}
+
 // ============================================
 // TRUST SCORE UTILITIES
 // ============================================
@@ -268,6 +355,51 @@ export function computeLocationDistance(area1: string, area2: string): number {
   return 3;
 }
 
+// Known areas grouped by distance from the origin: [same, adjacent, same district].
+// Anything not listed is distance 3.
+export function areasByDistance(origin: string): string[][] {
+  const known = new Set<string>([
+    ...Object.values(KIGALI_AREAS).flat().map(a => a.toLowerCase()),
+    ...Object.keys(ADJACENT_AREAS),
+    ...Object.values(ADJACENT_AREAS).flat(),
+  ]);
+  known.add(origin.toLowerCase().trim());
+
+  const groups: string[][] = [[], [], []];
+  for (const area of known) {
+    const distance = computeLocationDistance(origin, area);
+    if (distance < groups.length) groups[distance].push(area);
+  }
+  return groups.map(group => group.sort());
+}
+
+// ============================================
+// TRANSPORT UTILITIES
+// ============================================
+
+// "rad 123 a" / "RAD-123A" -> "RAD123A"
+export function normalizePlateNumber(plate: string): string {
+  return plate.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+// Route identity independent of direction and spelling of the separator:
+// "Nyabugogo–Kimironko", "Kimironko - Nyabugogo" -> "kimironko|nyabugogo"
+export function routeKey(name: string): string {
+  return name
+    .toLowerCase()
+    .split(/\s*(?:[-–—→>]|\bto\b)\s*/)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .sort()
+    .join('|');
+}
+
+// Stops present in both sequences, in the order of the first
+export function sharedStops(a: string[], b: string[]): string[] {
+  const other = new Set(b.map(stop => stop.toLowerCase().trim()));
+  return a.filter(stop => other.has(stop.toLowerCase().trim()));
+}
+
 // ============================================
 // FRAUD DETECTION UTILITIES
 // ============================================
@@ -371,4 +503,71 @@ export function parsePaginationParams(
   const offset = (parsedPage - 1) * parsedLimit;
 
   return { page: parsedPage, limit: parsedLimit, offset };
+}
+
+// ============================================
+// CURSOR (KEYSET) PAGINATION
+// ============================================
+// Listings are ordered by (timestamp DESC, id DESC). A cursor is the
+// position of the last row returned, so rows created while someone pages
+// never shift later pages. Cursors are opaque to clients.
+
+export interface PageCursor {
+  key: string; // timestamp at microsecond precision
+  id: number;
+}
+
+// Select alongside each row so the cursor keeps Postgres' full precision
+// (a JS Date would truncate to milliseconds)
+export function cursorKeyColumn(column: string): string {
+  return `to_char(${column}, 'YYYY-MM-DD"T"HH24:MI:SS.US') AS cursor_key`;
+}
+
+export function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify([cursor.key, cursor.id])).toString('base64url');
+}
+
+// undefined when no cursor was sent, null when it cannot be decoded
+export function decodeCursor(cursor: unknown): PageCursor | null | undefined {
+  if (cursor === undefined || cursor === '') return undefined;
+  if (typeof cursor !== 'string') return null;
+  try {
+    const [key, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof key !== 'string' || !/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{6}$/.test(key)) return null;
+    if (!Number.isInteger(id)) return null;
+    return { key, id };
+  } catch {
+    return null;
+  }
+}
+
+// "Strictly after the cursor" in (column DESC, id DESC) order; values are
+// appended to params
+export function keysetCondition(column: string, idColumn: string, cursor: PageCursor, params: any[]): string {
+  params.push(cursor.key, cursor.id);
+  return `(${column}, ${idColumn}) < ($${params.length - 1}::timestamp, $${params.length})`;
+}
+
+/**
+ * Trim a result fetched with LIMIT limit + 1 to one page, strip cursor_key
+ * from the rows and return the cursor for the next page (null on the last).
+ */
+export function takeCursorPage<T extends { cursor_key?: string; [column: string]: any }>(
+  rows: T[],
+  limit: number,
+  idColumn: string = 'id'
+): { rows: Omit<T, 'cursor_key'>[]; nextCursor: string | null } {
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  const nextCursor = rows.length > limit && last?.cursor_key
+    ? encodeCursor({ key: last.cursor_key, id: Number(last[idColumn]) })
+    : null;
+  return { rows: page.map(({ cursor_key, ...row }) => row), nextCursor };
+}
+
+// Offset pages keep their page numbers and total; cursor pages skip the
+// COUNT(*) and only say where to continue
+export function buildPagination(page: number, limit: number, total: number | null, nextCursor: string | null) {
+  if (total === null) return { limit, nextCursor };
+  return { page, limit, total, totalPages: Math.ceil(total / limit), nextCursor };
 }
\ No newline at end of file
@@ -0,0 +1,103 @@
+// ============================================
+// TRILINGUAL KEYWORD DICTIONARY
+// Kinyarwanda / English / French -> canonical English term
+// ============================================
+
+// Reports are written in whichever language the reporter is comfortable
+// with, so "telefone y'umukara" and "téléphone noir" must both reduce to
+// "phone" + "black" before they are compared.
+
+export type DictionaryGroup = 'color' | 'item' | 'brand' | 'material';
+
+export interface DictionaryEntry {
+  canonical: string;
+  group: DictionaryGroup;
+  variants: string[];
+}
+
+export const KEYWORD_DICTIONARY: DictionaryEntry[] = [
+  // Colours
+  { canonical: 'black', group: 'color', variants: ['umukara', 'noir', 'noire', 'noirs'] },
+  { canonical: 'white', group: 'color', variants: ['umweru', 'blanc', 'blanche', 'blancs'] },
+  { canonical: 'red', group: 'color', variants: ['umutuku', 'rouge', 'rouges'] },
+  { canonical: 'blue', group: 'color', variants: ['ubururu', 'bleu', 'bleue', 'bleus'] },
+  { canonical: 'green', group: 'color', variants: ['icyatsi', 'vert', 'verte', 'verts'] },
+  { canonical: 'yellow', group: 'color', variants: ['umuhondo', 'jaune', 'jaunes'] },
+  { canonical: 'brown', group: 'color', variants: ['ikigina', 'marron', 'brun', 'brune'] },
+  { canonical: 'grey', group: 'color', variants: ['gray', 'ivu', 'gris', 'grise'] },
+  { canonical: 'pink', group: 'color', variants: ['iroza', 'rose', 'roses'] },
+  { canonical: 'purple', group: 'color', variants: ['violet', 'violette', 'mauve'] },
+  { canonical: 'silver', group: 'color', variants: ['ifeza', 'argente', 'argentee'] },
+  { canonical: 'gold', group: 'color', variants: ['zahabu', 'dore', 'doree', 'golden'] },
+
+  // Item nouns
+  { canonical: 'phone', group: 'item', variants: [
+    'telefone', 'terefone', 'telephone', 'portable', 'mobile', 'cellphone', 'smartphone', 'phones'
+  ] },
+  { canonical: 'wallet', group: 'item', variants: ['agakapu', 'portefeuille', 'portemonnaie', 'purse', 'wallets'] },
+  { canonical: 'bag', group: 'item', variants: [
+    'igikapu', 'isakoshi', 'sac', 'sacoche', 'handbag', 'backpack', 'rucksack', 'bags'
+  ] },
+  { canonical: 'keys', group: 'item', variants: ['key', 'urufunguzo', 'imfunguzo', 'cle', 'cles', 'clef', 'clefs'] },
+  { canonical: 'identity', group: 'item', variants: ['indangamuntu', 'identite', 'idcard'] },
+  { canonical: 'passport', group: 'item', variants: ['pasiporo', 'passeport'] },
+  { canonical: 'laptop', group: 'item', variants: ['mudasobwa', 'ordinateur', 'computer'] },
+  { canonical: 'card', group: 'item', variants: ['ikarita', 'carte', 'cards', 'cartes'] },
+  { canonical: 'watch', group: 'item', variants: ['isaha', 'montre'] },
+  { canonical: 'shoes', group: 'item', variants: ['inkweto', 'chaussures', 'chaussure', 'shoe'] },
+  { canonical: 'jacket', group: 'item', variants: ['ikoti', 'veste', 'blouson', 'coat'] },
+  { canonical: 'umbrella', group: 'item', variants: ['umutaka', 'parapluie'] },
+  { canonical: 'glasses', group: 'item', variants: ['amadarubindi', 'lunettes', 'spectacles', 'sunglasses'] },
+  { canonical: 'charger', group: 'item', variants: ['chargeur', 'chaja'] },
+  { canonical: 'earphones', group: 'item', variants: ['ecouteurs', 'earbuds', 'headphones'] },
+  { canonical: 'documents', group: 'item', variants: ['impapuro', 'papiers', 'document', 'papers'] },
+
+  // Brands (spelling variants people actually type)
+  { canonical: 'tecno', group: 'brand', variants: ['techno'] },
+  { canonical: 'macbook', group: 'brand', variants: ['mac'] },
+  { canonical: 'hp', group: 'brand', variants: ['hewlett'] },
+
+  // Materials
+  { canonical: 'leather', group: 'material', variants: ['uruhu', 'cuir'] },
+  { canonical: 'plastic', group: 'material', variants: ['pulasitiki', 'plastique'] },
+  { canonical: 'metal', group: 'material', variants: ['icyuma', 'metallique'] },
+  { canonical: 'fabric', group: 'material', variants: ['igitambaro', 'tissu', 'cloth'] },
+  { canonical: 'rubber', group: 'material', variants: ['caoutchouc'] },
+];
+
+// Multi-word expressions collapsed to a single canonical token before
+// tokenising (input is already lower-cased and accent-free)
+const PHRASES: Array<[RegExp, string]> = [
+  [/\bporte monnaie\b/g, 'portemonnaie'],
+  [/\bcarte d identite\b/g, 'identite'],
+  [/\bsac a dos\b/g, 'backpack'],
+  [/\bicyatsi kibisi\b/g, 'icyatsi'],
+  [/\bid card\b/g, 'idcard'],
+];
+
+const LOOKUP = new Map<string, DictionaryEntry>();
+for (const entry of KEYWORD_DICTIONARY) {
+  LOOKUP.set(entry.canonical, entry);
+  for (const variant of entry.variants) {
+    LOOKUP.set(variant, entry);
+  }
+}
+
+// "téléphone" -> "telephone"
+export function foldAccents(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+export function collapsePhrases(text: string): string {
+  return PHRASES.reduce((acc, [pattern, token]) => acc.replace(pattern, token), text);
+}
+
+export function lookupKeyword(word: string): DictionaryEntry | undefined {
+  return LOOKUP.get(foldAccents(word.toLowerCase()));
+}
+
+// Canonical English form of a keyword; unknown words pass through lower-cased
+export function canonicalizeKeyword(word: string): string {
+  const lower = foldAccents(word.toLowerCase());
+  return LOOKUP.get(lower)?.canonical ?? lower;
+}
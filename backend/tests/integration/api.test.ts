@@ -224,6 +224,24 @@ describeIf('Integration: Full API Flow', () => {
       expect(res.status).toBe(200);
       expect(res.body.data.passed).toBe(false);
       expect(res.body.data.score).toBe(0);
+      expect(res.body.data.cooldown_until).toBeTruthy();
+    });
+
+    it('GET /claims/:id/verification/status — failure starts a cooldown', async () => {
+      const res = await request.get(`/api/v1/claims/${claimId}/verification/status`)
+        .set('Authorization', `Bearer ${citizenToken}`);
+      expect(res.status).toBe(200);
+      expect(res.body.data.canAttempt).toBe(false);
+      expect(res.body.data.consecutiveFailures).toBe(1);
+
+      const retry = await request.post(`/api/v1/claims/${claimId}/verify`)
+        .set('Authorization', `Bearer ${citizenToken}`)
+        .send({ answers: ['my dog', 'blue', 'wrong answer'] });
+      expect(retry.status).toBe(429);
+
+      // Let the next attempt through without waiting an hour
+      const { query } = await import('../../src/config/database');
+      await query('UPDATE claims SET next_attempt_at = NULL WHERE id = $1', [claimId]);
     });
 
     it('POST /claims/:id/verify — correct answers pass (2/3)', async () => {
@@ -241,6 +259,18 @@ describeIf('Integration: Full API Flow', () => {
       expect(res.status).toBe(200);
       expect(res.body.data.status).toBe('VERIFIED');
     });
+
+    it('GET /found-items/:id/claims — finder sees the verified claim first', async () => {
+      const res = await request.get(`/api/v1/found-items/${foundItemId}/claims`)
+        .set('Authorization', `Bearer ${finderToken}`);
+      expect(res.status).toBe(200);
+      expect(res.body.data.contested).toBe(false);
+      expect(res.body.data.claims[0]).toMatchObject({ rank: 1, claim_id: claimId, status: 'VERIFIED' });
+
+      const other = await request.get(`/api/v1/found-items/${foundItemId}/claims`)
+        .set('Authorization', `Bearer ${citizenToken}`);
+      expect(other.status).toBe(403);
+    });
   });
 
   // ============================================
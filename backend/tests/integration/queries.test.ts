@@ -0,0 +1,217 @@
+/**
+ * Integration Tests: SQL against a real database
+ * The unit tests mock query(), so they cannot catch what only Postgres
+ * rejects: enum types that do not mix, unused or untyped parameters,
+ * partial unique indexes.
+ * Requires DATABASE_URL env var pointing to test database.
+ */
+
+import { query, closePool } from '../../src/config/database';
+import { runMigrations } from '../../src/migrations/001_initial';
+import { runPatchMigrations } from '../../src/migrations/002_patch';
+import { runMatchProfileMigrations } from '../../src/migrations/003_match_weight_profiles';
+import { runMatchJobMigrations } from '../../src/migrations/004_match_jobs';
+import { runMatchFeedbackMigrations } from '../../src/migrations/005_match_feedback';
+import { runTimeWindowMigrations } from '../../src/migrations/006_time_windows';
+import { runTransportContextMigrations } from '../../src/migrations/007_transport_context';
+import { runSavedSearchMigrations } from '../../src/migrations/008_saved_searches';
+import { runSearchRankingMigrations } from '../../src/migrations/009_search_ranking';
+import { runSearchLogMigrations } from '../../src/migrations/010_search_logs';
+import { runLossIncidentMigrations } from '../../src/migrations/011_loss_incidents';
+import { runLostItemImageMigrations } from '../../src/migrations/012_lost_item_images';
+import { runStoredFileMigrations } from '../../src/migrations/013_stored_files';
+import { runItemImageMigrations } from '../../src/migrations/014_item_images';
+import { runRedactedImageMigrations } from '../../src/migrations/015_redacted_images';
+import { runCustodyTransferMigrations } from '../../src/migrations/016_custody_transfers';
+import { runFoundItemAttributeMigrations } from '../../src/migrations/017_found_item_attributes';
+import { runVerificationQuestionMigrations } from '../../src/migrations/018_verification_questions';
+import { runTypedAnswerMigrations } from '../../src/migrations/019_typed_answers';
+import { runClaimQueueMigrations } from '../../src/migrations/020_claim_queue';
+import { startMatchWorker, stopMatchWorker } from '../../src/services/matchJobService';
+import { getSearchAnalytics } from '../../src/services/searchAnalyticsService';
+import { searchAllItems } from '../../src/services/searchService';
+import {
+  recordVerificationAttempt,
+  releaseVerificationAttempt,
+  reserveVerificationAttempt
+} from '../../src/services/verificationCooldownService';
+
+// Skip integration tests if no DATABASE_URL
+const DATABASE_URL = process.env.DATABASE_URL;
+const describeIf = DATABASE_URL ? describe : describe.skip;
+
+describeIf('Integration: SQL', () => {
+  // Unique per run, so a reused test database does not get in the way
+  const tag = `q${Date.now()}`;
+  let userId: number;
+  let lostItemId: number;
+  let foundItemId: number;
+
+  // Earlier runs leave their rows behind; only this run's items are checked
+  const ours = (items: any[]) => items.filter(item =>
+    (item.item_type === 'lost' && item.id === lostItemId) ||
+    (item.item_type === 'found' && item.id === foundItemId));
+
+  beforeAll(async () => {
+    // Same order as startServer
+    await runMigrations();
+    await runPatchMigrations();
+    await runMatchProfileMigrations();
+    await runMatchJobMigrations();
+    await runMatchFeedbackMigrations();
+    await runTimeWindowMigrations();
+    await runTransportContextMigrations();
+    await runSavedSearchMigrations();
+    await runSearchRankingMigrations();
+    await runSearchLogMigrations();
+    await runLossIncidentMigrations();
+    await runLostItemImageMigrations();
+    await runStoredFileMigrations();
+    await runItemImageMigrations();
+    await runRedactedImageMigrations();
+    await runCustodyTransferMigrations();
+    await runFoundItemAttributeMigrations();
+    await runVerificationQuestionMigrations();
+    await runTypedAnswerMigrations();
+    await runClaimQueueMigrations();
+
+    const user = await query(
+      `INSERT INTO users (email, password_hash, name) VALUES ($1, 'x', 'Query Tester') RETURNING id`,
+      [`${tag}@test.com`]
+    );
+    userId = user.rows[0].id;
+
+    const lost = await query(
+      `INSERT INTO lost_items (user_id, category, title, description, location_area, lost_date)
+       VALUES ($1, 'WALLET', $2, 'Brown leather wallet with cards', 'Remera', NOW())
+       RETURNING id`,
+      [userId, `${tag} wallet`]
+    );
+    lostItemId = lost.rows[0].id;
+
+    const found = await query(
+      `INSERT INTO found_items (finder_id, category, title, description, location_area, found_date)
+       VALUES ($1, 'WALLET', $2, 'Brown wallet left on a bus seat', 'Kimironko', NOW())
+       RETURNING id`,
+      [userId, `${tag} wallet`]
+    );
+    foundItemId = found.rows[0].id;
+  });
+
+  afterAll(async () => {
+    await closePool();
+  });
+
+  // ============================================
+  // UNIFIED SEARCH
+  // ============================================
+  describe('searchAllItems', () => {
+    it('merges lost and found items, whose statuses are different enums', async () => {
+      const { items, total } = await searchAllItems({ q: tag, limit: 100, offset: 0 });
+
+      expect(total).toBe(items.length);
+      expect(ours(items).map(item => [item.item_type, item.id, item.status]).sort()).toEqual([
+        ['found', foundItemId, 'UNCLAIMED'],
+        ['lost', lostItemId, 'ACTIVE'],
+      ]);
+    });
+
+    it('lists both tables without a query', async () => {
+      const { items, total } = await searchAllItems({ limit: 100, offset: 0 });
+
+      expect(total).toBeGreaterThanOrEqual(2);
+      expect(new Set(items.map(item => item.item_type))).toEqual(new Set(['lost', 'found']));
+    });
+
+    it('counts and orders by distance from an area', async () => {
+      const { items, total } = await searchAllItems({
+        q: tag, near: 'Remera', max_distance: 2, sort: 'closest', limit: 100, offset: 0
+      });
+
+      expect(total).toBe(items.length);
+      const [lost, found] = ours(items);
+      expect(lost).toMatchObject({ item_type: 'lost', id: lostItemId, distance: 0 });
+      expect(found).toMatchObject({ item_type: 'found', id: foundItemId });
+      expect(found.distance).toBeGreaterThan(0);
+    });
+  });
+
+  // ============================================
+  // SEARCH ANALYTICS
+  // ============================================
+  describe('getSearchAnalytics', () => {
+    it('sets searched categories (text) against reported ones (enum)', async () => {
+      await query(
+        `INSERT INTO search_logs (item_type, search_mode, category, location_area, filters, results_count)
+         VALUES ('LOST', 'LIST', 'WALLET', 'Remera', '{}', 0)`
+      );
+
+      for (const itemType of [undefined, 'lost'] as const) {
+        const analytics = await getSearchAnalytics(30, itemType);
+        const spot = analytics.hot_spots.find(row => row.area === 'remera' && row.category === 'WALLET');
+        expect(spot).toBeDefined();
+        expect(spot!.lost_reports).toBeGreaterThanOrEqual(1);
+      }
+    });
+  });
+
+  // ============================================
+  // VERIFICATION ATTEMPTS
+  // ============================================
+  describe('verification attempts', () => {
+    let claimId: number;
+
+    beforeAll(async () => {
+      const claim = await query(
+        `INSERT INTO claims (lost_item_id, found_item_id, claimant_id) VALUES ($1, $2, $3) RETURNING id`,
+        [lostItemId, foundItemId, userId]
+      );
+      claimId = claim.rows[0].id;
+    });
+
+    const nextAttemptAt = async () =>
+      (await query('SELECT next_attempt_at FROM claims WHERE id = $1', [claimId])).rows[0].next_attempt_at;
+
+    it('holds the claim while an attempt is reserved and gives the hold back', async () => {
+      const reservation = await reserveVerificationAttempt(claimId, userId);
+      expect(reservation.canAttempt).toBe(true);
+      expect(await nextAttemptAt()).not.toBeNull();
+
+      expect((await reserveVerificationAttempt(claimId, userId)).canAttempt).toBe(false);
+
+      await releaseVerificationAttempt(claimId, reservation);
+      expect(await nextAttemptAt()).toBeNull();
+    });
+
+    it('replaces the hold with the backoff when the attempt is recorded', async () => {
+      await reserveVerificationAttempt(claimId, userId);
+      const attempt = await recordVerificationAttempt(claimId, userId, false, 0);
+
+      expect(attempt.consecutiveFailures).toBe(1);
+      expect(new Date(await nextAttemptAt()).getTime()).toBe(attempt.newCooldown!.getTime());
+    });
+  });
+
+  // ============================================
+  // MATCH JOBS
+  // ============================================
+  describe('startMatchWorker', () => {
+    afterEach(() => stopMatchWorker());
+
+    it('requeues one abandoned job per item and drops the others', async () => {
+      const stale = await query(
+        `INSERT INTO match_jobs (item_type, item_id, status, attempts, started_at)
+         VALUES ('found', $1, 'RUNNING', 1, NOW() - INTERVAL '1 hour'),
+                ('found', $1, 'RUNNING', 1, NOW() - INTERVAL '1 hour')
+         RETURNING id`,
+        [foundItemId]
+      );
+      const ids = stale.rows.map(row => row.id);
+
+      await startMatchWorker();
+
+      const jobs = await query('SELECT id, status FROM match_jobs WHERE id = ANY($1) ORDER BY id', [ids]);
+      expect(jobs.rows.map(row => row.status)).toEqual(['FAILED', 'PENDING']);
+    });
+  });
+});
@@ -1,4 +1,5 @@
 import { computeMatchScore } from '../src/services/matchingService';
+import { DEFAULT_MATCH_PROFILES } from '../src/services/matchWeightProfileService';
 import { LostItem, FoundItem, ItemCategory, LostItemStatus, FoundItemStatus, ItemSource } from '../src/types';
 
 describe('Matching Engine', () => {
@@ -122,4 +123,264 @@ describe('Matching Engine', () => {
       expect(result.score).toBeGreaterThan(0);
     });
   });
-});
\ No newline at end of file
+  describe('weight profiles', () => {
+    it('should record the profile version in the explanation', () => {
+      const result = computeMatchScore(createLostItem(), createFoundItem());
+
+      expect(result.explanation).toContain('Weight profile: PHONE v1');
+    });
+
+    it('should weight colour and brand keywords higher for bags', () => {
+      const lost = createLostItem({ category: ItemCategory.BAG, keywords: ['black', 'samsonite', 'zipper'] });
+      const found = createFoundItem({ category: ItemCategory.BAG, keywords: ['black', 'samsonite', 'zipper'] });
+
+      const result = computeMatchScore(lost, found);
+
+      expect(result.explanation).toContain('Keyword: "black" (+3)');
+      expect(result.explanation).toContain('Keyword: "samsonite" (+3)');
+      expect(result.explanation).toContain('Keyword: "zipper" (+1)');
+    });
+
+    it('should apply a custom profile passed by the caller', () => {
+      const profile = {
+        ...DEFAULT_MATCH_PROFILES[ItemCategory.PHONE],
+        id: 42,
+        version: 7,
+        weights: { ...DEFAULT_MATCH_PROFILES[ItemCategory.PHONE].weights, CATEGORY_MATCH: 10 },
+        max_keyword_bonuses: 1,
+      };
+
+      const result = computeMatchScore(createLostItem(), createFoundItem(), profile);
+
+      expect(result.explanation).toContain('Category match: PHONE (+10)');
+      expect(result.explanation.filter(e => e.startsWith('Keyword')).length).toBe(1);
+      expect(result.explanation).toContain('Weight profile: PHONE v7');
+    });
+  });
+  describe('fuzzy keyword matching', () => {
+    it('should give partial credit for misspelt keywords', () => {
+      const lost = createLostItem({ keywords: ['samsng', 'charger'] });
+      const found = createFoundItem({ keywords: ['samsung', 'charger'] });
+
+      const result = computeMatchScore(lost, found);
+
+      expect(result.explanation).toContain('Keyword: "charger" (+1)');
+      expect(result.explanation).toContain('Similar keyword: "samsng"≈"samsung" (+0.5)');
+    });
+
+    it('should match glued model numbers', () => {
+      const lost = createLostItem({ keywords: ['iphone12'] });
+      const found = createFoundItem({ keywords: ['iphone'] });
+
+      const result = computeMatchScore(lost, found);
+
+      expect(result.explanation.some(e => e.startsWith('Similar keyword: "iphone12"'))).toBe(true);
+    });
+
+    it('should not award exact and fuzzy credit for the same keyword', () => {
+      const lost = createLostItem({ keywords: ['black', 'blak'] });
+      const found = createFoundItem({ keywords: ['black'] });
+
+      const result = computeMatchScore(lost, found);
+
+      expect(result.explanation.filter(e => e.includes('black')).length).toBe(1);
+    });
+  });
+
+  describe('translated keywords', () => {
+    it('should link Kinyarwanda and French keywords to English', () => {
+      const lost = createLostItem({ category: ItemCategory.WALLET, keywords: ['agakapu', 'umukara'] });
+      const found = createFoundItem({ category: ItemCategory.WALLET, keywords: ['portefeuille', 'black'] });
+
+      const result = computeMatchScore(lost, found);
+
+      expect(result.explanation).toContain('Linked via translation: "agakapu"↔"portefeuille" → wallet (+1)');
+      expect(result.explanation).toContain('Linked via translation: "umukara"↔"black" (+1)');
+    });
+
+    it('should weight translated colours with the colour weight', () => {
+      const lost = createLostItem({ category: ItemCategory.BAG, keywords: ['noir'] });
+      const found = createFoundItem({ category: ItemCategory.BAG, keywords: ['umukara'] });
+
+      const result = computeMatchScore(lost, found);
+
+      expect(result.explanation).toContain('Linked via translation: "noir"↔"umukara" → black (+3)');
+    });
+
+    it('should prefer an exact keyword over a translation', () => {
+      const lost = createLostItem({ keywords: ['black', 'noir'] });
+      const found = createFoundItem({ keywords: ['black'] });
+
+      const result = computeMatchScore(lost, found);
+
+      expect(result.explanation).toContain('Keyword: "black" (+1)');
+      expect(result.explanation.some(e => e.startsWith('Linked via translation'))).toBe(false);
+    });
+  });
+
+  describe('time windows', () => {
+    // Phone left on a Nyabugogo→Kimironko bus around 08:10, found at the depot
+    const lostWindow = {
+      lost_window_start: new Date('2024-01-15T08:00:00Z'),
+      lost_window_end: new Date('2024-01-15T08:30:00Z'),
+    };
+
+    it('should score overlapping windows above a same-day date match', () => {
+      const lost = createLostItem(lostWindow);
+      const found = createFoundItem({
+        found_window_start: new Date('2024-01-15T08:20:00Z'),
+        found_window_end: new Date('2024-01-15T09:00:00Z'),
+      });
+
+      const result = computeMatchScore(lost, found);
+
+      expect(result.explanation).toContain('Time windows overlap (+5)');
+      expect(result.explanation.some(e => e.includes('24 hours'))).toBe(false);
+    });
+
+    it('should give +4 when found shortly after the loss window', () => {
+      const lost = createLostItem(lostWindow);
+      const found = createFoundItem({
+        found_window_start: new Date('2024-01-15T09:30:00Z'),
+        found_window_end: new Date('2024-01-15T09:45:00Z'),
+      });
+
+      const result = computeMatchScore(lost, found);
+
+      expect(result.explanation).toContain('Found within 2 hours of the loss window (+4)');
+    });
+
+    it('should fall back to hour buckets between distant windows', () => {
+      const lost = createLostItem(lostWindow);
+      const found = createFoundItem({
+        found_window_start: new Date('2024-01-16T18:00:00Z'),
+        found_window_end: new Date('2024-01-16T19:00:00Z'),
+      });
+
+      const result = computeMatchScore(lost, found);
+
+      expect(result.explanation).toContain('Within 72 hours (+2)');
+    });
+
+    it('should not credit a found window long before the loss', () => {
+      const lost = createLostItem(lostWindow);
+      const found = createFoundItem({
+        found_window_start: new Date('2024-01-13T07:00:00Z'),
+        found_window_end: new Date('2024-01-13T07:30:00Z'),
+      });
+
+      const result = computeMatchScore(lost, found);
+
+      expect(result.explanation.some(e => /hours|days|window/.test(e))).toBe(false);
+    });
+
+    it('should score date-only reports exactly as before when one side has a window', () => {
+      const found = createFoundItem();
+      const dateOnly = computeMatchScore(createLostItem(), found);
+      const oneSided = computeMatchScore(createLostItem(lostWindow), found);
+
+      expect(oneSided).toEqual(dateOnly);
+      expect(dateOnly.explanation).toContain('Within 24 hours (+3)');
+    });
+  });
+
+  describe('transport context', () => {
+    it('should give a strong bonus for the same vehicle', () => {
+      const lost = createLostItem({ vehicle_plate: 'rad 123 a' });
+      const found = createFoundItem({ vehicle_plate: 'RAD123A' });
+
+      const result = computeMatchScore(lost, found);
+
+      expect(result.explanation).toContain('Same vehicle: RAD123A (+6)');
+      expect(result.score).toBe(computeMatchScore(createLostItem(), createFoundItem()).score + 6);
+    });
+
+    it('should match a route written in the other direction', () => {
+      const lost = createLostItem({ route_name: 'Kimironko - Nyabugogo' });
+      const found = createFoundItem({ route_name: 'Nyabugogo–Kimironko' });
+
+      const result = computeMatchScore(lost, found);
+
+      expect(result.explanation).toContain('Same route: Nyabugogo–Kimironko (+3)');
+    });
+
+    it('should add shared stops on the same route', () => {
+      const lost = createLostItem({ route_id: 4, route_name: 'Nyabugogo–Kimironko', stop_sequence: ['Nyabugogo', 'Kacyiru'] });
+      const found = createFoundItem({ route_id: 4, route_name: 'Nyabugogo–Kimironko', stop_sequence: ['kacyiru', 'Kimironko'] });
+
+      const result = computeMatchScore(lost, found);
+
+      expect(result.explanation).toContain('Shared stops: Kacyiru (+2)');
+    });
+
+    it('should not credit stops without a shared route', () => {
+      const lost = createLostItem({ route_name: 'Nyabugogo–Kimironko', stop_sequence: ['Kacyiru'] });
+      const found = createFoundItem({ route_name: 'Remera–Town', stop_sequence: ['Kacyiru'] });
+
+      const result = computeMatchScore(lost, found);
+
+      expect(result.explanation.some(e => /route|stops|vehicle/i.test(e))).toBe(false);
+    });
+  });
+  describe('incident signals', () => {
+    const bagLost = () => createLostItem({
+      id: 10, category: ItemCategory.BAG, title: 'Black backpack', incident_id: 3,
+      description: 'Black backpack with laptop sleeve', keywords: ['black', 'backpack', 'laptop'],
+    });
+    const bagFound = (overrides: Partial<FoundItem> = {}) => createFoundItem({
+      id: 20, category: ItemCategory.BAG, title: 'Backpack found in bus',
+      description: 'Black backpack, a phone and keys inside', keywords: ['black', 'backpack', 'phone', 'keys'],
+      ...overrides,
+    });
+    const noIncident = { siblingTerms: [], siblingMatches: [] };
+
+    it('should credit a found bag that mentions other items from the loss', () => {
+      const incident = { siblingTerms: ['phone', 'samsung'], siblingMatches: [] };
+
+      const withIncident = computeMatchScore(bagLost(), bagFound(), undefined, incident);
+      const without = computeMatchScore(bagLost(), bagFound(), undefined, noIncident);
+
+      expect(withIncident.explanation).toContain('Mentions other items lost with it: phone (+2)');
+      expect(withIncident.score).toBe(without.score + 2);
+    });
+
+    it('should credit items turned in by the same finder as a sibling match', () => {
+      const sibling = { found_item_id: 21, finder_id: 2, cooperative_id: null, found_date: new Date('2024-01-16T09:00:00Z') };
+
+      const result = computeMatchScore(bagLost(), bagFound(), undefined, { siblingTerms: [], siblingMatches: [sibling] });
+
+      expect(result.explanation).toContain('Turned in with a likely match for another item from this loss (+4)');
+    });
+
+    it('should not credit a sibling match on the same found item, another holder, or days apart', () => {
+      const base = { found_item_id: 21, finder_id: 2, cooperative_id: null, found_date: new Date('2024-01-15T12:00:00Z') };
+      const siblingMatches = [
+        { ...base, found_item_id: 20 },
+        { ...base, finder_id: 9 },
+        { ...base, found_date: new Date('2024-01-20T12:00:00Z') },
+        { ...base, cooperative_id: 5 },
+      ];
+
+      const result = computeMatchScore(bagLost(), bagFound(), undefined, { siblingTerms: [], siblingMatches });
+
+      expect(result.explanation.some(e => e.includes('another item from this loss'))).toBe(false);
+    });
+  });
+  describe('photos', () => {
+    it('should point out photos on both reports without scoring them', () => {
+      const lost = createLostItem({ image_urls: ['/uploads/a.jpg', '/uploads/b.jpg'] });
+      const found = createFoundItem({ image_urls: ['/uploads/c.jpg'] });
+
+      const result = computeMatchScore(lost, found);
+
+      expect(result.explanation).toContain('Photos on both reports: 2 from the owner, 1 from the finder - compare them');
+      expect(result.score).toBe(computeMatchScore(createLostItem(), found).score);
+    });
+
+    it('should say nothing when only one side has photos', () => {
+      const result = computeMatchScore(createLostItem({ image_urls: ['/uploads/a.jpg'] }), createFoundItem());
+
+      expect(result.explanation.some(e => e.startsWith('Photos'))).toBe(false);
+    });
+  });
+});
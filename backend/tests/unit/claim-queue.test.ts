@@ -0,0 +1,106 @@
+/**
+ * Unit Tests: Claim queue of a found item
+ * - The claim holding the item comes first, then the strongest pending claims
+ * - Verifying a claim closes its competitors as superseded by it
+ * - Passing after another claim won escalates to a dispute instead
+ */
+
+const mockClientQuery = jest.fn();
+
+jest.mock('../../src/config/database', () => ({
+  query: jest.fn(),
+  transaction: jest.fn((callback: (client: unknown) => unknown) => callback({ query: mockClientQuery })),
+}));
+
+import { isContested, rankClaimQueue, settleVerifiedClaim } from '../../src/services/claimQueueService';
+import { ClaimStatus, TrustLevel } from '../../src/types';
+
+function entry(claimId: number, status: ClaimStatus, score: number | null, risk = 0, trust = 0, day = 1) {
+  return {
+    claim_id: claimId, claimant_id: claimId * 10, claimant_name: `Claimant ${claimId}`,
+    lost_item_id: claimId * 100, lost_item_title: 'Black wallet', status,
+    verification_score: score, attempts_made: score === null ? 0 : 1, superseded_by: null,
+    trust_score: trust, trust_level: TrustLevel.NEW,
+    fraud_risk: { score: risk, level: 'LOW' as const, factors: [] },
+    created_at: new Date(Date.UTC(2026, 2, day)),
+  };
+}
+
+const ids = (queue: { claim_id: number }[]) => queue.map(e => e.claim_id);
+
+describe('rankClaimQueue', () => {
+  it('puts the claim holding the item first and closed claims last', () => {
+    const queue = rankClaimQueue([
+      entry(1, ClaimStatus.REJECTED, 0.9),
+      entry(2, ClaimStatus.PENDING, 0.5),
+      entry(3, ClaimStatus.VERIFIED, 0.7),
+      entry(4, ClaimStatus.DISPUTED, 0.8),
+    ]);
+    expect(ids(queue)).toEqual([3, 4, 2, 1]);
+    expect(queue.map(e => e.rank)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('orders pending claims by score, then fraud risk, trust and age', () => {
+    const queue = rankClaimQueue([
+      entry(1, ClaimStatus.PENDING, null, 0, 0, 1),
+      entry(2, ClaimStatus.PENDING, 0.6, 30, 20, 2),
+      entry(3, ClaimStatus.PENDING, 0.6, 10, 0, 3),
+      entry(4, ClaimStatus.PENDING, 0.6, 10, 12, 4),
+      entry(5, ClaimStatus.PENDING, 0.6, 10, 12, 1),
+    ]);
+    expect(ids(queue)).toEqual([5, 4, 3, 2, 1]);
+  });
+});
+
+describe('isContested', () => {
+  it('is contested when more than one claim holds on to the item', () => {
+    expect(isContested([{ status: ClaimStatus.VERIFIED }, { status: ClaimStatus.PENDING }])).toBe(false);
+    expect(isContested([{ status: ClaimStatus.VERIFIED }, { status: ClaimStatus.DISPUTED }])).toBe(true);
+  });
+});
+
+describe('settleVerifiedClaim', () => {
+  beforeEach(() => mockClientQuery.mockReset());
+
+  const claim = { id: 7, claimant_id: 70, lost_item_id: 700, found_item_id: 9 };
+
+  it('wins the item and closes the competing claims', async () => {
+    mockClientQuery
+      .mockResolvedValueOnce({ rows: [claim] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [{ image_urls: ['/uploads/a.jpg'] }] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [{ id: 8, claimant_id: 80, lost_item_id: 800 }] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    const settlement = await settleVerifiedClaim(7);
+
+    expect(mockClientQuery.mock.calls[0][0]).toMatch(/FOR UPDATE OF fi/);
+    expect(settlement.status).toBe(ClaimStatus.VERIFIED);
+    expect(settlement.found_item_image_urls).toEqual(['/uploads/a.jpg']);
+    expect(settlement.superseded).toEqual([{ id: 8, claimant_id: 80, lost_item_id: 800 }]);
+
+    const [closeSql, closeParams] = mockClientQuery.mock.calls[5];
+    expect(closeSql).toMatch(/SET status = 'REJECTED', superseded_by = \$2/);
+    expect(closeParams).toEqual([9, 7]);
+  });
+
+  it('escalates to a dispute when another claim won first', async () => {
+    mockClientQuery
+      .mockResolvedValueOnce({ rows: [claim] })
+      .mockResolvedValueOnce({ rows: [{ id: 5 }] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [{ id: 42 }] });
+
+    const settlement = await settleVerifiedClaim(7);
+
+    expect(settlement).toEqual({
+      status: ClaimStatus.DISPUTED, superseded: [], dispute_id: 42, rival_claim_id: 5
+    });
+    expect(mockClientQuery.mock.calls[2][0]).toMatch(/SET status = 'DISPUTED'/);
+    expect(mockClientQuery.mock.calls[3][1].slice(0, 2)).toEqual([7, 70]);
+    // The item is not matched again
+    expect(mockClientQuery).toHaveBeenCalledTimes(4);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Unit Tests: Custody chain of cooperative-held found items
+ * - Each transfer starts with the previous holder and is signed onto the chain
+ * - Editing, removing or reordering a transfer breaks the chain
+ * - Transfers cannot be dated in the future or before the previous one
+ * - Only admins and the holding cooperative's staff see the chain on a dispute
+ */
+
+const mockClientQuery = jest.fn();
+
+jest.mock('../../src/config/database', () => ({
+  query: jest.fn(),
+  transaction: jest.fn((callback: (client: unknown) => unknown) => callback({ query: mockClientQuery })),
+}));
+
+import { query } from '../../src/config/database';
+import { getDisputeByClaimId } from '../../src/services/disputeService';
+import {
+  recordCustodyTransfer,
+  signCustodyTransfer,
+  verifyCustodyChain
+} from '../../src/services/custodyService';
+import { CustodyTransfer, UserRole } from '../../src/types';
+
+function chain(): CustodyTransfer[] {
+  const hops = [
+    { from_holder: null, to_holder: 'Driver Jean (RAD 123 B)', location: 'Nyabugogo park' },
+    { from_holder: 'Driver Jean (RAD 123 B)', to_holder: 'Depot office', location: 'Nyabugogo depot' },
+    { from_holder: 'Depot office', to_holder: 'Sector office', location: 'Gitega sector' },
+  ];
+  const transfers: CustodyTransfer[] = [];
+  hops.forEach((hop, i) => {
+    const fields = {
+      ...hop, found_item_id: 9, notes: null, recorded_by: 4,
+      transferred_at: new Date(Date.UTC(2026, 2, 1, 8 + i)),
+    };
+    const signature = signCustodyTransfer(fields, transfers[i - 1]?.signature ?? null);
+    transfers.push({ ...fields, id: i + 1, signature, created_at: fields.transferred_at });
+  });
+  return transfers;
+}
+
+describe('verifyCustodyChain', () => {
+  it('accepts an untouched chain', () => {
+    expect(verifyCustodyChain(chain())).toBe(true);
+    expect(verifyCustodyChain([])).toBe(true);
+  });
+
+  it('rejects an edited transfer', () => {
+    const transfers = chain();
+    transfers[1] = { ...transfers[1], location: 'Remera depot' };
+    expect(verifyCustodyChain(transfers)).toBe(false);
+  });
+
+  it('rejects a chain with a transfer removed', () => {
+    const transfers = chain();
+    transfers.splice(1, 1);
+    expect(verifyCustodyChain(transfers)).toBe(false);
+  });
+
+  it('rejects a transfer re-signed by someone else', () => {
+    const transfers = chain();
+    transfers[2] = { ...transfers[2], recorded_by: 7 };
+    expect(verifyCustodyChain(transfers)).toBe(false);
+  });
+});
+
+describe('recordCustodyTransfer', () => {
+  beforeEach(() => mockClientQuery.mockReset());
+
+  it('hands over from the current holder and chains onto the last signature', async () => {
+    const [first] = chain();
+    mockClientQuery
+      .mockResolvedValueOnce({ rows: [{ id: 9, current_holder: first.to_holder }] })
+      .mockResolvedValueOnce({ rows: [{ transferred_at: first.transferred_at, signature: first.signature }] })
+      .mockImplementationOnce((_sql: string, params: any[]) => Promise.resolve({
+        rows: [{
+          id: 2, found_item_id: params[0], from_holder: params[1], to_holder: params[2], location: params[3],
+          notes: params[4], transferred_at: params[5], recorded_by: params[6], signature: params[7], created_at: new Date(),
+        }],
+      }))
+      .mockResolvedValueOnce({ rows: [] });
+
+    const result = await recordCustodyTransfer(9, 4, { to_holder: ' Depot office ', location: 'Nyabugogo depot' });
+
+    expect(result.success).toBe(true);
+    expect(result.transfer!.from_holder).toBe('Driver Jean (RAD 123 B)');
+    expect(result.transfer!.to_holder).toBe('Depot office');
+    expect(verifyCustodyChain([first, result.transfer!])).toBe(true);
+
+    const [updateSql, updateParams] = mockClientQuery.mock.calls[3];
+    expect(updateSql).toContain('current_holder');
+    expect(updateParams).toEqual(['Depot office', 'Nyabugogo depot', 9]);
+  });
+
+  it('refuses transfers dated in the future', async () => {
+    const result = await recordCustodyTransfer(9, 4, {
+      to_holder: 'Depot office', location: 'Nyabugogo depot',
+      transferred_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    });
+    expect(result.success).toBe(false);
+    expect(mockClientQuery).not.toHaveBeenCalled();
+  });
+
+  it('refuses transfers dated before the previous one', async () => {
+    mockClientQuery
+      .mockResolvedValueOnce({ rows: [{ id: 9, current_holder: 'Depot office' }] })
+      .mockResolvedValueOnce({ rows: [{ transferred_at: new Date('2026-03-02T10:00:00Z'), signature: 'a'.repeat(64) }] });
+
+    const result = await recordCustodyTransfer(9, 4, {
+      to_holder: 'Sector office', location: 'Gitega sector', transferred_at: '2026-03-01T10:00:00Z',
+    });
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('previous');
+  });
+});
+
+describe('getDisputeByClaimId', () => {
+  const mockQuery = query as jest.Mock;
+  const disputeRow = {
+    id: 5, claim_id: 12, status: 'OPEN', found_item_id: 9, cooperative_id: 3,
+    finder_id: 20, claimant_id: 30, lost_item_owner: 30,
+  };
+
+  beforeEach(() => mockQuery.mockReset());
+
+  it('gives the holding cooperative\'s staff the custody chain', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [disputeRow] })
+      .mockResolvedValueOnce({ rows: [{ '?column?': 1 }] })
+      .mockResolvedValueOnce({ rows: chain() });
+
+    const dispute = await getDisputeByClaimId(12, { userId: 4, role: UserRole.COOP_STAFF });
+    expect(dispute?.custody_chain?.transfers).toHaveLength(3);
+    expect(dispute).not.toHaveProperty('finder_id');
+  });
+
+  it('shows the finder the dispute without the chain', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [disputeRow] });
+
+    const dispute = await getDisputeByClaimId(12, { userId: 20, role: UserRole.CITIZEN });
+    expect(dispute?.id).toBe(5);
+    expect(dispute?.custody_chain).toBeUndefined();
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+  });
+
+  it('hides the dispute from anyone else', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [disputeRow] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    expect(await getDisputeByClaimId(12, { userId: 99, role: UserRole.CITIZEN })).toBeNull();
+    expect(await getDisputeByClaimId(12, { userId: 98, role: UserRole.COOP_STAFF })).toBeNull();
+  });
+});
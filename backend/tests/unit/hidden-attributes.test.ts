@@ -0,0 +1,96 @@
+/**
+ * Unit Tests: Hidden attributes of found items
+ * - Only the category's catalogue keys are accepted, blanks are dropped
+ * - A claimant passes with a majority of the finder's notes right
+ * - Items without notes ask nothing
+ * - Notes are written through the caller's transaction, hashed
+ */
+
+jest.mock('../../src/config/database', () => ({
+  query: jest.fn(),
+}));
+
+import { query } from '../../src/config/database';
+import { hashSecretAnswer } from '../../src/utils';
+import {
+  checkHiddenAttributes,
+  getHiddenAttributeQuestions,
+  saveHiddenAttributes,
+  validateHiddenAttributes
+} from '../../src/services/hiddenAttributeService';
+
+const mockQuery = query as jest.Mock;
+
+async function noted(values: Record<string, string>) {
+  const rows = [];
+  for (const [key, value] of Object.entries(values)) {
+    const { hash, salt } = await hashSecretAnswer(value);
+    rows.push({ attribute_key: key, answer_hash: hash, answer_salt: salt });
+  }
+  return { rows };
+}
+
+describe('validateHiddenAttributes', () => {
+  it('keeps known keys and drops blank values', () => {
+    const result = validateHiddenAttributes('PHONE', { imei_last4: ' 4821 ', case_colour: '  ' });
+    expect(result.success).toBe(true);
+    expect(result.values).toEqual({ imei_last4: '4821' });
+  });
+
+  it('rejects keys from another category', () => {
+    const result = validateHiddenAttributes('PHONE', { card_count: '3' });
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('card_count');
+  });
+});
+
+describe('checkHiddenAttributes', () => {
+  beforeEach(() => mockQuery.mockReset());
+
+  it('passes with a majority of the finder\'s notes right', async () => {
+    mockQuery.mockResolvedValueOnce(await noted({ lockscreen: 'Two dogs on a beach', case_colour: 'green', imei_last4: '4821' }));
+
+    const result = await checkHiddenAttributes(5, { lockscreen: 'two dogs on a beach!', imei_last4: '4821', case_colour: 'black' });
+
+    expect(result).toEqual({ asked: 3, correct: 2, passed: true });
+  });
+
+  it('fails when half or fewer match', async () => {
+    mockQuery.mockResolvedValueOnce(await noted({ card_count: '4', interior_colour: 'brown' }));
+
+    const result = await checkHiddenAttributes(5, { card_count: '4', interior_colour: 'red' });
+
+    expect(result).toEqual({ asked: 2, correct: 1, passed: false });
+  });
+
+  it('asks nothing for items logged without notes', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [] });
+    expect(await checkHiddenAttributes(5, { card_count: '4' })).toEqual({ asked: 0, correct: 0, passed: false });
+  });
+});
+
+describe('getHiddenAttributeQuestions', () => {
+  it('asks about recorded attributes only, in catalogue order', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [{ attribute_key: 'imei_last4' }, { attribute_key: 'lockscreen' }] });
+
+    const questions = await getHiddenAttributeQuestions(5, 'PHONE');
+
+    expect(questions.map(q => q.key)).toEqual(['lockscreen', 'imei_last4']);
+    expect(questions[1].question).toContain('IMEI');
+  });
+});
+
+describe('saveHiddenAttributes', () => {
+  it('writes each note hashed, through the caller\'s transaction', async () => {
+    mockQuery.mockReset();
+    const clientQuery = jest.fn().mockResolvedValue({ rows: [] });
+
+    await saveHiddenAttributes({ query: clientQuery } as any, 5, 'PHONE', { imei_last4: '4821', case_colour: 'red' }, 3);
+
+    expect(mockQuery).not.toHaveBeenCalled();
+    expect(clientQuery).toHaveBeenCalledTimes(2);
+    const params = clientQuery.mock.calls[0][1];
+    expect(params.slice(0, 2)).toEqual([5, 'imei_last4']);
+    expect(params).not.toContain('4821');
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Unit Tests: Image processing pipeline
+ * - EXIF/GPS metadata is removed and orientation applied to the pixels
+ * - Medium and thumbnail copies are generated, originals are capped
+ * - Perceptual hashes survive resizing and recompression, and tell
+ *   different photos apart
+ */
+
+import sharp from 'sharp';
+import {
+  hammingDistance,
+  perceptualHash,
+  processImage,
+  processUploads
+} from '../../src/services/imageProcessingService';
+
+// Synthetic "photo": smooth gradients with a block, different per seed
+async function photo(width: number, height: number, seed: number): Promise<Buffer> {
+  const pixels = Buffer.alloc(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 3;
+      const inBlock = x > width * (0.2 + seed * 0.1) && x < width * 0.6 && y > height * 0.3 && y < height * (0.5 + seed * 0.1);
+      pixels[i] = inBlock ? 230 : Math.round((x / width) * 255 * (seed % 2 ? 1 : 0.3));
+      pixels[i + 1] = inBlock ? 40 : Math.round((y / height) * 255);
+      pixels[i + 2] = Math.round(((x + y * seed) % 256));
+    }
+  }
+  return sharp(pixels, { raw: { width, height, channels: 3 } }).jpeg({ quality: 90 }).toBuffer();
+}
+
+describe('processImage', () => {
+  it('drops EXIF metadata and applies the orientation', async () => {
+    // Landscape pixels tagged "rotate 90°" (orientation 6), with a GPS-bearing EXIF block
+    const tagged = await sharp(await photo(400, 200, 1))
+      .withMetadata({ orientation: 6 })
+      .withExif({ IFD0: { Make: 'TestPhone', Model: 'Home Camera' }, IFD3: { GPSLatitudeRef: 'S', GPSLatitude: '1/1 57/1 0/1' } })
+      .jpeg()
+      .toBuffer();
+    expect((await sharp(tagged).metadata()).exif).toBeDefined();
+
+    const result = await processImage(tagged);
+    const meta = await sharp(result.original).metadata();
+    expect(meta.exif).toBeUndefined();
+    expect(meta.orientation).toBeUndefined();
+    expect(meta.width).toBe(200);
+    expect(meta.height).toBe(400);
+    expect(result.contentType).toBe('image/jpeg');
+  });
+
+  it('makes medium and thumbnail WebP copies and caps the original', async () => {
+    const result = await processImage(await photo(2400, 1200, 2));
+
+    expect(result.width).toBe(2048);
+    expect(result.height).toBe(1024);
+    const medium = await sharp(result.variants.medium).metadata();
+    const thumb = await sharp(result.variants.thumb).metadata();
+    expect(medium.format).toBe('webp');
+    expect(medium.width).toBe(1024);
+    expect(thumb.width).toBe(320);
+    expect(thumb.height).toBe(160);
+  });
+
+  it('keeps PNG as PNG', async () => {
+    const png = await sharp(await photo(100, 100, 3)).png().toBuffer();
+    const result = await processImage(png);
+    expect(result.contentType).toBe('image/png');
+    expect(result.ext).toBe('.png');
+  });
+
+  it('refuses files that are not images', async () => {
+    const file = { originalname: 'receipt.jpg', buffer: Buffer.from('%PDF-1.4 not an image') } as Express.Multer.File;
+    const result = await processUploads([file]);
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('receipt.jpg');
+  });
+});
+
+describe('perceptual hash', () => {
+  it('is 16 hex characters', async () => {
+    expect(await perceptualHash(await photo(200, 150, 1))).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('recognises the same photo after resizing and recompression', async () => {
+    const original = await photo(800, 600, 1);
+    const copy = await sharp(original).resize(320).jpeg({ quality: 40 }).toBuffer();
+
+    const distance = hammingDistance(await perceptualHash(original), await perceptualHash(copy));
+    expect(distance).toBeLessThanOrEqual(6);
+  });
+
+  it('tells different photos apart', async () => {
+    const a = await perceptualHash(await photo(800, 600, 1));
+    const b = await perceptualHash(await photo(800, 600, 4));
+    expect(hammingDistance(a, b)).toBeGreaterThan(10);
+  });
+
+  it('counts differing bits', () => {
+    expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0);
+    expect(hammingDistance('0000000000000000', 'ffffffffffffffff')).toBe(64);
+    expect(hammingDistance('000000000000000f', '0000000000000001')).toBe(3);
+  });
+});
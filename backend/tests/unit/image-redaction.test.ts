@@ -0,0 +1,114 @@
+/**
+ * Unit Tests: Redacted previews of ID and wallet photos
+ * - Lines of small glyphs are detected as text, smooth areas are not
+ * - Text areas of the preview are pixelated, the rest is left alone
+ * - Photos with no recognisable text are pixelated whole
+ */
+
+import sharp from 'sharp';
+import {
+  detectTextRegionsFromPixels,
+  redactImage,
+  regionCoverage
+} from '../../src/services/imageRedactionService';
+
+// Greyscale "card": a smooth gradient with lines of glyph-like strokes in
+// the top-left quarter
+function cardPixels(width: number, height: number, withText = true): Buffer {
+  const pixels = Buffer.alloc(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      pixels[y * width + x] = 150 + Math.round((x / width) * 60);
+    }
+  }
+  if (!withText) return pixels;
+
+  // Three lines of 5x7 "letters" made of strokes, with a 2px gap between letters
+  for (let line = 0; line < 3; line++) {
+    const top = Math.round(height * 0.1) + line * 14;
+    for (let letter = 0; letter < 16; letter++) {
+      const left = Math.round(width * 0.05) + letter * 7;
+      for (let y = 0; y < 7; y++) {
+        for (let x = 0; x < 5; x++) {
+          const stroke = x === 0 || y === 0 || y === 3 || ((letter + x + y) % 3 === 0);
+          if (stroke) pixels[(top + y) * width + left + x] = 20;
+        }
+      }
+    }
+  }
+  return pixels;
+}
+
+async function card(width: number, height: number, withText = true): Promise<Buffer> {
+  return sharp(cardPixels(width, height, withText), { raw: { width, height, channels: 1 } }).png().toBuffer();
+}
+
+async function greyPixels(image: Buffer, left: number, top: number, width: number, height: number): Promise<Buffer> {
+  return sharp(image).greyscale().extract({ left, top, width, height }).raw().toBuffer();
+}
+
+function variance(pixels: Buffer): number {
+  const mean = pixels.reduce((sum, p) => sum + p, 0) / pixels.length;
+  return pixels.reduce((sum, p) => sum + (p - mean) ** 2, 0) / pixels.length;
+}
+
+describe('detectTextRegionsFromPixels', () => {
+  it('finds the lines of text and nothing in the smooth area', () => {
+    const regions = detectTextRegionsFromPixels(cardPixels(320, 200), 320, 200);
+
+    expect(regions.length).toBeGreaterThan(0);
+    for (const region of regions) {
+      expect(region.left).toBeLessThan(160);
+      expect(region.top).toBeLessThan(100);
+    }
+    const coverage = regionCoverage(regions, 320, 200);
+    expect(coverage).toBeGreaterThan(0.05);
+    expect(coverage).toBeLessThan(0.5);
+  });
+
+  it('finds nothing on a blank card', () => {
+    expect(detectTextRegionsFromPixels(cardPixels(320, 200, false), 320, 200)).toEqual([]);
+  });
+
+  it('counts overlapping regions once', () => {
+    const regions = [
+      { left: 0, top: 0, width: 10, height: 10 },
+      { left: 5, top: 0, width: 10, height: 10 }
+    ];
+    expect(regionCoverage(regions, 20, 10)).toBeCloseTo(0.75);
+  });
+});
+
+describe('redactImage', () => {
+  it('pixelates the text and keeps the rest of the card', async () => {
+    const original = await card(320, 200);
+    const result = await redactImage(original);
+
+    expect(result.full).toBe(false);
+    expect(result.regions).toBeGreaterThan(0);
+    expect((await sharp(result.body).metadata()).format).toBe('webp');
+
+    // The strokes are gone: the text area is now a few flat blocks
+    const before = await greyPixels(original, 16, 20, 112, 42);
+    const after = await greyPixels(result.body, 16, 20, 112, 42);
+    expect(variance(after)).toBeLessThan(variance(before) / 2);
+
+    // The plain bottom-right corner is unchanged, give or take compression
+    const cornerBefore = await greyPixels(original, 240, 150, 60, 40);
+    const cornerAfter = await greyPixels(result.body, 240, 150, 60, 40);
+    const drift = cornerBefore.reduce((sum, p, i) => sum + Math.abs(p - cornerAfter[i]), 0) / cornerBefore.length;
+    expect(drift).toBeLessThan(4);
+  });
+
+  it('pixelates the whole photo when no text is found', async () => {
+    const result = await redactImage(await card(320, 200, false));
+    expect(result.full).toBe(true);
+  });
+
+  it('shrinks large photos to a preview', async () => {
+    const result = await redactImage(await card(1600, 1000));
+    const meta = await sharp(result.body).metadata();
+    expect(meta.width).toBe(640);
+    expect(meta.height).toBe(400);
+  });
+});
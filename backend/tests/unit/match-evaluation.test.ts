@@ -0,0 +1,80 @@
+/**
+ * Unit Tests: Offline match evaluation
+ * - Ranks, precision@k, recall and mean rank over replayed outcomes
+ * - Overrides build a second configuration to compare against
+ */
+
+jest.mock('../../src/config/database', () => ({
+  query: jest.fn(),
+}));
+
+import {
+  buildEvaluationConfig,
+  compareRanks,
+  defaultProfiles,
+  evaluateConfig,
+  EvaluationCase
+} from '../../src/services/matchEvaluationService';
+import { ItemCategory, LostItem, FoundItem } from '../../src/types';
+
+const lost = {
+  id: 1, category: ItemCategory.PHONE, title: 'Black Tecno phone', description: 'Cracked screen',
+  location_area: 'Remera', lost_date: new Date('2024-03-01T08:00:00Z'), keywords: ['black', 'tecno', 'phone', 'cracked'],
+} as unknown as LostItem;
+
+const found = (id: number, overrides: Partial<FoundItem>) => ({
+  id, category: ItemCategory.PHONE, title: 'Phone', description: '',
+  location_area: 'Nyamirambo', found_date: new Date('2024-03-05T08:00:00Z'), keywords: ['phone'],
+  ...overrides,
+}) as unknown as FoundItem;
+
+// The true phone was found far away; a similar-looking one was found nearby
+const cases: EvaluationCase[] = [{
+  lost_item: lost,
+  candidates: [
+    found(10, { location_area: 'Remera', found_date: new Date('2024-03-01T12:00:00Z'), keywords: ['black', 'phone'] }),
+    found(11, { location_area: 'Nyamirambo', found_date: new Date('2024-03-02T08:00:00Z'), keywords: ['black', 'tecno', 'phone', 'cracked'] }),
+    found(12, {}),
+  ],
+  returned_found_ids: [11],
+  dismissed_found_ids: [10],
+}];
+
+describe('evaluateConfig', () => {
+  it('reports where the true match and the dismissed match rank', () => {
+    const report = evaluateConfig(cases, buildEvaluationConfig('default', defaultProfiles()), 1);
+
+    expect(report.true_pair_ranks).toEqual([
+      expect.objectContaining({ lost_item_id: 1, found_item_id: 11, rank: 2 }),
+    ]);
+    expect(report.overall).toEqual(expect.objectContaining({
+      queries: 1, true_pairs: 1, dismissed_pairs: 1,
+      precision_at_k: 0, recall_at_k: 0, recall: 1, mean_rank: 2, dismissed_in_top_k: 1,
+    }));
+    expect(report.by_category.map(c => c.category)).toEqual([ItemCategory.PHONE]);
+  });
+
+  it('shows a keyword-heavy config lifting the true match', () => {
+    const baseline = evaluateConfig(cases, buildEvaluationConfig('default', defaultProfiles()), 1);
+    const keywordHeavy = evaluateConfig(
+      cases,
+      buildEvaluationConfig('keywords', defaultProfiles(), { '*': { weights: { KEYWORD_MATCH: 4, BRAND_MATCH: 4 } } }),
+      1
+    );
+
+    expect(keywordHeavy.overall.precision_at_k).toBe(1);
+    expect(keywordHeavy.overall.mean_rank).toBe(1);
+    expect(compareRanks(baseline, keywordHeavy)).toEqual([
+      { lost_item_id: 1, found_item_id: 11, baseline_rank: 2, candidate_rank: 1 },
+    ]);
+  });
+
+  it('counts true matches below the minimum score as not recalled', () => {
+    const strict = buildEvaluationConfig('strict', defaultProfiles(), { PHONE: { minimum_score: 40 } });
+    const report = evaluateConfig(cases, strict, 5);
+
+    expect(strict.profiles.BAG.minimum_score).toBe(5);
+    expect(report.overall.recall).toBe(0);
+    expect(report.overall.recall_at_k).toBe(1);
+  });
+});
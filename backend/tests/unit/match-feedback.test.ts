@@ -0,0 +1,122 @@
+/**
+ * Unit Tests: Match feedback
+ * - An owner's "not mine" drops the cached match and queues a refill;
+ *   a finder's does not touch the owner's matches
+ * - "Looks right" is stored only
+ * - Precision = positive / (positive + negative)
+ */
+
+jest.mock('../../src/config/database', () => ({
+  query: jest.fn(),
+}));
+
+jest.mock('../../src/services/matchJobService', () => ({
+  enqueueMatchJob: jest.fn(),
+}));
+
+jest.mock('../../src/services/matchWeightProfileService', () => {
+  const actual = jest.requireActual('../../src/services/matchWeightProfileService');
+  return {
+    ...actual,
+    getActiveProfile: jest.fn((category: string) => Promise.resolve(actual.DEFAULT_MATCH_PROFILES[category])),
+  };
+});
+
+import { query } from '../../src/config/database';
+import { enqueueMatchJob } from '../../src/services/matchJobService';
+import { recordMatchFeedback, getMatchPrecisionStats } from '../../src/services/matchFeedbackService';
+import { MatchFeedbackVerdict } from '../../src/types';
+
+const mockQuery = query as jest.Mock;
+
+const lostItem = {
+  id: 3, category: 'WALLET', title: 'Brown wallet', description: 'Leather wallet',
+  location_area: 'Remera', lost_date: new Date('2024-02-01T09:00:00Z'), keywords: ['brown', 'wallet'],
+};
+const foundItem = {
+  id: 9, category: 'WALLET', title: 'Wallet found', description: 'Brown agakapu',
+  location_area: 'Remera', found_date: new Date('2024-02-01T12:00:00Z'), keywords: ['wallet', 'brown'],
+};
+
+describe('recordMatchFeedback', () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+    (enqueueMatchJob as jest.Mock).mockReset();
+  });
+
+  const mockItemsAndInsert = (verdict: MatchFeedbackVerdict) => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [lostItem] })
+      .mockResolvedValueOnce({ rows: [foundItem] })
+      .mockResolvedValueOnce({ rows: [{ id: 1, verdict, score: '16.00' }] });
+  };
+
+  it('dismisses the pair and queues a refill for NOT_MINE', async () => {
+    mockItemsAndInsert(MatchFeedbackVerdict.NOT_MINE);
+    mockQuery.mockResolvedValueOnce({ rowCount: 1 });
+
+    const feedback = await recordMatchFeedback({
+      lostItemId: 3, foundItemId: 9, userId: 7, role: 'owner', verdict: MatchFeedbackVerdict.NOT_MINE,
+    });
+
+    expect(feedback?.score).toBe(16);
+    const [insertSql, insertParams] = mockQuery.mock.calls[2];
+    expect(insertSql).toContain('INSERT INTO match_feedback');
+    expect(insertParams[7]).toBeGreaterThan(0); // score snapshot
+    expect(mockQuery.mock.calls[3][0]).toContain('DELETE FROM matches');
+    expect(enqueueMatchJob).toHaveBeenCalledWith('lost', 3);
+  });
+
+  it('leaves the owner\'s cached match alone when the finder says NOT_MINE', async () => {
+    mockItemsAndInsert(MatchFeedbackVerdict.NOT_MINE);
+
+    await recordMatchFeedback({
+      lostItemId: 3, foundItemId: 9, userId: 8, role: 'finder', verdict: MatchFeedbackVerdict.NOT_MINE,
+    });
+
+    expect(mockQuery).toHaveBeenCalledTimes(3);
+    expect(enqueueMatchJob).not.toHaveBeenCalled();
+  });
+
+  it('only records LOOKS_RIGHT', async () => {
+    mockItemsAndInsert(MatchFeedbackVerdict.LOOKS_RIGHT);
+
+    await recordMatchFeedback({
+      lostItemId: 3, foundItemId: 9, userId: 8, role: 'finder', verdict: MatchFeedbackVerdict.LOOKS_RIGHT,
+    });
+
+    expect(mockQuery).toHaveBeenCalledTimes(3);
+    expect(enqueueMatchJob).not.toHaveBeenCalled();
+  });
+
+  it('returns null when an item no longer exists', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [lostItem] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    const feedback = await recordMatchFeedback({
+      lostItemId: 3, foundItemId: 404, userId: 7, role: 'owner', verdict: MatchFeedbackVerdict.NOT_MINE,
+    });
+
+    expect(feedback).toBeNull();
+  });
+});
+
+describe('getMatchPrecisionStats', () => {
+  beforeEach(() => mockQuery.mockReset());
+
+  it('computes precision per group and leaves unjudged groups null', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ positive: 3, negative: 1 }] })
+      .mockResolvedValueOnce({ rows: [{ category: 'PHONE', positive: 2, negative: 1 }] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [{ score_band: '11-13.5', band_floor: '11.00', positive: 0, negative: 0 }] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    const stats = await getMatchPrecisionStats(30);
+
+    expect(stats.overall.precision).toBe(0.75);
+    expect(stats.by_category[0].precision).toBe(0.667);
+    expect(stats.by_score_band[0]).toEqual({ score_band: '11-13.5', positive: 0, negative: 0, precision: null });
+  });
+});
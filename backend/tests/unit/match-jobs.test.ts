@@ -0,0 +1,134 @@
+/**
+ * Unit Tests: Incremental matching and the match job queue
+ * - A new found item is merged into current lost-item caches
+ * - Full caches only take the new item if it beats the weakest match
+ * - Job runs record duration and row counts; failures are retried
+ */
+
+jest.mock('../../src/config/database', () => ({
+  query: jest.fn(),
+}));
+
+jest.mock('../../src/services/matchWeightProfileService', () => {
+  const actual = jest.requireActual('../../src/services/matchWeightProfileService');
+  return {
+    ...actual,
+    getActiveProfile: jest.fn((category: string) => Promise.resolve(actual.DEFAULT_MATCH_PROFILES[category])),
+  };
+});
+
+import { query } from '../../src/config/database';
+import { matchNewFoundItem } from '../../src/services/matchingService';
+import { processMatchJobs } from '../../src/services/matchJobService';
+
+const mockQuery = query as jest.Mock;
+
+const foundItem = {
+  id: 50,
+  category: 'PHONE',
+  title: 'Black Samsung phone',
+  description: 'Found near the bus park',
+  location_area: 'Kimironko',
+  found_date: new Date('2024-01-15T14:00:00Z'),
+  status: 'UNCLAIMED',
+  keywords: ['black', 'samsung', 'phone'],
+};
+
+const lostCandidate = (overrides: Record<string, unknown>) => ({
+  id: 1,
+  category: 'PHONE',
+  title: 'Lost Samsung',
+  description: 'Black samsung phone',
+  location_area: 'Kimironko',
+  lost_date: new Date('2024-01-15T10:00:00Z'),
+  status: 'ACTIVE',
+  keywords: ['black', 'samsung', 'phone'],
+  cached_count: 0,
+  min_score: null,
+  existing_score: null,
+  ...overrides,
+});
+
+describe('matchNewFoundItem', () => {
+  beforeEach(() => mockQuery.mockReset());
+
+  it('upserts into caches with room and skips full caches it cannot beat', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [foundItem] })
+      .mockResolvedValueOnce({
+        rows: [
+          lostCandidate({ id: 1 }),
+          lostCandidate({ id: 2, cached_count: 5, min_score: '99.00' }),
+        ],
+      })
+      .mockResolvedValueOnce({ rowCount: 1 }); // upsert for lost item 1
+
+    const stats = await matchNewFoundItem(50);
+
+    expect(stats).toEqual({ candidates_scored: 2, rows_upserted: 1, rows_removed: 0 });
+    const upsert = mockQuery.mock.calls[2];
+    expect(upsert[0]).toContain('ON CONFLICT (lost_item_id, found_item_id)');
+    expect(upsert[0]).toContain('IS DISTINCT FROM');
+    expect(upsert[1].slice(0, 2)).toEqual([1, 50]);
+    expect(mockQuery).toHaveBeenCalledTimes(3);
+  });
+
+  it('trims a full cache after inserting a stronger match', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [foundItem] })
+      .mockResolvedValueOnce({ rows: [lostCandidate({ cached_count: 5, min_score: '6.00' })] })
+      .mockResolvedValueOnce({ rowCount: 1 })
+      .mockResolvedValueOnce({ rowCount: 1 });
+
+    const stats = await matchNewFoundItem(50);
+
+    expect(stats).toEqual({ candidates_scored: 1, rows_upserted: 1, rows_removed: 1 });
+    expect(mockQuery.mock.calls[3][0]).toContain('OFFSET $2');
+  });
+
+  it('drops cached rows once the found item is no longer unclaimed', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ ...foundItem, status: 'CLAIMED' }] })
+      .mockResolvedValueOnce({ rowCount: 3 });
+
+    const stats = await matchNewFoundItem(50);
+
+    expect(stats.rows_removed).toBe(3);
+    expect(mockQuery.mock.calls[1][0]).toContain('DELETE FROM matches WHERE found_item_id');
+  });
+});
+
+describe('processMatchJobs', () => {
+  beforeEach(() => mockQuery.mockReset());
+
+  it('records duration and row counts for a finished run', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ id: 7, item_type: 'found', item_id: 50, attempts: 1 }] })
+      .mockResolvedValueOnce({ rows: [] }) // found item vanished
+      .mockResolvedValueOnce({ rowCount: 1 }) // mark DONE
+      .mockResolvedValueOnce({ rows: [] }); // queue empty
+
+    const processed = await processMatchJobs();
+
+    expect(processed).toBe(1);
+    const [sql, params] = mockQuery.mock.calls[2];
+    expect(sql).toContain("status = 'DONE'");
+    expect(params[0]).toBe(7);
+    expect(typeof params[1]).toBe('number');
+    expect(params.slice(2)).toEqual([0, 0, 0]);
+  });
+
+  it('re-queues a failed job with back-off', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ id: 8, item_type: 'found', item_id: 51, attempts: 1 }] })
+      .mockRejectedValueOnce(new Error('connection reset'))
+      .mockResolvedValueOnce({ rowCount: 1 }) // back to PENDING
+      .mockResolvedValueOnce({ rows: [] });
+
+    await processMatchJobs();
+
+    const [sql, params] = mockQuery.mock.calls[2];
+    expect(sql).toContain("status = 'PENDING'");
+    expect(params[2]).toBe('connection reset');
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Unit Tests: Saved searches
+ * - Criteria use the same semantics as the search filters
+ * - A new found item fires each matching watch once, on its channel
+ */
+
+jest.mock('../../src/config/database', () => ({
+  query: jest.fn(),
+}));
+
+jest.mock('../../src/services/emailService', () => ({
+  sendSavedSearchAlertEmail: jest.fn(() => Promise.resolve(true)),
+}));
+
+import { query } from '../../src/config/database';
+import { sendSavedSearchAlertEmail } from '../../src/services/emailService';
+import { matchesSavedSearch, runSavedSearchesForFoundItem } from '../../src/services/savedSearchService';
+import { ItemCategory, SavedSearchChannel } from '../../src/types';
+
+const mockQuery = query as jest.Mock;
+
+const foundItem = {
+  id: 42, finder_id: 7, category: ItemCategory.WALLET, title: 'Brown agakapu',
+  description: 'Leather wallet left on the bus', location_area: 'Remera',
+  found_date: new Date(2024, 2, 10, 15, 0), keywords: ['brown', 'agakapu', 'leather', 'wallet', 'bus'],
+};
+
+const watch = (overrides: Record<string, unknown>) => ({
+  id: 1, user_id: 3, name: 'My wallet', category: null, location_area: null, keyword: null,
+  date_from: null, date_to: null, channel: SavedSearchChannel.EMAIL, email: 'owner@example.com', user_name: 'Aline U',
+  ...overrides,
+});
+
+describe('matchesSavedSearch', () => {
+  it('matches category, area substring and inclusive dates', () => {
+    expect(matchesSavedSearch(watch({
+      category: ItemCategory.WALLET, location_area: 'rem', date_from: new Date(2024, 2, 1), date_to: new Date(2024, 2, 10),
+    }), foundItem)).toBe(true);
+    expect(matchesSavedSearch(watch({ category: ItemCategory.PHONE }), foundItem)).toBe(false);
+    expect(matchesSavedSearch(watch({ location_area: 'Kimironko' }), foundItem)).toBe(false);
+    expect(matchesSavedSearch(watch({ location_area: 'Remera', date_to: new Date(2024, 2, 9) }), foundItem)).toBe(false);
+  });
+
+  it('matches keywords through the dictionary', () => {
+    expect(matchesSavedSearch(watch({ keyword: 'portefeuille' }), foundItem)).toBe(true);
+    expect(matchesSavedSearch(watch({ keyword: 'brown wallet' }), foundItem)).toBe(true);
+    expect(matchesSavedSearch(watch({ keyword: 'black wallet' }), foundItem)).toBe(false);
+  });
+});
+
+describe('runSavedSearchesForFoundItem', () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+    (sendSavedSearchAlertEmail as jest.Mock).mockClear();
+  });
+
+  it('records each hit once and emails only EMAIL watches', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [foundItem] })
+      .mockResolvedValueOnce({ rows: [
+        watch({ id: 1, keyword: 'wallet' }),
+        watch({ id: 2, location_area: 'Remera', channel: SavedSearchChannel.IN_APP }),
+        watch({ id: 3, location_area: 'Nyabugogo' }),
+        watch({ id: 4, keyword: 'wallet' }),
+      ] })
+      .mockResolvedValueOnce({ rows: [{ id: 10 }] }) // hit for watch 1
+      .mockResolvedValueOnce({ rows: [] })           // last_hit_at
+      .mockResolvedValueOnce({ rows: [{ id: 11 }] }) // hit for watch 2
+      .mockResolvedValueOnce({ rows: [] })           // last_hit_at
+      .mockResolvedValueOnce({ rows: [] });          // watch 4 already fired for this item
+
+    const fired = await runSavedSearchesForFoundItem(42);
+
+    expect(fired).toBe(2);
+    expect(sendSavedSearchAlertEmail).toHaveBeenCalledTimes(1);
+    expect(sendSavedSearchAlertEmail).toHaveBeenCalledWith('owner@example.com', 'Aline U', 'My wallet', 'Brown agakapu', 'Remera', 42);
+    expect(mockQuery.mock.calls[1][1]).toEqual([7, ItemCategory.WALLET]);
+  });
+
+  it('never throws into found-item creation', async () => {
+    mockQuery.mockRejectedValueOnce(new Error('connection lost'));
+    const spy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(runSavedSearchesForFoundItem(42)).resolves.toBe(0);
+    spy.mockRestore();
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Unit Tests: Search analytics
+ * - Only searches with criteria are logged, and only their first page
+ * - Log rows carry the normalised query and remaining filters
+ * - Analytics derive zero-result rate and demand per found item
+ */
+
+jest.mock('../../src/config/database', () => ({
+  query: jest.fn(),
+}));
+
+import { Request } from 'express';
+import { query } from '../../src/config/database';
+import {
+  normalizeSearchQuery,
+  shouldLogSearch,
+  logSearch,
+  getSearchAnalytics
+} from '../../src/services/searchAnalyticsService';
+
+const mockQuery = query as jest.Mock;
+
+const req = {
+  user: { userId: 4 },
+  ip: '10.0.0.1',
+  socket: {},
+  headers: {},
+} as unknown as Request;
+
+describe('normalizeSearchQuery / shouldLogSearch', () => {
+  it('groups spelling variants of the same query', () => {
+    expect(normalizeSearchQuery('  Téléphone,   NOIR! ')).toBe('telephone noir');
+    expect(normalizeSearchQuery('??')).toBeNull();
+  });
+
+  it('skips plain browsing and later pages', () => {
+    const base = { itemType: 'found' as const, mode: 'LIST' as const, resultsCount: 3 };
+    expect(shouldLogSearch({ ...base, page: 1 })).toBe(false);
+    expect(shouldLogSearch({ ...base, page: 1, category: 'PHONE' })).toBe(true);
+    expect(shouldLogSearch({ ...base, page: 2, query: 'wallet' })).toBe(false);
+  });
+});
+
+describe('logSearch', () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+  });
+
+  it('records the search with its filters, using near as the area', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [] });
+
+    await logSearch(req, {
+      itemType: 'lost', mode: 'RANKED', page: 1, resultsCount: 0,
+      query: 'Black Samsung', sort: 'closest', near: 'Remera', date_from: '2024-03-01',
+    });
+
+    const [, values] = mockQuery.mock.calls[0];
+    expect(values).toEqual([
+      4, 'LOST', 'RANKED', 'Black Samsung', 'black samsung', null, 'Remera',
+      JSON.stringify({ date_from: '2024-03-01', sort: 'closest', near: 'Remera' }), 0, '10.0.0.1',
+    ]);
+  });
+
+  it('never throws when the insert fails', async () => {
+    mockQuery.mockRejectedValueOnce(new Error('db down'));
+    const spy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(logSearch(req, { itemType: 'found', mode: 'LIST', page: 1, resultsCount: 2, query: 'keys' }))
+      .resolves.toBeUndefined();
+    spy.mockRestore();
+  });
+});
+
+describe('getSearchAnalytics', () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+  });
+
+  it('derives zero-result rate and searches per found item', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ searches: 8, zero_result_searches: 2, unique_queries: 5, searching_users: 4 }] })
+      .mockResolvedValueOnce({ rows: [{ query: 'wallet', searches: 3, avg_results: 1.5, zero_result_searches: 1 }] })
+      .mockResolvedValueOnce({ rows: [{ query: 'laptop bag', searches: 2 }] })
+      .mockResolvedValueOnce({ rows: [
+        { area: 'remera', category: 'PHONE', searches: 6, zero_result_searches: 2, lost_reports: 3, found_reports: 0 },
+        { area: 'kimironko', category: null, searches: 2, zero_result_searches: 0, lost_reports: 1, found_reports: 4 },
+      ] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    const stats = await getSearchAnalytics(30, 'lost');
+
+    expect(stats.item_type).toBe('LOST');
+    expect(stats.totals.zero_result_rate).toBe(0.25);
+    expect(stats.hot_spots.map(s => s.searches_per_found_item)).toEqual([6, 0.5]);
+    expect(mockQuery.mock.calls[0][1]).toEqual([30, 'LOST']);
+  });
+});
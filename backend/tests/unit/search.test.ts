@@ -0,0 +1,193 @@
+/**
+ * Unit Tests: Item search
+ * - Listing filters escape LIKE wildcards
+ * - Queries become prefix tsqueries expanded through the dictionary
+ * - Highlighted fragments mark matching words
+ * - Ranked search orders by distance bucket and redacts before highlighting
+ * - Facet counts ignore their own filter but keep the others
+ * - Unified search merges both tables into one redacted ranking
+ */
+
+jest.mock('../../src/config/database', () => ({
+  query: jest.fn(),
+}));
+
+import { query } from '../../src/config/database';
+import {
+  buildItemFilters,
+  parseSearchQuery,
+  buildTsQuery,
+  highlightText,
+  highlightFragment,
+  searchItems,
+  searchAllItems,
+  getItemFacets
+} from '../../src/services/searchService';
+
+const mockQuery = query as jest.Mock;
+
+describe('buildItemFilters', () => {
+  it('defaults to open items and escapes LIKE wildcards', () => {
+    const params: any[] = [];
+    const conditions = buildItemFilters('found', { location_area: 'Re_mera%', keyword: 'Black' }, params);
+
+    expect(conditions[0]).toBe(`f.status = 'UNCLAIMED'`);
+    expect(params).toEqual(['%Re\\_mera\\%%', '%Black%', 'black']);
+    expect(conditions[2]).toContain('$3 = ANY(f.keywords)');
+  });
+
+  it('numbers placeholders after existing params', () => {
+    const params: any[] = ['existing'];
+    const conditions = buildItemFilters('lost', { status: 'CLAIMED', date_from: '2024-03-01' }, params);
+    expect(conditions).toEqual(['l.status = $2', 'l.lost_date >= $3']);
+  });
+});
+
+describe('parseSearchQuery / buildTsQuery', () => {
+  it('folds accents, drops punctuation and expands translations', () => {
+    const terms = parseSearchQuery('Téléphone, wallet!');
+    expect(terms.map(t => t.term)).toEqual(['telephone', 'wallet']);
+    expect(terms[1].variants).toEqual(expect.arrayContaining(['wallet', 'agakapu', 'portefeuille']));
+  });
+
+  it('requires every term, each as a prefix', () => {
+    const tsQuery = buildTsQuery(parseSearchQuery('xyzzy bag'));
+    expect(tsQuery.startsWith('(xyzzy:*) & (bag:*')).toBe(true);
+    expect(buildTsQuery(parseSearchQuery('!! a'))).toBe('');
+  });
+});
+
+describe('highlighting', () => {
+  const terms = parseSearchQuery('samsung phone');
+
+  it('marks prefix and misspelt matches', () => {
+    expect(highlightText('Samsng phones', terms)).toBe('<mark>Samsng</mark> <mark>phones</mark>');
+  });
+
+  it('cuts a fragment around the first match', () => {
+    const text = `${'Found near the bus park this morning. '.repeat(4)}A black Samsung in a cover. ${'x '.repeat(100)}`;
+    const fragment = highlightFragment(text, terms)!;
+    expect(fragment.startsWith('…')).toBe(true);
+    expect(fragment.endsWith('…')).toBe(true);
+    expect(fragment).toContain('<mark>Samsung</mark>');
+    expect(highlightFragment('A brown wallet', terms)).toBeNull();
+  });
+});
+
+describe('searchItems', () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+  });
+
+  it('orders by distance from the given area and redacts before highlighting', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ count: '1' }] })
+      .mockResolvedValueOnce({ rows: [{
+        id: 5, finder_id: 9, category: 'PHONE', title: 'Samsung phone',
+        description: 'Samsung phone, owner can call 0788123456', relevance: 0.8, distance: 1,
+      }] });
+
+    const { items, total } = await searchItems('found', { q: 'samsung', sort: 'closest', near: 'Remera', limit: 20, offset: 0 });
+
+    expect(total).toBe(1);
+    const [sql, values] = mockQuery.mock.calls[1];
+    expect(sql).toContain('ORDER BY distance ASC, relevance DESC');
+    expect(values).toContainEqual(['remera']);
+    expect(items[0].finder_id).toBeUndefined();
+    expect(items[0].highlights.title).toBe('<mark>Samsung</mark> phone');
+    expect(items[0].highlights.description).not.toContain('0788123456');
+  });
+
+  it('skips the database when the query has no usable terms', async () => {
+    expect(await searchItems('lost', { q: '!!', limit: 20, offset: 0 })).toEqual({ items: [], total: 0 });
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+});
+
+describe('searchAllItems', () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+  });
+
+  it('ranks both tables together and redacts each result for its owner', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ count: '2' }] })
+      .mockResolvedValueOnce({ rows: [
+        { id: 3, item_type: 'lost', user_id: 4, finder_id: null, category: 'WALLET', title: 'Brown wallet',
+          description: 'Call me on 0788123456', relevance: 0.9 },
+        { id: 3, item_type: 'found', user_id: null, finder_id: 8, category: 'WALLET', title: 'Wallet at Remera',
+          description: 'Finder number 0788123456', relevance: 0.7 },
+      ] });
+
+    const { items, total } = await searchAllItems({ q: 'wallet', limit: 20, offset: 0 }, 4);
+
+    expect(total).toBe(2);
+    const [sql] = mockQuery.mock.calls[1];
+    expect(sql).toContain('UNION ALL');
+    expect(sql).toContain('ORDER BY relevance DESC');
+    expect(items.map(item => item.item_type)).toEqual(['lost', 'found']);
+    expect(items[0].description).toContain('0788123456');
+    expect(items[1].description).not.toContain('0788123456');
+    expect(items[1].finder_id).toBeUndefined();
+  });
+
+  it('lists everything near an area by distance when there is no query', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ count: '0' }] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    await searchAllItems({ near: 'Remera', max_distance: 1, date_from: '2024-03-04', limit: 20, offset: 0 });
+
+    const [countSql] = mockQuery.mock.calls[0];
+    expect(countSql).toContain('FROM lost_items l');
+    expect(countSql).toContain('FROM found_items f');
+    const [sql, values] = mockQuery.mock.calls[1];
+    expect(sql).not.toContain('search_vector');
+    expect(sql).toContain('ORDER BY distance ASC');
+    expect(values[1]).toContain('remera');
+    expect(values[1]).toContain('kimironko');
+  });
+});
+
+describe('getItemFacets', () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+  });
+
+  it('counts each facet without its own filter', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ value: 'PHONE', count: 4 }, { value: 'WALLET', count: 1 }] })
+      .mockResolvedValueOnce({ rows: [{ value: 'remera', count: 3 }] })
+      .mockResolvedValueOnce({ rows: [{ value: 'UNCLAIMED', count: 3 }, { value: 'RETURNED', count: 2 }] })
+      .mockResolvedValueOnce({ rows: [{ value: '2024-03-04', count: 3 }] });
+
+    const facets = await getItemFacets('found', { category: 'PHONE', location_area: 'Remera' });
+
+    expect(facets.category).toEqual([{ value: 'PHONE', count: 4 }, { value: 'WALLET', count: 1 }]);
+    expect(facets.date).toEqual([{ value: '2024-03-04', count: 3 }]);
+
+    const [categorySql, categoryValues] = mockQuery.mock.calls[0];
+    expect(categorySql).not.toContain('f.category =');
+    expect(categoryValues).toEqual(['%Remera%']);
+
+    const [areaSql, areaValues] = mockQuery.mock.calls[1];
+    expect(areaSql).toContain('LIMIT 20');
+    expect(areaValues).toEqual(['PHONE']);
+
+    // Counting per status drops the open-items default
+    const [statusSql] = mockQuery.mock.calls[2];
+    expect(statusSql).not.toContain(`f.status = 'UNCLAIMED'`);
+    expect(statusSql).toContain(`GROUP BY 1`);
+  });
+
+  it('applies the free-text query to every facet', async () => {
+    mockQuery.mockResolvedValue({ rows: [] });
+
+    await getItemFacets('lost', { q: 'wallet' });
+
+    for (const [sql, values] of mockQuery.mock.calls) {
+      expect(sql).toContain('search_vector @@');
+      expect(values).toContain('wallet');
+    }
+  });
+});
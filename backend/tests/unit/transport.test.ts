@@ -0,0 +1,61 @@
+/**
+ * Unit Tests: Transport context
+ * - A registered route fills in its name and cooperative
+ * - Stops must be on the route
+ * - Coop staff may only use their own cooperative's routes and vehicles
+ */
+
+jest.mock('../../src/config/database', () => ({
+  query: jest.fn(),
+}));
+
+import { query } from '../../src/config/database';
+import { resolveTransportContext } from '../../src/services/transportService';
+
+const mockQuery = query as jest.Mock;
+
+const route = { id: 4, cooperative_id: 2, name: 'Nyabugogo–Kimironko', stops: ['Nyabugogo', 'Kacyiru', 'Kimironko'] };
+
+describe('resolveTransportContext', () => {
+  beforeEach(() => mockQuery.mockReset());
+
+  it('fills the route name and cooperative from a registered route', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [route] });
+
+    const result = await resolveTransportContext({ route_id: 4, stop_sequence: ['kacyiru'] });
+
+    expect(result.success).toBe(true);
+    expect(result.context).toEqual({
+      transport_cooperative_id: 2, route_id: 4, route_name: 'Nyabugogo–Kimironko',
+      vehicle_plate: null, stop_sequence: ['kacyiru'],
+    });
+  });
+
+  it('rejects stops that are not on the route', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [route] });
+
+    const result = await resolveTransportContext({ route_id: 4, stop_sequence: ['Remera'] });
+
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('Remera');
+  });
+
+  it("rejects another cooperative's route for coop staff", async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [route] });
+
+    const result = await resolveTransportContext({ route_id: 4 }, 7);
+
+    expect(result).toEqual({ success: false, message: 'Route is not registered to your cooperative' });
+  });
+
+  it('takes the route of a registered vehicle and keeps free-text plates', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [{ cooperative_id: 2, route_id: 4, route_name: route.name }] });
+    const registered = await resolveTransportContext({ vehicle_plate: 'rad 123 a' });
+
+    mockQuery.mockResolvedValueOnce({ rows: [] });
+    const unknown = await resolveTransportContext({ vehicle_plate: 'RAE-555B', route_name: 'Remera–Town' });
+
+    expect(registered.context).toEqual(expect.objectContaining({ vehicle_plate: 'RAD123A', route_id: 4, transport_cooperative_id: 2 }));
+    expect(unknown.context).toEqual(expect.objectContaining({ vehicle_plate: 'RAE555B', route_id: null, route_name: 'Remera–Town' }));
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Unit Tests: Typed verification answers
+ * - Numbers: words and digits, thousands and "k", a tolerance above 100
+ * - Dates: a claimant may be more precise than the owner, not less
+ * - Colours: shades and other languages fold into the base colour
+ * - Token sets: any order, most of the owner's words needed
+ * - Only keyed hashes are stored; exact matches still pass as text
+ */
+
+import { AnswerType } from '../../src/types';
+import { canonicalForms, parseDate, parseNumber, parseColours } from '../../src/utils/answerForms';
+import { hashTypedAnswer, verifyTypedAnswer } from '../../src/services/answerMatchingService';
+
+async function matches(type: AnswerType, stored: string, given: string): Promise<boolean> {
+  const { hash, salt, keys } = await hashTypedAnswer(type, stored);
+  return verifyTypedAnswer(given, { answer_type: type, answer_hash: hash, answer_salt: salt, answer_keys: keys });
+}
+
+describe('parsing', () => {
+  it('reads numbers written in words, digits and shorthand', () => {
+    expect(parseNumber('5 cards')).toBe(5);
+    expect(parseNumber('five')).toBe(5);
+    expect(parseNumber('gatanu')).toBe(5);
+    expect(parseNumber('15,000 RWF')).toBe(15000);
+    expect(parseNumber('about 15k')).toBe(15000);
+    expect(parseNumber('between 10 and 20 thousand')).toBe(15000);
+    expect(parseNumber('lots')).toBeNull();
+  });
+
+  it('reads dates to the precision given', () => {
+    expect(parseDate('2019')).toEqual({ year: 2019 });
+    expect(parseDate('March 2019')).toEqual({ year: 2019, month: 3, day: undefined });
+    expect(parseDate('12/03/2019')).toEqual({ year: 2019, month: 3, day: 12 });
+    expect(parseDate('12 Werurwe 2019')).toEqual({ year: 2019, month: 3, day: 12 });
+  });
+
+  it('reads colours across languages and shades', () => {
+    expect(parseColours('Navy blue with a RED stripe')).toEqual(['blue', 'red']);
+    expect(parseColours('umukara')).toEqual(['black']);
+    expect(parseColours('no idea')).toEqual([]);
+  });
+
+  it('has no forms for free text and none for unreadable answers', () => {
+    expect(canonicalForms(AnswerType.TEXT, 'anything', 'stored')).toEqual([]);
+    expect(canonicalForms(AnswerType.NUMBER, 'several', 'stored')).toBeNull();
+  });
+});
+
+describe('verifyTypedAnswer', () => {
+  it('matches counts however they are written, and only exactly', async () => {
+    expect(await matches(AnswerType.NUMBER, '5 cards', 'five')).toBe(true);
+    expect(await matches(AnswerType.NUMBER, '5', '5 cards')).toBe(true);
+    expect(await matches(AnswerType.NUMBER, '5', '6')).toBe(false);
+  });
+
+  it('matches amounts within a tolerance', async () => {
+    expect(await matches(AnswerType.NUMBER, '15000 RWF', 'about 15k')).toBe(true);
+    expect(await matches(AnswerType.NUMBER, '15000 RWF', '16,000')).toBe(true);
+    expect(await matches(AnswerType.NUMBER, '15000 RWF', '25000')).toBe(false);
+  });
+
+  it('accepts a more precise date but not a vaguer one', async () => {
+    expect(await matches(AnswerType.DATE, '2019', '12 March 2019')).toBe(true);
+    expect(await matches(AnswerType.DATE, 'March 2019', '2019-03-20')).toBe(true);
+    expect(await matches(AnswerType.DATE, '12/03/2019', '2019')).toBe(false);
+    expect(await matches(AnswerType.DATE, '2019', '2018')).toBe(false);
+  });
+
+  it('matches colours by meaning', async () => {
+    expect(await matches(AnswerType.COLOUR, 'navy', 'dark blue')).toBe(true);
+    expect(await matches(AnswerType.COLOUR, 'black', 'noir')).toBe(true);
+    expect(await matches(AnswerType.COLOUR, 'black', 'brown')).toBe(false);
+  });
+
+  it('matches words in any order, but not a list of guesses', async () => {
+    expect(await matches(AnswerType.TOKENS, 'Tecno, blue case', 'blue case tecno')).toBe(true);
+    expect(await matches(AnswerType.TOKENS, 'two dogs on a beach', 'beach with 2 dogs')).toBe(true);
+    expect(await matches(AnswerType.TOKENS, 'Tecno, blue case', 'tecno')).toBe(false);
+    expect(await matches(AnswerType.TOKENS, 'Tecno blue case',
+      'tecno blue case samsung itel nokia red black green')).toBe(false);
+  });
+
+  it('stores keyed hashes, never the canonical forms', async () => {
+    const { keys } = await hashTypedAnswer(AnswerType.NUMBER, '5');
+    expect(keys).toHaveLength(1);
+    expect(keys![0]).toMatch(/^[0-9a-f]{64}$/);
+    expect(keys).not.toContain('n:5');
+  });
+
+  it('still passes exact text for rows stored before answer types', async () => {
+    const { hash, salt } = await hashTypedAnswer(AnswerType.TEXT, 'five');
+    const stored = { answer_type: null, answer_hash: hash, answer_salt: salt, answer_keys: null };
+    expect(await verifyTypedAnswer('Five!', stored)).toBe(true);
+    expect(await verifyTypedAnswer('5', stored)).toBe(false);
+  });
+});
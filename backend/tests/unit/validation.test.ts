@@ -1,7 +1,10 @@
 import {
   registerSchema, loginSchema, createLostItemSchema, createFoundItemSchema,
   createClaimSchema, verifyClaimSchema, verifyOtpSchema, sendMessageSchema,
-  createCooperativeSchema, banUserSchema,
+  createCooperativeSchema, banUserSchema, createSavedSearchSchema, updateSavedSearchSchema,
+  itemSearchSchema,
+  unifiedSearchSchema,
+  createLossIncidentSchema,
 } from '../../src/middleware/validation';
 
 describe('Register Schema', () => {
@@ -72,20 +75,45 @@ describe('Create Lost Item Schema', () => {
     expect(() => createLostItemSchema.parse({ ...valid, category: 'CAR' })).toThrow();
   });
 
-  it('should reject less than 3 questions', () => {
+  it('should accept 2 to 7 questions', () => {
+    const extra = { question: 'What sticker is on the back?', answer: 'a lion' };
     expect(() => createLostItemSchema.parse({
       ...valid,
       verification_questions: valid.verification_questions.slice(0, 2),
+    })).not.toThrow();
+    expect(() => createLostItemSchema.parse({
+      ...valid,
+      verification_questions: [...valid.verification_questions, extra, extra, extra, extra],
+    })).not.toThrow();
+  });
+
+  it('should reject fewer than 2 questions', () => {
+    expect(() => createLostItemSchema.parse({
+      ...valid,
+      verification_questions: valid.verification_questions.slice(0, 1),
     })).toThrow();
   });
 
-  it('should reject more than 3 questions', () => {
+  it('should reject more than 7 questions', () => {
+    const extra = { question: 'What sticker is on the back?', answer: 'a lion' };
     expect(() => createLostItemSchema.parse({
       ...valid,
-      verification_questions: [...valid.verification_questions, { question: 'Extra?', answer: 'x' }],
+      verification_questions: [...valid.verification_questions, extra, extra, extra, extra, extra],
     })).toThrow();
   });
 
+  it('should reject an answer that does not fit its type', () => {
+    const counted = (answer: string) => ({
+      ...valid,
+      verification_questions: [
+        ...valid.verification_questions.slice(0, 2),
+        { question: 'How many stickers are on the back?', answer, answer_type: 'NUMBER' },
+      ],
+    });
+    expect(() => createLostItemSchema.parse(counted('three'))).not.toThrow();
+    expect(() => createLostItemSchema.parse(counted('several'))).toThrow();
+  });
+
   it('should reject short title', () => {
     expect(() => createLostItemSchema.parse({ ...valid, title: 'AB' })).toThrow();
   });
@@ -97,6 +125,27 @@ describe('Create Lost Item Schema', () => {
   it('should accept ISO date string', () => {
     expect(() => createLostItemSchema.parse({ ...valid, lost_date: '2026-02-10' })).not.toThrow();
   });
+
+  it('should accept an optional time window', () => {
+    expect(() => createLostItemSchema.parse({
+      ...valid,
+      lost_window_start: '2026-02-10T08:00:00+02:00',
+      lost_window_end: '2026-02-10T08:30:00+02:00',
+    })).not.toThrow();
+  });
+
+  it('should reject a window with only one end', () => {
+    expect(() => createLostItemSchema.parse({ ...valid, lost_window_start: '2026-02-10T08:00:00Z' })).toThrow();
+  });
+
+  it('should reject an inverted or day-long window', () => {
+    expect(() => createLostItemSchema.parse({
+      ...valid, lost_window_start: '2026-02-10T09:00:00Z', lost_window_end: '2026-02-10T08:00:00Z',
+    })).toThrow();
+    expect(() => createLostItemSchema.parse({
+      ...valid, lost_window_start: '2026-02-10T08:00:00Z', lost_window_end: '2026-02-11T09:00:00Z',
+    })).toThrow();
+  });
 });
 
 describe('Create Found Item Schema', () => {
@@ -127,13 +176,14 @@ describe('Claim Schemas', () => {
     expect(() => createClaimSchema.parse({ lost_item_id: 1, found_item_id: -1 })).toThrow();
   });
 
-  it('should accept valid verification answers (3 strings)', () => {
+  it('should accept valid verification answers (2 to 7 strings)', () => {
     expect(() => verifyClaimSchema.parse({ answers: ['a', 'b', 'c'] })).not.toThrow();
+    expect(() => verifyClaimSchema.parse({ answers: ['a', 'b'] })).not.toThrow();
   });
 
   it('should reject wrong number of answers', () => {
-    expect(() => verifyClaimSchema.parse({ answers: ['a', 'b'] })).toThrow();
-    expect(() => verifyClaimSchema.parse({ answers: ['a', 'b', 'c', 'd'] })).toThrow();
+    expect(() => verifyClaimSchema.parse({ answers: ['a'] })).toThrow();
+    expect(() => verifyClaimSchema.parse({ answers: ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'] })).toThrow();
   });
 
   it('should reject empty answers', () => {
@@ -188,4 +238,75 @@ describe('Ban User Schema', () => {
   it('should reject short reason', () => {
     expect(() => banUserSchema.parse({ reason: 'bad' })).toThrow();
   });
-});
\ No newline at end of file
+});
+describe('Saved Search Schemas', () => {
+  it('should accept a watch with a category and date range', () => {
+    expect(() => createSavedSearchSchema.parse({
+      name: 'My wallet', category: 'WALLET', date_from: '2024-03-01', date_to: '2024-03-31', channel: 'IN_APP',
+    })).not.toThrow();
+  });
+
+  it('should reject a watch with no criteria', () => {
+    expect(() => createSavedSearchSchema.parse({ name: 'Anything', date_from: '2024-03-01' })).toThrow();
+  });
+
+  it('should reject reversed dates on update', () => {
+    expect(() => updateSavedSearchSchema.parse({ date_from: '2024-03-10', date_to: '2024-03-01' })).toThrow();
+    expect(() => updateSavedSearchSchema.parse({ is_active: false })).not.toThrow();
+  });
+});
+
+describe('Item Search Schema', () => {
+  it('should accept a query with filters and a sort', () => {
+    expect(() => itemSearchSchema.parse({ q: 'black phone', category: 'PHONE', sort: 'newest', page: '2' })).not.toThrow();
+  });
+
+  it('should reject a one-character query', () => {
+    expect(() => itemSearchSchema.parse({ q: ' a ' })).toThrow();
+  });
+
+  it('should require an area when sorting by distance', () => {
+    expect(() => itemSearchSchema.parse({ q: 'wallet', sort: 'closest' })).toThrow();
+    expect(() => itemSearchSchema.parse({ q: 'wallet', sort: 'closest', near: 'Remera' })).not.toThrow();
+  });
+});
+
+describe('Unified Search Schema', () => {
+  it('should accept an area view with no query', () => {
+    expect(() => unifiedSearchSchema.parse({ near: 'Remera', max_distance: '1', date_from: '2024-03-04' })).not.toThrow();
+  });
+
+  it('should need an area for distance and a query for relevance', () => {
+    expect(() => unifiedSearchSchema.parse({ max_distance: '1' })).toThrow();
+    expect(() => unifiedSearchSchema.parse({ sort: 'relevance' })).toThrow();
+    expect(() => unifiedSearchSchema.parse({ near: 'Remera', max_distance: '3' })).toThrow();
+  });
+});
+
+describe('Loss Incident Schema', () => {
+  const questions = [
+    { question: 'What is the wallpaper?', answer: 'beach' },
+    { question: 'What colour is the case?', answer: 'blue' },
+    { question: 'Any scratches?', answer: 'corner' },
+  ];
+  const item = (category: string, title: string) => ({
+    category, title, description: `${title} lost with my bag`, verification_questions: questions,
+  });
+  const valid = {
+    title: 'Bag left on the bus',
+    location_area: 'Nyabugogo',
+    lost_date: '2024-03-04',
+    items: [item('BAG', 'Grey backpack'), item('PHONE', 'Samsung A52')],
+  };
+
+  it('should accept a loss with several items', () => {
+    expect(() => createLossIncidentSchema.parse(valid)).not.toThrow();
+  });
+
+  it('should need at least two items, each with at least two questions', () => {
+    expect(() => createLossIncidentSchema.parse({ ...valid, items: [valid.items[0]] })).toThrow();
+    expect(() => createLossIncidentSchema.parse({
+      ...valid, items: [valid.items[0], { ...valid.items[1], verification_questions: questions.slice(0, 1) }],
+    })).toThrow();
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Unit Tests: Verification policy
+ * - The daily attempt limit follows the claimant's trust level
+ * - A failure sets an exponential backoff; a pass clears it
+ * - Suspended claimants cannot verify at all
+ * - Answers sent at the same time take one attempt after the other
+ */
+
+jest.mock('../../src/config/database', () => ({
+  query: jest.fn(),
+  transaction: jest.fn(),
+}));
+
+import { query, transaction } from '../../src/config/database';
+import { TrustLevel } from '../../src/types';
+import {
+  checkCooldownStatus,
+  cooldownAfterFailures,
+  getClaimVerificationStatus,
+  recordVerificationAttempt,
+  releaseVerificationAttempt,
+  reserveVerificationAttempt
+} from '../../src/services/verificationCooldownService';
+
+const mockQuery = query as jest.Mock;
+const mockTransaction = transaction as jest.Mock;
+
+const HOUR = 60 * 60 * 1000;
+
+function claimRow(trustScore: number, nextAttemptAt: Date | null = null, consecutiveFailures = 0) {
+  return { rows: [{ trust_score: trustScore, next_attempt_at: nextAttemptAt, consecutive_failures: consecutiveFailures }] };
+}
+
+function attempts(total: number, failed: number, oldest: Date | null = null) {
+  return { rows: [{ total_attempts: String(total), failed_attempts: String(failed), oldest_attempt: oldest }] };
+}
+
+describe('cooldownAfterFailures', () => {
+  it('waits 1 hour, then 4, then a full day from the third failure on (CLAIM-05)', () => {
+    expect(cooldownAfterFailures(0)).toBe(0);
+    expect(cooldownAfterFailures(1)).toBe(HOUR);
+    expect(cooldownAfterFailures(2)).toBe(4 * HOUR);
+    expect(cooldownAfterFailures(3)).toBe(24 * HOUR);
+    expect(cooldownAfterFailures(6)).toBe(24 * HOUR);
+  });
+});
+
+describe('checkCooldownStatus', () => {
+  beforeEach(() => mockQuery.mockReset());
+
+  it('gives trusted claimants more attempts than new ones', async () => {
+    mockQuery.mockResolvedValueOnce(claimRow(0)).mockResolvedValueOnce(attempts(3, 0, new Date()));
+    const newcomer = await checkCooldownStatus(1, 2);
+    expect(newcomer).toMatchObject({ trustLevel: TrustLevel.NEW, attemptLimit: 3, attemptsRemaining: 0, canAttempt: false });
+
+    mockQuery.mockResolvedValueOnce(claimRow(50)).mockResolvedValueOnce(attempts(3, 0, new Date()));
+    const trusted = await checkCooldownStatus(1, 2);
+    expect(trusted).toMatchObject({ trustLevel: TrustLevel.TRUSTED, attemptLimit: 7, attemptsRemaining: 4, canAttempt: true });
+  });
+
+  it('frees a slot when the oldest attempt is a day old', async () => {
+    const oldest = new Date(Date.now() - 20 * HOUR);
+    mockQuery.mockResolvedValueOnce(claimRow(0)).mockResolvedValueOnce(attempts(3, 1, oldest));
+
+    const status = await checkCooldownStatus(1, 2);
+
+    expect(status.cooldownUntil!.getTime()).toBe(oldest.getTime() + 24 * HOUR);
+    expect(status.remainingSeconds).toBeGreaterThan(3.9 * 3600);
+  });
+
+  it('blocks during a backoff even with attempts left', async () => {
+    const until = new Date(Date.now() + 3.5 * HOUR);
+    mockQuery.mockResolvedValueOnce(claimRow(50, until, 2)).mockResolvedValueOnce(attempts(2, 2));
+
+    const status = await checkCooldownStatus(1, 2);
+
+    expect(status).toMatchObject({ canAttempt: false, consecutiveFailures: 2, attemptsRemaining: 5 });
+    expect(status.cooldownUntil).toEqual(until);
+    expect(status.message).toMatch(/3 hours and 29|3 hours and 30/);
+  });
+
+  it('refuses suspended claimants', async () => {
+    mockQuery.mockResolvedValueOnce(claimRow(-50)).mockResolvedValueOnce(attempts(0, 0));
+    const status = await checkCooldownStatus(1, 2);
+    expect(status).toMatchObject({ canAttempt: false, attemptLimit: 0, trustLevel: TrustLevel.SUSPENDED });
+  });
+});
+
+describe('getClaimVerificationStatus', () => {
+  beforeEach(() => mockQuery.mockReset());
+
+  it('only answers the claimant', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [{ claimant_id: 9 }] });
+    expect(await getClaimVerificationStatus(1, 2)).toBeNull();
+    expect(mockQuery).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('recordVerificationAttempt', () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockTransaction.mockReset();
+    mockTransaction.mockImplementation((callback: (client: unknown) => unknown) => callback({ query: mockQuery }));
+  });
+
+  it('backs off longer after each consecutive failure', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ id: 10 }] })
+      .mockResolvedValueOnce({ rows: [{ consecutive_failures: 2 }] })
+      .mockResolvedValueOnce({ rows: [] });
+
+    const result = await recordVerificationAttempt(1, 2, false, 1);
+
+    expect(result.consecutiveFailures).toBe(2);
+    const wait = result.newCooldown!.getTime() - Date.now();
+    expect(wait).toBeGreaterThan(3.9 * HOUR);
+    expect(wait).toBeLessThanOrEqual(4 * HOUR);
+    expect(mockQuery.mock.calls[2][1]).toEqual([result.newCooldown, 1]);
+    // The attempt and the backoff land together
+    expect(mockTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('clears the backoff on a pass', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [{ id: 11 }] }).mockResolvedValueOnce({ rows: [] });
+
+    const result = await recordVerificationAttempt(1, 2, true, 3);
+
+    expect(result).toEqual({ attemptId: 11, newCooldown: null, consecutiveFailures: 0 });
+    expect(mockQuery.mock.calls[1][0]).toContain('consecutive_failures = 0');
+  });
+});
+
+describe('reserveVerificationAttempt', () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockTransaction.mockReset();
+  });
+
+  // One claim row behind a row lock: transactions run one after the other
+  function lockedClaim(trustScore: number, attemptsToday: number) {
+    const claim = { next_attempt_at: null as Date | null };
+    const clientQuery = jest.fn(async (sql: string, params: any[]) => {
+      if (sql.includes('FOR UPDATE OF c')) return claimRow(trustScore, claim.next_attempt_at);
+      if (sql.includes('FROM verification_attempts')) return attempts(attemptsToday, 0);
+      claim.next_attempt_at = params[0];
+      return { rows: [] };
+    });
+    let lock: Promise<unknown> = Promise.resolve();
+    mockTransaction.mockImplementation((callback: (client: unknown) => unknown) => {
+      const run = lock.then(() => callback({ query: clientQuery }));
+      lock = run.catch(() => undefined);
+      return run;
+    });
+    return claim;
+  }
+
+  it('lets only one of two verifies sent at once through', async () => {
+    // Trusted: plenty of attempts left, so only the hold stops the second
+    const claim = lockedClaim(50, 0);
+
+    const [first, second] = await Promise.all([
+      reserveVerificationAttempt(1, 2),
+      reserveVerificationAttempt(1, 2)
+    ]);
+
+    expect([first.canAttempt, second.canAttempt]).toEqual([true, false]);
+    expect(first.heldUntil!.getTime()).toBeGreaterThan(Date.now() + HOUR - 60_000);
+    expect(claim.next_attempt_at).toBe(first.heldUntil);
+    expect(second.cooldownUntil).toEqual(first.heldUntil);
+  });
+
+  it('holds nothing when the claimant is turned away', async () => {
+    const claim = lockedClaim(0, 3);
+
+    const reservation = await reserveVerificationAttempt(1, 2);
+
+    expect(reservation).toMatchObject({ canAttempt: false, heldUntil: null });
+    expect(claim.next_attempt_at).toBeNull();
+  });
+
+  it('gives back a hold that was never checked', async () => {
+    lockedClaim(50, 0);
+    const reservation = await reserveVerificationAttempt(1, 2);
+    mockQuery.mockResolvedValueOnce({ rows: [] });
+
+    await releaseVerificationAttempt(1, reservation);
+
+    const [sql, params] = mockQuery.mock.calls[0];
+    expect(sql).toMatch(/SET next_attempt_at = NULL WHERE id = \$1 AND next_attempt_at = \$2/);
+    expect(params).toEqual([1, reservation.heldUntil]);
+  });
+});
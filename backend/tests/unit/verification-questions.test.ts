@@ -0,0 +1,123 @@
+/**
+ * Unit Tests: Weighted verification questions
+ * - Weights follow the strength analyzer: strong questions count more
+ * - Passing is a weighted share, not a count; equal weights keep 2-of-3
+ * - Questions are saved one row each, in order, with their weight
+ */
+
+jest.mock('../../src/config/database', () => ({
+  query: jest.fn(),
+}));
+
+import { query } from '../../src/config/database';
+import { hashSecretAnswer } from '../../src/utils';
+import { AnswerType } from '../../src/types';
+import {
+  computeQuestionWeights,
+  resolveAnswerType,
+  saveVerificationQuestions,
+  scoreVerificationAnswers,
+  weightFromStrength
+} from '../../src/services/verificationQuestionService';
+
+const mockQuery = query as jest.Mock;
+
+async function stored(answers: string[], weights: number[]) {
+  const rows = [];
+  for (let i = 0; i < answers.length; i++) {
+    const { hash, salt } = await hashSecretAnswer(answers[i]);
+    // NUMERIC comes back from pg as a string
+    rows.push({ answer_hash: hash, answer_salt: salt, weight: String(weights[i]) });
+  }
+  return { rows };
+}
+
+describe('question weights', () => {
+  it('maps analyzer scores onto 0.5-1.5', () => {
+    expect(weightFromStrength(0)).toBe(0.5);
+    expect(weightFromStrength(50)).toBe(1);
+    expect(weightFromStrength(100)).toBe(1.5);
+  });
+
+  it('weighs a specific question above a guessable one', () => {
+    const [strong, weak] = computeQuestionWeights([
+      { question: 'What are the last 4 digits of the IMEI number?', answer: '35892 4821' },
+      { question: 'What color?', answer: 'black' },
+    ], 'PHONE', 'Black phone lost on the bus');
+    expect(strong).toBeGreaterThan(weak);
+  });
+});
+
+describe('resolveAnswerType', () => {
+  it('prefers the owner\'s choice, then the template, then text', () => {
+    expect(resolveAnswerType({ question: 'Which bus?', answer: '5', answer_type: AnswerType.NUMBER })).toBe(AnswerType.NUMBER);
+    expect(resolveAnswerType({ question: 'How many cards are inside the wallet?', answer: 'four' })).toBe(AnswerType.NUMBER);
+    expect(resolveAnswerType({ question: 'Which bus?', answer: '5' })).toBe(AnswerType.TEXT);
+  });
+
+  it('falls back to text when the answer does not fit the template', () => {
+    expect(resolveAnswerType({ question: 'How many cards are inside the wallet?', answer: 'lots' })).toBe(AnswerType.TEXT);
+  });
+});
+
+describe('scoreVerificationAnswers', () => {
+  beforeEach(() => mockQuery.mockReset());
+
+  it('passes 2 of 3 equally weighted questions and fails 1 of 3', async () => {
+    mockQuery.mockResolvedValue(await stored(['mountain sunset', 'blue', 'scratch on corner'], [1, 1, 1]));
+
+    const two = await scoreVerificationAnswers(1, ['Mountain sunset', 'blue', 'no idea']);
+    expect(two).toMatchObject({ asked: 3, correct: 2, passed: true });
+
+    const one = await scoreVerificationAnswers(1, ['mountain sunset', 'red', 'no idea']);
+    expect(one).toMatchObject({ asked: 3, correct: 1, passed: false });
+  });
+
+  it('weighs answers rather than counting them', async () => {
+    mockQuery.mockResolvedValue(await stored(['4821', 'black', 'samsung', 'spotify'], [1.5, 0.5, 0.5, 0.5]));
+
+    // Three weak answers right, the strong one wrong: 1.5 of 3
+    const guessed = await scoreVerificationAnswers(1, ['0000', 'black', 'samsung', 'spotify']);
+    expect(guessed.correct).toBe(3);
+    expect(guessed.score).toBeCloseTo(0.5);
+    expect(guessed.passed).toBe(false);
+
+    // The strong answer and one weak one: 2 of 3
+    const owner = await scoreVerificationAnswers(1, ['4821', 'black', 'nokia', 'radio']);
+    expect(owner.correct).toBe(2);
+    expect(owner.score).toBeCloseTo(2 / 3);
+    expect(owner.passed).toBe(true);
+  });
+
+  it('counts missing answers as wrong', async () => {
+    mockQuery.mockResolvedValue(await stored(['blue', 'dell'], [1, 1]));
+    const result = await scoreVerificationAnswers(1, ['blue']);
+    expect(result).toMatchObject({ asked: 2, correct: 1, passed: false });
+  });
+
+  it('cannot pass an item without questions', async () => {
+    mockQuery.mockResolvedValue({ rows: [] });
+    const result = await scoreVerificationAnswers(1, ['anything']);
+    expect(result).toMatchObject({ asked: 0, score: 0, passed: false });
+  });
+});
+
+describe('saveVerificationQuestions', () => {
+  it('inserts one row per question in order, with its weight', async () => {
+    const clientQuery = jest.fn().mockResolvedValue({ rows: [] });
+    await saveVerificationQuestions({ query: clientQuery } as any, 7, [
+      { question: 'How many cards are inside the wallet?', answer: '4' },
+      { question: 'Name one specific card inside', answer: 'Bank of Kigali visa' },
+    ], 'WALLET', 'Brown leather wallet');
+
+    expect(clientQuery).toHaveBeenCalledTimes(2);
+    const [first, second] = clientQuery.mock.calls.map(call => call[1]);
+    expect(first.slice(0, 3)).toEqual([7, 1, 'How many cards are inside the wallet?']);
+    expect(second.slice(0, 3)).toEqual([7, 2, 'Name one specific card inside']);
+    expect(first[3]).toMatch(/^\$2[aby]\$/);
+    expect(typeof first[5]).toBe('number');
+    expect(first[6]).toBe(AnswerType.NUMBER);
+    expect(first[7]).toHaveLength(1);
+    expect(second.slice(6)).toEqual([AnswerType.TEXT, null]);
+  });
+});
@@ -14,12 +14,86 @@ import {
   hashToken,
   getClaimAttemptLimit,
   getReportDailyLimit,
-  TRUST_CHANGES
+  TRUST_CHANGES,
+  levenshteinDistance,
+  keywordSimilarity,
+  closestKnownKeyword,
+  canonicalizeKeyword,
+  lookupKeyword,
+  normalizePlateNumber,
+  routeKey,
+  sharedStops,
+  areasByDistance,
+  encodeCursor,
+  decodeCursor,
+  keysetCondition,
+  takeCursorPage,
+  buildPagination
 } from '../src/utils';
 import { TrustLevel } from '../src/types';
 
 describe('Utility Functions', () => {
+  describe('fuzzy keyword matching', () => {
+    it('should compute edit distance', () => {
+      expect(levenshteinDistance('samsng', 'samsung')).toBe(1);
+      expect(levenshteinDistance('blak', 'black')).toBe(1);
+      expect(levenshteinDistance('wallet', 'wallet')).toBe(0);
+    });
+
+    it('should treat common typos as similar', () => {
+      expect(keywordSimilarity('samsng', 'samsung')).toBeGreaterThanOrEqual(0.75);
+      expect(keywordSimilarity('blak', 'black')).toBeGreaterThanOrEqual(0.75);
+    });
+
+    it('should match a glued model number against the bare brand', () => {
+      expect(keywordSimilarity('iphone12', 'iphone')).toBeGreaterThanOrEqual(0.75);
+    });
+
+    it('should never match different model numbers', () => {
+      expect(keywordSimilarity('iphone12', 'iphone13')).toBe(0);
+    });
+
+    it('should not match short or unrelated words', () => {
+      expect(keywordSimilarity('bag', 'bat')).toBe(0);
+      expect(keywordSimilarity('wallet', 'jacket')).toBe(0);
+    });
+
+    it('should snap typos to known brands and colours', () => {
+      expect(closestKnownKeyword('samsng')).toBe('samsung');
+      expect(closestKnownKeyword('blak')).toBe('black');
+      expect(closestKnownKeyword('zipper')).toBeNull();
+    });
+  });
+
+  describe('keyword dictionary', () => {
+    it('should canonicalise Kinyarwanda, French and English to one term', () => {
+      expect(canonicalizeKeyword('umukara')).toBe('black');
+      expect(canonicalizeKeyword('noir')).toBe('black');
+      expect(canonicalizeKeyword('telefone')).toBe('phone');
+      expect(canonicalizeKeyword('Téléphone')).toBe('phone');
+      expect(canonicalizeKeyword('agakapu')).toBe('wallet');
+    });
+
+    it('should pass unknown words through lower-cased', () => {
+      expect(canonicalizeKeyword('Kimironko')).toBe('kimironko');
+    });
+
+    it('should report the dictionary group', () => {
+      expect(lookupKeyword('cuir')?.group).toBe('material');
+      expect(lookupKeyword('techno')?.canonical).toBe('tecno');
+      expect(lookupKeyword('kimironko')).toBeUndefined();
+    });
+  });
+
   describe('extractKeywords', () => {
+    it('should fold accents and collapse French phrases', () => {
+      const keywords = extractKeywords("J'ai perdu mon porte-monnaie et ma carte d'identité");
+
+      expect(keywords).toContain('portemonnaie');
+      expect(keywords).toContain('identite');
+      expect(keywords).not.toContain('perdu');
+    });
+
     it('should extract meaningful keywords from text', () => {
       const text = 'Lost my black iPhone 13 Pro with blue silicone case';
       const keywords = extractKeywords(text);
@@ -346,6 +420,48 @@ describe('Utility Functions', () => {
     });
   });
 
+  describe('cursor pagination', () => {
+    const key = '2024-03-10T08:15:30.123456';
+
+    it('should round-trip an opaque cursor', () => {
+      const cursor = encodeCursor({ key, id: 42 });
+      expect(cursor).not.toContain(key);
+      expect(decodeCursor(cursor)).toEqual({ key, id: 42 });
+    });
+
+    it('should tell a missing cursor from an invalid one', () => {
+      expect(decodeCursor(undefined)).toBeUndefined();
+      expect(decodeCursor('')).toBeUndefined();
+      expect(decodeCursor('not-a-cursor')).toBeNull();
+      expect(decodeCursor(encodeCursor({ key: 'yesterday', id: 1 }))).toBeNull();
+      expect(decodeCursor(['a', 'b'])).toBeNull();
+    });
+
+    it('should build a row-value condition after the cursor', () => {
+      const params: any[] = ['PHONE'];
+      const sql = keysetCondition('f.created_at', 'f.id', { key, id: 7 }, params);
+      expect(sql).toBe('(f.created_at, f.id) < ($2::timestamp, $3)');
+      expect(params).toEqual(['PHONE', key, 7]);
+    });
+
+    it('should trim the extra row and point the next cursor at the last kept row', () => {
+      const rows = [
+        { id: 3, cursor_key: '2024-03-10T08:00:00.000003' },
+        { id: 2, cursor_key: '2024-03-10T08:00:00.000002' },
+        { id: 1, cursor_key: '2024-03-10T08:00:00.000001' },
+      ];
+      const page = takeCursorPage(rows, 2);
+      expect(page.rows).toEqual([{ id: 3 }, { id: 2 }]);
+      expect(decodeCursor(page.nextCursor)).toEqual({ key: '2024-03-10T08:00:00.000002', id: 2 });
+      expect(takeCursorPage(rows, 3).nextCursor).toBeNull();
+    });
+
+    it('should only report totals for offset pages', () => {
+      expect(buildPagination(2, 20, 45, 'abc')).toEqual({ page: 2, limit: 20, total: 45, totalPages: 3, nextCursor: 'abc' });
+      expect(buildPagination(1, 20, null, null)).toEqual({ limit: 20, nextCursor: null });
+    });
+  });
+
   describe('generateOTP', () => {
     it('should generate 6-digit OTP', () => {
       const otp = generateOTP();
@@ -378,6 +494,38 @@ describe('Utility Functions', () => {
     });
   });
 
+  describe('transport helpers', () => {
+    it('should normalize plate numbers', () => {
+      expect(normalizePlateNumber('rad 123 a')).toBe('RAD123A');
+      expect(normalizePlateNumber('RAD-123A')).toBe('RAD123A');
+    });
+
+    it('should key routes independent of direction and separator', () => {
+      expect(routeKey('Nyabugogo–Kimironko')).toBe('kimironko|nyabugogo');
+      expect(routeKey('Kimironko - Nyabugogo')).toBe(routeKey('Nyabugogo to Kimironko'));
+      expect(routeKey('Remera–Town')).not.toBe(routeKey('Nyabugogo–Kimironko'));
+    });
+
+    it('should list shared stops in the order of the first sequence', () => {
+      expect(sharedStops(['Nyabugogo', 'Kacyiru', 'Kimironko'], ['kimironko', 'Kacyiru'])).toEqual(['Kacyiru', 'Kimironko']);
+      expect(sharedStops(['Remera'], [])).toEqual([]);
+    });
+  });
+
+  describe('areasByDistance', () => {
+    it('should group known areas by distance from the origin', () => {
+      const [same, adjacent, district] = areasByDistance('Remera');
+      expect(same).toEqual(['remera']);
+      expect(adjacent).toEqual(expect.arrayContaining(['kimironko', 'kibagabaga', 'kicukiro']));
+      expect(district).toEqual(expect.arrayContaining(['kacyiru', 'gisozi']));
+      expect([...adjacent, ...district]).not.toContain('nyamirambo');
+    });
+
+    it('should keep an unknown origin as its own nearest area', () => {
+      expect(areasByDistance('Musanze')).toEqual([['musanze'], [], []]);
+    });
+  });
+
   describe('TRUST_CHANGES', () => {
     it('should have positive values for good actions', () => {
       expect(TRUST_CHANGES.SUCCESSFUL_RETURN_FINDER).toBeGreaterThan(0);
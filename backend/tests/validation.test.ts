@@ -323,7 +323,7 @@ describe('Validation Middleware', () => {
 
     it('should reject wrong number of answers', () => {
       mockRequest.body = {
-        answers: ['answer1', 'answer2'],
+        answers: ['answer1'],
       };
 
       middleware(mockRequest as Request, mockResponse as Response, mockNext);
@@ -16,6 +16,8 @@ import DashboardPage from './pages/DashboardPage';
 import SearchPage from './pages/SearchPage';
 import ReportLostPage from './pages/ReportLostPage';
 import ReportFoundPage from './pages/ReportFoundPage';
+import ReportLossIncidentPage from './pages/ReportLossIncidentPage';
+import LossIncidentPage from './pages/LossIncidentPage';
 import LostItemDetailPage from './pages/LostItemDetailPage';
 import FoundItemDetailPage from './pages/FoundItemDetailPage';
 import ClaimDetailPage from './pages/ClaimDetailPage';
@@ -190,6 +192,22 @@ function App() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/report-lost/incident"
+            element={
+              <ProtectedRoute>
+                <ReportLossIncidentPage />
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/loss-incidents/:id"
+            element={
+              <ProtectedRoute>
+                <LossIncidentPage />
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/report-found"
             element={
@@ -0,0 +1,114 @@
+import React, { useState, useEffect } from 'react';
+import { ShieldAlert, ShieldCheck } from 'lucide-react';
+import { Alert, Badge, Card } from './ui';
+import { foundItemsApi } from '../services/api';
+import { ClaimQueue, ClaimStatus, FraudRiskLevel } from '../types';
+import { formatDateShort } from '../utils/dateUtils';
+
+// ============================================
+// TYPES
+// ============================================
+
+interface Props {
+  itemId: number;
+}
+
+type BadgeVariant = 'default' | 'active' | 'verified' | 'pending' | 'expired' | 'danger' | 'info';
+
+const STATUS_BADGES: Record<ClaimStatus, BadgeVariant> = {
+  [ClaimStatus.PENDING]: 'pending',
+  [ClaimStatus.VERIFIED]: 'verified',
+  [ClaimStatus.RETURNED]: 'verified',
+  [ClaimStatus.DISPUTED]: 'danger',
+  [ClaimStatus.REJECTED]: 'expired',
+  [ClaimStatus.CANCELLED]: 'expired',
+  [ClaimStatus.EXPIRED]: 'expired',
+};
+
+const RISK_BADGES: Record<FraudRiskLevel, BadgeVariant> = {
+  LOW: 'default',
+  MEDIUM: 'pending',
+  HIGH: 'danger',
+  CRITICAL: 'danger',
+};
+
+// ============================================
+// COMPONENT
+// ============================================
+
+/**
+ * Every claim on a found item, strongest first (finder, the holding
+ * cooperative's staff and admins): verification score, trust and fraud risk.
+ */
+const ClaimQueuePanel: React.FC<Props> = ({ itemId }) => {
+  const [queue, setQueue] = useState<ClaimQueue | null>(null);
+
+  useEffect(() => {
+    loadQueue();
+  }, [itemId]);
+
+  const loadQueue = async () => {
+    try {
+      const response = await foundItemsApi.getClaimQueue(itemId);
+      setQueue(response.data.data || null);
+    } catch (error) {
+      console.error('Failed to load claim queue:', error);
+    }
+  };
+
+  const claims = queue?.claims || [];
+
+  return (
+    <Card className="p-6 mb-6">
+      <h3 className="font-semibold text-gray-900 mb-1">Claims</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        The first claimant to pass verification gets the item; the other claims are closed and their claimants told.
+      </p>
+
+      {queue?.contested && (
+        <Alert type="warning" className="mb-4">
+          <ShieldAlert className="w-4 h-4 inline mr-2" />
+          More than one person passed verification. An administrator is reviewing the dispute.
+        </Alert>
+      )}
+
+      {claims.length === 0 ? (
+        <p className="text-sm text-gray-400">No claims yet.</p>
+      ) : (
+        <ol className="space-y-3">
+          {claims.map((claim) => (
+            <li key={claim.claim_id} className="border-l-2 border-primary-200 pl-3">
+              <p className="text-sm font-medium text-gray-900 flex items-center gap-2 flex-wrap">
+                #{claim.rank} {claim.claimant_name}
+                <Badge size="sm" variant={STATUS_BADGES[claim.status]}>
+                  {claim.superseded_by ? 'Superseded' : claim.status}
+                </Badge>
+              </p>
+              <p className="text-xs text-gray-500">
+                {claim.lost_item_title} · claimed {formatDateShort(claim.created_at)}
+              </p>
+              <p className="text-xs text-gray-600 mt-1 flex items-center gap-2 flex-wrap">
+                <span>
+                  Score {claim.verification_score === null ? '—' : `${Math.round(claim.verification_score * 100)}%`}
+                  {' '}({claim.attempts_made} {claim.attempts_made === 1 ? 'attempt' : 'attempts'})
+                </span>
+                <span className="flex items-center gap-1">
+                  <ShieldCheck className="w-3 h-3" />
+                  {claim.trust_level}
+                </span>
+                <Badge size="sm" variant={RISK_BADGES[claim.fraud_risk.level]}>
+                  {claim.fraud_risk.level} risk
+                </Badge>
+              </p>
+              {claim.fraud_risk.factors.length > 0 && (
+                <p className="text-xs text-gray-400 mt-1">{claim.fraud_risk.factors.join('; ')}</p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </Card>
+  );
+};
+
+export default ClaimQueuePanel;
@@ -0,0 +1,207 @@
+import React, { useState, useEffect } from 'react';
+import { Bus, Route, Plus } from 'lucide-react';
+import { Button, Card, Input } from './ui';
+import { cooperativesApi } from '../services/api';
+import { CooperativeRoute, CooperativeVehicle } from '../types';
+import toast from 'react-hot-toast';
+
+// ============================================
+// TYPES
+// ============================================
+
+interface Props {
+  cooperativeId: number;
+}
+
+// ============================================
+// COMPONENT
+// ============================================
+
+const CoopTransportRegistry: React.FC<Props> = ({ cooperativeId }) => {
+  const [routes, setRoutes] = useState<CooperativeRoute[]>([]);
+  const [vehicles, setVehicles] = useState<CooperativeVehicle[]>([]);
+  const [routeForm, setRouteForm] = useState({ name: '', stops: '' });
+  const [vehicleForm, setVehicleForm] = useState({ plate_number: '', route_id: '', description: '' });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadRegistry();
+  }, [cooperativeId]);
+
+  const loadRegistry = async () => {
+    try {
+      const [routesRes, vehiclesRes] = await Promise.all([
+        cooperativesApi.getRoutes(cooperativeId, true),
+        cooperativesApi.getVehicles(cooperativeId, true),
+      ]);
+      setRoutes(routesRes.data.data || []);
+      setVehicles(vehiclesRes.data.data || []);
+    } catch (error) {
+      console.error('Failed to load routes and vehicles:', error);
+    }
+  };
+
+  const addRoute = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const stops = routeForm.stops.split(',').map((s) => s.trim()).filter(Boolean);
+    if (!routeForm.name.trim() || stops.length < 2) {
+      toast.error('Enter a route name and at least two stops');
+      return;
+    }
+    setSaving(true);
+    try {
+      await cooperativesApi.createRoute(cooperativeId, { name: routeForm.name.trim(), stops });
+      setRouteForm({ name: '', stops: '' });
+      toast.success('Route registered');
+      loadRegistry();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to register route');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addVehicle = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!vehicleForm.plate_number.trim()) {
+      toast.error('Enter a plate number');
+      return;
+    }
+    setSaving(true);
+    try {
+      await cooperativesApi.createVehicle(cooperativeId, {
+        plate_number: vehicleForm.plate_number.trim(),
+        route_id: vehicleForm.route_id ? parseInt(vehicleForm.route_id) : undefined,
+        description: vehicleForm.description.trim() || undefined,
+      });
+      setVehicleForm({ plate_number: '', route_id: '', description: '' });
+      toast.success('Vehicle registered');
+      loadRegistry();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to register vehicle');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleRoute = async (route: CooperativeRoute) => {
+    try {
+      await cooperativesApi.setRouteActive(cooperativeId, route.id, !route.is_active);
+      loadRegistry();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to update route');
+    }
+  };
+
+  const toggleVehicle = async (vehicle: CooperativeVehicle) => {
+    try {
+      await cooperativesApi.setVehicleActive(cooperativeId, vehicle.id, !vehicle.is_active);
+      loadRegistry();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to update vehicle');
+    }
+  };
+
+  return (
+    <Card className="p-6 mb-8">
+      <h2 className="text-lg font-semibold text-gray-900 mb-1">Routes & Vehicles</h2>
+      <p className="text-sm text-gray-500 mb-6">
+        Registered routes and vehicles can be picked when logging found items, and help match them to loss reports.
+      </p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        {/* Routes */}
+        <div>
+          <h3 className="font-medium text-gray-900 mb-3 flex items-center gap-2">
+            <Route className="w-4 h-4" />
+            Routes ({routes.length})
+          </h3>
+          <ul className="divide-y divide-gray-100 mb-4">
+            {routes.map((route) => (
+              <li key={route.id} className="py-2 flex items-start justify-between gap-3">
+                <div>
+                  <p className={`text-sm font-medium ${route.is_active ? 'text-gray-900' : 'text-gray-400'}`}>{route.name}</p>
+                  <p className="text-xs text-gray-500">{route.stops.join(' → ')}</p>
+                </div>
+                <button type="button" onClick={() => toggleRoute(route)} className="text-xs text-primary-600 hover:underline">
+                  {route.is_active ? 'Retire' : 'Restore'}
+                </button>
+              </li>
+            ))}
+          </ul>
+          <form onSubmit={addRoute} className="space-y-3">
+            <Input
+              value={routeForm.name}
+              onChange={(e) => setRouteForm({ ...routeForm, name: e.target.value })}
+              placeholder="Route name, e.g. Nyabugogo–Kimironko"
+            />
+            <Input
+              value={routeForm.stops}
+              onChange={(e) => setRouteForm({ ...routeForm, stops: e.target.value })}
+              placeholder="Stops in order, comma separated"
+            />
+            <Button type="submit" size="sm" variant="secondary" loading={saving}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add Route
+            </Button>
+          </form>
+        </div>
+
+        {/* Vehicles */}
+        <div>
+          <h3 className="font-medium text-gray-900 mb-3 flex items-center gap-2">
+            <Bus className="w-4 h-4" />
+            Vehicles ({vehicles.length})
+          </h3>
+          <ul className="divide-y divide-gray-100 mb-4">
+            {vehicles.map((vehicle) => (
+              <li key={vehicle.id} className="py-2 flex items-start justify-between gap-3">
+                <div>
+                  <p className={`text-sm font-medium ${vehicle.is_active ? 'text-gray-900' : 'text-gray-400'}`}>
+                    {vehicle.plate_number}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {[vehicle.route_name, vehicle.description].filter(Boolean).join(' · ') || 'No route assigned'}
+                  </p>
+                </div>
+                <button type="button" onClick={() => toggleVehicle(vehicle)} className="text-xs text-primary-600 hover:underline">
+                  {vehicle.is_active ? 'Retire' : 'Restore'}
+                </button>
+              </li>
+            ))}
+          </ul>
+          <form onSubmit={addVehicle} className="space-y-3">
+            <Input
+              value={vehicleForm.plate_number}
+              onChange={(e) => setVehicleForm({ ...vehicleForm, plate_number: e.target.value })}
+              placeholder="Plate number, e.g. RAD 123 A"
+              maxLength={20}
+            />
+            <select
+              value={vehicleForm.route_id}
+              onChange={(e) => setVehicleForm({ ...vehicleForm, route_id: e.target.value })}
+              className="input"
+            >
+              <option value="">No fixed route</option>
+              {routes.filter((r) => r.is_active).map((route) => (
+                <option key={route.id} value={route.id}>{route.name}</option>
+              ))}
+            </select>
+            <Input
+              value={vehicleForm.description}
+              onChange={(e) => setVehicleForm({ ...vehicleForm, description: e.target.value })}
+              placeholder="Description (optional), e.g. White Coaster"
+              maxLength={100}
+            />
+            <Button type="submit" size="sm" variant="secondary" loading={saving}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add Vehicle
+            </Button>
+          </form>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default CoopTransportRegistry;
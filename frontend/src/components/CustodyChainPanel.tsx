@@ -0,0 +1,137 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowRight, MapPin, PenLine, ShieldAlert } from 'lucide-react';
+import { Alert, Button, Card, Input } from './ui';
+import { cooperativesApi } from '../services/api';
+import { CustodyChain } from '../types';
+import { formatDateTime } from '../utils/dateUtils';
+import toast from 'react-hot-toast';
+
+// ============================================
+// TYPES
+// ============================================
+
+interface Props {
+  cooperativeId: number;
+  itemId: number;
+  onTransferred?: () => void;
+}
+
+// ============================================
+// COMPONENT
+// ============================================
+
+/**
+ * Custody chain of a cooperative-held found item (staff and admins only):
+ * every hand-over of the object, signed by the staff member who recorded it.
+ */
+const CustodyChainPanel: React.FC<Props> = ({ cooperativeId, itemId, onTransferred }) => {
+  const [chain, setChain] = useState<CustodyChain | null>(null);
+  const [form, setForm] = useState({ to_holder: '', location: '', notes: '' });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadChain();
+  }, [cooperativeId, itemId]);
+
+  const loadChain = async () => {
+    try {
+      const response = await cooperativesApi.getCustodyChain(cooperativeId, itemId);
+      setChain(response.data.data || null);
+    } catch (error) {
+      console.error('Failed to load custody chain:', error);
+    }
+  };
+
+  const recordTransfer = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.to_holder.trim() || !form.location.trim()) {
+      toast.error('Enter who received the item and where it is');
+      return;
+    }
+    setSaving(true);
+    try {
+      await cooperativesApi.recordCustodyTransfer(cooperativeId, itemId, {
+        to_holder: form.to_holder.trim(),
+        location: form.location.trim(),
+        notes: form.notes.trim() || undefined,
+      });
+      setForm({ to_holder: '', location: '', notes: '' });
+      toast.success('Transfer recorded and signed');
+      loadChain();
+      onTransferred?.();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to record transfer');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const transfers = chain?.transfers || [];
+
+  return (
+    <Card className="p-6 mb-6">
+      <h3 className="font-semibold text-gray-900 mb-1">Custody Chain</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Every hand-over of this item, signed by the staff member who recorded it.
+      </p>
+
+      {chain && !chain.intact && (
+        <Alert type="error" className="mb-4">
+          <ShieldAlert className="w-4 h-4 inline mr-2" />
+          This chain was changed after it was signed. Report it to an administrator.
+        </Alert>
+      )}
+
+      {transfers.length === 0 ? (
+        <p className="text-sm text-gray-400 mb-4">No transfers recorded yet.</p>
+      ) : (
+        <ol className="space-y-3 mb-4">
+          {transfers.map((transfer) => (
+            <li key={transfer.id} className="border-l-2 border-primary-200 pl-3">
+              <p className="text-sm font-medium text-gray-900 flex items-center gap-1 flex-wrap">
+                {transfer.from_holder || 'Logged in'}
+                <ArrowRight className="w-3 h-3 text-gray-400" />
+                {transfer.to_holder}
+              </p>
+              <p className="text-xs text-gray-500 flex items-center gap-1">
+                <MapPin className="w-3 h-3" />
+                {transfer.location} · {formatDateTime(transfer.transferred_at)}
+              </p>
+              {transfer.notes && <p className="text-xs text-gray-600 mt-1">{transfer.notes}</p>}
+              <p className="text-xs text-gray-400 mt-1 flex items-center gap-1">
+                <PenLine className="w-3 h-3" />
+                Signed by {transfer.recorded_by_name} · {transfer.signature.slice(0, 12)}
+              </p>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <form onSubmit={recordTransfer} className="space-y-3">
+        <Input
+          value={form.to_holder}
+          onChange={(e) => setForm({ ...form, to_holder: e.target.value })}
+          placeholder="Handed to, e.g. Depot office"
+          maxLength={150}
+        />
+        <Input
+          value={form.location}
+          onChange={(e) => setForm({ ...form, location: e.target.value })}
+          placeholder="Where it is now, e.g. Nyabugogo depot"
+          maxLength={200}
+        />
+        <Input
+          value={form.notes}
+          onChange={(e) => setForm({ ...form, notes: e.target.value })}
+          placeholder="Notes (optional)"
+          maxLength={500}
+        />
+        <Button type="submit" size="sm" variant="secondary" loading={saving} className="w-full">
+          Record Transfer
+        </Button>
+      </form>
+    </Card>
+  );
+};
+
+export default CustodyChainPanel;
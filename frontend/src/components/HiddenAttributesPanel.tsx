@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { CheckCircle, Lock } from 'lucide-react';
+import { Button, Card, Input } from './ui';
+import { foundItemsApi } from '../services/api';
+import { FoundItem, HIDDEN_ATTRIBUTES } from '../types';
+import toast from 'react-hot-toast';
+
+// ============================================
+// TYPES
+// ============================================
+
+interface Props {
+  item: FoundItem;
+  onSaved?: () => void;
+}
+
+// ============================================
+// COMPONENT
+// ============================================
+
+/**
+ * Hidden details the finder noted about the object (finder only). Values
+ * are never sent back, only which ones are recorded; while the item is
+ * unclaimed the finder can add or overwrite them.
+ */
+const HiddenAttributesPanel: React.FC<Props> = ({ item, onSaved }) => {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  const definitions = HIDDEN_ATTRIBUTES[item.category] || HIDDEN_ATTRIBUTES.OTHER;
+  const recorded = new Set(item.hidden_attributes || []);
+  const editable = item.status === 'UNCLAIMED';
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const filled = Object.fromEntries(
+      Object.entries(values).filter(([, value]) => value.trim()).map(([key, value]) => [key, value.trim()])
+    );
+    if (Object.keys(filled).length === 0) {
+      toast.error('Enter at least one detail');
+      return;
+    }
+    setSaving(true);
+    try {
+      await foundItemsApi.setHiddenAttributes(item.id, filled);
+      setValues({});
+      toast.success('Hidden details saved');
+      onSaved?.();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to save hidden details');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="p-6 mb-6">
+      <h3 className="font-semibold text-gray-900 mb-1">
+        <Lock className="w-4 h-4 inline mr-2" />
+        Hidden Details
+      </h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Claimants must state these. Nobody, including you, can read them back.
+      </p>
+
+      <ul className="space-y-2 mb-4">
+        {definitions.map(({ key, label }) => (
+          <li key={key} className="text-sm flex items-center gap-2">
+            <CheckCircle className={`w-4 h-4 ${recorded.has(key) ? 'text-trust-600' : 'text-gray-300'}`} />
+            <span className={recorded.has(key) ? 'text-gray-900' : 'text-gray-400'}>{label}</span>
+          </li>
+        ))}
+      </ul>
+
+      {editable && (
+        <form onSubmit={save} className="space-y-3">
+          {definitions.map(({ key, label }) => (
+            <Input
+              key={key}
+              value={values[key] || ''}
+              onChange={(e) => setValues({ ...values, [key]: e.target.value })}
+              placeholder={recorded.has(key) ? `${label} (replace)` : label}
+              maxLength={100}
+              autoComplete="off"
+            />
+          ))}
+          <Button type="submit" size="sm" variant="secondary" loading={saving} className="w-full">
+            Save Details
+          </Button>
+        </form>
+      )}
+    </Card>
+  );
+};
+
+export default HiddenAttributesPanel;
@@ -0,0 +1,32 @@
+import React from 'react';
+
+// ============================================
+// TYPES
+// ============================================
+
+interface Props {
+  text: string;
+  className?: string;
+}
+
+// ============================================
+// COMPONENT
+// ============================================
+
+// Renders search highlights (<mark>word</mark>) as React elements. The text
+// is user-written, so it is split on the markers rather than set as HTML.
+const HighlightedText: React.FC<Props> = ({ text, className }) => {
+  const parts = text.split(/<mark>(.*?)<\/mark>/g);
+
+  return (
+    <span className={className}>
+      {parts.map((part, i) =>
+        i % 2 === 1
+          ? <mark key={i} className="bg-yellow-100 text-inherit rounded px-0.5">{part}</mark>
+          : <React.Fragment key={i}>{part}</React.Fragment>
+      )}
+    </span>
+  );
+};
+
+export default HighlightedText;
@@ -0,0 +1,335 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Bell, BellOff, Trash2, Plus, ChevronDown, ChevronUp } from 'lucide-react';
+import { Button, Card, Input, Badge, LoadingSpinner, ConfirmModal } from './ui';
+import { savedSearchesApi } from '../services/api';
+import {
+  SavedSearch, SavedSearchChannel, SavedSearchForm, SavedSearchHit,
+  ItemCategory, CATEGORY_INFO, RWANDA_LOCATIONS
+} from '../types';
+import { formatDateShort } from '../utils/dateUtils';
+import toast from 'react-hot-toast';
+
+// ============================================
+// HELPERS
+// ============================================
+
+const CHANNEL_LABELS: Record<SavedSearchChannel, string> = {
+  EMAIL: 'Email',
+  IN_APP: 'In app only',
+};
+
+const EMPTY_FORM: SavedSearchForm = {
+  name: '', category: null, location_area: '', keyword: '', date_from: '', date_to: '', channel: 'EMAIL',
+};
+
+function describeCriteria(search: SavedSearch): string {
+  const parts: string[] = [];
+  if (search.category) parts.push(CATEGORY_INFO[search.category].label);
+  if (search.location_area) parts.push(`in ${search.location_area}`);
+  if (search.keyword) parts.push(`"${search.keyword}"`);
+  if (search.date_from || search.date_to) {
+    parts.push([search.date_from && `from ${formatDateShort(search.date_from)}`, search.date_to && `to ${formatDateShort(search.date_to)}`]
+      .filter(Boolean).join(' '));
+  }
+  return parts.join(' · ');
+}
+
+// ============================================
+// COMPONENT
+// ============================================
+
+const SavedSearchesPanel: React.FC = () => {
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<SavedSearchForm>(EMPTY_FORM);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [openId, setOpenId] = useState<number | null>(null);
+  const [hits, setHits] = useState<SavedSearchHit[]>([]);
+  const [deleteTarget, setDeleteTarget] = useState<SavedSearch | null>(null);
+  const [deleting, setDeleting] = useState(false);
+
+  useEffect(() => {
+    loadSearches();
+  }, []);
+
+  const loadSearches = async () => {
+    try {
+      const response = await savedSearchesApi.getAll();
+      setSearches(response.data.data || []);
+    } catch (error) {
+      console.error('Failed to load saved searches:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.category && !form.location_area && !form.keyword?.trim()) {
+      toast.error('Choose a category, area or keyword to watch');
+      return;
+    }
+    setSaving(true);
+    try {
+      await savedSearchesApi.create({
+        ...form,
+        location_area: form.location_area || null,
+        keyword: form.keyword?.trim() || null,
+        date_from: form.date_from || null,
+        date_to: form.date_to || null,
+      });
+      toast.success('Watch saved');
+      setForm(EMPTY_FORM);
+      setShowForm(false);
+      loadSearches();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to save watch');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpdate = async (search: SavedSearch, data: { is_active?: boolean; channel?: SavedSearchChannel }) => {
+    try {
+      await savedSearchesApi.update(search.id, data);
+      loadSearches();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to update watch');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    setDeleting(true);
+    try {
+      await savedSearchesApi.delete(deleteTarget.id);
+      toast.success('Watch deleted');
+      setDeleteTarget(null);
+      loadSearches();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to delete watch');
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const toggleHits = async (search: SavedSearch) => {
+    if (openId === search.id) {
+      setOpenId(null);
+      return;
+    }
+    try {
+      const response = await savedSearchesApi.getHits(search.id);
+      setHits(response.data.data || []);
+      setOpenId(search.id);
+      // Viewing clears the unseen count
+      setSearches(searches.map((s) => (s.id === search.id ? { ...s, unseen_hits: 0 } : s)));
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to load alerts');
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-lg font-semibold text-gray-900">Watches</h2>
+        {!showForm && (
+          <Button size="sm" onClick={() => setShowForm(true)}>
+            <Plus className="w-4 h-4 mr-1" />
+            New Watch
+          </Button>
+        )}
+      </div>
+      <p className="text-sm text-gray-600 mb-6">
+        Save a search and we'll tell you as soon as a matching item is reported found.
+      </p>
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="mb-6 p-4 rounded-xl bg-gray-50 space-y-4">
+          <Input
+            label="Name"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder="e.g., My brown wallet"
+            required
+          />
+          <div className="grid sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+              <select
+                value={form.category || ''}
+                onChange={(e) => setForm({ ...form, category: (e.target.value || null) as ItemCategory | null })}
+                className="input"
+              >
+                <option value="">Any category</option>
+                {Object.entries(CATEGORY_INFO).map(([key, info]) => (
+                  <option key={key} value={key}>{info.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Area</label>
+              <select
+                value={form.location_area || ''}
+                onChange={(e) => setForm({ ...form, location_area: e.target.value })}
+                className="input"
+              >
+                <option value="">Anywhere</option>
+                {RWANDA_LOCATIONS.map((loc) => (
+                  <option key={loc} value={loc}>{loc}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <Input
+            label="Keyword"
+            value={form.keyword || ''}
+            onChange={(e) => setForm({ ...form, keyword: e.target.value })}
+            placeholder="e.g., brown leather"
+            maxLength={100}
+          />
+          <div className="grid sm:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Found from</label>
+              <input
+                type="date"
+                value={form.date_from || ''}
+                onChange={(e) => setForm({ ...form, date_from: e.target.value })}
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Found until</label>
+              <input
+                type="date"
+                value={form.date_to || ''}
+                min={form.date_from || undefined}
+                onChange={(e) => setForm({ ...form, date_to: e.target.value })}
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Notify me by</label>
+              <select
+                value={form.channel}
+                onChange={(e) => setForm({ ...form, channel: e.target.value as SavedSearchChannel })}
+                className="input"
+              >
+                {Object.entries(CHANNEL_LABELS).map(([key, label]) => (
+                  <option key={key} value={key}>{label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="secondary" size="sm" onClick={() => { setShowForm(false); setForm(EMPTY_FORM); }}>
+              Cancel
+            </Button>
+            <Button type="submit" size="sm" loading={saving}>
+              Save Watch
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <LoadingSpinner />
+        </div>
+      ) : searches.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-6">You have no watches yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {searches.map((search) => (
+            <li key={search.id} className="py-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className={`font-medium ${search.is_active ? 'text-gray-900' : 'text-gray-400'}`}>{search.name}</p>
+                    {!!search.unseen_hits && <Badge variant="info" size="sm">{search.unseen_hits} new</Badge>}
+                    {!search.is_active && <Badge size="sm">Paused</Badge>}
+                  </div>
+                  <p className="text-sm text-gray-500 truncate">{describeCriteria(search)}</p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <select
+                    value={search.channel}
+                    onChange={(e) => handleUpdate(search, { channel: e.target.value as SavedSearchChannel })}
+                    className="input py-1 text-sm"
+                    aria-label="Notification channel"
+                  >
+                    {Object.entries(CHANNEL_LABELS).map(([key, label]) => (
+                      <option key={key} value={key}>{label}</option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={() => handleUpdate(search, { is_active: !search.is_active })}
+                    className="p-2 text-gray-500 hover:text-gray-700"
+                    title={search.is_active ? 'Pause' : 'Resume'}
+                  >
+                    {search.is_active ? <BellOff className="w-4 h-4" /> : <Bell className="w-4 h-4" />}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setDeleteTarget(search)}
+                    className="p-2 text-gray-500 hover:text-red-600"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              <button
+                type="button"
+                onClick={() => toggleHits(search)}
+                className="mt-2 text-sm text-primary-600 hover:underline flex items-center gap-1"
+              >
+                {openId === search.id ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                Recent alerts
+              </button>
+
+              {openId === search.id && (
+                hits.length === 0 ? (
+                  <p className="mt-2 text-sm text-gray-500">No matching items yet.</p>
+                ) : (
+                  <ul className="mt-2 space-y-2">
+                    {hits.map((hit) => (
+                      <li key={hit.id}>
+                        <Link
+                          to={`/found-items/${hit.found_item_id}`}
+                          className="flex items-center justify-between p-3 rounded-lg bg-gray-50 hover:bg-gray-100"
+                        >
+                          <span className="text-sm font-medium text-gray-900">{hit.title}</span>
+                          <span className="text-xs text-gray-500">
+                            {hit.location_area} · {formatDateShort(hit.found_date)}
+                          </span>
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                )
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <ConfirmModal
+        isOpen={!!deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        onConfirm={handleDelete}
+        title="Delete Watch?"
+        message={`Stop watching for "${deleteTarget?.name}" and delete its alerts?`}
+        confirmText="Delete"
+        variant="danger"
+        loading={deleting}
+      />
+    </Card>
+  );
+};
+
+export default SavedSearchesPanel;
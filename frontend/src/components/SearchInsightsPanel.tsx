@@ -0,0 +1,162 @@
+import React, { useState, useEffect } from 'react';
+import { Search, MapPin } from 'lucide-react';
+import { Card } from './ui';
+import { adminApi, SearchAnalytics } from '../services/api';
+import { CATEGORY_INFO, ItemCategory } from '../types';
+
+// ============================================
+// HELPERS
+// ============================================
+
+const RANGE_OPTIONS = [7, 30, 90];
+
+function spotLabel(area: string, category: string | null): string {
+  const place = area.replace(/\b\w/g, (c) => c.toUpperCase());
+  return category ? `${CATEGORY_INFO[category as ItemCategory]?.label || category} · ${place}` : place;
+}
+
+// ============================================
+// COMPONENT
+// ============================================
+
+// What people search for, what finds nothing, and where demand outruns
+// found reports. Optional on the admin dashboard: renders nothing on error.
+const SearchInsightsPanel: React.FC = () => {
+  const [analytics, setAnalytics] = useState<SearchAnalytics | null>(null);
+  const [days, setDays] = useState(30);
+  const [type, setType] = useState<'' | 'lost' | 'found'>('');
+
+  useEffect(() => {
+    adminApi.getSearchAnalytics({ days, type: type || undefined })
+      .then((res) => setAnalytics(res.data.data || null))
+      .catch(() => setAnalytics(null));
+  }, [days, type]);
+
+  if (!analytics) return null;
+
+  const trendFor = (area: string, category: string | null) =>
+    analytics.timeline.filter((row) => row.area === area && row.category === category);
+  const maxWeekly = Math.max(1, ...analytics.timeline.map((row) => row.searches));
+
+  return (
+    <Card className="p-6 mt-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <Search className="w-5 h-5 text-primary-500" />
+          Search Demand
+        </h2>
+        <div className="flex gap-2">
+          <select value={type} onChange={(e) => setType(e.target.value as '' | 'lost' | 'found')} className="input py-1 text-sm">
+            <option value="">Lost & found</option>
+            <option value="found">Found item searches</option>
+            <option value="lost">Lost item searches</option>
+          </select>
+          <select value={days} onChange={(e) => setDays(parseInt(e.target.value))} className="input py-1 text-sm">
+            {RANGE_OPTIONS.map((d) => (
+              <option key={d} value={d}>Last {d} days</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {analytics.totals.searches === 0 ? (
+        <p className="text-gray-500 text-center py-4">No searches logged yet</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            <div>
+              <p className="text-2xl font-bold text-gray-900">{analytics.totals.searches.toLocaleString()}</p>
+              <p className="text-sm text-gray-500">Searches</p>
+            </div>
+            <div>
+              <p className="text-2xl font-bold text-gray-900">
+                {Math.round((analytics.totals.zero_result_rate || 0) * 100)}%
+              </p>
+              <p className="text-sm text-gray-500">Found nothing</p>
+            </div>
+            <div>
+              <p className="text-2xl font-bold text-gray-900">{analytics.totals.unique_queries.toLocaleString()}</p>
+              <p className="text-sm text-gray-500">Distinct queries</p>
+            </div>
+            <div>
+              <p className="text-2xl font-bold text-gray-900">{analytics.totals.searching_users.toLocaleString()}</p>
+              <p className="text-sm text-gray-500">Signed-in searchers</p>
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-6 mb-6">
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">Top queries</p>
+              {analytics.top_queries.slice(0, 8).map((row) => (
+                <div key={row.query} className="flex justify-between text-sm py-1">
+                  <span className="text-gray-600 truncate">{row.query}</span>
+                  <span className="font-medium">
+                    {row.searches}
+                    <span className="text-gray-400 ml-1">(~{row.avg_results} results)</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">Queries with no results</p>
+              {analytics.zero_result_queries.length === 0 ? (
+                <p className="text-sm text-gray-500">None</p>
+              ) : analytics.zero_result_queries.slice(0, 8).map((row) => (
+                <div key={row.query} className="flex justify-between text-sm py-1">
+                  <span className="text-gray-600 truncate">{row.query}</span>
+                  <span className="font-medium text-red-600">{row.searches}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <p className="text-sm font-medium text-gray-700 mb-2 flex items-center gap-1">
+            <MapPin className="w-4 h-4" />
+            Hot spots
+          </p>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2 font-medium">Area</th>
+                  <th className="py-2 font-medium text-right">Searches</th>
+                  <th className="py-2 font-medium text-right">Lost</th>
+                  <th className="py-2 font-medium text-right">Found</th>
+                  <th className="py-2 font-medium text-right">Searches / found</th>
+                  <th className="py-2 font-medium pl-4">Weekly</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analytics.hot_spots.map((spot) => (
+                  <tr key={`${spot.area}-${spot.category}`} className="border-b last:border-0">
+                    <td className="py-2 text-gray-900">{spotLabel(spot.area, spot.category)}</td>
+                    <td className="py-2 text-right">{spot.searches}</td>
+                    <td className="py-2 text-right">{spot.lost_reports}</td>
+                    <td className="py-2 text-right">{spot.found_reports}</td>
+                    <td className={`py-2 text-right font-medium ${spot.searches_per_found_item >= 5 ? 'text-red-600' : ''}`}>
+                      {spot.searches_per_found_item}
+                    </td>
+                    <td className="py-2 pl-4">
+                      <div className="flex items-end gap-0.5 h-6">
+                        {trendFor(spot.area, spot.category).map((week) => (
+                          <div
+                            key={week.week}
+                            className="w-2 bg-primary-300 rounded-sm"
+                            style={{ height: `${Math.max(10, (week.searches / maxWeekly) * 100)}%` }}
+                            title={`Week of ${week.week}: ${week.searches} searches`}
+                          />
+                        ))}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </Card>
+  );
+};
+
+export default SearchInsightsPanel;
@@ -0,0 +1,183 @@
+import React, { useState, useEffect } from 'react';
+import { Bus } from 'lucide-react';
+import { cooperativesApi } from '../services/api';
+import { Cooperative, CooperativeRoute, CooperativeVehicle, TransportContextForm } from '../types';
+
+// ============================================
+// TYPES
+// ============================================
+
+interface Props {
+  value: TransportContextForm;
+  onChange: (value: TransportContextForm) => void;
+  // Coop staff pick from their own cooperative's registered routes and vehicles
+  staffCooperativeId?: number;
+}
+
+// ============================================
+// COMPONENT
+// ============================================
+
+const TransportContextFields: React.FC<Props> = ({ value, onChange, staffCooperativeId }) => {
+  const [cooperatives, setCooperatives] = useState<Cooperative[]>([]);
+  const [routes, setRoutes] = useState<CooperativeRoute[]>([]);
+  const [vehicles, setVehicles] = useState<CooperativeVehicle[]>([]);
+
+  const cooperativeId = staffCooperativeId ?? value.transport_cooperative_id;
+  const selectedRoute = routes.find((r) => r.id === value.route_id);
+
+  useEffect(() => {
+    if (staffCooperativeId) return;
+    cooperativesApi.getAll({ limit: 100 })
+      .then((res) => setCooperatives(res.data.data || []))
+      .catch(() => setCooperatives([]));
+  }, [staffCooperativeId]);
+
+  useEffect(() => {
+    if (!cooperativeId) {
+      setRoutes([]);
+      return;
+    }
+    cooperativesApi.getRoutes(cooperativeId)
+      .then((res) => setRoutes(res.data.data || []))
+      .catch(() => setRoutes([]));
+  }, [cooperativeId]);
+
+  useEffect(() => {
+    if (!staffCooperativeId) return;
+    cooperativesApi.getVehicles(staffCooperativeId)
+      .then((res) => setVehicles(res.data.data || []))
+      .catch(() => setVehicles([]));
+  }, [staffCooperativeId]);
+
+  const selectCooperative = (id: string) => {
+    onChange({ transport_cooperative_id: id ? parseInt(id) : undefined, vehicle_plate: value.vehicle_plate });
+  };
+
+  const selectRoute = (id: string) => {
+    onChange({ ...value, route_id: id ? parseInt(id) : undefined, route_name: undefined, stop_sequence: undefined });
+  };
+
+  const selectVehicle = (plate: string) => {
+    const vehicle = vehicles.find((v) => v.plate_number === plate);
+    onChange({
+      ...value,
+      vehicle_plate: plate || undefined,
+      // A vehicle usually runs one route; preselect it if none is chosen yet
+      ...(!value.route_id && vehicle?.route_id && { route_id: vehicle.route_id }),
+    });
+  };
+
+  const toggleStop = (stop: string) => {
+    const current = value.stop_sequence || [];
+    const next = current.includes(stop) ? current.filter((s) => s !== stop) : [...current, stop];
+    // Keep stops in travel order
+    const ordered = (selectedRoute?.stops || []).filter((s) => next.includes(s));
+    onChange({ ...value, stop_sequence: ordered.length > 0 ? ordered : undefined });
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">
+        <Bus className="w-4 h-4 inline mr-1" />
+        Transport (Optional)
+      </label>
+      <p className="text-xs text-gray-500 mb-3">
+        If the item was on a bus or moto-taxi, the vehicle and route help match it quickly.
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {!staffCooperativeId && (
+          <select
+            value={value.transport_cooperative_id || ''}
+            onChange={(e) => selectCooperative(e.target.value)}
+            className="input"
+            aria-label="Cooperative"
+          >
+            <option value="">Cooperative (if known)</option>
+            {cooperatives.map((coop) => (
+              <option key={coop.id} value={coop.id}>{coop.name}</option>
+            ))}
+          </select>
+        )}
+
+        {routes.length > 0 ? (
+          <select
+            value={value.route_id || ''}
+            onChange={(e) => selectRoute(e.target.value)}
+            className="input"
+            aria-label="Route"
+          >
+            <option value="">Select route</option>
+            {routes.map((route) => (
+              <option key={route.id} value={route.id}>{route.name}</option>
+            ))}
+          </select>
+        ) : (
+          <input
+            type="text"
+            value={value.route_name || ''}
+            onChange={(e) => onChange({ ...value, route_name: e.target.value || undefined })}
+            placeholder="Route, e.g. Nyabugogo–Kimironko"
+            maxLength={150}
+            className="input"
+            aria-label="Route"
+          />
+        )}
+
+        {staffCooperativeId && vehicles.length > 0 ? (
+          <select
+            value={value.vehicle_plate || ''}
+            onChange={(e) => selectVehicle(e.target.value)}
+            className="input"
+            aria-label="Vehicle"
+          >
+            <option value="">Select vehicle</option>
+            {vehicles.map((vehicle) => (
+              <option key={vehicle.id} value={vehicle.plate_number}>
+                {vehicle.plate_number}{vehicle.description ? ` — ${vehicle.description}` : ''}
+              </option>
+            ))}
+          </select>
+        ) : !staffCooperativeId && (
+          <input
+            type="text"
+            value={value.vehicle_plate || ''}
+            onChange={(e) => onChange({ ...value, vehicle_plate: e.target.value || undefined })}
+            placeholder="Plate number, e.g. RAD 123 A"
+            maxLength={20}
+            className="input"
+            aria-label="Vehicle plate"
+          />
+        )}
+      </div>
+
+      {selectedRoute && selectedRoute.stops.length > 0 && (
+        <div className="mt-3">
+          <p className="text-xs text-gray-600 mb-2">Stops travelled</p>
+          <div className="flex flex-wrap gap-2">
+            {selectedRoute.stops.map((stop) => {
+              const selected = value.stop_sequence?.includes(stop);
+              return (
+                <button
+                  key={stop}
+                  type="button"
+                  onClick={() => toggleStop(stop)}
+                  className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                    selected
+                      ? 'border-trust-500 bg-trust-50 text-trust-600'
+                      : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                  }`}
+                >
+                  {stop}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TransportContextFields;
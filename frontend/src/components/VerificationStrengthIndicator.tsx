@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { verificationStrengthApi } from '../services/novelFeatureApi';
+import { AnswerType } from '../types';
 
 // ============================================
 // TYPES
@@ -24,6 +25,7 @@ interface StrengthResult {
 interface QuestionTemplate {
   category: string;
   question: string;
+  answer_type: AnswerType;
   why_effective: string;
 }
 
@@ -32,7 +34,7 @@ interface Props {
   answers: string[];
   category: string;
   description: string;
-  onSelectTemplate?: (index: number, question: string) => void;
+  onSelectTemplate?: (index: number, question: string, answerType: AnswerType) => void;
 }
 
 // ============================================
@@ -232,7 +234,7 @@ const VerificationStrengthIndicator: React.FC<Props> = ({
                       e.stopPropagation();
                       // Find next empty question slot
                       const emptyIdx = questions.findIndex(q => !q || q.length < 3);
-                      if (emptyIdx >= 0) onSelectTemplate(emptyIdx, t.question);
+                      if (emptyIdx >= 0) onSelectTemplate(emptyIdx, t.question, t.answer_type);
                     }}
                     style={{
                       background: '#1E3A5F', color: 'white', border: 'none',
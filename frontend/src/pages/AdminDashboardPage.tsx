@@ -2,10 +2,11 @@ import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { 
   Users, FileText, Package, Shield, AlertTriangle, 
-  CheckCircle, TrendingUp, Activity, ChevronRight, Eye
+  CheckCircle, TrendingUp, Activity, ChevronRight, Eye, Target
 } from 'lucide-react';
 import { Card, LoadingSpinner, Badge } from '../components/ui';
-import { adminApi, AdminStats } from '../services/api';
+import SearchInsightsPanel from '../components/SearchInsightsPanel';
+import { adminApi, AdminStats, MatchPrecisionStats } from '../services/api';
 import { formatDate, formatDateShort, formatDateTime } from '../utils/dateUtils';
 
 /**
@@ -20,6 +21,7 @@ const AdminDashboardPage: React.FC = () => {
   const [stats, setStats] = useState<AdminStats | null>(null);
   const [recentUsers, setRecentUsers] = useState<any[]>([]);
   const [pendingReports, setPendingReports] = useState<any[]>([]);
+  const [precision, setPrecision] = useState<MatchPrecisionStats | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -36,6 +38,11 @@ const AdminDashboardPage: React.FC = () => {
       setStats(statsRes.data.data);
       setRecentUsers(usersRes.data.data || []);
       setPendingReports(reportsRes.data.data || []);
+
+      // Optional panel - the dashboard still loads without it
+      adminApi.getMatchFeedbackStats()
+        .then((res) => setPrecision(res.data.data || null))
+        .catch(() => setPrecision(null));
     } catch (error) {
       console.error('Failed to load dashboard:', error);
     } finally {
@@ -147,6 +154,59 @@ const AdminDashboardPage: React.FC = () => {
         </Card>
       </div>
 
+      {/* Match Precision (from owner/finder feedback) */}
+      {precision && (
+        <Card className="p-6 mt-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+              <Target className="w-5 h-5 text-primary-500" />
+              Match Precision
+            </h2>
+            <span className="text-sm text-gray-500">Last {precision.days} days</span>
+          </div>
+          {precision.overall.positive + precision.overall.negative === 0 ? (
+            <p className="text-gray-500 text-center py-4">No match feedback yet</p>
+          ) : (
+            <div className="grid md:grid-cols-3 gap-6">
+              <div>
+                <p className="text-3xl font-bold text-gray-900">
+                  {Math.round((precision.overall.precision || 0) * 100)}%
+                </p>
+                <p className="text-sm text-gray-500">
+                  {precision.overall.positive} looks right / {precision.overall.negative} not mine
+                </p>
+              </div>
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">By category</p>
+                {precision.by_category.map((row) => (
+                  <div key={row.category} className="flex justify-between text-sm py-1">
+                    <span className="text-gray-600">{row.category}</span>
+                    <span className="font-medium">
+                      {row.precision === null ? '—' : `${Math.round(row.precision * 100)}%`}
+                      <span className="text-gray-400 ml-1">({row.positive + row.negative})</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">By score band</p>
+                {precision.by_score_band.map((row) => (
+                  <div key={row.score_band} className="flex justify-between text-sm py-1">
+                    <span className="text-gray-600">{row.score_band}</span>
+                    <span className="font-medium">
+                      {row.precision === null ? '—' : `${Math.round(row.precision * 100)}%`}
+                      <span className="text-gray-400 ml-1">({row.positive + row.negative})</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </Card>
+      )}
+
+      <SearchInsightsPanel />
+
       {/* Quick Actions - FIX: Added Fraud Dashboard link */}
       <Card className="p-6 mt-6">
         <h2 className="text-lg font-semibold text-gray-900 mb-4">Quick Actions</h2>
@@ -11,9 +11,10 @@ import { DisputeForm } from '../components/DisputeForm';
 import { SafetyWarningBanner } from '../components/SafetyWarningBanner';
 import { ScamReportButton } from '../components/ScamReportButton';
 import SafeHandoverLocationPicker from '../components/SafeHandoverLocationPicker';
-import { Claim, Message, CATEGORY_INFO, STATUS_INFO } from '../types';
+import { Claim, Message, CATEGORY_INFO, STATUS_INFO, AnswerType, ANSWER_TYPES } from '../types';
 import { useAuthStore } from '../store/authStore';
 import { formatDate } from '../utils/dateUtils';
+import { imageUrl } from '../utils/imageUtils';
 import toast from 'react-hot-toast';
 
 /**
@@ -33,12 +34,15 @@ const ClaimDetailPage: React.FC = () => {
   const [claim, setClaim] = useState<Claim | null>(null);
   const [loading, setLoading] = useState(true);
   const [questions, setQuestions] = useState<string[]>([]);
-  const [answers, setAnswers] = useState(['', '', '']);
+  const [answerTypes, setAnswerTypes] = useState<AnswerType[]>([]);
+  const [cooldownMessage, setCooldownMessage] = useState<string | null>(null);
+  const [answers, setAnswers] = useState<string[]>([]);
+  const [itemQuestions, setItemQuestions] = useState<Array<{ key: string; question: string; answer_type: AnswerType }>>([]);
+  const [itemAnswers, setItemAnswers] = useState<Record<string, string>>({});
   const [verifying, setVerifying] = useState(false);
   const [verificationResult, setVerificationResult] = useState<{
-    verified: boolean;
-    correct_count: number;
-    attempts_remaining: number;
+    passed: boolean;
+    message: string;
   } | null>(null);
 
   // Dispute state
@@ -88,9 +92,12 @@ const ClaimDetailPage: React.FC = () => {
     try {
       const response = await claimsApi.getQuestions(parseInt(id!));
       setQuestions(response.data.data.questions || []);
+      setAnswers((response.data.data.questions || []).map(() => ''));
+      setAnswerTypes(response.data.data.answer_types || []);
+      setItemQuestions(response.data.data.item_questions || []);
     } catch (error: any) {
       if (error.response?.status === 429) {
-        toast.error('Too many verification attempts. Please try again tomorrow.');
+        setCooldownMessage(error.response.data?.message || 'Too many verification attempts. Please try again later.');
       }
     }
   };
@@ -120,20 +127,30 @@ const ClaimDetailPage: React.FC = () => {
   };
 
   const handleVerify = async () => {
-    if (answers.some((a) => !a.trim())) {
+    if (answers.some((a) => !a.trim()) || itemQuestions.some(({ key }) => !itemAnswers[key]?.trim())) {
       toast.error('Please answer all questions');
       return;
     }
     setVerifying(true);
     try {
-      const response = await claimsApi.verify(parseInt(id!), answers);
+      const response = await claimsApi.verify(parseInt(id!), answers, itemAnswers);
       const result = response.data.data;
       setVerificationResult(result);
-      if (result.verified) {
+      if (result.status === 'DISPUTED') {
+        // Another claim on the item was verified first
+        toast(result.message, { icon: '⚖️' });
+        loadClaim();
+        loadDispute();
+      } else if (result.passed) {
         toast.success('Verification successful! You can now proceed to handover.');
         loadClaim();
       } else {
-        toast.error(`Verification failed. ${result.correct_count}/3 correct. ${result.attempts_remaining} attempts remaining.`);
+        toast.error(result.message);
+        // Questions stay hidden until the wait is over
+        if (result.cooldown_until) {
+          setQuestions([]);
+          setCooldownMessage(result.message);
+        }
       }
     } catch (error: any) {
       toast.error(error.response?.data?.message || 'Verification failed');
@@ -192,10 +209,32 @@ const ClaimDetailPage: React.FC = () => {
         </div>
         <h1 className="text-2xl font-bold text-gray-900 mb-2">{claim.lost_item_title}</h1>
         <p className="text-gray-600">Claiming: {claim.found_item_title}</p>
+        {(claim.found_item_image_urls?.length || 0) > 0 && (
+          <div className="mt-4">
+            <div className="flex gap-2 overflow-x-auto">
+              {claim.found_item_image_urls!.map((url, i) => (
+                <a key={url} href={imageUrl(url)} target="_blank" rel="noopener noreferrer">
+                  <img src={imageUrl(url, 'thumb')} alt={`Found item photo ${i + 1}`} className="w-20 h-20 rounded-lg object-cover" />
+                </a>
+              ))}
+            </div>
+            {claim.found_item_images_redacted && (
+              <p className="text-xs text-gray-500 mt-2">
+                Text in these photos is blurred until you pass verification.
+              </p>
+            )}
+          </div>
+        )}
       </Card>
 
       <div className="grid md:grid-cols-3 gap-6">
         <div className="md:col-span-2">
+          {claim.status === 'REJECTED' && claim.superseded_by && isOwner && (
+            <Alert type="warning" className="mb-6">
+              Another claim on this item passed verification first, so this claim was closed. If the item is yours, open a dispute below.
+            </Alert>
+          )}
+
           {/* Verification Challenge */}
           {claim.status === 'PENDING' && isOwner && (
             <Card className="p-6 mb-6">
@@ -208,21 +247,30 @@ const ClaimDetailPage: React.FC = () => {
                   {questions.map((q, i) => (
                     <div key={i}>
                       <label className="block text-sm font-medium mb-1">Q{i + 1}: {q}</label>
-                      <Input value={answers[i]} onChange={(e) => { const a = [...answers]; a[i] = e.target.value; setAnswers(a); }} placeholder="Your answer" />
+                      <Input value={answers[i]} onChange={(e) => { const a = [...answers]; a[i] = e.target.value; setAnswers(a); }} placeholder={ANSWER_TYPES[answerTypes[i] || 'TEXT'].hint} />
                     </div>
                   ))}
+                  {itemQuestions.length > 0 && (
+                    <>
+                      <p className="text-sm text-gray-600 pt-2">About the item itself, as noted by the finder:</p>
+                      {itemQuestions.map(({ key, question, answer_type }) => (
+                        <div key={key}>
+                          <label className="block text-sm font-medium mb-1">{question}</label>
+                          <Input value={itemAnswers[key] || ''} onChange={(e) => setItemAnswers({ ...itemAnswers, [key]: e.target.value })} placeholder={ANSWER_TYPES[answer_type || 'TEXT'].hint} />
+                        </div>
+                      ))}
+                    </>
+                  )}
                   {verificationResult && (
-                    <Alert type={verificationResult.verified ? 'success' : 'error'}>
-                      {verificationResult.verified ? <CheckCircle className="w-4 h-4 inline mr-2" /> : <XCircle className="w-4 h-4 inline mr-2" />}
-                      {verificationResult.verified 
-                        ? 'Verification successful! You can now proceed to handover.'
-                        : `${verificationResult.correct_count}/3 correct. ${verificationResult.attempts_remaining} attempts remaining.`}
+                    <Alert type={verificationResult.passed ? 'success' : 'error'}>
+                      {verificationResult.passed ? <CheckCircle className="w-4 h-4 inline mr-2" /> : <XCircle className="w-4 h-4 inline mr-2" />}
+                      {verificationResult.message}
                     </Alert>
                   )}
                   <Button onClick={handleVerify} loading={verifying} className="w-full">Verify Ownership</Button>
                 </div>
               ) : (
-                <Alert type="warning"><AlertCircle className="w-4 h-4 inline mr-2" />Cannot load questions. Limit reached?</Alert>
+                <Alert type="warning"><AlertCircle className="w-4 h-4 inline mr-2" />{cooldownMessage || 'Cannot load questions.'}</Alert>
               )}
             </Card>
           )}
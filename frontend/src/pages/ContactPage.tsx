@@ -25,7 +25,7 @@ const faqs: FaqItem[] = [
   },
   {
     question: 'What are verification questions?',
-    answer: 'When reporting a lost item, you set 3 questions and answers that only the true owner would know — like "What is your phone\'s lock screen wallpaper?" or "How many cards are in the wallet?". When someone claims a matching found item, they must answer these correctly to prove ownership.'
+    answer: 'When reporting a lost item, you set 2 to 7 questions and answers that only the true owner would know — like "What is your phone\'s lock screen wallpaper?" or "How many cards are in the wallet?". When someone claims a matching found item, they must answer enough of them correctly to prove ownership; specific questions count for more than easily guessed ones.'
   },
   {
     question: 'How does the OTP handover work?',
@@ -5,6 +5,7 @@ import {
   ChevronRight, Plus, Building2
 } from 'lucide-react';
 import { Button, Card, Badge, LoadingSpinner, EmptyState } from '../components/ui';
+import CoopTransportRegistry from '../components/CoopTransportRegistry';
 import api from '../services/api';
 import { CATEGORY_INFO, STATUS_INFO } from '../types';
 import { formatDateShort } from '../utils/dateUtils';
@@ -121,6 +122,9 @@ const CoopDashboardPage: React.FC = () => {
         </div>
       </Card>
 
+      {/* Routes & Vehicles */}
+      <CoopTransportRegistry cooperativeId={data.cooperative.id} />
+
       {/* Recent Items */}
       <Card className="p-6">
         <div className="flex items-center justify-between mb-4">
@@ -8,6 +8,7 @@ import { Button, Card, Input, Textarea, LoadingSpinner, Alert } from '../compone
 import { foundItemsApi } from '../services/api';
 import { FoundItem, ItemCategory, CATEGORY_INFO, RWANDA_LOCATIONS } from '../types';
 import { useAuthStore } from '../store/authStore';
+import { imageUrl } from '../utils/imageUtils';
 import toast from 'react-hot-toast';
 
 const CATEGORY_ICONS: Record<ItemCategory, React.ReactNode> = {
@@ -238,7 +239,7 @@ const EditFoundItemPage: React.FC = () => {
                 {item.image_urls.map((url, index) => (
                   <div key={index} className="aspect-square rounded-lg overflow-hidden bg-gray-100">
                     <img
-                      src={url}
+                      src={imageUrl(url, 'thumb')}
                       alt={`Photo ${index + 1}`}
                       className="w-full h-full object-cover"
                       onError={(e) => {
@@ -1,20 +1,25 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
 import { 
-  MapPin, Calendar, User, ArrowLeft, Edit, Trash2, Building,
-  ChevronLeft, ChevronRight, Shield, Clock
+  MapPin, Calendar, User, ArrowLeft, Edit, Trash2, Bus, Building,
+  ChevronLeft, ChevronRight, Shield, Clock, ThumbsUp, ThumbsDown
 } from 'lucide-react';
 import { Button, Card, Badge, LoadingSpinner, Alert, Modal } from '../components/ui';
 import { foundItemsApi } from '../services/api';
-import { FoundItem, LostItem, CATEGORY_INFO, STATUS_INFO } from '../types';
+import { FoundItem, LostItem, MatchFeedbackVerdict, CATEGORY_INFO, STATUS_INFO } from '../types';
 import { useAuthStore } from '../store/authStore';
-import { formatDate, formatDateShort, formatDateLong, formatDateTime } from '../utils/dateUtils';
+import { formatDate, formatDateShort, formatDateLong, formatDateTime, formatTimeWindow } from '../utils/dateUtils';
+import { imageUrl } from '../utils/imageUtils';
+import CustodyChainPanel from '../components/CustodyChainPanel';
+import HiddenAttributesPanel from '../components/HiddenAttributesPanel';
+import ClaimQueuePanel from '../components/ClaimQueuePanel';
 import toast from 'react-hot-toast';
 
 interface MatchResult {
-  lost_item: LostItem;
+  lost_item: LostItem & { has_photos?: boolean };
   score: number;
   explanation: string[];
+  my_feedback?: MatchFeedbackVerdict | null;
 }
 
 // Helper function to map match scores to valid badge variants
@@ -40,6 +45,10 @@ const FoundItemDetailPage: React.FC = () => {
   const [matchesLoading, setMatchesLoading] = useState(false);
 
   const isFinder = user?.id === item?.finder_id;
+  const isCustodyStaff = !!item?.cooperative_id && (
+    user?.role === 'admin' || (user?.role === 'coop_staff' && user.cooperative_id === item.cooperative_id)
+  );
+  const canSeeClaims = isFinder || isCustodyStaff || user?.role === 'admin';
 
   useEffect(() => {
     loadItem();
@@ -70,6 +79,27 @@ const FoundItemDetailPage: React.FC = () => {
     }
   };
 
+  const handleMatchFeedback = async (lostItemId: number, verdict: MatchFeedbackVerdict) => {
+    const current = matches.find((m) => m.lost_item?.id === lostItemId)?.my_feedback;
+    try {
+      if (current === verdict) {
+        await foundItemsApi.removeMatchFeedback(parseInt(id!), lostItemId);
+        setMatches((prev) => prev.map((m) => m.lost_item?.id === lostItemId ? { ...m, my_feedback: null } : m));
+        return;
+      }
+
+      const response = await foundItemsApi.sendMatchFeedback(parseInt(id!), lostItemId, verdict);
+      if (verdict === 'NOT_MINE') {
+        setMatches((prev) => prev.filter((m) => m.lost_item?.id !== lostItemId));
+      } else {
+        setMatches((prev) => prev.map((m) => m.lost_item?.id === lostItemId ? { ...m, my_feedback: verdict } : m));
+      }
+      toast.success(response.data.message || 'Feedback saved');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to save feedback');
+    }
+  };
+
   const handleDelete = async () => {
     setDeleting(true);
     try {
@@ -117,7 +147,7 @@ const FoundItemDetailPage: React.FC = () => {
 
   const statusInfo = STATUS_INFO[item.status];
   const categoryInfo = CATEGORY_INFO[item.category];
-  const apiBase = import.meta.env.VITE_API_URL?.replace('/api/v1', '') || 'http://localhost:4000';
+  const foundTime = formatTimeWindow(item.found_window_start, item.found_window_end);
 
   return (
     <div className="max-w-4xl mx-auto px-4 py-8">
@@ -138,7 +168,7 @@ const FoundItemDetailPage: React.FC = () => {
             <Card className="mb-6 overflow-hidden">
               <div className="relative aspect-video bg-gray-100">
                 <img
-                  src={`${apiBase}${item.image_urls[currentImageIndex]}`}
+                  src={imageUrl(item.image_urls[currentImageIndex], 'medium')}
                   alt={item.title}
                   className="w-full h-full object-contain"
                   onError={(e) => {
@@ -176,6 +206,13 @@ const FoundItemDetailPage: React.FC = () => {
                 )}
               </div>
 
+              {item.images_redacted && (
+                <p className="px-4 pt-3 text-xs text-gray-500">
+                  <Shield className="w-3 h-3 inline mr-1" />
+                  Text in these photos is blurred for privacy.
+                </p>
+              )}
+
               {/* Thumbnails */}
               {item.image_urls.length > 1 && (
                 <div className="p-4 flex gap-2 overflow-x-auto">
@@ -188,7 +225,7 @@ const FoundItemDetailPage: React.FC = () => {
                       }`}
                     >
                       <img
-                        src={`${apiBase}${url}`}
+                        src={imageUrl(url, 'thumb')}
                         alt=""
                         className="w-full h-full object-cover"
                       />
@@ -233,11 +270,18 @@ const FoundItemDetailPage: React.FC = () => {
               <span className="flex items-center gap-1">
                 <Calendar className="w-4 h-4" />
                 Found on {formatDateLong(item.found_date)}
+                {foundTime && `, ${foundTime}`}
               </span>
               <span className="flex items-center gap-1">
                 <User className="w-4 h-4" />
                 {item.finder_name || 'Anonymous'}
               </span>
+              {(item.route_name || item.vehicle_plate) && (
+                <span className="flex items-center gap-1">
+                  <Bus className="w-4 h-4" />
+                  {[item.route_name, item.vehicle_plate].filter(Boolean).join(' · ')}
+                </span>
+              )}
             </div>
 
             {/* Cooperative Badge */}
@@ -265,7 +309,7 @@ const FoundItemDetailPage: React.FC = () => {
             {(item.category === 'ID' || item.category === 'WALLET') && (
               <Alert type="warning" className="mt-6">
                 <Shield className="w-4 h-4 inline mr-2" />
-                <strong>Privacy Protected:</strong> Full details and images are only shown to 
+                <strong>Privacy Protected:</strong> Full details and unblurred images are only shown to 
                 verified owners. Claim this item and complete verification to access all information.
               </Alert>
             )}
@@ -301,10 +345,34 @@ const FoundItemDetailPage: React.FC = () => {
                                 <Badge key={i} variant="info" className="text-xs">{reason}</Badge>
                               ))}
                             </div>
+                            {match.lost_item?.has_photos && (
+                              <p className="text-xs text-gray-400 mt-2">The owner added photos of this item.</p>
+                            )}
+                          </div>
+                          <div className="flex flex-col items-end gap-2">
+                            <Badge variant={getMatchScoreBadgeVariant(match.score)}>
+                              {match.score}/13
+                            </Badge>
+                            <div className="flex gap-1">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Looks right"
+                                className={match.my_feedback === 'LOOKS_RIGHT' ? 'text-trust-600' : ''}
+                                onClick={() => handleMatchFeedback(match.lost_item.id, 'LOOKS_RIGHT')}
+                              >
+                                <ThumbsUp className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Not this item"
+                                onClick={() => handleMatchFeedback(match.lost_item.id, 'NOT_MINE')}
+                              >
+                                <ThumbsDown className="w-4 h-4" />
+                              </Button>
+                            </div>
                           </div>
-                          <Badge variant={getMatchScoreBadgeVariant(match.score)}>
-                            {match.score}/13
-                          </Badge>
                         </div>
                       </Card>
                     ))}
@@ -351,6 +419,19 @@ const FoundItemDetailPage: React.FC = () => {
             </Link>
           </Card>
 
+          {/* Hidden Details - finder */}
+          {isFinder && item.hidden_attributes && (
+            <HiddenAttributesPanel item={item} onSaved={loadItem} />
+          )}
+
+          {/* Claim Queue - finder and cooperative staff */}
+          {canSeeClaims && <ClaimQueuePanel itemId={item.id} />}
+
+          {/* Custody Chain - cooperative staff */}
+          {isCustodyStaff && (
+            <CustodyChainPanel cooperativeId={item.cooperative_id!} itemId={item.id} onTransferred={loadItem} />
+          )}
+
           {/* Status */}
           <Card className="p-6 mb-6">
             <h3 className="font-semibold text-gray-900 mb-4">Status</h3>
@@ -369,6 +450,14 @@ const FoundItemDetailPage: React.FC = () => {
                 <span className={item.status === 'RETURNED' ? 'font-medium' : 'text-gray-500'}>Returned</span>
               </div>
             </div>
+
+            {item.current_location && (
+              <p className="text-sm text-gray-600 mt-4 pt-4 border-t border-gray-100">
+                <MapPin className="w-4 h-4 inline mr-1" />
+                Held at {item.current_location}
+                {item.current_holder && ` by ${item.current_holder}`}
+              </p>
+            )}
           </Card>
 
           {/* Posted Date */}
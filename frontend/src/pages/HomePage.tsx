@@ -9,6 +9,7 @@ import { useAuthStore } from '../store/authStore';
 import { foundItemsApi, lostItemsApi } from '../services/api';
 import { FoundItem, LostItem, CATEGORY_INFO, ItemCategory } from '../types';
 import { formatDateShort } from '../utils/dateUtils';
+import { imageUrl } from '../utils/imageUtils';
 
 const HomePage: React.FC = () => {
   const { isAuthenticated } = useAuthStore();
@@ -211,7 +212,7 @@ const HomePage: React.FC = () => {
                   <Card hover className="overflow-hidden h-full">
                     <div className="aspect-video bg-gray-100 flex items-center justify-center relative">
                       {isFound && (item as FoundItem).image_urls?.length > 0 ? (
-                        <img src={(item as FoundItem).image_urls[0]} alt={item.title} className="w-full h-full object-cover" />
+                        <img src={imageUrl((item as FoundItem).image_urls[0], 'thumb')} alt={item.title} className="w-full h-full object-cover" />
                       ) : (
                         <span className="text-4xl">{CATEGORY_INFO[item.category as ItemCategory]?.icon || '📦'}</span>
                       )}
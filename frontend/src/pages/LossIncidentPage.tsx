@@ -0,0 +1,155 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, Link, useNavigate } from 'react-router-dom';
+import { ArrowLeft, MapPin, Calendar, Layers, Sparkles, PackageCheck } from 'lucide-react';
+import { Button, Card, Badge, LoadingSpinner, ConfirmModal } from '../components/ui';
+import { lossIncidentsApi } from '../services/api';
+import { LossIncident, CATEGORY_INFO, STATUS_INFO } from '../types';
+import { formatDateLong } from '../utils/dateUtils';
+import toast from 'react-hot-toast';
+
+// Owner view of a loss with several items: how each is doing, and closing
+// the ones that came back together
+const LossIncidentPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+
+  const [incident, setIncident] = useState<LossIncident | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [showConfirm, setShowConfirm] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadIncident();
+  }, [id]);
+
+  const loadIncident = async () => {
+    try {
+      const response = await lossIncidentsApi.getById(parseInt(id!));
+      setIncident(response.data.data || null);
+    } catch (error) {
+      toast.error('Failed to load this loss');
+      navigate('/my-items');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggle = (itemId: number) => {
+    setSelected(selected.includes(itemId) ? selected.filter((s) => s !== itemId) : [...selected, itemId]);
+  };
+
+  const markRecovered = async () => {
+    setSaving(true);
+    try {
+      const response = await lossIncidentsApi.markRecovered(parseInt(id!), selected);
+      toast.success(response.data.message || 'Items marked as returned');
+      setSelected([]);
+      await loadIncident();
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to update items');
+    } finally {
+      setSaving(false);
+      setShowConfirm(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-16">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!incident) return null;
+
+  const items = incident.items || [];
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-8">
+      <Link to="/my-items" className="inline-flex items-center text-gray-600 hover:text-gray-900 mb-6">
+        <ArrowLeft className="w-4 h-4 mr-2" />
+        Back to My Items
+      </Link>
+
+      <Card className="p-6 mb-6">
+        <h1 className="text-2xl font-bold text-gray-900 mb-3 flex items-center gap-2">
+          <Layers className="w-6 h-6 text-primary-500" />
+          {incident.title}
+        </h1>
+        <div className="flex flex-wrap gap-4 text-sm text-gray-600">
+          <span className="flex items-center gap-1">
+            <MapPin className="w-4 h-4" />
+            {incident.location_area}
+          </span>
+          <span className="flex items-center gap-1">
+            <Calendar className="w-4 h-4" />
+            Lost on {formatDateLong(incident.lost_date)}
+          </span>
+        </div>
+        {incident.description && <p className="text-gray-600 mt-4 whitespace-pre-wrap">{incident.description}</p>}
+      </Card>
+
+      <Card className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-900">Items ({items.length})</h2>
+          <Button size="sm" disabled={selected.length === 0} onClick={() => setShowConfirm(true)}>
+            <PackageCheck className="w-4 h-4 mr-2" />
+            Got these back
+          </Button>
+        </div>
+
+        <div className="space-y-3">
+          {items.map((item) => {
+            const statusInfo = STATUS_INFO[item.status];
+            const active = item.status === 'ACTIVE';
+            return (
+              <div key={item.id} className="flex items-center gap-3 p-3 border border-gray-100 rounded-xl">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(item.id)}
+                  onChange={() => toggle(item.id)}
+                  disabled={!active}
+                  aria-label={`Select ${item.title}`}
+                />
+                <div className="flex-1 min-w-0">
+                  <Link to={`/lost-items/${item.id}`} className="font-medium text-gray-900 hover:text-primary-600">
+                    {item.title}
+                  </Link>
+                  <p className="text-sm text-gray-500">{CATEGORY_INFO[item.category]?.label || item.category}</p>
+                </div>
+                {item.best_match_score != null && active && (
+                  <span className="text-sm text-primary-600 flex items-center gap-1">
+                    <Sparkles className="w-4 h-4" />
+                    Best match {Math.round(item.best_match_score)}
+                  </span>
+                )}
+                <Badge variant={active ? 'active' : statusInfo?.color === 'green' ? 'verified' : 'expired'}>
+                  {statusInfo?.label || item.status}
+                </Badge>
+              </div>
+            );
+          })}
+        </div>
+        <p className="text-xs text-gray-500 mt-4">
+          When a found item matches one of these, the others are checked again straight away: things turned in
+          together are often from the same loss.
+        </p>
+      </Card>
+
+      <ConfirmModal
+        isOpen={showConfirm}
+        onClose={() => setShowConfirm(false)}
+        onConfirm={markRecovered}
+        title="Mark items as returned?"
+        message={`${selected.length} item${selected.length === 1 ? '' : 's'} will be closed and stop receiving match suggestions.`}
+        confirmText="Mark as returned"
+        variant="info"
+        loading={saving}
+      />
+    </div>
+  );
+};
+
+export default LossIncidentPage;
@@ -1,14 +1,15 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
 import { 
-  MapPin, Calendar, User, ArrowLeft, Edit, Trash2,
-  Sparkles, ExternalLink, Shield, Clock, CheckCircle
+  MapPin, Calendar, User, ArrowLeft, Edit, Trash2, Bus,
+  Sparkles, ExternalLink, Shield, Clock, CheckCircle, ThumbsUp, ThumbsDown, Layers, Camera, Upload
 } from 'lucide-react';
 import { Button, Card, Badge, LoadingSpinner, Alert, Modal } from '../components/ui';
 import { lostItemsApi, claimsApi } from '../services/api';
-import { LostItem, Match, CATEGORY_INFO, STATUS_INFO } from '../types';
+import { LostItem, Match, MatchFeedbackVerdict, CATEGORY_INFO, STATUS_INFO } from '../types';
 import { useAuthStore } from '../store/authStore';
-import { formatDate, formatDateShort, formatDateLong, formatDateTime } from '../utils/dateUtils';
+import { formatDate, formatDateShort, formatDateLong, formatDateTime, formatTimeWindow } from '../utils/dateUtils';
+import { imageUrl } from '../utils/imageUtils';
 import toast from 'react-hot-toast';
 
 const LostItemDetailPage: React.FC = () => {
@@ -23,8 +24,11 @@ const LostItemDetailPage: React.FC = () => {
   const [claimLoading, setClaimLoading] = useState<number | null>(null);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [deleting, setDeleting] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const isOwner = user?.id === item?.user_id;
+  const ownPhotos = item?.image_urls || [];
 
   useEffect(() => {
     loadItem();
@@ -60,6 +64,27 @@ const LostItemDetailPage: React.FC = () => {
     }
   };
 
+  const handleMatchFeedback = async (foundItemId: number, verdict: MatchFeedbackVerdict) => {
+    const current = matches.find((m) => m.found_item?.id === foundItemId)?.my_feedback;
+    try {
+      if (current === verdict) {
+        await lostItemsApi.removeMatchFeedback(parseInt(id!), foundItemId);
+        setMatches((prev) => prev.map((m) => m.found_item?.id === foundItemId ? { ...m, my_feedback: null } : m));
+        return;
+      }
+
+      const response = await lostItemsApi.sendMatchFeedback(parseInt(id!), foundItemId, verdict);
+      if (verdict === 'NOT_MINE') {
+        setMatches((prev) => prev.filter((m) => m.found_item?.id !== foundItemId));
+      } else {
+        setMatches((prev) => prev.map((m) => m.found_item?.id === foundItemId ? { ...m, my_feedback: verdict } : m));
+      }
+      toast.success(response.data.message || 'Feedback saved');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to save feedback');
+    }
+  };
+
   const handleClaim = async (foundItemId: number) => {
     if (!isAuthenticated) {
       toast.error('Please login to claim items');
@@ -84,6 +109,38 @@ const LostItemDetailPage: React.FC = () => {
     }
   };
 
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).slice(0, 5 - ownPhotos.length);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    for (const file of files) {
+      if (!['image/jpeg', 'image/png', 'image/webp'].includes(file.type)) {
+        toast.error('Only JPEG, PNG, and WebP images are allowed');
+        return;
+      }
+      if (file.size > 5 * 1024 * 1024) {
+        toast.error('Image size must be less than 5MB');
+        return;
+      }
+    }
+
+    setUploading(true);
+    try {
+      const response = await lostItemsApi.uploadImages(parseInt(id!), files);
+      setItem((prev) => prev ? { ...prev, image_urls: response.data.data?.image_urls || prev.image_urls } : prev);
+      toast.success('Photos added');
+      const duplicate = response.data.data?.possible_duplicates?.find((d) => d.item_type === 'lost');
+      if (duplicate) {
+        toast.error(`This photo is also on your lost report #${duplicate.item_id}. If it is the same item, delete one of the reports.`, { duration: 8000 });
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to upload photos');
+    } finally {
+      setUploading(false);
+    }
+  };
+
   const handleDelete = async () => {
     setDeleting(true);
     try {
@@ -119,6 +176,7 @@ const LostItemDetailPage: React.FC = () => {
 
   const statusInfo = STATUS_INFO[item.status];
   const categoryInfo = CATEGORY_INFO[item.category];
+  const lostTime = formatTimeWindow(item.lost_window_start, item.lost_window_end);
 
   return (
     <div className="max-w-4xl mx-auto px-4 py-8">
@@ -159,6 +217,16 @@ const LostItemDetailPage: React.FC = () => {
             {/* Title */}
             <h1 className="text-2xl font-bold text-gray-900 mb-4">{item.title}</h1>
 
+            {isOwner && item.incident_id && (
+              <Link
+                to={`/loss-incidents/${item.incident_id}`}
+                className="inline-flex items-center gap-1 text-sm text-primary-600 hover:underline mb-4"
+              >
+                <Layers className="w-4 h-4" />
+                Lost together with other items
+              </Link>
+            )}
+
             {/* Details */}
             <div className="flex flex-wrap gap-4 text-sm text-gray-600 mb-6">
               <span className="flex items-center gap-1">
@@ -168,11 +236,18 @@ const LostItemDetailPage: React.FC = () => {
               <span className="flex items-center gap-1">
                 <Calendar className="w-4 h-4" />
                 Lost on {formatDateLong(item.lost_date)}
+                {lostTime && `, ${lostTime}`}
               </span>
               <span className="flex items-center gap-1">
                 <User className="w-4 h-4" />
                 {item.user_name || 'Anonymous'}
               </span>
+              {(item.route_name || item.vehicle_plate) && (
+                <span className="flex items-center gap-1">
+                  <Bus className="w-4 h-4" />
+                  {[item.route_name, item.vehicle_plate].filter(Boolean).join(' · ')}
+                </span>
+              )}
             </div>
 
             {/* Description */}
@@ -188,6 +263,45 @@ const LostItemDetailPage: React.FC = () => {
               </div>
             )}
 
+            {/* Photos (Owner Only) */}
+            {isOwner && (
+              <div className="mt-6 pt-6 border-t border-gray-100">
+                <h3 className="font-semibold text-gray-900 mb-3 flex items-center gap-2">
+                  <Camera className="w-5 h-5 text-primary-500" />
+                  Your Photos
+                </h3>
+                <div className="grid grid-cols-5 gap-2">
+                  {ownPhotos.map((url, index) => (
+                    <a key={url} href={imageUrl(url)} target="_blank" rel="noreferrer" className="aspect-square rounded-lg overflow-hidden bg-gray-100">
+                      <img src={imageUrl(url, 'thumb')} alt={`Photo ${index + 1}`} className="w-full h-full object-cover" />
+                    </a>
+                  ))}
+                  {ownPhotos.length < 5 && item.status === 'ACTIVE' && (
+                    <button
+                      type="button"
+                      onClick={() => fileInputRef.current?.click()}
+                      disabled={uploading}
+                      className="aspect-square rounded-lg border-2 border-dashed border-gray-300 hover:border-primary-400 flex flex-col items-center justify-center transition-colors"
+                    >
+                      {uploading ? <LoadingSpinner size="sm" /> : <Upload className="w-5 h-5 text-gray-400" />}
+                      <span className="text-xs text-gray-500 mt-1">Add</span>
+                    </button>
+                  )}
+                </div>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="image/jpeg,image/png,image/webp"
+                  multiple
+                  onChange={handleImageUpload}
+                  className="hidden"
+                />
+                <p className="text-xs text-gray-500 mt-2">
+                  Up to 5 photos. Only you and finders of a matching item see them.
+                </p>
+              </div>
+            )}
+
             {/* Verification Questions (Owner Only) */}
             {isOwner && item.verification_questions && (
               <div className="mt-6 pt-6 border-t border-gray-100">
@@ -275,6 +389,15 @@ const LostItemDetailPage: React.FC = () => {
                               </span>
                             ))}
                           </div>
+
+                          {ownPhotos.length > 0 && (match.found_item?.image_urls?.length || 0) > 0 && (
+                            <div className="mt-3 flex items-center gap-2 text-xs text-gray-500">
+                              <img src={imageUrl(ownPhotos[0], 'thumb')} alt="Your photo" className="w-14 h-14 rounded-lg object-cover" />
+                              <span>vs</span>
+                              <img src={imageUrl(match.found_item!.image_urls[0], 'thumb')} alt="Finder's photo" className="w-14 h-14 rounded-lg object-cover" />
+                              <span>Your photo and the finder's</span>
+                            </div>
+                          )}
                         </div>
 
                         <div className="flex flex-col gap-2">
@@ -290,6 +413,25 @@ const LostItemDetailPage: React.FC = () => {
                           >
                             Claim
                           </Button>
+                          <div className="flex gap-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Looks right"
+                              className={match.my_feedback === 'LOOKS_RIGHT' ? 'text-trust-600' : ''}
+                              onClick={() => handleMatchFeedback(match.found_item!.id, 'LOOKS_RIGHT')}
+                            >
+                              <ThumbsUp className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Not mine"
+                              onClick={() => handleMatchFeedback(match.found_item!.id, 'NOT_MINE')}
+                            >
+                              <ThumbsDown className="w-4 h-4" />
+                            </Button>
+                          </div>
                         </div>
                       </div>
                     </div>
@@ -2,12 +2,13 @@ import React, { useState, useEffect } from 'react';
 import { Link, useSearchParams } from 'react-router-dom';
 import { 
   FileText, Package, CheckCircle, Clock, Plus, Edit2, Trash2, 
-  Eye, MapPin, Calendar, AlertCircle, RefreshCw
+  Eye, MapPin, Calendar, AlertCircle, RefreshCw, Layers
 } from 'lucide-react';
 import { Card, Badge, Button, LoadingSpinner, EmptyState, Tabs, ConfirmModal, Alert } from '../components/ui';
-import { lostItemsApi, foundItemsApi, claimsApi } from '../services/api';
-import { LostItem, FoundItem, Claim, CATEGORY_INFO, STATUS_INFO, ItemCategory } from '../types';
+import { lostItemsApi, foundItemsApi, claimsApi, lossIncidentsApi } from '../services/api';
+import { LostItem, FoundItem, Claim, LossIncident, CATEGORY_INFO, STATUS_INFO, ItemCategory } from '../types';
 import { formatDate, formatDateShort } from '../utils/dateUtils';
+import { imageUrl } from '../utils/imageUtils';
 import toast from 'react-hot-toast';
 
 const MyItemsPage: React.FC = () => {
@@ -16,6 +17,7 @@ const MyItemsPage: React.FC = () => {
   const [lostItems, setLostItems] = useState<LostItem[]>([]);
   const [foundItems, setFoundItems] = useState<FoundItem[]>([]);
   const [claims, setClaims] = useState<Claim[]>([]);
+  const [incidents, setIncidents] = useState<LossIncident[]>([]);
   const [loading, setLoading] = useState(true);
   const [deleteModal, setDeleteModal] = useState<{ isOpen: boolean; type: 'lost' | 'found'; id: number | null }>({
     isOpen: false, type: 'lost', id: null
@@ -29,14 +31,16 @@ const MyItemsPage: React.FC = () => {
   const loadData = async () => {
     setLoading(true);
     try {
-      const [lostRes, foundRes, claimsRes] = await Promise.all([
+      const [lostRes, foundRes, claimsRes, incidentsRes] = await Promise.all([
         lostItemsApi.getMine().catch(() => ({ data: { data: [] } })),
         foundItemsApi.getMine().catch(() => ({ data: { data: [] } })),
         claimsApi.getMine().catch(() => ({ data: { data: [] } })),
+        lossIncidentsApi.getMine().catch(() => ({ data: { data: [] } })),
       ]);
       setLostItems(lostRes.data.data || []);
       setFoundItems(foundRes.data.data || []);
       setClaims(claimsRes.data.data || []);
+      setIncidents(incidentsRes.data.data || []);
     } catch (error) {
       console.error('Failed to load items:', error);
       toast.error('Failed to load your items');
@@ -115,6 +119,25 @@ const MyItemsPage: React.FC = () => {
       {/* Lost Items Tab */}
       {activeTab === 'lost' && (
         <div>
+          {incidents.length > 0 && (
+            <div className="space-y-2 mb-4">
+              {incidents.map((incident) => (
+                <Link key={incident.id} to={`/loss-incidents/${incident.id}`}>
+                  <Card className="p-4 hover:border-primary-200" hover>
+                    <div className="flex items-center justify-between gap-3">
+                      <span className="flex items-center gap-2 font-medium text-gray-900">
+                        <Layers className="w-4 h-4 text-primary-500" />
+                        {incident.title}
+                      </span>
+                      <span className="text-sm text-gray-500">
+                        {incident.open_items} of {incident.item_count} still missing
+                      </span>
+                    </div>
+                  </Card>
+                </Link>
+              ))}
+            </div>
+          )}
           {lostItems.length === 0 ? (
             <Card padding="lg">
               <EmptyState
@@ -193,7 +216,7 @@ const MyItemsPage: React.FC = () => {
                     <div className="flex gap-4">
                       <div className="w-12 h-12 sm:w-16 sm:h-16 bg-gray-100 rounded-xl flex items-center justify-center flex-shrink-0 overflow-hidden">
                         {item.image_urls && item.image_urls.length > 0 ? (
-                          <img src={item.image_urls[0]} alt={item.title} className="w-full h-full object-cover" />
+                          <img src={imageUrl(item.image_urls[0], 'thumb')} alt={item.title} className="w-full h-full object-cover" />
                         ) : (
                           <span className="text-2xl sm:text-3xl">{CATEGORY_INFO[item.category as ItemCategory]?.icon || '📦'}</span>
                         )}
@@ -3,14 +3,16 @@ import { useNavigate } from 'react-router-dom';
 import { 
   Camera, Upload, X, MapPin, Calendar, Check,
   Smartphone, CreditCard, Wallet, Briefcase, Key, Package,
-  Building, AlertCircle
+  Building, AlertCircle, Clock, Lock
 } from 'lucide-react';
 import { Button, Card, Input, Textarea, Alert } from '../components/ui';
 import { foundItemsApi, duplicateApi } from '../services/api';
 import { DuplicateWarning } from '../components/DuplicateWarning';
-import { ItemCategory, CATEGORY_INFO, RWANDA_LOCATIONS } from '../types';
+import TransportContextFields from '../components/TransportContextFields';
+import { ItemCategory, CATEGORY_INFO, RWANDA_LOCATIONS, TransportContextForm, HIDDEN_ATTRIBUTES } from '../types';
 import { useAuthStore } from '../store/authStore';
 import { useRecaptcha } from '../hooks/useRecaptcha';
+import { buildTimeWindow } from '../utils/dateUtils';
 import toast from 'react-hot-toast';
 
 const CATEGORY_ICONS: Record<ItemCategory, React.ReactNode> = {
@@ -29,6 +31,8 @@ interface FormData {
   location_area: string;
   location_hint: string;
   found_date: string;
+  found_time_from: string;
+  found_time_to: string;
 }
 
 const ReportFoundPage: React.FC = () => {
@@ -44,6 +48,8 @@ const ReportFoundPage: React.FC = () => {
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [duplicateCandidates, setDuplicateCandidates] = useState<any[]>([]);
   const [showDuplicateWarning, setShowDuplicateWarning] = useState(false);
+  const [transport, setTransport] = useState<TransportContextForm>({});
+  const [hiddenAttributes, setHiddenAttributes] = useState<Record<string, string>>({});
 
   const [formData, setFormData] = useState<FormData>({
     category: '',
@@ -52,6 +58,8 @@ const ReportFoundPage: React.FC = () => {
     location_area: '',
     location_hint: '',
     found_date: new Date().toISOString().split('T')[0],
+    found_time_from: '',
+    found_time_to: '',
   });
 
   const isCoopStaff = user?.role === 'coop_staff';
@@ -97,6 +105,9 @@ const ReportFoundPage: React.FC = () => {
     }
     if (!formData.location_area) newErrors.location_area = 'Please select a location';
     if (!formData.found_date) newErrors.found_date = 'Please enter the date you found the item';
+    if (!formData.found_time_from !== !formData.found_time_to) {
+      newErrors.found_time = 'Enter both times, or leave both empty';
+    }
     if (images.length === 0) newErrors.images = 'Please upload at least one image';
 
     setErrors(newErrors);
@@ -131,11 +142,22 @@ const ReportFoundPage: React.FC = () => {
     await submitFoundItem();
   };
 
+  // Values typed for another category before it was changed are left out
+  const hiddenAttributesForCategory = () => {
+    if (!formData.category) return undefined;
+    const values: Record<string, string> = {};
+    HIDDEN_ATTRIBUTES[formData.category].forEach(({ key }) => {
+      if (hiddenAttributes[key]?.trim()) values[key] = hiddenAttributes[key].trim();
+    });
+    return Object.keys(values).length > 0 ? values : undefined;
+  };
+
   const submitFoundItem = async () => {
     setShowDuplicateWarning(false);
     setLoading(true);
     try {
       const recaptchaToken = await executeRecaptcha('report_found');
+      const timeWindow = buildTimeWindow(formData.found_date, formData.found_time_from, formData.found_time_to);
       // Create the found item first
       const createData = {
         category: formData.category,
@@ -144,7 +166,10 @@ const ReportFoundPage: React.FC = () => {
         location_area: formData.location_area,
         location_hint: formData.location_hint || undefined,
         found_date: formData.found_date,
+        ...(timeWindow && { found_window_start: timeWindow.start, found_window_end: timeWindow.end }),
         cooperative_id: isCoopStaff && user?.cooperative_id ? user.cooperative_id : undefined,
+        ...transport,
+        hidden_attributes: hiddenAttributesForCategory(),
         ...(recaptchaToken && { recaptchaToken }),
       };
 
@@ -156,7 +181,11 @@ const ReportFoundPage: React.FC = () => {
         setUploadingImages(true);
         const fileList = new DataTransfer();
         images.forEach((file) => fileList.items.add(file));
-        await foundItemsApi.uploadImages(itemId, fileList.files);
+        const upload = await foundItemsApi.uploadImages(itemId, fileList.files);
+        const duplicate = upload.data.data?.possible_duplicates?.find((d) => d.item_type === 'found');
+        if (duplicate) {
+          toast.error(`A photo you added is also on your found report #${duplicate.item_id}. If it is the same item, delete one of the reports.`, { duration: 8000 });
+        }
       }
 
       toast.success('Found item reported successfully!');
@@ -307,8 +336,71 @@ const ReportFoundPage: React.FC = () => {
             />
             {errors.found_date && <p className="mt-1 text-sm text-red-500">{errors.found_date}</p>}
           </div>
+
+          {/* Time window */}
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              <Clock className="w-4 h-4 inline mr-1" />
+              Time (Optional)
+            </label>
+            <div className="flex items-center gap-2">
+              <input
+                type="time"
+                value={formData.found_time_from}
+                onChange={(e) => setFormData({ ...formData, found_time_from: e.target.value })}
+                className={`input ${errors.found_time ? 'border-red-500' : ''}`}
+                aria-label="Found from"
+              />
+              <span className="text-gray-500">to</span>
+              <input
+                type="time"
+                value={formData.found_time_to}
+                onChange={(e) => setFormData({ ...formData, found_time_to: e.target.value })}
+                className={`input ${errors.found_time ? 'border-red-500' : ''}`}
+                aria-label="Found until"
+              />
+            </div>
+            {errors.found_time ? (
+              <p className="mt-1 text-sm text-red-500">{errors.found_time}</p>
+            ) : (
+              <p className="mt-1 text-xs text-gray-500">
+                When it was found or handed in, e.g. during the 09:15–09:45 depot check.
+              </p>
+            )}
+          </div>
+
+          {/* Transport */}
+          <TransportContextFields
+            value={transport}
+            onChange={setTransport}
+            staffCooperativeId={isCoopStaff ? user?.cooperative_id : undefined}
+          />
         </Card>
 
+        {formData.category && (
+          <Card className="p-6 mb-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-2">
+              <Lock className="w-5 h-5 inline mr-2" />
+              Hidden Details
+            </h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Note details only the real owner would know. They are never shown to anyone;
+              people claiming the item must state them. Leave blank what you cannot check.
+            </p>
+            {HIDDEN_ATTRIBUTES[formData.category].map(({ key, label }) => (
+              <div key={key} className="mb-4">
+                <Input
+                  label={label}
+                  value={hiddenAttributes[key] || ''}
+                  onChange={(e) => setHiddenAttributes({ ...hiddenAttributes, [key]: e.target.value })}
+                  maxLength={100}
+                  autoComplete="off"
+                />
+              </div>
+            ))}
+          </Card>
+        )}
+
         <Card className="p-6 mb-6">
           <h2 className="text-lg font-semibold text-gray-900 mb-4">
             <Camera className="w-5 h-5 inline mr-2" />
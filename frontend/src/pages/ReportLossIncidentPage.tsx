@@ -0,0 +1,355 @@
+import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { ArrowLeft, Check, MapPin, Calendar, Clock, Plus, Trash2, Shield, Layers } from 'lucide-react';
+import { Button, Card, Input, Textarea, Select, Alert } from '../components/ui';
+import { lossIncidentsApi } from '../services/api';
+import TransportContextFields from '../components/TransportContextFields';
+import {
+  ItemCategory, CATEGORY_INFO, RWANDA_LOCATIONS, QUESTION_TEMPLATES, VerificationQuestion, TransportContextForm,
+  MIN_VERIFICATION_QUESTIONS, MAX_VERIFICATION_QUESTIONS
+} from '../types';
+import { useRecaptcha } from '../hooks/useRecaptcha';
+import { buildTimeWindow } from '../utils/dateUtils';
+import toast from 'react-hot-toast';
+
+// ============================================
+// FORM STATE
+// ============================================
+
+const MIN_ITEMS = 2;
+const MAX_ITEMS = 8;
+
+const CATEGORY_OPTIONS = Object.entries(CATEGORY_INFO).map(([value, info]) => ({
+  value,
+  label: info.label,
+}));
+
+interface ItemForm {
+  category: ItemCategory | '';
+  title: string;
+  description: string;
+  verification_questions: VerificationQuestion[];
+}
+
+const emptyItem = (category: ItemCategory | '' = ''): ItemForm => ({
+  category,
+  title: '',
+  description: '',
+  verification_questions: [
+    { question: '', answer: '' },
+    { question: '', answer: '' },
+    { question: '', answer: '' },
+  ],
+});
+
+// ============================================
+// COMPONENT
+// ============================================
+
+// One loss, several items: where and when are entered once, then each item
+// gets its own category, description and verification questions
+const ReportLossIncidentPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { executeRecaptcha } = useRecaptcha();
+  const [loading, setLoading] = useState(false);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [transport, setTransport] = useState<TransportContextForm>({});
+  const [details, setDetails] = useState({
+    title: '',
+    location_area: '',
+    location_hint: '',
+    lost_date: new Date().toISOString().split('T')[0],
+    lost_time_from: '',
+    lost_time_to: '',
+  });
+  const [items, setItems] = useState<ItemForm[]>([emptyItem(ItemCategory.BAG), emptyItem()]);
+
+  const updateItem = (index: number, changes: Partial<ItemForm>) => {
+    setItems(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const updateQuestion = (index: number, qIndex: number, field: 'question' | 'answer', value: string) => {
+    const questions = [...items[index].verification_questions];
+    questions[qIndex] = { ...questions[qIndex], [field]: value };
+    updateItem(index, { verification_questions: questions });
+  };
+
+  const removeQuestion = (index: number, qIndex: number) => {
+    updateItem(index, { verification_questions: items[index].verification_questions.filter((_, qi) => qi !== qIndex) });
+    setErrors({});
+  };
+
+  const validate = (): boolean => {
+    const newErrors: Record<string, string> = {};
+    if (details.title.length < 3) newErrors.title = 'Give this loss a short name';
+    if (!details.location_area) newErrors.location_area = 'Please select a location';
+    if (!details.lost_date) newErrors.lost_date = 'Please enter the date';
+    if (!details.lost_time_from !== !details.lost_time_to) {
+      newErrors.lost_time = 'Enter both times, or leave both empty';
+    }
+
+    items.forEach((item, i) => {
+      if (!item.category) newErrors[`item_${i}_category`] = 'Select a category';
+      if (item.title.length < 3) newErrors[`item_${i}_title`] = 'Title must be at least 3 characters';
+      if (item.description.length < 10) newErrors[`item_${i}_description`] = 'Description must be at least 10 characters';
+      item.verification_questions.forEach((q, qi) => {
+        if (q.question.length < 5) newErrors[`item_${i}_question_${qi}`] = 'Question must be at least 5 characters';
+        if (!q.answer) newErrors[`item_${i}_answer_${qi}`] = 'Answer is required';
+      });
+    });
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    if (!validate()) {
+      toast.error('Please complete every item');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const recaptchaToken = await executeRecaptcha('report_lost');
+      const { lost_time_from, lost_time_to, ...fields } = details;
+      const timeWindow = buildTimeWindow(details.lost_date, lost_time_from, lost_time_to);
+      const response = await lossIncidentsApi.create({
+        ...fields,
+        ...(timeWindow && { lost_window_start: timeWindow.start, lost_window_end: timeWindow.end }),
+        ...transport,
+        items: items.map((item) => ({ ...item, category: item.category as ItemCategory })),
+        ...(recaptchaToken && { recaptchaToken }),
+      } as any);
+
+      toast.success(`${items.length} items reported`);
+      navigate(`/loss-incidents/${response.data.data!.id}`);
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to submit report');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 py-8">
+      <Link to="/report-lost" className="inline-flex items-center text-gray-600 hover:text-gray-900 mb-6">
+        <ArrowLeft className="w-4 h-4 mr-2" />
+        Report a single item
+      </Link>
+
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2 flex items-center gap-2">
+          <Layers className="w-6 h-6 text-primary-500" />
+          Report Several Lost Items
+        </h1>
+        <p className="text-gray-600">
+          Lost a bag with your phone, ID and keys in it? Report them together: a found bag that mentions your
+          phone, or a phone handed in with your bag, is matched to the whole loss.
+        </p>
+      </div>
+
+      {/* Where and when */}
+      <Card className="p-6 mb-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-6">Where and when?</h2>
+
+        <div className="mb-6">
+          <Input
+            label="Name this loss *"
+            value={details.title}
+            onChange={(e) => setDetails({ ...details, title: e.target.value })}
+            placeholder="e.g., Backpack left on the bus"
+            error={errors.title}
+          />
+        </div>
+
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            <MapPin className="w-4 h-4 inline mr-1" />
+            Location Area *
+          </label>
+          <select
+            value={details.location_area}
+            onChange={(e) => setDetails({ ...details, location_area: e.target.value })}
+            className={`input ${errors.location_area ? 'border-red-500' : ''}`}
+          >
+            <option value="">Select location</option>
+            {RWANDA_LOCATIONS.map((loc) => (
+              <option key={loc} value={loc}>{loc}</option>
+            ))}
+          </select>
+          {errors.location_area && <p className="mt-1 text-sm text-red-500">{errors.location_area}</p>}
+        </div>
+
+        <div className="mb-6">
+          <Textarea
+            label="Location Details (Optional)"
+            value={details.location_hint}
+            onChange={(e) => setDetails({ ...details, location_hint: e.target.value })}
+            rows={2}
+          />
+        </div>
+
+        <div className="grid sm:grid-cols-2 gap-4 mb-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              <Calendar className="w-4 h-4 inline mr-1" />
+              Date Lost *
+            </label>
+            <input
+              type="date"
+              value={details.lost_date}
+              onChange={(e) => setDetails({ ...details, lost_date: e.target.value })}
+              max={new Date().toISOString().split('T')[0]}
+              className={`input ${errors.lost_date ? 'border-red-500' : ''}`}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              <Clock className="w-4 h-4 inline mr-1" />
+              Time (Optional)
+            </label>
+            <div className="flex items-center gap-2">
+              <input
+                type="time"
+                value={details.lost_time_from}
+                onChange={(e) => setDetails({ ...details, lost_time_from: e.target.value })}
+                className={`input ${errors.lost_time ? 'border-red-500' : ''}`}
+                aria-label="Lost from"
+              />
+              <span className="text-gray-500">to</span>
+              <input
+                type="time"
+                value={details.lost_time_to}
+                onChange={(e) => setDetails({ ...details, lost_time_to: e.target.value })}
+                className={`input ${errors.lost_time ? 'border-red-500' : ''}`}
+                aria-label="Lost until"
+              />
+            </div>
+            {errors.lost_time && <p className="mt-1 text-sm text-red-500">{errors.lost_time}</p>}
+          </div>
+        </div>
+
+        <TransportContextFields value={transport} onChange={setTransport} />
+      </Card>
+
+      {/* Items */}
+      {items.map((item, index) => {
+        const suggestions = item.category ? QUESTION_TEMPLATES[item.category as ItemCategory] || [] : [];
+        return (
+          <Card key={index} className="p-6 mb-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold text-gray-900">Item {index + 1}</h2>
+              {items.length > MIN_ITEMS && (
+                <Button variant="ghost" size="sm" onClick={() => setItems(items.filter((_, i) => i !== index))}>
+                  <Trash2 className="w-4 h-4 text-red-500" />
+                </Button>
+              )}
+            </div>
+
+            <div className="grid sm:grid-cols-2 gap-4 mb-4">
+              <Select
+                label="Category *"
+                value={item.category}
+                onChange={(e) => updateItem(index, { category: e.target.value as ItemCategory })}
+                options={CATEGORY_OPTIONS}
+                placeholder="Select category"
+                error={errors[`item_${index}_category`]}
+              />
+              <Input
+                label="Title *"
+                value={item.title}
+                onChange={(e) => updateItem(index, { title: e.target.value })}
+                placeholder="e.g., Samsung A52, black case"
+                error={errors[`item_${index}_title`]}
+              />
+            </div>
+
+            <div className="mb-4">
+              <Textarea
+                label="Description *"
+                value={item.description}
+                onChange={(e) => updateItem(index, { description: e.target.value })}
+                rows={2}
+                error={errors[`item_${index}_description`]}
+              />
+            </div>
+
+            <p className="text-sm font-medium text-gray-700 mb-2 flex items-center gap-1">
+              <Shield className="w-4 h-4 text-trust-500" />
+              Verification questions for this item
+            </p>
+            {item.verification_questions.map((q, qi) => (
+              <div key={qi} className="grid sm:grid-cols-[1fr_1fr_auto] gap-2 mb-2">
+                <Input
+                  value={q.question}
+                  onChange={(e) => updateQuestion(index, qi, 'question', e.target.value)}
+                  placeholder={suggestions[qi]?.question || `Question ${qi + 1}`}
+                  error={errors[`item_${index}_question_${qi}`]}
+                />
+                <Input
+                  value={q.answer}
+                  onChange={(e) => updateQuestion(index, qi, 'answer', e.target.value)}
+                  placeholder="Answer"
+                  error={errors[`item_${index}_answer_${qi}`]}
+                />
+                <button
+                  type="button"
+                  onClick={() => removeQuestion(index, qi)}
+                  disabled={item.verification_questions.length <= MIN_VERIFICATION_QUESTIONS}
+                  className="p-2 text-gray-400 hover:text-red-500 disabled:invisible"
+                  title="Remove question"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            {item.verification_questions.length < MAX_VERIFICATION_QUESTIONS && (
+              <button
+                type="button"
+                onClick={() => updateItem(index, {
+                  verification_questions: [...item.verification_questions, { question: '', answer: '' }],
+                })}
+                className="text-xs text-primary-600 hover:underline mr-4"
+              >
+                Add a question
+              </button>
+            )}
+            {suggestions.length > 0 && item.verification_questions.some((q) => !q.question) && (
+              <button
+                type="button"
+                onClick={() => updateItem(index, {
+                  verification_questions: item.verification_questions.map((q, qi) => (
+                    q.question || !suggestions[qi] ? q : { ...q, ...suggestions[qi] }
+                  )),
+                })}
+                className="text-xs text-primary-600 hover:underline"
+              >
+                Use suggested questions
+              </button>
+            )}
+          </Card>
+        );
+      })}
+
+      {items.length < MAX_ITEMS && (
+        <Button variant="secondary" className="w-full mb-6" onClick={() => setItems([...items, emptyItem()])}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add another item
+        </Button>
+      )}
+
+      <Alert type="warning" className="mb-6">
+        <strong>Remember your answers!</strong> Each item is claimed on its own, with its own questions.
+      </Alert>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSubmit} loading={loading}>
+          <Check className="w-4 h-4 mr-2" />
+          Submit {items.length} Items
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ReportLossIncidentPage;
@@ -1,15 +1,20 @@
-import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useState, useRef } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
 import { 
   ArrowLeft, ArrowRight, Check, Smartphone, CreditCard, 
   Wallet, Briefcase, Key, Package, MapPin, Calendar,
-  HelpCircle, Shield, AlertCircle
+  HelpCircle, Shield, AlertCircle, Clock, Camera, Upload, X, Plus
 } from 'lucide-react';
 import { Button, Card, Input, Textarea, Select, Alert } from '../components/ui';
 import { lostItemsApi, duplicateApi } from '../services/api';
 import { DuplicateWarning } from '../components/DuplicateWarning';
-import { ItemCategory, CATEGORY_INFO, RWANDA_LOCATIONS, QUESTION_TEMPLATES, VerificationQuestion } from '../types';
+import TransportContextFields from '../components/TransportContextFields';
+import {
+  ItemCategory, CATEGORY_INFO, RWANDA_LOCATIONS, QUESTION_TEMPLATES, VerificationQuestion, TransportContextForm,
+  MIN_VERIFICATION_QUESTIONS, MAX_VERIFICATION_QUESTIONS, AnswerType, ANSWER_TYPES
+} from '../types';
 import { useRecaptcha } from '../hooks/useRecaptcha';
+import { buildTimeWindow } from '../utils/dateUtils';
 import toast from 'react-hot-toast';
 import VerificationStrengthIndicator from '../components/VerificationStrengthIndicator';
 
@@ -36,6 +41,8 @@ interface FormData {
   location_area: string;
   location_hint: string;
   lost_date: string;
+  lost_time_from: string;
+  lost_time_to: string;
   verification_questions: VerificationQuestion[];
 }
 
@@ -47,6 +54,10 @@ const ReportLostPage: React.FC = () => {
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [duplicateCandidates, setDuplicateCandidates] = useState<any[]>([]);
   const [showDuplicateWarning, setShowDuplicateWarning] = useState(false);
+  const [transport, setTransport] = useState<TransportContextForm>({});
+  const [images, setImages] = useState<File[]>([]);
+  const [imagesPreviews, setImagesPreviews] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const [formData, setFormData] = useState<FormData>({
     category: '',
@@ -55,6 +66,8 @@ const ReportLostPage: React.FC = () => {
     location_area: '',
     location_hint: '',
     lost_date: new Date().toISOString().split('T')[0],
+    lost_time_from: '',
+    lost_time_to: '',
     verification_questions: [
       { question: '', answer: '' },
       { question: '', answer: '' },
@@ -62,6 +75,32 @@ const ReportLostPage: React.FC = () => {
     ],
   });
 
+  const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (!files) return;
+
+    const newFiles = Array.from(files).slice(0, 5 - images.length);
+    for (const file of newFiles) {
+      if (!['image/jpeg', 'image/png', 'image/webp'].includes(file.type)) {
+        toast.error('Only JPEG, PNG, and WebP images are allowed');
+        return;
+      }
+      if (file.size > 5 * 1024 * 1024) {
+        toast.error('Image size must be less than 5MB');
+        return;
+      }
+    }
+
+    setImages([...images, ...newFiles]);
+    setImagesPreviews([...imagesPreviews, ...newFiles.map((file) => URL.createObjectURL(file))]);
+  };
+
+  const removeImage = (index: number) => {
+    URL.revokeObjectURL(imagesPreviews[index]);
+    setImages(images.filter((_, i) => i !== index));
+    setImagesPreviews(imagesPreviews.filter((_, i) => i !== index));
+  };
+
   const validateStep = (currentStep: number): boolean => {
     const newErrors: Record<string, string> = {};
 
@@ -76,6 +115,9 @@ const ReportLostPage: React.FC = () => {
     if (currentStep === 2) {
       if (!formData.location_area) newErrors.location_area = 'Please select a location';
       if (!formData.lost_date) newErrors.lost_date = 'Please enter the date you lost the item';
+      if (!formData.lost_time_from !== !formData.lost_time_to) {
+        newErrors.lost_time = 'Enter both times, or leave both empty';
+      }
     }
 
     if (currentStep === 3) {
@@ -136,17 +178,31 @@ const ReportLostPage: React.FC = () => {
     setLoading(true);
     try {
       const recaptchaToken = await executeRecaptcha('report_lost');
+      const { lost_time_from, lost_time_to, ...fields } = formData;
+      const timeWindow = buildTimeWindow(formData.lost_date, lost_time_from, lost_time_to);
       const response = await lostItemsApi.create({
-        ...formData,
+        ...fields,
+        ...(timeWindow && { lost_window_start: timeWindow.start, lost_window_end: timeWindow.end }),
+        ...transport,
         verification_questions: formData.verification_questions.map((q) => ({
           question: q.question,
           answer: q.answer,
+          answer_type: q.answer_type,
         })),
         ...(recaptchaToken && { recaptchaToken }),
       } as any);
 
+      const itemId = response.data.data.id;
+
+      // Photos are optional; the report stands if they fail
+      if (images.length > 0) {
+        await lostItemsApi.uploadImages(itemId, images).catch(() => {
+          toast.error('Report saved, but the photos failed to upload. Add them from the item page.');
+        });
+      }
+
       toast.success('Lost item reported successfully!');
-      navigate(`/lost-items/${response.data.data.id}`);
+      navigate(`/lost-items/${itemId}`);
     } catch (error: any) {
       const message = error.response?.data?.message || 'Failed to submit report';
       toast.error(message);
@@ -161,6 +217,28 @@ const ReportLostPage: React.FC = () => {
     setFormData({ ...formData, verification_questions: updated });
   };
 
+  // A template brings its answer type; the owner can still change it
+  const selectTemplate = (index: number, question: string, answerType: AnswerType) => {
+    const updated = [...formData.verification_questions];
+    updated[index] = { ...updated[index], question, answer_type: answerType };
+    setFormData({ ...formData, verification_questions: updated });
+  };
+
+  const setAnswerType = (index: number, answerType: AnswerType) => {
+    const updated = [...formData.verification_questions];
+    updated[index] = { ...updated[index], answer_type: answerType };
+    setFormData({ ...formData, verification_questions: updated });
+  };
+
+  const addQuestion = () => {
+    setFormData({ ...formData, verification_questions: [...formData.verification_questions, { question: '', answer: '' }] });
+  };
+
+  const removeQuestion = (index: number) => {
+    setFormData({ ...formData, verification_questions: formData.verification_questions.filter((_, i) => i !== index) });
+    setErrors({});
+  };
+
   const suggestedQuestions = formData.category 
     ? QUESTION_TEMPLATES[formData.category as ItemCategory] || []
     : [];
@@ -183,6 +261,12 @@ const ReportLostPage: React.FC = () => {
         <p className="text-gray-600">
           Provide details about your lost item to help us match it with found items
         </p>
+        <p className="text-sm text-gray-500 mt-2">
+          Lost a bag with several things in it?{' '}
+          <Link to="/report-lost/incident" className="text-primary-600 hover:underline">
+            Report them together
+          </Link>
+        </p>
       </div>
 
       {/* Progress Steps */}
@@ -266,6 +350,48 @@ const ReportLostPage: React.FC = () => {
             />
           </div>
 
+          {/* Photos */}
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              <Camera className="w-4 h-4 inline mr-1" />
+              Photos (Optional)
+            </label>
+            <div className="grid grid-cols-5 gap-2">
+              {imagesPreviews.map((preview, index) => (
+                <div key={preview} className="relative aspect-square rounded-lg overflow-hidden bg-gray-100">
+                  <img src={preview} alt="" className="w-full h-full object-cover" />
+                  <button
+                    type="button"
+                    onClick={() => removeImage(index)}
+                    className="absolute top-1 right-1 p-0.5 bg-red-500 text-white rounded-full hover:bg-red-600"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              {images.length < 5 && (
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  className="aspect-square rounded-lg border-2 border-dashed border-gray-300 hover:border-primary-400 flex items-center justify-center transition-colors"
+                >
+                  <Upload className="w-5 h-5 text-gray-400" />
+                </button>
+              )}
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              multiple
+              onChange={handleImageSelect}
+              className="hidden"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              An older photo of the item helps finders recognise it. Only you and finders of a matching item see them.
+            </p>
+          </div>
+
           <div className="flex justify-end">
             <Button onClick={handleNext}>
               Next: Location & Date
@@ -326,6 +452,43 @@ const ReportLostPage: React.FC = () => {
             {errors.lost_date && <p className="mt-1 text-sm text-red-500">{errors.lost_date}</p>}
           </div>
 
+          {/* Time window */}
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              <Clock className="w-4 h-4 inline mr-1" />
+              Time (Optional)
+            </label>
+            <div className="flex items-center gap-2">
+              <input
+                type="time"
+                value={formData.lost_time_from}
+                onChange={(e) => setFormData({ ...formData, lost_time_from: e.target.value })}
+                className={`input ${errors.lost_time ? 'border-red-500' : ''}`}
+                aria-label="Lost from"
+              />
+              <span className="text-gray-500">to</span>
+              <input
+                type="time"
+                value={formData.lost_time_to}
+                onChange={(e) => setFormData({ ...formData, lost_time_to: e.target.value })}
+                className={`input ${errors.lost_time ? 'border-red-500' : ''}`}
+                aria-label="Lost until"
+              />
+            </div>
+            {errors.lost_time ? (
+              <p className="mt-1 text-sm text-red-500">{errors.lost_time}</p>
+            ) : (
+              <p className="mt-1 text-xs text-gray-500">
+                If you know roughly when, e.g. on the 08:00–08:30 bus. Close times make matching much more accurate.
+              </p>
+            )}
+          </div>
+
+          {/* Transport */}
+          <div className="mb-6">
+            <TransportContextFields value={transport} onChange={setTransport} />
+          </div>
+
           <div className="flex justify-between">
             <Button variant="secondary" onClick={handleBack}>
               <ArrowLeft className="w-4 h-4 mr-2" />
@@ -347,7 +510,8 @@ const ReportLostPage: React.FC = () => {
             <div>
               <h2 className="text-lg font-semibold text-gray-900">Set Verification Questions</h2>
               <p className="text-sm text-gray-600 mt-1">
-                Create 3 questions that only the true owner would know. These prevent fraudulent claims.
+                Create {MIN_VERIFICATION_QUESTIONS} to {MAX_VERIFICATION_QUESTIONS} questions that only the true owner would know.
+                These prevent fraudulent claims; specific questions count for more than easily guessed ones.
               </p>
             </div>
           </div>
@@ -364,6 +528,16 @@ const ReportLostPage: React.FC = () => {
                   {index + 1}
                 </span>
                 <span className="font-medium text-gray-700">Question {index + 1}</span>
+                {formData.verification_questions.length > MIN_VERIFICATION_QUESTIONS && (
+                  <button
+                    type="button"
+                    onClick={() => removeQuestion(index)}
+                    className="ml-auto p-1 text-gray-400 hover:text-red-500"
+                    title="Remove question"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
               </div>
 
               <div className="mb-3">
@@ -381,10 +555,10 @@ const ReportLostPage: React.FC = () => {
                         <button
                           key={si}
                           type="button"
-                          onClick={() => updateQuestion(index, 'question', suggestion)}
+                          onClick={() => selectTemplate(index, suggestion.question, suggestion.answer_type)}
                           className="text-xs px-2 py-1 bg-white border border-gray-200 rounded hover:border-primary-300 hover:bg-primary-50"
                         >
-                          {suggestion.substring(0, 40)}...
+                          {suggestion.question.substring(0, 40)}...
                         </button>
                       ))}
                     </div>
@@ -392,22 +566,39 @@ const ReportLostPage: React.FC = () => {
                 )}
               </div>
 
-              <Input
-                value={q.answer}
-                onChange={(e) => updateQuestion(index, 'answer', e.target.value)}
-                placeholder="Your answer (only you should know this)"
-                error={errors[`answer_${index}`]}
-              />
+              <div className="grid gap-3 sm:grid-cols-[1fr_12rem]">
+                <Input
+                  value={q.answer}
+                  onChange={(e) => updateQuestion(index, 'answer', e.target.value)}
+                  placeholder="Your answer (only you should know this)"
+                  error={errors[`answer_${index}`]}
+                />
+                <Select
+                  value={q.answer_type || 'TEXT'}
+                  onChange={(e) => setAnswerType(index, e.target.value as AnswerType)}
+                  options={(Object.keys(ANSWER_TYPES) as AnswerType[]).map(type => ({
+                    value: type, label: ANSWER_TYPES[type].label
+                  }))}
+                  aria-label="Answer type"
+                />
+              </div>
             </div>
           ))}
 
+          {formData.verification_questions.length < MAX_VERIFICATION_QUESTIONS && (
+            <Button variant="secondary" className="w-full mb-6" onClick={addQuestion}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add another question
+            </Button>
+          )}
+
           {/* NOVEL: Verification Strength Analyzer */}
           <VerificationStrengthIndicator
             questions={formData.verification_questions.map(q => q.question)}
             answers={formData.verification_questions.map(q => q.answer)}
             category={formData.category}
             description={formData.description}
-            onSelectTemplate={(index, question) => updateQuestion(index, 'question', question)}
+            onSelectTemplate={selectTemplate}
           />
 
           <Alert type="warning" className="mb-6">
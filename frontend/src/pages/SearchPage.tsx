@@ -2,12 +2,20 @@ import React, { useState, useEffect } from 'react';
 import { Link, useSearchParams } from 'react-router-dom';
 import { 
   Search, Filter, MapPin, Calendar, Smartphone, CreditCard, 
-  Wallet, Briefcase, Key, Package, X, RefreshCw
+  Wallet, Briefcase, Key, Package, X, RefreshCw, Bell
 } from 'lucide-react';
 import { Button, Card, Badge, LoadingSpinner, EmptyState } from '../components/ui';
-import { foundItemsApi, lostItemsApi } from '../services/api';
-import { FoundItem, LostItem, ItemCategory, CATEGORY_INFO, RWANDA_LOCATIONS } from '../types';
-import { format, isValid, parseISO } from 'date-fns';
+import { foundItemsApi, lostItemsApi, savedSearchesApi, searchApi } from '../services/api';
+import {
+  FoundItem, LostItem, ItemCategory, RankedSearchParams, SearchHighlights, SearchSort,
+  ItemFacets, FacetCount, LostItemStatus, FoundItemStatus, UnifiedSearchItem, UnifiedSearchParams,
+  CATEGORY_INFO, RWANDA_LOCATIONS
+} from '../types';
+import HighlightedText from '../components/HighlightedText';
+import { useAuthStore } from '../store/authStore';
+import { addDays, subDays, format, isValid, parseISO } from 'date-fns';
+import { imageUrl } from '../utils/imageUtils';
+import toast from 'react-hot-toast';
 
 // Safe date formatter
 const formatDateShort = (dateString: string | null | undefined): string => {
@@ -21,16 +29,62 @@ const formatDateShort = (dateString: string | null | undefined): string => {
   }
 };
 
+// Ranked search results carry highlights; plain listings do not. The
+// "everything" tab mixes lost and found items, each tagged with its type.
+type ListedItem = (FoundItem | LostItem | UnifiedSearchItem) & { highlights?: SearchHighlights | null };
+type SearchTab = 'found' | 'lost' | 'all';
+
+const TABS: { key: SearchTab; label: string }[] = [
+  { key: 'found', label: 'Found Items' },
+  { key: 'lost', label: 'Lost Items' },
+  { key: 'all', label: 'Everything' },
+];
+
+const SORT_LABELS: Record<SearchSort, string> = {
+  relevance: 'Most relevant',
+  newest: 'Newest',
+  closest: 'Closest to location',
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  ACTIVE: 'Still lost',
+  UNCLAIMED: 'Unclaimed',
+  CLAIMED: 'Claimed',
+  MATCHED: 'Matched',
+  RETURNED: 'Returned',
+  EXPIRED: 'Expired',
+};
+
+// Without a status filter the listings only show open items
+const DEFAULT_STATUS = { found: FoundItemStatus.UNCLAIMED, lost: LostItemStatus.ACTIVE };
+
+// " (4)" after a filter option; nothing until facets have loaded
+const countLabel = (count: number | undefined): string =>
+  count === undefined ? '' : ` (${count})`;
+
+const facetCount = (counts: FacetCount[] | undefined, value: string): number | undefined =>
+  counts ? counts.find((c) => c.value === value)?.count ?? 0 : undefined;
+
+// Locations filter by substring, so "Remera" also counts "Remera Taxi Park"
+const areaCount = (counts: FacetCount[] | undefined, location: string): number | undefined =>
+  counts
+    ? counts.filter((c) => c.value.includes(location.toLowerCase())).reduce((sum, c) => sum + c.count, 0)
+    : undefined;
+
 const SearchPage: React.FC = () => {
   const [searchParams, setSearchParams] = useSearchParams();
-  const [activeTab, setActiveTab] = useState<'found' | 'lost'>(
-    (searchParams.get('type') as 'found' | 'lost') || 'found'
+  const [activeTab, setActiveTab] = useState<SearchTab>(
+    (searchParams.get('type') as SearchTab) || 'found'
   );
-  const [items, setItems] = useState<(FoundItem | LostItem)[]>([]);
+  const [items, setItems] = useState<ListedItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showFilters, setShowFilters] = useState(false);
   const [pagination, setPagination] = useState({ page: 1, total: 0, totalPages: 1 });
+  const [watching, setWatching] = useState(false);
+  const [facets, setFacets] = useState<ItemFacets | null>(null);
+  const { isAuthenticated } = useAuthStore();
+  const requestedSort = (searchParams.get('sort') as SearchSort) || 'relevance';
 
   // Filter states
   const [filters, setFilters] = useState({
@@ -39,8 +93,13 @@ const SearchPage: React.FC = () => {
     location_area: searchParams.get('location') || '',
     date_from: searchParams.get('date_from') || '',
     date_to: searchParams.get('date_to') || '',
+    status: searchParams.get('status') || '',
   });
 
+  const isRanked = (searchParams.get('keyword') || '').trim().length >= 2;
+  // Distance needs a location to measure from
+  const sort: SearchSort = requestedSort === 'closest' && !filters.location_area ? 'relevance' : requestedSort;
+
   useEffect(() => {
     loadItems();
   }, [activeTab, searchParams]);
@@ -50,20 +109,57 @@ const SearchPage: React.FC = () => {
     setError(null);
     try {
       const params: Record<string, string> = {};
-      if (filters.keyword) params.keyword = filters.keyword;
       if (filters.category) params.category = filters.category;
-      if (filters.location_area) params.location_area = filters.location_area;
       if (filters.date_from) params.date_from = filters.date_from;
       if (filters.date_to) params.date_to = filters.date_to;
+      if (filters.status) params.status = filters.status;
       params.page = searchParams.get('page') || '1';
       params.limit = '12';
 
-      const response = activeTab === 'found'
-        ? await foundItemsApi.getAll(params)
-        : await lostItemsApi.getAll(params);
+      let response;
+      if (activeTab === 'all') {
+        // Both tables at once; a location means "near here" (same or
+        // adjacent areas), closest first unless a query ranks by relevance
+        const unifiedParams: UnifiedSearchParams = {
+          ...params,
+          category: (filters.category || undefined) as ItemCategory | undefined,
+        };
+        if (isRanked) {
+          unifiedParams.q = filters.keyword.trim();
+          unifiedParams.sort = sort;
+        }
+        if (filters.location_area) {
+          unifiedParams.near = filters.location_area;
+          unifiedParams.max_distance = 1;
+        }
+        response = await searchApi.searchAll(unifiedParams);
+      } else if (isRanked) {
+        // Free text goes through ranked search; "closest" orders by distance
+        // from the chosen location instead of filtering to it
+        const searchParamsData: RankedSearchParams = {
+          ...params,
+          category: (filters.category || undefined) as ItemCategory | undefined,
+          q: filters.keyword.trim(),
+          sort,
+          facets: true,
+        };
+        if (filters.location_area) {
+          if (sort === 'closest') searchParamsData.near = filters.location_area;
+          else searchParamsData.location_area = filters.location_area;
+        }
+        response = activeTab === 'found'
+          ? await foundItemsApi.search(searchParamsData)
+          : await lostItemsApi.search(searchParamsData);
+      } else {
+        if (filters.location_area) params.location_area = filters.location_area;
+        response = activeTab === 'found'
+          ? await foundItemsApi.getAll({ ...params, facets: true })
+          : await lostItemsApi.getAll({ ...params, facets: true });
+      }
 
       setItems(response.data.data || []);
       setPagination(response.data.pagination || { page: 1, total: 0, totalPages: 1 });
+      setFacets('facets' in response.data ? response.data.facets || null : null);
     } catch (err: any) {
       console.error('Failed to load items:', err);
       setError('Failed to load items. Please try again.');
@@ -82,14 +178,26 @@ const SearchPage: React.FC = () => {
     if (filters.location_area) params.set('location', filters.location_area);
     if (filters.date_from) params.set('date_from', filters.date_from);
     if (filters.date_to) params.set('date_to', filters.date_to);
+    if (filters.status) params.set('status', filters.status);
+    if (searchParams.get('sort')) params.set('sort', searchParams.get('sort')!);
+    setSearchParams(params);
+  };
+
+  const handleSortChange = (value: SearchSort) => {
+    const params = new URLSearchParams(searchParams);
+    params.set('sort', value);
+    params.delete('page');
     setSearchParams(params);
   };
 
-  const handleTabChange = (tab: 'found' | 'lost') => {
+  const handleTabChange = (tab: SearchTab) => {
     setActiveTab(tab);
+    // Lost and found items have different statuses
+    setFilters({ ...filters, status: '' });
     const params = new URLSearchParams(searchParams);
     params.set('type', tab);
     params.delete('page');
+    params.delete('status');
     setSearchParams(params);
   };
 
@@ -100,6 +208,7 @@ const SearchPage: React.FC = () => {
       location_area: '',
       date_from: '',
       date_to: '',
+      status: '',
     });
     setSearchParams({ type: activeTab });
   };
@@ -111,15 +220,62 @@ const SearchPage: React.FC = () => {
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
-  const hasActiveFilters = filters.keyword || filters.category || filters.location_area || filters.date_from || filters.date_to;
+  const hasActiveFilters = filters.keyword || filters.category || filters.location_area || filters.date_from
+    || filters.date_to || filters.status;
+
+  // Pick one week from the histogram as the date range
+  const selectWeek = (week: string) => {
+    setFilters({ ...filters, date_from: week, date_to: format(addDays(parseISO(week), 6), 'yyyy-MM-dd') });
+  };
+  const maxWeekly = Math.max(1, ...(facets?.date || []).map((w) => w.count));
+
+  const showThisWeek = () => {
+    setFilters({ ...filters, date_from: format(subDays(new Date(), 6), 'yyyy-MM-dd'), date_to: '' });
+  };
+  const canWatch = isAuthenticated && activeTab === 'found'
+    && !!(filters.keyword.trim() || filters.category || filters.location_area);
+
+  // Save the current found-item filters as a standing watch (managed in Settings)
+  const handleWatch = async () => {
+    const name = [
+      filters.category && CATEGORY_INFO[filters.category as ItemCategory]?.label,
+      filters.keyword.trim() && `"${filters.keyword.trim()}"`,
+      filters.location_area && `in ${filters.location_area}`,
+    ].filter(Boolean).join(' ').slice(0, 100);
+
+    setWatching(true);
+    try {
+      await savedSearchesApi.create({
+        name,
+        category: (filters.category || null) as ItemCategory | null,
+        location_area: filters.location_area || null,
+        keyword: filters.keyword.trim() || null,
+        date_from: filters.date_from || null,
+        date_to: filters.date_to || null,
+        channel: 'EMAIL',
+      });
+      toast.success('Watch saved. We will email you when a matching item is found.');
+    } catch (error: any) {
+      toast.error(error.response?.data?.message || 'Failed to save watch');
+    } finally {
+      setWatching(false);
+    }
+  };
+
+  const getItemType = (item: ListedItem): 'found' | 'lost' =>
+    'item_type' in item ? item.item_type : activeTab === 'lost' ? 'lost' : 'found';
 
-  const getItemDate = (item: FoundItem | LostItem): string => {
-    if (activeTab === 'found') {
+  const getItemDate = (item: ListedItem): string => {
+    if ('item_date' in item) return item.item_date || '';
+    if (getItemType(item) === 'found') {
       return (item as FoundItem).found_date || '';
     }
     return (item as LostItem).lost_date || '';
   };
 
+  const getItemImage = (item: ListedItem): string | null =>
+    'image_urls' in item && item.image_urls && item.image_urls.length > 0 ? imageUrl(item.image_urls[0], 'thumb') : null;
+
   return (
     <div className="max-w-7xl mx-auto px-4 py-6 sm:py-8">
       {/* Header */}
@@ -130,26 +286,19 @@ const SearchPage: React.FC = () => {
 
       {/* Tabs */}
       <div className="flex border-b border-gray-200 mb-6">
-        <button
-          onClick={() => handleTabChange('found')}
-          className={`flex-1 sm:flex-none px-4 sm:px-6 py-3 text-sm font-medium border-b-2 transition-colors ${
-            activeTab === 'found'
-              ? 'border-primary-500 text-primary-600'
-              : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
-          }`}
-        >
-          Found Items
-        </button>
-        <button
-          onClick={() => handleTabChange('lost')}
-          className={`flex-1 sm:flex-none px-4 sm:px-6 py-3 text-sm font-medium border-b-2 transition-colors ${
-            activeTab === 'lost'
-              ? 'border-primary-500 text-primary-600'
-              : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
-          }`}
-        >
-          Lost Items
-        </button>
+        {TABS.map((tab) => (
+          <button
+            key={tab.key}
+            onClick={() => handleTabChange(tab.key)}
+            className={`flex-1 sm:flex-none px-4 sm:px-6 py-3 text-sm font-medium border-b-2 transition-colors ${
+              activeTab === tab.key
+                ? 'border-primary-500 text-primary-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
       </div>
 
       {/* Search Bar */}
@@ -188,7 +337,7 @@ const SearchPage: React.FC = () => {
 
           {/* Filters Panel */}
           {showFilters && (
-            <div className="mt-4 pt-4 border-t border-gray-200 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className="mt-4 pt-4 border-t border-gray-200 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
                 <select
@@ -199,14 +348,16 @@ const SearchPage: React.FC = () => {
                   <option value="">All Categories</option>
                   {Object.entries(CATEGORY_INFO).map(([key, info]) => (
                     <option key={key} value={key}>
-                      {info.label}
+                      {info.label}{countLabel(facetCount(facets?.category, key))}
                     </option>
                   ))}
                 </select>
               </div>
 
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Location</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {activeTab === 'all' ? 'Near' : 'Location'}
+                </label>
                 <select
                   value={filters.location_area}
                   onChange={(e) => setFilters({ ...filters, location_area: e.target.value })}
@@ -214,13 +365,38 @@ const SearchPage: React.FC = () => {
                 >
                   <option value="">All Locations</option>
                   {RWANDA_LOCATIONS.map((loc) => (
-                    <option key={loc} value={loc}>{loc}</option>
+                    <option key={loc} value={loc}>{loc}{countLabel(areaCount(facets?.location_area, loc))}</option>
                   ))}
                 </select>
               </div>
 
+              {activeTab !== 'all' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+                  <select
+                    value={filters.status || DEFAULT_STATUS[activeTab]}
+                    onChange={(e) => setFilters({
+                      ...filters,
+                      status: e.target.value === DEFAULT_STATUS[activeTab] ? '' : e.target.value,
+                    })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+                  >
+                    {Object.values(activeTab === 'found' ? FoundItemStatus : LostItemStatus).map((status) => (
+                      <option key={status} value={status}>
+                        {STATUS_LABELS[status] || status}{countLabel(facetCount(facets?.status, status))}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Date From</label>
+                <div className="flex items-center justify-between mb-1">
+                  <label className="block text-sm font-medium text-gray-700">Date From</label>
+                  <button type="button" onClick={showThisWeek} className="text-xs text-primary-600 hover:underline">
+                    This week
+                  </button>
+                </div>
                 <input
                   type="date"
                   value={filters.date_from}
@@ -239,8 +415,37 @@ const SearchPage: React.FC = () => {
                 />
               </div>
 
+              {facets && facets.date.length > 0 && (
+                <div className="sm:col-span-2 lg:col-span-5">
+                  <p className="text-sm font-medium text-gray-700 mb-1">
+                    {activeTab === 'found' ? 'Found' : 'Lost'} per week
+                  </p>
+                  <div className="flex items-end gap-1 h-12">
+                    {facets.date.map((week) => (
+                      <button
+                        key={week.value}
+                        type="button"
+                        onClick={() => selectWeek(week.value)}
+                        className={`flex-1 rounded-sm transition-colors ${
+                          filters.date_from === week.value ? 'bg-primary-500' : 'bg-primary-200 hover:bg-primary-300'
+                        }`}
+                        style={{ height: `${Math.max(8, (week.count / maxWeekly) * 100)}%` }}
+                        title={`Week of ${formatDateShort(week.value)}: ${week.count} items`}
+                        aria-label={`Week of ${formatDateShort(week.value)}: ${week.count} items`}
+                      />
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {hasActiveFilters && (
-                <div className="sm:col-span-2 lg:col-span-4 flex justify-end">
+                <div className="sm:col-span-2 lg:col-span-5 flex justify-end gap-2">
+                  {canWatch && (
+                    <Button type="button" variant="outline" size="sm" onClick={handleWatch} loading={watching}>
+                      <Bell className="w-4 h-4 mr-1" />
+                      Watch This Search
+                    </Button>
+                  )}
                   <Button type="button" variant="secondary" size="sm" onClick={clearFilters}>
                     <X className="w-4 h-4 mr-1" />
                     Clear Filters
@@ -271,7 +476,7 @@ const SearchPage: React.FC = () => {
           title="No items found"
           description={hasActiveFilters 
             ? "Try adjusting your filters or search terms" 
-            : `No ${activeTab} items have been reported yet`
+            : `No ${activeTab === 'all' ? '' : `${activeTab} `}items have been reported yet`
           }
           action={
             hasActiveFilters ? (
@@ -288,27 +493,44 @@ const SearchPage: React.FC = () => {
       ) : (
         <>
           {/* Results Count */}
-          <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center justify-between gap-3 mb-4">
             <p className="text-gray-600">
               Showing <span className="font-medium">{items.length}</span> of{' '}
-              <span className="font-medium">{pagination.total}</span> items
+              <span className="font-medium">{pagination.total}</span>{' '}
+              {activeTab === 'all' ? 'lost and found items' : 'items'}
+              {activeTab === 'all' && filters.location_area && <> near {filters.location_area}</>}
+              {activeTab === 'all' && filters.date_from && <> since {formatDateShort(filters.date_from)}</>}
             </p>
+            {isRanked && (
+              <select
+                value={sort}
+                onChange={(e) => handleSortChange(e.target.value as SearchSort)}
+                className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+                aria-label="Sort results"
+              >
+                {Object.entries(SORT_LABELS).map(([key, label]) => (
+                  <option key={key} value={key} disabled={key === 'closest' && !filters.location_area}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            )}
           </div>
 
           {/* Items Grid */}
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 sm:gap-6">
             {items.map((item) => (
               <Link
-                key={item.id}
-                to={`/${activeTab === 'found' ? 'found' : 'lost'}-items/${item.id}`}
+                key={`${getItemType(item)}-${item.id}`}
+                to={`/${getItemType(item)}-items/${item.id}`}
                 className="block"
               >
                 <Card className="h-full hover:shadow-lg transition-shadow overflow-hidden">
                   {/* Image */}
                   <div className="aspect-video bg-gray-100 relative">
-                    {activeTab === 'found' && (item as FoundItem).image_urls && (item as FoundItem).image_urls.length > 0 ? (
+                    {getItemImage(item) ? (
                       <img
-                        src={(item as FoundItem).image_urls[0]}
+                        src={getItemImage(item)!}
                         alt={item.title}
                         className="w-full h-full object-cover"
                         onError={(e) => {
@@ -323,8 +545,8 @@ const SearchPage: React.FC = () => {
                       </div>
                     )}
                     <div className="absolute top-2 left-2">
-                      <Badge variant={activeTab === 'found' ? 'verified' : 'pending'}>
-                        {activeTab === 'found' ? 'Found' : 'Lost'}
+                      <Badge variant={getItemType(item) === 'found' ? 'verified' : 'pending'}>
+                        {getItemType(item) === 'found' ? 'Found' : 'Lost'}
                       </Badge>
                     </div>
                   </div>
@@ -333,7 +555,7 @@ const SearchPage: React.FC = () => {
                   <div className="p-4">
                     <div className="flex items-start justify-between gap-2 mb-2">
                       <h3 className="font-semibold text-gray-900 line-clamp-1 flex-1">
-                        {item.title}
+                        {item.highlights ? <HighlightedText text={item.highlights.title} /> : item.title}
                       </h3>
                       <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium flex-shrink-0 ${
                         CATEGORY_INFO[item.category as ItemCategory]?.color || 'bg-gray-100 text-gray-800'
@@ -343,7 +565,9 @@ const SearchPage: React.FC = () => {
                     </div>
                     
                     <p className="text-sm text-gray-600 mb-3 line-clamp-2">
-                      {item.description}
+                      {item.highlights?.description
+                        ? <HighlightedText text={item.highlights.description} />
+                        : item.description}
                     </p>
                     
                     <div className="flex flex-wrap items-center gap-3 text-sm text-gray-500">
@@ -357,7 +581,7 @@ const SearchPage: React.FC = () => {
                       </span>
                     </div>
 
-                    {activeTab === 'found' && (item as FoundItem).source === 'COOPERATIVE' && (
+                    {getItemType(item) === 'found' && (item as FoundItem).source === 'COOPERATIVE' && (
                       <div className="mt-3 pt-3 border-t border-gray-100">
                         <span className="text-xs text-trust-600 font-medium">
                           🚌 Held at cooperative
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { User, Mail, Phone, Shield, Save, Key, Bell } from 'lucide-react';
 import { Button, Card, Input, Alert, Badge } from '../components/ui';
 import { authApi } from '../services/api';
+import SavedSearchesPanel from '../components/SavedSearchesPanel';
 import { useAuthStore } from '../store/authStore';
 import toast from 'react-hot-toast';
 
@@ -96,6 +97,7 @@ const SettingsPage: React.FC = () => {
   const tabs = [
     { id: 'profile', label: 'Profile', icon: User },
     { id: 'security', label: 'Security', icon: Shield },
+    { id: 'watches', label: 'Watches', icon: Bell },
   ];
 
   return (
@@ -302,6 +304,8 @@ const SettingsPage: React.FC = () => {
               </Card>
             </div>
           )}
+
+          {activeTab === 'watches' && <SavedSearchesPanel />}
         </div>
       </div>
     </div>
@@ -1,6 +1,9 @@
 import axios, { AxiosInstance, AxiosError, InternalAxiosRequestConfig, AxiosResponse } from 'axios';
 import { useAuthStore } from '../store/authStore';
-import { User, LostItem, FoundItem, Claim, Message, Cooperative, MessageThread } from '../types';
+import { User, LostItem, FoundItem, Claim, Message, Cooperative, CooperativeRoute, CooperativeVehicle, MessageThread, Match, MatchFeedbackVerdict,
+         SavedSearch, SavedSearchForm, SavedSearchHit, RankedSearchParams, RankedItem, ItemFacets,
+         UnifiedSearchParams, UnifiedSearchItem, LossIncident, ImageUploadResult, CustodyChain, CustodyTransfer, AnswerType,
+         VerificationCooldownStatus, ClaimQueue } from '../types';
 
 // ============================================
 // CONFIGURATION
@@ -29,9 +32,13 @@ interface PaginatedResponse<T> {
     limit: number;
     total: number;
     totalPages: number;
+    nextCursor?: string | null;
   };
 }
 
+// Listings and searches add filter counts when asked with facets=true
+type FacetedResponse<T> = PaginatedResponse<T> & { facets?: ItemFacets };
+
 interface AuthTokens {
   accessToken: string;
   refreshToken: string;
@@ -221,9 +228,23 @@ export interface CreateLostItemData {
   location_area: string;
   location_hint?: string;
   lost_date: string;
+  lost_window_start?: string;
+  lost_window_end?: string;
   verification_questions: Array<{ question: string; answer: string }>;
 }
 
+// One loss, several items: where and when are shared
+export interface CreateLossIncidentData {
+  title: string;
+  description?: string;
+  location_area: string;
+  location_hint?: string;
+  lost_date: string;
+  lost_window_start?: string;
+  lost_window_end?: string;
+  items: Array<Pick<CreateLostItemData, 'category' | 'title' | 'description' | 'verification_questions'>>;
+}
+
 export interface UpdateLostItemData {
   title?: string;
   description?: string;
@@ -236,8 +257,11 @@ export const lostItemsApi = {
   create: (data: CreateLostItemData) =>
     api.post<ApiResponse<LostItem>>('/lost-items', data),
 
-  getAll: (params?: { page?: number; limit?: number; category?: string; location_area?: string; keyword?: string }) =>
-    api.get<PaginatedResponse<LostItem>>('/lost-items', { params }),
+  getAll: (params?: { page?: number; limit?: number; cursor?: string; category?: string; location_area?: string; keyword?: string; status?: string; facets?: boolean }) =>
+    api.get<FacetedResponse<LostItem>>('/lost-items', { params }),
+
+  search: (params: RankedSearchParams) =>
+    api.get<FacetedResponse<RankedItem<LostItem>>>('/lost-items/search', { params }),
 
   getById: (id: number) =>
     api.get<ApiResponse<LostItem>>(`/lost-items/${id}`),
@@ -248,10 +272,26 @@ export const lostItemsApi = {
   delete: (id: number) =>
     api.delete<ApiResponse>(`/lost-items/${id}`),
 
+  uploadImages: (id: number, files: FileList | File[]) => {
+    const formData = new FormData();
+    Array.from(files).forEach((file) => {
+      formData.append('images', file);
+    });
+    return api.post<ApiResponse<ImageUploadResult>>(`/lost-items/${id}/images`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+  },
+
   getMatches: (id: number) =>
-    api.get<ApiResponse<Array<{ found_item: FoundItem; score: number; explanation: string[] }>>>(`/lost-items/${id}/matches`),
+    api.get<ApiResponse<Array<Match & { found_item: FoundItem }>>>(`/lost-items/${id}/matches`),
 
-  getMine: (params?: { page?: number; limit?: number }) =>
+  sendMatchFeedback: (id: number, foundItemId: number, verdict: MatchFeedbackVerdict, reason?: string) =>
+    api.post<ApiResponse>(`/lost-items/${id}/matches/${foundItemId}/feedback`, { verdict, reason }),
+
+  removeMatchFeedback: (id: number, foundItemId: number) =>
+    api.delete<ApiResponse>(`/lost-items/${id}/matches/${foundItemId}/feedback`),
+
+  getMine: (params?: { page?: number; limit?: number; cursor?: string }) =>
     api.get<PaginatedResponse<LostItem>>('/users/me/lost-items', { params }),
 };
 
@@ -266,7 +306,10 @@ export interface CreateFoundItemData {
   location_area: string;
   location_hint?: string;
   found_date: string;
+  found_window_start?: string;
+  found_window_end?: string;
   cooperative_id?: number;
+  hidden_attributes?: Record<string, string>;
 }
 
 export interface UpdateFoundItemData {
@@ -281,8 +324,11 @@ export const foundItemsApi = {
   create: (data: CreateFoundItemData) =>
     api.post<ApiResponse<FoundItem>>('/found-items', data),
 
-  getAll: (params?: { page?: number; limit?: number; category?: string; location_area?: string; keyword?: string }) =>
-    api.get<PaginatedResponse<FoundItem>>('/found-items', { params }),
+  getAll: (params?: { page?: number; limit?: number; cursor?: string; category?: string; location_area?: string; keyword?: string; status?: string; facets?: boolean }) =>
+    api.get<FacetedResponse<FoundItem>>('/found-items', { params }),
+
+  search: (params: RankedSearchParams) =>
+    api.get<FacetedResponse<RankedItem<FoundItem>>>('/found-items/search', { params }),
 
   getById: (id: number) =>
     api.get<ApiResponse<FoundItem>>(`/found-items/${id}`),
@@ -293,24 +339,84 @@ export const foundItemsApi = {
   delete: (id: number) =>
     api.delete<ApiResponse>(`/found-items/${id}`),
 
+  setHiddenAttributes: (id: number, values: Record<string, string>) =>
+    api.put<ApiResponse<{ hidden_attributes: string[] }>>(`/found-items/${id}/hidden-attributes`, { hidden_attributes: values }),
+
   uploadImages: (id: number, files: FileList | File[]) => {
     const formData = new FormData();
     Array.from(files).forEach((file) => {
       formData.append('images', file);
     });
-    return api.post<ApiResponse<{ image_urls: string[] }>>(`/found-items/${id}/images`, formData, {
+    return api.post<ApiResponse<ImageUploadResult>>(`/found-items/${id}/images`, formData, {
       headers: { 'Content-Type': 'multipart/form-data' },
       timeout: 60000,
     });
   },
 
   getMatches: (id: number) =>
-    api.get<ApiResponse<Array<{ lost_item: LostItem; score: number; explanation: string[] }>>>(`/found-items/${id}/matches`),
+    api.get<ApiResponse<Array<Match & { lost_item: LostItem }>>>(`/found-items/${id}/matches`),
+
+  getClaimQueue: (id: number) =>
+    api.get<ApiResponse<ClaimQueue>>(`/found-items/${id}/claims`),
 
-  getMine: (params?: { page?: number; limit?: number }) =>
+  sendMatchFeedback: (id: number, lostItemId: number, verdict: MatchFeedbackVerdict, reason?: string) =>
+    api.post<ApiResponse>(`/found-items/${id}/matches/${lostItemId}/feedback`, { verdict, reason }),
+
+  removeMatchFeedback: (id: number, lostItemId: number) =>
+    api.delete<ApiResponse>(`/found-items/${id}/matches/${lostItemId}/feedback`),
+
+  getMine: (params?: { page?: number; limit?: number; cursor?: string }) =>
     api.get<PaginatedResponse<FoundItem>>('/users/me/found-items', { params }),
 };
 
+// ============================================
+// SEARCH API (lost and found together)
+// ============================================
+
+export const searchApi = {
+  searchAll: (params: UnifiedSearchParams) =>
+    api.get<PaginatedResponse<UnifiedSearchItem>>('/search', { params }),
+};
+
+// ============================================
+// SAVED SEARCHES API
+// ============================================
+
+export const savedSearchesApi = {
+  getAll: () =>
+    api.get<ApiResponse<SavedSearch[]>>('/users/me/saved-searches'),
+
+  create: (data: SavedSearchForm) =>
+    api.post<ApiResponse<SavedSearch>>('/users/me/saved-searches', data),
+
+  update: (id: number, data: Partial<SavedSearchForm> & { is_active?: boolean }) =>
+    api.patch<ApiResponse<SavedSearch>>(`/users/me/saved-searches/${id}`, data),
+
+  delete: (id: number) =>
+    api.delete<ApiResponse<null>>(`/users/me/saved-searches/${id}`),
+
+  getHits: (id: number) =>
+    api.get<ApiResponse<SavedSearchHit[]>>(`/users/me/saved-searches/${id}/hits`),
+};
+
+// ============================================
+// LOSS INCIDENTS API
+// ============================================
+
+export const lossIncidentsApi = {
+  create: (data: CreateLossIncidentData) =>
+    api.post<ApiResponse<LossIncident>>('/loss-incidents', data),
+
+  getById: (id: number) =>
+    api.get<ApiResponse<LossIncident>>(`/loss-incidents/${id}`),
+
+  getMine: () =>
+    api.get<ApiResponse<LossIncident[]>>('/users/me/loss-incidents'),
+
+  markRecovered: (id: number, itemIds: number[]) =>
+    api.post<ApiResponse<{ recovered: number[]; open_items: number }>>(`/loss-incidents/${id}/recovered`, { item_ids: itemIds }),
+};
+
 // ============================================
 // DUPLICATE DETECTION API (FIX #9 - was missing)
 // ============================================
@@ -361,20 +467,42 @@ export const claimsApi = {
     api.get<ApiResponse<Claim>>(`/claims/${id}`),
 
   getQuestions: (claimId: number) =>
-    api.get<ApiResponse<{ claim_id: number; questions: string[]; attempts_remaining: number }>>(`/claims/${claimId}/questions`),
-
-  verify: (claimId: number, answers: string[]) =>
-    api.post<ApiResponse<{ verified: boolean; correct_count: number; attempts_remaining: number }>>(`/claims/${claimId}/verify`, { answers }),
+    api.get<ApiResponse<{
+      claim_id: number;
+      questions: string[];
+      // In step with questions
+      answer_types: AnswerType[];
+      item_questions: Array<{ key: string; question: string; answer_type: AnswerType }>;
+      attempts_remaining: number;
+    }>>(`/claims/${claimId}/questions`),
+
+  verify: (claimId: number, answers: string[], itemAnswers?: Record<string, string>) =>
+    api.post<ApiResponse<{
+      passed: boolean;
+      score: number;
+      questions_asked: number;
+      weighted_score: number;
+      // Whether the finder's details matched, never how many
+      item_check_passed: boolean;
+      attempts_remaining: number;
+      // Set after a failure: no new attempt before then
+      cooldown_until: string | null;
+      // DISPUTED when another claim on the item was verified first
+      status: 'PENDING' | 'VERIFIED' | 'DISPUTED';
+      dispute_id?: number;
+      message: string;
+      found_item_image_urls?: string[];
+    }>>(`/claims/${claimId}/verify`, { answers, item_answers: itemAnswers }),
 
   cancel: (claimId: number) =>
     api.post<ApiResponse>(`/claims/${claimId}/cancel`),
 
-  getMine: (params?: { page?: number; limit?: number; status?: string }) =>
+  getMine: (params?: { page?: number; limit?: number; cursor?: string; status?: string }) =>
     api.get<PaginatedResponse<Claim>>('/users/me/claims', { params }),
 
   // FIX #11 - Verification cooldown status
   getVerificationStatus: (claimId: number) =>
-    api.get<ApiResponse>(`/claims/${claimId}/verification/status`),
+    api.get<ApiResponse<VerificationCooldownStatus>>(`/claims/${claimId}/verification/status`),
 };
 
 // ============================================
@@ -432,7 +560,7 @@ export const disputeApi = {
 // ============================================
 
 export const messagesApi = {
-  getThreads: (params?: { page?: number; limit?: number }) =>
+  getThreads: (params?: { page?: number; limit?: number; cursor?: string }) =>
     api.get<PaginatedResponse<MessageThread>>('/messages/threads', { params }),
 
   getMessages: (claimId: number, params?: { page?: number; limit?: number }) =>
@@ -467,6 +595,36 @@ export const cooperativesApi = {
       stats: { total_items: number; pending_claims: number; returned_items: number; active_staff: number };
       recent_items: FoundItem[];
     }>>('/cooperative/dashboard'),
+
+  getRoutes: (id: number, includeInactive?: boolean) =>
+    api.get<ApiResponse<CooperativeRoute[]>>(`/cooperatives/${id}/routes`, {
+      params: includeInactive ? { include_inactive: true } : undefined,
+    }),
+
+  createRoute: (id: number, data: { name: string; stops: string[] }) =>
+    api.post<ApiResponse<CooperativeRoute>>(`/cooperatives/${id}/routes`, data),
+
+  setRouteActive: (id: number, routeId: number, isActive: boolean) =>
+    api.patch<ApiResponse<null>>(`/cooperatives/${id}/routes/${routeId}`, { is_active: isActive }),
+
+  getVehicles: (id: number, includeInactive?: boolean) =>
+    api.get<ApiResponse<CooperativeVehicle[]>>(`/cooperatives/${id}/vehicles`, {
+      params: includeInactive ? { include_inactive: true } : undefined,
+    }),
+
+  createVehicle: (id: number, data: { plate_number: string; route_id?: number; description?: string }) =>
+    api.post<ApiResponse<CooperativeVehicle>>(`/cooperatives/${id}/vehicles`, data),
+
+  setVehicleActive: (id: number, vehicleId: number, isActive: boolean) =>
+    api.patch<ApiResponse<null>>(`/cooperatives/${id}/vehicles/${vehicleId}`, { is_active: isActive }),
+
+  getCustodyChain: (id: number, itemId: number) =>
+    api.get<ApiResponse<CustodyChain>>(`/cooperatives/${id}/items/${itemId}/custody`),
+
+  recordCustodyTransfer: (id: number, itemId: number, data: {
+    to_holder: string; location: string; notes?: string; transferred_at?: string;
+  }) =>
+    api.post<ApiResponse<CustodyTransfer>>(`/cooperatives/${id}/items/${itemId}/custody`, data),
 };
 
 // ============================================
@@ -483,6 +641,47 @@ export interface AdminStats {
   pending_scam_reports: number;
 }
 
+export interface MatchPrecisionRow {
+  positive: number;
+  negative: number;
+  precision: number | null;
+}
+
+export interface MatchPrecisionStats {
+  days: number;
+  overall: MatchPrecisionRow;
+  by_category: Array<MatchPrecisionRow & { category: string }>;
+  by_profile_version: Array<MatchPrecisionRow & { category: string; profile_version: number }>;
+  by_score_band: Array<MatchPrecisionRow & { score_band: string }>;
+  by_role: Array<MatchPrecisionRow & { role: 'owner' | 'finder' }>;
+}
+
+export interface SearchHotSpot {
+  area: string;
+  category: string | null;
+  searches: number;
+  zero_result_searches: number;
+  lost_reports: number;
+  found_reports: number;
+  searches_per_found_item: number;
+}
+
+export interface SearchAnalytics {
+  days: number;
+  item_type: 'LOST' | 'FOUND' | null;
+  totals: {
+    searches: number;
+    zero_result_searches: number;
+    unique_queries: number;
+    searching_users: number;
+    zero_result_rate: number | null;
+  };
+  top_queries: Array<{ query: string; searches: number; avg_results: number; zero_result_searches: number }>;
+  zero_result_queries: Array<{ query: string; searches: number; last_searched_at: string }>;
+  hot_spots: SearchHotSpot[];
+  timeline: Array<{ week: string; area: string; category: string | null; searches: number; zero_result_searches: number }>;
+}
+
 // FIX #7: Status uses 'OPEN' not 'PENDING' to match backend
 export interface ScamReport {
   id: number;
@@ -537,12 +736,18 @@ export const adminApi = {
   resolveScamReport: (reportId: number, data: { resolution_notes: string; action: 'dismiss' | 'warn' | 'ban' }) =>
     api.post<ApiResponse>(`/admin/scam-reports/${reportId}/resolve`, data),
 
-  getAuditLogs: (params?: { page?: number; limit?: number; action?: string; resourceType?: string; actorId?: number }) =>
+  getAuditLogs: (params?: { page?: number; limit?: number; cursor?: string; action?: string; resourceType?: string; actorId?: number }) =>
     api.get<PaginatedResponse<AuditLog>>('/admin/audit-logs', { params }),
 
   triggerCleanup: () =>
     api.post<ApiResponse<{ message: string }>>('/admin/cleanup'),
 
+  getMatchFeedbackStats: (params?: { days?: number }) =>
+    api.get<ApiResponse<MatchPrecisionStats>>('/admin/matching/feedback', { params }),
+
+  getSearchAnalytics: (params?: { days?: number; type?: 'lost' | 'found' }) =>
+    api.get<ApiResponse<SearchAnalytics>>('/admin/analytics/search', { params }),
+
   // Admin dispute endpoints
   getDisputes: (params?: { page?: number; limit?: number; status?: string }) =>
     api.get<PaginatedResponse<any>>('/admin/disputes', { params }),
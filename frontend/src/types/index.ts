@@ -66,9 +66,17 @@ export interface LostItem {
   location_area: string;
   location_hint?: string;
   lost_date: string;
+  lost_window_start?: string | null;
+  lost_window_end?: string | null;
+  route_name?: string | null;
+  vehicle_plate?: string | null;
+  stop_sequence?: string[] | null;
   status: LostItemStatus;
   keywords?: string[];
   photo_url?: string;
+  // Uploaded photos: only returned to the owner
+  image_urls?: string[];
+  incident_id?: number | null;
   created_at: string;
   user_name?: string;
   verification_questions?: string[];
@@ -87,14 +95,46 @@ export interface FoundItem {
   location_area: string;
   location_hint?: string;
   found_date: string;
+  found_window_start?: string | null;
+  found_window_end?: string | null;
+  route_name?: string | null;
+  vehicle_plate?: string | null;
+  stop_sequence?: string[] | null;
   status: FoundItemStatus;
   source: 'CITIZEN' | 'COOPERATIVE';
   image_urls: string[];
+  // Set when image_urls are previews with the text pixelated (IDs, wallets)
+  images_redacted?: boolean;
   keywords?: string[];
   created_at: string;
   finder_name?: string;
   cooperative_name?: string;
   claim_count?: number;
+  // Latest custody transfer of a cooperative-held item (holder: staff only)
+  current_holder?: string | null;
+  current_location?: string | null;
+  // Keys of the hidden attributes the finder recorded (finder/admin only)
+  hidden_attributes?: string[];
+}
+
+// Custody chain of a cooperative-held found item
+export interface CustodyTransfer {
+  id: number;
+  found_item_id: number;
+  from_holder: string | null;
+  to_holder: string;
+  location: string;
+  notes: string | null;
+  transferred_at: string;
+  recorded_by: number;
+  recorded_by_name: string;
+  signature: string;
+  created_at: string;
+}
+
+export interface CustodyChain {
+  transfers: CustodyTransfer[];
+  intact: boolean;
 }
 
 // Claim — FIX: Added finder_id which backend returns
@@ -111,20 +151,56 @@ export interface Claim {
   updated_at?: string;
   lost_item_title?: string;
   found_item_title?: string;
+  found_item_image_urls?: string[];
+  found_item_images_redacted?: boolean;
   category?: ItemCategory;
   claimant_name?: string;
   otp_expires_at?: string;
   otp_verified?: boolean;
   // Dispute info
   dispute_reason?: string;
+  // The claim verified ahead of this one, when it was closed for it
+  superseded_by?: number | null;
+}
+
+export type TrustLevel = 'SUSPENDED' | 'RESTRICTED' | 'NEW' | 'ESTABLISHED' | 'TRUSTED';
+export type FraudRiskLevel = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+
+// A claim in a found item's queue, as its finder or cooperative sees it
+export interface ClaimQueueEntry {
+  rank: number;
+  claim_id: number;
+  claimant_id: number;
+  claimant_name: string;
+  lost_item_id: number;
+  lost_item_title: string;
+  status: ClaimStatus;
+  verification_score: number | null;
+  attempts_made: number;
+  superseded_by: number | null;
+  trust_score: number;
+  trust_level: TrustLevel;
+  fraud_risk: { score: number; level: FraudRiskLevel; factors: string[] };
+  created_at: string;
+}
+
+export interface ClaimQueue {
+  found_item_id: number;
+  // More than one claim holds on to the item
+  contested: boolean;
+  claims: ClaimQueueEntry[];
 }
 
 // Match
+export type MatchFeedbackVerdict = 'NOT_MINE' | 'LOOKS_RIGHT';
+
 export interface Match {
   found_item?: FoundItem;
   lost_item?: LostItem;
   score: number;
   explanation: string[];
+  profile_version?: number;
+  my_feedback?: MatchFeedbackVerdict | null;
 }
 
 // Message
@@ -174,10 +250,201 @@ export interface Cooperative {
   items_count?: number;
 }
 
+// Routes and vehicles registered by a cooperative
+export interface CooperativeRoute {
+  id: number;
+  cooperative_id: number;
+  name: string;
+  stops: string[];
+  is_active: boolean;
+  created_at: string;
+}
+
+export interface CooperativeVehicle {
+  id: number;
+  cooperative_id: number;
+  plate_number: string;
+  route_id?: number | null;
+  route_name?: string | null;
+  description?: string | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+// Transport fields shared by the lost and found report forms
+export interface TransportContextForm {
+  transport_cooperative_id?: number;
+  route_id?: number;
+  route_name?: string;
+  vehicle_plate?: string;
+  stop_sequence?: string[];
+}
+
+// Saved search / standing watch on new found items
+export type SavedSearchChannel = 'EMAIL' | 'IN_APP';
+
+export interface SavedSearch {
+  id: number;
+  name: string;
+  category?: ItemCategory | null;
+  location_area?: string | null;
+  keyword?: string | null;
+  date_from?: string | null;
+  date_to?: string | null;
+  channel: SavedSearchChannel;
+  is_active: boolean;
+  last_hit_at?: string | null;
+  unseen_hits?: number;
+  created_at: string;
+}
+
+export interface SavedSearchHit {
+  id: number;
+  found_item_id: number;
+  title: string;
+  category: ItemCategory;
+  location_area: string;
+  found_date: string;
+  status: FoundItemStatus;
+  image_urls: string[];
+  seen_at?: string | null;
+  created_at: string;
+}
+
+export interface SavedSearchForm {
+  name: string;
+  category?: ItemCategory | null;
+  location_area?: string | null;
+  keyword?: string | null;
+  date_from?: string | null;
+  date_to?: string | null;
+  channel?: SavedSearchChannel;
+}
+
+// Several items lost together ("my bag with my phone and ID")
+export interface LossIncidentItem {
+  id: number;
+  category: ItemCategory;
+  title: string;
+  status: LostItemStatus;
+  photo_url?: string | null;
+  best_match_score?: number | null;
+}
+
+export interface LossIncident {
+  id: number;
+  title: string;
+  description?: string | null;
+  location_area: string;
+  lost_date: string;
+  created_at: string;
+  items?: LossIncidentItem[];
+  item_count?: number;
+  open_items?: number;
+  categories?: ItemCategory[];
+}
+
+// Ranked full-text search
+export type SearchSort = 'relevance' | 'newest' | 'closest';
+
+// Matched words are wrapped in <mark></mark>
+export interface SearchHighlights {
+  title: string;
+  description: string | null;
+}
+
+export type RankedItem<T> = T & {
+  relevance: number;
+  distance: number | null;
+  highlights: SearchHighlights;
+};
+
+export interface RankedSearchParams extends Omit<ItemSearchParams, 'keyword' | 'page' | 'limit' | 'cursor'> {
+  q: string;
+  sort?: SearchSort;
+  near?: string;
+  page?: number | string;
+  limit?: number | string;
+}
+
+// Lost and found items searched together (GET /search)
+export interface UnifiedSearchParams {
+  q?: string;
+  type?: 'lost' | 'found';
+  sort?: SearchSort;
+  near?: string;
+  max_distance?: 0 | 1 | 2; // same area, adjacent, same district
+  category?: ItemCategory;
+  location_area?: string;
+  date_from?: string;
+  date_to?: string;
+  page?: number | string;
+  limit?: number | string;
+}
+
+export interface UnifiedSearchItem {
+  id: number;
+  item_type: 'lost' | 'found';
+  category: ItemCategory;
+  title: string;
+  description: string;
+  location_area: string;
+  item_date: string; // lost or found date
+  status: string;
+  image_urls: string[];
+  source: 'CITIZEN' | 'COOPERATIVE' | null;
+  posted_by: string;
+  cooperative_name: string | null;
+  relevance: number;
+  distance: number | null;
+  highlights: SearchHighlights | null;
+}
+
+// Filter counts returned with facets=true; each facet ignores its own filter
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface ItemFacets {
+  category: FacetCount[];
+  location_area: FacetCount[]; // lower-cased area names
+  status: FacetCount[];
+  date: FacetCount[]; // week start (Monday), YYYY-MM-DD
+}
+
+// How a verification answer is compared: "five" matches "5 cards" as a
+// NUMBER, "blue case tecno" matches "Tecno, blue case" as TOKENS
+export type AnswerType = 'TEXT' | 'NUMBER' | 'DATE' | 'COLOUR' | 'TOKENS';
+
+export const ANSWER_TYPES: Record<AnswerType, { label: string; hint: string }> = {
+  TEXT: { label: 'Exact text', hint: 'Your answer' },
+  NUMBER: { label: 'Number', hint: 'A number, e.g. 5 or 15,000' },
+  DATE: { label: 'Date or year', hint: 'A date or year, e.g. 2019 or 12 March 2019' },
+  COLOUR: { label: 'Colour', hint: 'A colour, e.g. dark blue' },
+  TOKENS: { label: 'A few words, any order', hint: 'A few words, in any order' },
+};
+
+// Where a claimant stands with verification: attempts left today (by trust
+// level) and any wait after failed attempts
+export interface VerificationCooldownStatus {
+  canAttempt: boolean;
+  cooldownUntil: string | null;
+  remainingSeconds: number;
+  attemptsToday: number;
+  failuresToday: number;
+  attemptLimit: number;
+  attemptsRemaining: number;
+  consecutiveFailures: number;
+  trustLevel: TrustLevel;
+  message: string;
+}
+
 // Verification Question
 export interface VerificationQuestion {
   question: string;
   answer: string;
+  answer_type?: AnswerType;
 }
 
 // API Response types
@@ -188,6 +455,14 @@ export interface ApiResponse<T = unknown> {
   errors?: Array<{ field: string; message: string }>;
 }
 
+// Response of the photo upload endpoints. possible_duplicates lists the
+// uploader's other reports that already have one of these photos.
+export interface ImageUploadResult {
+  id: number;
+  image_urls: string[];
+  possible_duplicates: Array<{ item_type: 'lost' | 'found'; item_id: number }>;
+}
+
 export interface PaginatedResponse<T> {
   success: boolean;
   data: T[];
@@ -196,6 +471,7 @@ export interface PaginatedResponse<T> {
     limit: number;
     total: number;
     totalPages: number;
+    nextCursor?: string | null;
   };
 }
 
@@ -211,24 +487,28 @@ export interface LoginResponse {
 }
 
 // Form types
-export interface CreateLostItemForm {
+export interface CreateLostItemForm extends TransportContextForm {
   category: ItemCategory;
   title: string;
   description: string;
   location_area: string;
   location_hint?: string;
   lost_date: string;
+  lost_window_start?: string;
+  lost_window_end?: string;
   photo_url?: string;
   verification_questions: VerificationQuestion[];
 }
 
-export interface CreateFoundItemForm {
+export interface CreateFoundItemForm extends TransportContextForm {
   category: ItemCategory;
   title: string;
   description: string;
   location_area: string;
   location_hint?: string;
   found_date: string;
+  found_window_start?: string;
+  found_window_end?: string;
   cooperative_id?: number;
 }
 
@@ -242,6 +522,8 @@ export interface ItemSearchParams {
   status?: string;
   page?: number;
   limit?: number;
+  cursor?: string;
+  facets?: boolean;
 }
 
 // Category info for UI
@@ -278,42 +560,77 @@ export const RWANDA_LOCATIONS = [
   'Rubavu', 'Muhanga', 'Rwamagana', 'Kayonza', 'Nyagatare'
 ];
 
-// Verification question templates
-export const QUESTION_TEMPLATES: Record<ItemCategory, string[]> = {
+// Facts a finder can note about the object when logging it; claimants are
+// asked for them and only the finder's answers, hashed, are kept
+export const HIDDEN_ATTRIBUTES: Record<ItemCategory, { key: string; label: string }[]> = {
+  [ItemCategory.PHONE]: [
+    { key: 'lockscreen', label: 'Lockscreen wallpaper' },
+    { key: 'case_colour', label: 'Case colour' },
+    { key: 'imei_last4', label: 'Last 4 digits of the IMEI (SIM tray or sticker)' },
+  ],
+  [ItemCategory.ID]: [
+    { key: 'id_last3', label: 'Last 3 characters of the ID number' },
+    { key: 'issuing_district', label: 'District that issued it' },
+    { key: 'issue_year', label: 'Year of issue' },
+  ],
+  [ItemCategory.WALLET]: [
+    { key: 'card_count', label: 'Number of cards inside' },
+    { key: 'interior_colour', label: 'Colour of the inside' },
+  ],
+  [ItemCategory.BAG]: [
+    { key: 'brand', label: 'Brand' },
+    { key: 'compartment_count', label: 'Number of compartments' },
+    { key: 'distinctive_mark', label: 'A sticker, mark or damage' },
+  ],
+  [ItemCategory.KEYS]: [
+    { key: 'key_count', label: 'Number of keys' },
+    { key: 'keychain', label: 'Keychain or attachment' },
+  ],
+  [ItemCategory.OTHER]: [
+    { key: 'distinctive_mark', label: 'A distinctive mark or feature' },
+  ],
+};
+
+// Owners set 2 to 7 questions; stronger questions weigh more when a claim is checked
+export const MIN_VERIFICATION_QUESTIONS = 2;
+export const MAX_VERIFICATION_QUESTIONS = 7;
+
+// Verification question templates, with the kind of answer each expects
+export const QUESTION_TEMPLATES: Record<ItemCategory, { question: string; answer_type: AnswerType }[]> = {
   [ItemCategory.PHONE]: [
-    'What is your lockscreen wallpaper?',
-    'How many apps are in your dock?',
-    'What music app is on your home screen?',
-    'What color is your phone case?',
-    'What are the last 4 digits of your IMEI?'
+    { question: 'What is your lockscreen wallpaper?', answer_type: 'TOKENS' },
+    { question: 'How many apps are in your dock?', answer_type: 'NUMBER' },
+    { question: 'What music app is on your home screen?', answer_type: 'TEXT' },
+    { question: 'What color is your phone case?', answer_type: 'COLOUR' },
+    { question: 'What are the last 4 digits of your IMEI?', answer_type: 'TEXT' }
   ],
   [ItemCategory.WALLET]: [
-    'How many cards are in the wallet?',
-    'What personal item is in the photo slot?',
-    'Approximately how much cash was inside?',
-    'What color is the inside of the wallet?',
-    'What bank cards are inside?'
+    { question: 'How many cards are in the wallet?', answer_type: 'NUMBER' },
+    { question: 'What personal item is in the photo slot?', answer_type: 'TOKENS' },
+    { question: 'Approximately how much cash was inside?', answer_type: 'NUMBER' },
+    { question: 'What color is the inside of the wallet?', answer_type: 'COLOUR' },
+    { question: 'What bank cards are inside?', answer_type: 'TOKENS' }
   ],
   [ItemCategory.ID]: [
-    'What are the last 4 characters of your ID number?',
-    'What district is shown on the ID?',
-    'What is your birth year on the ID?'
+    { question: 'What are the last 4 characters of your ID number?', answer_type: 'TEXT' },
+    { question: 'What district is shown on the ID?', answer_type: 'TEXT' },
+    { question: 'What is your birth year on the ID?', answer_type: 'DATE' }
   ],
   [ItemCategory.BAG]: [
-    'What brand is the bag?',
-    'What items were inside?',
-    'What distinctive marks or stickers are on it?',
-    'How many compartments does it have?'
+    { question: 'What brand is the bag?', answer_type: 'TEXT' },
+    { question: 'What items were inside?', answer_type: 'TOKENS' },
+    { question: 'What distinctive marks or stickers are on it?', answer_type: 'TOKENS' },
+    { question: 'How many compartments does it have?', answer_type: 'NUMBER' }
   ],
   [ItemCategory.KEYS]: [
-    'How many keys are on the keychain?',
-    'What does the keychain look like?',
-    'What brand is the car key?',
-    'Are there any distinctive items attached?'
+    { question: 'How many keys are on the keychain?', answer_type: 'NUMBER' },
+    { question: 'What does the keychain look like?', answer_type: 'TOKENS' },
+    { question: 'What brand is the car key?', answer_type: 'TEXT' },
+    { question: 'Are there any distinctive items attached?', answer_type: 'TOKENS' }
   ],
   [ItemCategory.OTHER]: [
-    'What unique features does it have?',
-    'What color is it?',
-    'What brand or make is it?'
+    { question: 'What unique features does it have?', answer_type: 'TOKENS' },
+    { question: 'What color is it?', answer_type: 'COLOUR' },
+    { question: 'What brand or make is it?', answer_type: 'TEXT' }
   ]
 };
\ No newline at end of file
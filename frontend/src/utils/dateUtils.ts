@@ -57,4 +57,25 @@ export const formatRelative = (dateString: string | null | undefined): string =>
   } catch {
     return 'Unknown';
   }
-};
\ No newline at end of file
+};
+/**
+ * Combine a report date with optional "from"/"to" clock times into a time
+ * window. A "to" earlier than "from" is taken to cross midnight.
+ */
+export const buildTimeWindow = (
+  date: string,
+  from: string,
+  to: string
+): { start: string; end: string } | null => {
+  if (!date || !from || !to) return null;
+  const start = new Date(`${date}T${from}`);
+  const end = new Date(`${date}T${to}`);
+  if (!isValid(start) || !isValid(end)) return null;
+  if (end < start) end.setDate(end.getDate() + 1);
+  return { start: start.toISOString(), end: end.toISOString() };
+};
+
+export const formatTimeWindow = (start: string | null | undefined, end: string | null | undefined): string | null => {
+  if (!start || !end) return null;
+  return `${formatDate(start, 'h:mm a')} – ${formatDate(end, 'h:mm a')}`;
+};
@@ -0,0 +1,14 @@
+const API_ORIGIN = import.meta.env.VITE_API_URL?.replace('/api/v1', '') || 'http://localhost:4000';
+
+export type ImageSize = 'thumb' | 'medium';
+
+/**
+ * Full URL of an uploaded photo. The API keeps a 320px thumbnail and a
+ * 1024px medium copy of each photo; ask for those in lists and cards.
+ * Private photos come with a signed query string, which is kept.
+ */
+export const imageUrl = (url: string, size?: ImageSize): string => {
+  const absolute = url.startsWith('http') ? url : `${API_ORIGIN}${url}`;
+  if (!size) return absolute;
+  return `${absolute}${absolute.includes('?') ? '&' : '?'}size=${size}`;
+};
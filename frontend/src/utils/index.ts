@@ -1 +1,2 @@
-export * from './dateUtils';
\ No newline at end of file
+export * from './dateUtils';
+export * from './imageUtils';